@@ -0,0 +1,30 @@
+-- Saved CSV column mappings ("import profiles"), one per bank export layout
+CREATE TABLE IF NOT EXISTS import_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    account_id UUID REFERENCES accounts(id) ON DELETE SET NULL, -- Default target account for this bank
+    delimiter VARCHAR(5) NOT NULL DEFAULT ',',
+
+    -- Zero-based column indexes into each data row
+    date_column INTEGER NOT NULL,
+    description_column INTEGER NOT NULL,
+    amount_column INTEGER,          -- Single signed amount column...
+    debit_column INTEGER,           -- ...or separate debit/credit columns
+    credit_column INTEGER,
+    reference_column INTEGER,       -- Bank reference used for de-duplication (optional)
+
+    date_format VARCHAR(20) NOT NULL DEFAULT 'DD/MM/YYYY',
+    invert_sign BOOLEAN NOT NULL DEFAULT false,
+    skip_header_rows INTEGER NOT NULL DEFAULT 1,
+    skip_footer_rows INTEGER NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, name),
+    CONSTRAINT chk_import_profile_amount CHECK (
+        amount_column IS NOT NULL OR (debit_column IS NOT NULL AND credit_column IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_user_id ON import_profiles(user_id);
@@ -0,0 +1,24 @@
+-- One row per import run (file upload, scraper export or external API call)
+CREATE TABLE IF NOT EXISTS import_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('upload', 'scraper', 'api')),
+    format VARCHAR(10),                 -- 'ofx', 'qif', 'csv' (NULL for API uploads)
+    file_name VARCHAR(255),
+    account_id UUID REFERENCES accounts(id) ON DELETE SET NULL, -- NULL when a file spans several accounts
+    connection_id UUID REFERENCES automated_connections(id) ON DELETE SET NULL,
+    inserted_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    invalid_count INTEGER NOT NULL DEFAULT 0,
+    rolled_back_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id, created_at DESC);
+
+-- Link each imported transaction to the batch that inserted it
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+-- Set when a user edits a transaction, so rolling back a batch doesn't silently discard their changes
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch_id ON transactions(import_batch_id);
@@ -0,0 +1,20 @@
+-- Likely duplicate pairs within an account (same amount, close dates, similar description),
+-- kept after review so the same pair is never flagged twice.
+CREATE TABLE IF NOT EXISTS duplicate_candidates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    -- Ordered pair (transaction_a_id < transaction_b_id). SET NULL so merge decisions survive the deleted row.
+    transaction_a_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    transaction_b_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    similarity NUMERIC(4, 3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'kept', 'dismissed')),
+    -- Provider ID of the row removed by a merge, so re-importing the same file doesn't bring it back
+    merged_provider_transaction_id VARCHAR(255),
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (transaction_a_id, transaction_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_user_status ON duplicate_candidates(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_merged_id ON duplicate_candidates(merged_provider_transaction_id);
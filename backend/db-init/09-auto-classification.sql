@@ -0,0 +1,2 @@
+-- Whether newly inserted transactions that no rule matched are also sent to the user's LLM integration
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_classify_llm BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,35 @@
+-- Rules were created outside these scripts; make sure the table exists before extending it
+CREATE TABLE IF NOT EXISTS transaction_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    match_type VARCHAR(20),             -- Deprecated, superseded by conditions
+    match_value VARCHAR(255),           -- Deprecated, superseded by conditions
+    conditions JSONB,
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Ordered list of what a matching rule does, e.g.
+-- [{"type": "set_description", "value": "Woolworths"}, {"type": "set_category", "value": "<uuid>"}, {"type": "continue"}]
+ALTER TABLE transaction_rules ADD COLUMN IF NOT EXISTS actions JSONB NOT NULL DEFAULT '[]';
+-- Rules that only rename, tag or mark transfers don't assign a category.
+-- category_id is kept in step with the set_category action for older clients.
+ALTER TABLE transaction_rules ALTER COLUMN category_id DROP NOT NULL;
+
+UPDATE transaction_rules
+SET actions = jsonb_build_array(jsonb_build_object('type', 'set_category', 'value', category_id))
+WHERE actions = '[]'::jsonb AND category_id IS NOT NULL;
+
+-- Targets for the new actions
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_id UUID;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS notes TEXT;
+-- The bank's description before a rule rewrote it; used when matching re-imports and duplicates
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS original_description VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON transactions(transfer_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_tags ON transactions USING GIN (tags);
@@ -0,0 +1,10 @@
+-- One row each time a rule is applied to a transaction, for hit statistics on the Rules page
+CREATE TABLE IF NOT EXISTS rule_matches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID NOT NULL REFERENCES transaction_rules(id) ON DELETE CASCADE,
+    -- SET NULL so deleting or merging a transaction doesn't rewrite a rule's history
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_matches_rule_id ON rule_matches(rule_id, matched_at DESC);
@@ -0,0 +1,33 @@
+-- Manual category changes, kept so repeated corrections of the same payee can become rules
+CREATE TABLE IF NOT EXISTS category_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    description VARCHAR(255) NOT NULL,   -- The bank's description, before any rule rewrote it
+    payee VARCHAR(255) NOT NULL,         -- The merchant, normalised from description
+    previous_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    -- The rule that had set the category the user replaced, if any
+    overridden_rule_id UUID REFERENCES transaction_rules(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_corrections_payee ON category_corrections(user_id, payee, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_category_corrections_rule ON category_corrections(overridden_rule_id);
+
+-- Rules proposed from corrections. Dismissed ones stay so the same proposal isn't made again.
+CREATE TABLE IF NOT EXISTS rule_suggestions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    payee VARCHAR(255) NOT NULL,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    correction_count INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+    rule_id UUID REFERENCES transaction_rules(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, payee, category_id)
+);
+
+-- How many consistent corrections it takes, and whether the rule is created without asking
+ALTER TABLE users ADD COLUMN IF NOT EXISTS rule_learning_threshold INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS rule_learning_auto_create BOOLEAN NOT NULL DEFAULT false;
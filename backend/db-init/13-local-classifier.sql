@@ -0,0 +1,4 @@
+-- Offline classifier trained on the user's own categorised transactions, run between rules and the LLM.
+-- Predictions below the confidence threshold are left for the LLM (or the user).
+ALTER TABLE users ADD COLUMN IF NOT EXISTS local_classifier_enabled BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS local_classifier_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.80;
@@ -0,0 +1,17 @@
+-- Where each transaction's category came from, and how sure the classifier was.
+-- category_source: 'rule', 'payee' (the payee's default category), 'local' (model trained on the user's history), 'llm' or 'manual'.
+-- NULL for categories set before this was tracked.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category_source VARCHAR(20);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category_rule_id UUID REFERENCES transaction_rules(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category_model VARCHAR(255); -- e.g. 'openai/gpt-4o'
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category_confidence NUMERIC(4, 3);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category_reviewed BOOLEAN NOT NULL DEFAULT false;
+
+-- Low-confidence results are held here for the user to accept or change instead of being applied
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS suggested_category_id UUID REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_needs_review
+    ON transactions(user_id) WHERE suggested_category_id IS NOT NULL;
+
+-- AI categorisations below this confidence go to the review queue
+ALTER TABLE users ADD COLUMN IF NOT EXISTS classification_review_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.70;
@@ -0,0 +1,25 @@
+-- Background classification runs over the user's whole uncategorised backlog
+CREATE TABLE IF NOT EXISTS classification_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued, running, completed, failed, cancelled
+    trigger VARCHAR(20) NOT NULL DEFAULT 'manual', -- manual (user asked) or auto (new transactions)
+    only_rules BOOLEAN NOT NULL DEFAULT false,
+    total INTEGER NOT NULL DEFAULT 0,              -- Uncategorised transactions when the job started
+    processed INTEGER NOT NULL DEFAULT 0,
+    classified_rules INTEGER NOT NULL DEFAULT 0,
+    classified_local INTEGER NOT NULL DEFAULT 0,
+    classified_ai INTEGER NOT NULL DEFAULT 0,
+    needs_review INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    cancel_requested BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_jobs_user ON classification_jobs(user_id, created_at DESC);
+
+-- When the LLM last answered for a transaction it left uncategorised. Automatic jobs skip these,
+-- so the same rows aren't sent to the paid provider after every import; a manual run retries them.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS classification_attempted_at TIMESTAMPTZ;
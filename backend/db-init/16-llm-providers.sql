@@ -0,0 +1,19 @@
+-- LLM integrations, one per provider per user
+CREATE TABLE IF NOT EXISTS llm_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL,
+    api_key TEXT,
+    model VARCHAR(255),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, provider)
+);
+
+-- Self-hosted servers (Ollama, llama.cpp, LM Studio...) don't need a key but do need an address
+ALTER TABLE llm_settings ALTER COLUMN api_key DROP NOT NULL;
+ALTER TABLE llm_settings ADD COLUMN IF NOT EXISTS base_url VARCHAR(255);
+
+-- Gemini now uses its native API; stored OpenAI-compatible URLs don't apply to it
+UPDATE llm_settings SET base_url = NULL WHERE provider = 'gemini';
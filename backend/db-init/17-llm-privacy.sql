@@ -0,0 +1,22 @@
+-- What's redacted from transactions before they're sent to an LLM
+ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_redact_numbers BOOLEAN NOT NULL DEFAULT true;  -- Card, account and reference numbers
+ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_redact_names BOOLEAN NOT NULL DEFAULT true;    -- Payees of transfers, titled names and llm_redact_terms
+ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_redact_terms TEXT[] NOT NULL DEFAULT '{}';     -- Extra words to mask, e.g. family names
+ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_amount_mode VARCHAR(10) NOT NULL DEFAULT 'exact'; -- exact, rounded or omit
+
+-- Every prompt sent to an LLM and what came back, so users can check what left the server
+CREATE TABLE IF NOT EXISTS llm_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose VARCHAR(30) NOT NULL,  -- classification, rule_suggestions, connection_test
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100),
+    system_prompt TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    response TEXT,                 -- NULL if the request failed
+    error TEXT,
+    duration_ms INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_audit_log_user ON llm_audit_log(user_id, created_at DESC);
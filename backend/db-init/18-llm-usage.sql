@@ -0,0 +1,29 @@
+-- Tokens used by each LLM request, from the provider's usage block, and what it's estimated to have cost
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    purpose VARCHAR(30) NOT NULL,  -- classification, rule_suggestions, connection_test
+    input_tokens INTEGER,          -- NULL if the server didn't report usage
+    output_tokens INTEGER,
+    cost NUMERIC(12, 6),           -- USD; NULL if there's no price for the model
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user ON llm_usage(user_id, created_at DESC);
+
+-- The user's own prices, overriding the built-in ones (USD per million tokens)
+CREATE TABLE IF NOT EXISTS llm_prices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    input_per_million NUMERIC(10, 4) NOT NULL,
+    output_per_million NUMERIC(10, 4) NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(user_id, provider, model)
+);
+
+-- AI stops being used for the rest of the month once estimated spend reaches this (USD). NULL for no cap.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS llm_monthly_cap NUMERIC(10, 2);
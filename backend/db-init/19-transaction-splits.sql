@@ -0,0 +1,48 @@
+-- Split transactions: one charge shared across several categories. The parent keeps its amount
+-- (so balances are unaffected) and its lines, which must sum to it, carry the categories.
+CREATE TABLE IF NOT EXISTS transaction_splits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    amount NUMERIC(15, 2) NOT NULL,
+    memo TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits(transaction_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_category ON transaction_splits(category_id);
+
+-- Split parents keep the category of their largest line in category_id, for display and so
+-- they aren't treated as uncategorised
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS is_split BOOLEAN NOT NULL DEFAULT false;
+
+-- What budgets and reports aggregate by category: each unsplit transaction, and each line of a split one
+CREATE OR REPLACE VIEW transaction_lines AS
+SELECT
+    t.id AS transaction_id,
+    NULL::uuid AS split_id,
+    t.user_id,
+    t.account_id,
+    t.date,
+    t.amount,
+    t.category_id,
+    t.is_transfer,
+    NULL::text AS memo
+FROM transactions t
+WHERE t.is_split = false
+UNION ALL
+SELECT
+    t.id AS transaction_id,
+    s.id AS split_id,
+    t.user_id,
+    t.account_id,
+    t.date,
+    s.amount,
+    s.category_id,
+    t.is_transfer,
+    s.memo
+FROM transaction_splits s
+JOIN transactions t ON t.id = s.transaction_id
+WHERE t.is_split = true;
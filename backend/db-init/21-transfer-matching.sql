@@ -0,0 +1,19 @@
+-- Pairs of transactions in different accounts that look like two sides of one transfer
+-- (opposite amounts, close dates). Unambiguous pairs are linked straight away and recorded as
+-- 'linked'; the rest wait for review. Kept after review so the matcher never re-suggests a
+-- pair the user dismissed or unlinked.
+CREATE TABLE IF NOT EXISTS transfer_candidates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    outflow_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    inflow_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    day_gap INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'linked', 'dismissed')),
+    auto_linked BOOLEAN NOT NULL DEFAULT false,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (outflow_id, inflow_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_candidates_user_status ON transfer_candidates(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_transfer_candidates_inflow ON transfer_candidates(inflow_id);
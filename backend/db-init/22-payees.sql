@@ -0,0 +1,31 @@
+-- Payees: the merchant behind the many raw bank descriptions it appears under. Transactions are
+-- linked on import by alias: 'exact' aliases hold a normalised description (see normalizePayee),
+-- 'contains' and 'regex' aliases are user-written patterns over the raw description.
+CREATE TABLE IF NOT EXISTS payees (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    default_category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    logo_url TEXT,
+    color VARCHAR(7), -- #rrggbb
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS payee_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payee_id UUID NOT NULL REFERENCES payees(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    match_type VARCHAR(20) NOT NULL DEFAULT 'exact' CHECK (match_type IN ('exact', 'contains', 'regex')),
+    pattern TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- One payee per alias, so a description can't match two payees the same way
+    UNIQUE (user_id, match_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payee_aliases_payee ON payee_aliases(payee_id);
+
+-- Transactions categorised from their payee's default category get category_source 'payee'
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payee_id UUID REFERENCES payees(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_payee ON transactions(payee_id);
@@ -0,0 +1,38 @@
+-- Recurring transactions found by RecurringService: subscriptions, bills and income paid to or by the
+-- same payee at a regular cadence. Rebuilt on each detection run; a series keeps its id while its
+-- first transaction stays the same.
+CREATE TABLE IF NOT EXISTS recurring_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    payee_id UUID NOT NULL REFERENCES payees(id) ON DELETE CASCADE,
+    account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+    category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    first_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    cadence VARCHAR(20) NOT NULL CHECK (cadence IN ('weekly', 'fortnightly', 'monthly', 'quarterly', 'annual')),
+    expected_amount NUMERIC(15, 2) NOT NULL,   -- Negative for money going out
+    previous_amount NUMERIC(15, 2),            -- The amount before the latest, when it changed
+    price_increased BOOLEAN NOT NULL DEFAULT false,
+    occurrences INTEGER NOT NULL,
+    first_date DATE NOT NULL,
+    last_date DATE NOT NULL,
+    next_expected_date DATE NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, first_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_series_user ON recurring_series(user_id, next_expected_date);
+
+-- Series the user says aren't recurring. Kept apart from recurring_series, by what a series is
+-- rather than by its transactions, so re-detection after older history is imported or the first
+-- payment is deleted still finds them dismissed.
+CREATE TABLE IF NOT EXISTS recurring_dismissals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    payee_id UUID NOT NULL REFERENCES payees(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    cadence VARCHAR(20) NOT NULL CHECK (cadence IN ('weekly', 'fortnightly', 'monthly', 'quarterly', 'annual')),
+    direction VARCHAR(3) NOT NULL CHECK (direction IN ('in', 'out')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, payee_id, account_id, cadence, direction)
+);
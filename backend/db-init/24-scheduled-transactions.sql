@@ -0,0 +1,29 @@
+-- Known future items (rent, salary, premiums, loan repayments) entered by the user with a
+-- recurrence rule: every interval_count weeks/fortnights/months/quarters/years from start_date,
+-- or once. next_due_date is the earliest occurrence not yet posted, matched to an import or
+-- skipped; NULL once the schedule has run its course.
+CREATE TABLE IF NOT EXISTS scheduled_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    payee_id UUID REFERENCES payees(id) ON DELETE SET NULL,
+    description VARCHAR(255) NOT NULL,
+    amount NUMERIC(15, 2) NOT NULL,   -- Negative for money going out
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('once', 'weekly', 'fortnightly', 'monthly', 'quarterly', 'annual')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    next_due_date DATE,
+    -- Insert a pending transaction on each due date, for imports to replace when they arrive
+    auto_post BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transactions_due ON scheduled_transactions(next_due_date) WHERE is_active = true;
+
+-- The schedule a transaction was posted from or reconciled with
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS scheduled_transaction_id UUID REFERENCES scheduled_transactions(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_scheduled ON transactions(scheduled_transaction_id);
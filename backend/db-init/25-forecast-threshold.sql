@@ -0,0 +1,3 @@
+-- The cash-flow forecast flags the first date an account is projected to drop below this balance,
+-- as well as below zero. NULL flags below zero only.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS forecast_low_balance_threshold NUMERIC(15, 2);
@@ -23,8 +23,15 @@ const externalRoutes = require("./routes/external");
 const classificationRoutes = require("./routes/classification");
 const integrationRoutes = require("./routes/integrations");
 const rulesRoutes = require("./routes/rules");
+const duplicateRoutes = require("./routes/duplicates");
+const transferRoutes = require("./routes/transfers");
+const payeeRoutes = require("./routes/payees");
+const recurringRoutes = require("./routes/recurring");
+const scheduledRoutes = require("./routes/scheduled");
 import scraperRoutes from "./routes/scrapers";
 import { startScheduler } from "./services/scraperWorker";
+import { ClassificationJobService } from "./services/classificationJobService";
+import { startSchedulePosting } from "./services/scheduledTransactionService";
 
 // Configure dotenv to read .env file
 dotenv.config();
@@ -70,6 +77,11 @@ app.use("/api/scrapers", scraperRoutes);
 app.use("/api/classification", classificationRoutes);
 app.use("/api/integrations", integrationRoutes);
 app.use("/api/rules", rulesRoutes);
+app.use("/api/duplicates", duplicateRoutes);
+app.use("/api/transfers", transferRoutes);
+app.use("/api/payees", payeeRoutes);
+app.use("/api/recurring", recurringRoutes);
+app.use("/api/scheduled", scheduledRoutes);
 
 // A simple root route to confirm the server is running
 app.get("/", (req: Request, res: Response) => {
@@ -107,4 +119,11 @@ app.listen(port, "0.0.0.0", () => {
 
     // Start background scraper scheduler
     startScheduler();
+
+    // Post scheduled transactions as they fall due
+    startSchedulePosting();
+
+    new ClassificationJobService().failInterruptedJobs().catch((err: any) => {
+        console.error("Failed to clean up classification jobs:", err);
+    });
 });
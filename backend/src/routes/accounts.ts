@@ -3,6 +3,13 @@ import { Request, Response } from "express";
 const router = express.Router();
 const { query } = require("../db");
 const auth = require("../middleware/auth");
+const { AttachmentService } = require("../services/attachmentService");
+const { ScheduledTransactionService } = require("../services/scheduledTransactionService");
+const { applyLoanInterest } = require("../services/loanInterest");
+const { addDays, format } = require("date-fns");
+
+const attachmentService = new AttachmentService();
+const scheduledTransactionService = new ScheduledTransactionService();
 
 router.use(auth);
 
@@ -135,12 +142,14 @@ router.get("/:id", async (req: any, res: Response) => {
 
 /**
  * @route   GET /api/accounts/:id/transactions
- * @desc    Get all transactions for a specific account
+ * @desc    Get all transactions for a specific account. With projectedDays, scheduled transactions due
+ *          in that many days come first as projected rows.
  * @access  Public
  */
 router.get("/:id/transactions", async (req: any, res: Response) => {
     const { id } = req.params;
     const limit = req.query.limit || 10; // Default to 10 transactions
+    const projectedDays = parseInt(req.query.projectedDays as string) || 0;
 
     try {
         const sql = `
@@ -153,7 +162,8 @@ router.get("/:id/transactions", async (req: any, res: Response) => {
                 a.name as account,
                 c.name as category,
                 t.category_id,
-                t.account_id
+                t.account_id,
+                t.scheduled_transaction_id
             FROM transactions t
             JOIN accounts a ON t.account_id = a.id
             LEFT JOIN categories c ON t.category_id = c.id
@@ -162,7 +172,26 @@ router.get("/:id/transactions", async (req: any, res: Response) => {
             LIMIT $3;
         `;
         const { rows } = await query(sql, [id, (req as any).user.id, limit]);
-        res.json(rows);
+        if (projectedDays <= 0) return res.json(rows);
+
+        // Newest first, like the rest of the register
+        const until = format(addDays(new Date(), projectedDays), "yyyy-MM-dd");
+        const projected = (await scheduledTransactionService.getProjected(req.user.id, until, id))
+            .reverse()
+            .map((p: any) => ({
+                id: `scheduled:${p.scheduled_transaction_id}:${p.date}`,
+                date: p.date,
+                description: p.description,
+                amount: p.amount,
+                status: "pending",
+                category: p.category,
+                category_id: p.category_id,
+                account_id: p.account_id,
+                scheduled_transaction_id: p.scheduled_transaction_id,
+                projected: true,
+                overdue: p.overdue,
+            }));
+        res.json([...projected, ...rows]);
     } catch (err: any) {
         console.error(`Error fetching transactions for account ${id}:`, err);
         res.status(500).json({ error: "Internal Server Error" });
@@ -306,6 +335,11 @@ router.patch("/:id", async (req: any, res: Response) => {
 router.delete("/:id/transactions", async (req: any, res: Response) => {
     const { id } = req.params;
     try {
+        const { rows: removed } = await query(
+            "SELECT id FROM transactions WHERE account_id = $1 AND user_id = $2",
+            [id, (req as any).user.id],
+        );
+        await attachmentService.deleteForTransactions((req as any).user.id, removed.map((r: any) => r.id));
         const { rowCount } = await query(
             "DELETE FROM transactions WHERE account_id = $1 AND user_id = $2",
             [id, (req as any).user.id],
@@ -510,82 +544,4 @@ router.post("/:id/recalculate-interest", async (req: any, res: Response) => {
     }
 });
 
-/**
- * Helper to apply interest to loan accounts
- */
-async function applyLoanInterest(accounts: any[], userId: string) {
-    const processedAccounts = [...accounts];
-    const today = new Date();
-    // Use UTC for consistent month boundaries
-    const todayUtc = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
-
-    for (let i = 0; i < processedAccounts.length; i++) {
-        const account = processedAccounts[i];
-
-        if (account.type === 'loan' && parseFloat(account.interest_rate) > 0 && account.interest_start_date) {
-            let lastApplied = account.last_interest_applied_at
-                ? new Date(account.last_interest_applied_at)
-                : new Date(account.interest_start_date);
-
-            // Ensure we are working with UTC dates and start at the beginning of the next month
-            let currentMonth = new Date(Date.UTC(lastApplied.getUTCFullYear(), lastApplied.getUTCMonth() + 1, 1));
-
-            let addedInterest = 0;
-            let lastAppliedDateStr = account.last_interest_applied_at;
-            while (currentMonth <= todayUtc) {
-                const dateStr = currentMonth.toISOString().split('T')[0];
-                const fitId = `interest-${account.id}-${dateStr}`;
-
-                // Calculate interest for this month based on the balance BEFORE this month's interest
-                // For 'simple' interest, we use the original starting balance
-                // For 'compound' interest, we use the total balance so far
-                const baseBalanceForCalculation = account.interest_type === 'simple'
-                    ? parseFloat(account.starting_balance)
-                    : (parseFloat(account.balance) + addedInterest);
-
-                const monthlyInterest = Math.round(Math.abs(baseBalanceForCalculation) * (parseFloat(account.interest_rate) / 100 / 12) * 100) / 100;
-
-                if (monthlyInterest > 0) {
-                    try {
-                        const existing = await query(
-                            "SELECT id FROM transactions WHERE account_id = $1 AND provider_transaction_id = $2",
-                            [account.id, fitId]
-                        );
-
-                        if (existing.rows.length === 0) {
-                            await query(
-                                `INSERT INTO transactions 
-                                (account_id, provider_transaction_id, date, description, amount, status, user_id)
-                                VALUES ($1, $2, $3, $4, $5, 'cleared', $6)`,
-                                [account.id, fitId, dateStr, "Interest Charge", -monthlyInterest, userId]
-                            );
-                            addedInterest -= monthlyInterest;
-                        }
-
-                        // Mark this month as successfully verified/applied
-                        lastAppliedDateStr = dateStr;
-                    } catch (err) {
-                        console.error(`Error applying interest for ${account.name} on ${dateStr}:`, err);
-                        break;
-                    }
-                }
-
-                currentMonth.setUTCMonth(currentMonth.getUTCMonth() + 1);
-            }
-
-            if (lastAppliedDateStr && lastAppliedDateStr !== account.last_interest_applied_at) {
-                await query(
-                    "UPDATE accounts SET last_interest_applied_at = $1 WHERE id = $2",
-                    [lastAppliedDateStr, account.id]
-                );
-                account.last_interest_applied_at = lastAppliedDateStr;
-                // Update the balance in the returned object to include the newly added interest
-                account.balance = (parseFloat(account.balance) + addedInterest).toFixed(2);
-            }
-        }
-    }
-
-    return processedAccounts;
-}
-
 module.exports = router;
@@ -102,7 +102,7 @@ router.get("/report", async (req: any, res: Response) => {
                 SELECT
                     t.category_id,
                     SUM(t.amount) as actual_amount
-                FROM transactions t
+                FROM transaction_lines t
                 JOIN accounts a ON t.account_id = a.id
                 WHERE t.date >= $1 AND t.date <= $2
                   AND a.include_in_budget = true
@@ -160,7 +160,7 @@ router.get("/summary", async (req: any, res: Response) => {
                 SELECT
                     t.category_id,
                     SUM(t.amount) as total_actual
-                FROM transactions t
+                FROM transaction_lines t
                 JOIN accounts a ON t.account_id = a.id
                 WHERE t.date >= $1
                   AND a.include_in_budget = true
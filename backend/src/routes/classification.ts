@@ -1,7 +1,7 @@
 import express = require("express");
 import type { Request, Response } from "express";
 import { ClassificationService } from "../services/classificationService";
-import { query } from "../db";
+import { ClassificationJobService } from "../services/classificationJobService";
 
 const router = express.Router();
 const auth = require("../middleware/auth");
@@ -10,78 +10,107 @@ const auth = require("../middleware/auth");
 router.use(auth);
 
 const classificationService = new ClassificationService();
-
-const providerUrls: { [key: string]: string } = {
-    openai: 'https://api.openai.com/v1',
-    gemini: 'https://generativelanguage.googleapis.com/v1beta/openai',
-};
-
-const defaultModels: { [key: string]: string } = {
-    openai: 'gpt-4o',
-    gemini: 'gemini-1.5-flash',
-};
+const classificationJobService = new ClassificationJobService();
 
 /**
  * @route   POST /api/classification/auto-classify
- * @desc    Triggers LLM-based classification for uncategorized transactions
+ * @desc    Starts a background job classifying the whole uncategorized backlog (rules, local model, then LLM)
  * @access  Private
  */
 router.post("/auto-classify", async (req: any, res: Response) => {
     try {
-        let { apiKey, baseUrl, model, provider, onlyRules } = req.body;
+        const { onlyRules } = req.body;
+        const job = await classificationJobService.startJob(req.user.id, { onlyRules: !!onlyRules, trigger: "manual" });
+        res.status(202).json(job);
+    } catch (error: any) {
+        console.error("Classification Route Error:", error);
+        res.status(500).json({ error: error.message || "Internal Server Error" });
+    }
+});
 
-        // If no API Key provided, fetch from Integrations settings
-        if (!apiKey) {
-            let rows;
+/**
+ * @route   GET /api/classification/jobs
+ * @desc    The user's most recent classification jobs
+ * @access  Private
+ */
+router.get("/jobs", async (req: any, res: Response) => {
+    try {
+        res.json(await classificationJobService.getJobs(req.user.id));
+    } catch (error: any) {
+        console.error("Fetch Classification Jobs Error:", error);
+        res.status(500).json({ error: error.message || "Internal Server Error" });
+    }
+});
 
-            if (provider) {
-                const sql = `
-                    SELECT api_key, model, provider 
-                    FROM llm_settings 
-                    WHERE user_id = $1 AND provider = $2 AND is_active = true
-                `;
-                const res = await query(sql, [req.user.id, provider]);
-                rows = res.rows;
-            } else {
-                // Determine provider automatically
-                const sql = `
-                    SELECT api_key, model, provider 
-                    FROM llm_settings 
-                    WHERE user_id = $1 AND is_active = true
-                    ORDER BY updated_at DESC
-                    LIMIT 1
-                `;
-                const res = await query(sql, [req.user.id]);
-                rows = res.rows;
-            }
+/**
+ * @route   GET /api/classification/jobs/:id
+ * @desc    Progress of a classification job
+ * @access  Private
+ */
+router.get("/jobs/:id", async (req: any, res: Response) => {
+    try {
+        const job = await classificationJobService.getJob(req.user.id, req.params.id);
+        if (!job) return res.status(404).json({ error: "Job not found" });
+        res.json(job);
+    } catch (error: any) {
+        console.error("Fetch Classification Job Error:", error);
+        res.status(500).json({ error: error.message || "Internal Server Error" });
+    }
+});
 
-            if (rows.length > 0) {
-                apiKey = rows[0].api_key;
-                // Use stored model if not overridden by request
-                if (!model) model = rows[0].model;
-                // Update provider to match what we found
-                provider = rows[0].provider;
-            }
-        }
+/**
+ * @route   POST /api/classification/jobs/:id/cancel
+ * @desc    Stops a classification job after the batch it's working on
+ * @access  Private
+ */
+router.post("/jobs/:id/cancel", async (req: any, res: Response) => {
+    try {
+        const cancelled = await classificationJobService.cancelJob(req.user.id, req.params.id);
+        if (!cancelled) return res.status(404).json({ error: "No active job found" });
+        res.json({ message: "Cancellation requested" });
+    } catch (error: any) {
+        console.error("Cancel Classification Job Error:", error);
+        res.status(500).json({ error: error.message || "Internal Server Error" });
+    }
+});
 
-        // Set Defaults based on Provider
-        const currentProvider = provider || 'openai';
-        if (!baseUrl) {
-            baseUrl = providerUrls[currentProvider] || providerUrls['openai'];
-        }
-        if (!model) {
-            model = defaultModels[currentProvider] || 'gpt-4o';
-        }
+/**
+ * @route   POST /api/classification/review/accept
+ * @desc    Accepts automatic or suggested categories for the given transactions
+ * @access  Private
+ */
+router.post("/review/accept", async (req: any, res: Response) => {
+    const { transactionIds } = req.body;
+    if (!Array.isArray(transactionIds) || transactionIds.length === 0) {
+        return res.status(400).json({ error: "No transaction IDs provided" });
+    }
 
-        // Note: We no longer block if apiKey is missing. 
-        // We proceed to Service which will run Rules and skip AI if no key.
+    try {
+        const updated = await classificationService.acceptReview(req.user.id, transactionIds);
+        res.json({ message: `Accepted ${updated.length} categories`, updated });
+    } catch (error: any) {
+        console.error("Accept Review Error:", error);
+        res.status(500).json({ error: error.message || "Internal Server Error" });
+    }
+});
 
+/**
+ * @route   POST /api/classification/review/:id/change
+ * @desc    Replaces an automatic or suggested category with the user's choice
+ * @access  Private
+ */
+router.post("/review/:id/change", async (req: any, res: Response) => {
+    const { categoryId } = req.body;
+    if (!categoryId) {
+        return res.status(400).json({ error: "categoryId is required" });
+    }
 
-        // Limit to 50 items per batch to prevent timeout/rate limits
-        const result = await classificationService.classifyUncategorized(apiKey, baseUrl, model, req.user.id, onlyRules);
-        res.json(result);
+    try {
+        const updated = await classificationService.changeReview(req.user.id, req.params.id, categoryId);
+        if (!updated) return res.status(404).json({ error: "Transaction not found" });
+        res.json(updated);
     } catch (error: any) {
-        console.error("Classification Route Error:", error);
+        console.error("Change Review Error:", error);
         res.status(500).json({ error: error.message || "Internal Server Error" });
     }
 });
@@ -93,47 +122,9 @@ router.post("/auto-classify", async (req: any, res: Response) => {
  */
 router.post("/suggest-rules", async (req: any, res: Response) => {
     try {
-        let { apiKey, baseUrl, model, provider } = req.body;
-
-        // If no API Key provided, fetch from Integrations settings
-        if (!apiKey) {
-            let rows;
-            if (provider) {
-                const sql = `
-                    SELECT api_key, model, provider 
-                    FROM llm_settings 
-                    WHERE user_id = $1 AND provider = $2 AND is_active = true
-                `;
-                const res = await query(sql, [req.user.id, provider]);
-                rows = res.rows;
-            } else {
-                const sql = `
-                    SELECT api_key, model, provider 
-                    FROM llm_settings 
-                    WHERE user_id = $1 AND is_active = true
-                    ORDER BY updated_at DESC
-                    LIMIT 1
-                `;
-                const res = await query(sql, [req.user.id]);
-                rows = res.rows;
-            }
-
-            if (rows.length > 0) {
-                apiKey = rows[0].api_key;
-                if (!model) model = rows[0].model;
-                provider = rows[0].provider;
-            }
-        }
-
-        const currentProvider = provider || 'openai';
-        if (!baseUrl) {
-            baseUrl = providerUrls[currentProvider] || providerUrls['openai'];
-        }
-        if (!model) {
-            model = defaultModels[currentProvider] || 'gpt-4o';
-        }
-
-        const result = await classificationService.suggestRules(apiKey, baseUrl, model, req.user.id);
+        // Uses the requested integration, or the most recently updated one
+        const llm = await classificationService.getLlmConfig(req.user.id, req.body.provider);
+        const result = await classificationService.suggestRules(req.user.id, llm);
         res.json(result);
     } catch (error: any) {
         console.error("Suggest Rules Error:", error);
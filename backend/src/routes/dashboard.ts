@@ -69,7 +69,7 @@ async function getSummary(startDate: string, endDate: string, userId: string) {
     const sql = `
         WITH total_actuals AS (
             SELECT SUM(t.amount) as total_actual
-            FROM transactions t
+            FROM transaction_lines t
             JOIN accounts a ON t.account_id = a.id
             WHERE t.date >= $1 AND t.date <= $2
               AND a.include_in_budget = true
@@ -164,7 +164,7 @@ async function getCategoryVariance(startDate: string, endDate: string, userId: s
     const sql = `
         WITH range_actuals AS (
             SELECT category_id, SUM(amount) as actual
-            FROM transactions t
+            FROM transaction_lines t
             JOIN accounts a ON t.account_id = a.id
             WHERE t.date >= $1 AND t.date <= $2
             AND a.include_in_budget = true
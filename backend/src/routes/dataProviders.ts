@@ -5,6 +5,13 @@ const { query, pool } = require("../db");
 const createSissClient = require("../sissClient");
 const { encrypt, decrypt } = require("../lib/encryption");
 const auth = require("../middleware/auth");
+const { ClassificationService } = require("../services/classificationService");
+const { PayeeService } = require("../services/payeeService");
+const { ScheduledTransactionService } = require("../services/scheduledTransactionService");
+
+const classificationService = new ClassificationService();
+const payeeService = new PayeeService();
+const scheduledTransactionService = new ScheduledTransactionService();
 
 // Apply auth middleware to all routes
 router.use(auth);
@@ -234,6 +241,9 @@ router.post("/connections/:id/sync", async (req: any, res: Response) => {
 
         const { customer_id, provider_slug } = connection;
 
+        // IDs of newly inserted transactions, categorised once the sync commits
+        const insertedIds: string[] = [];
+
         // Step 2: Begin a database transaction
         console.log("Beginning database transaction...");
         await client.query("BEGIN");
@@ -291,7 +301,8 @@ router.post("/connections/:id/sync", async (req: any, res: Response) => {
                     const upsertTransactionSql = `
                         INSERT INTO transactions (account_id, provider_transaction_id, date, description, amount, status, user_id)
                         VALUES ($1, $2, $3, $4, $5, $6, $7)
-                        ON CONFLICT (provider_transaction_id) DO NOTHING;
+                        ON CONFLICT (provider_transaction_id) DO NOTHING
+                        RETURNING id;
                     `;
                     const result = await client.query(upsertTransactionSql, [
                         ourAccountId,
@@ -304,6 +315,7 @@ router.post("/connections/:id/sync", async (req: any, res: Response) => {
                     ]);
                     if (result.rowCount > 0) {
                         upsertedCount++;
+                        insertedIds.push(result.rows[0].id);
                     }
                 }
                 console.log(
@@ -332,6 +344,11 @@ router.post("/connections/:id/sync", async (req: any, res: Response) => {
         console.log("Committing database transaction...");
         await client.query("COMMIT");
 
+        // Step 6: Link payees, apply rules and reconcile scheduled transactions
+        await payeeService.linkNewTransactions(req.user.id, insertedIds);
+        await classificationService.classifyNewTransactions(req.user.id, insertedIds);
+        await scheduledTransactionService.reconcileNewTransactions(req.user.id, insertedIds);
+
         console.log(
             `Sync for connection ${connectionId} completed successfully.`,
         );
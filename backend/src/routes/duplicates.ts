@@ -0,0 +1,102 @@
+import express = require("express");
+import type { Response } from "express";
+import { DuplicateService } from "../services/duplicateService";
+
+const router = express.Router();
+const auth = require("../middleware/auth");
+
+router.use(auth);
+
+const duplicateService = new DuplicateService();
+
+/**
+ * @route   GET /api/duplicates
+ * @desc    List likely duplicate pairs awaiting review
+ * @access  Private
+ */
+router.get("/", async (req: any, res: Response) => {
+    try {
+        const candidates = await duplicateService.getPending(req.user.id);
+        res.json(candidates);
+    } catch (err: any) {
+        console.error("Error fetching duplicate candidates:", err);
+        res.status(500).json({ error: "Failed to fetch duplicates" });
+    }
+});
+
+/**
+ * @route   POST /api/duplicates/scan
+ * @desc    Look for duplicates across all accounts (or one, with accountId)
+ * @access  Private
+ */
+router.post("/scan", async (req: any, res: Response) => {
+    try {
+        const flagged = await duplicateService.detect(req.user.id, { accountId: req.body.accountId });
+        res.json({ message: `Found ${flagged} new possible duplicates`, flagged });
+    } catch (err: any) {
+        console.error("Error scanning for duplicates:", err);
+        res.status(500).json({ error: "Failed to scan for duplicates" });
+    }
+});
+
+/**
+ * @route   POST /api/duplicates/:id/merge
+ * @desc    Keep one transaction of the pair (keep_id) and delete the other
+ * @access  Private
+ */
+router.post("/:id/merge", async (req: any, res: Response) => {
+    try {
+        const candidate = await duplicateService.getCandidate(req.user.id, req.params.id);
+        if (!candidate) return res.status(404).json({ error: "Duplicate not found" });
+
+        const keepId = req.body.keep_id;
+        if (keepId !== candidate.transaction_a_id && keepId !== candidate.transaction_b_id) {
+            return res.status(400).json({ error: "keep_id must be one of the two transactions" });
+        }
+
+        const merged = await duplicateService.merge(req.user.id, candidate, keepId);
+        if (!merged) return res.status(409).json({ error: "This duplicate has already been resolved" });
+        res.json({ message: "Transactions merged" });
+    } catch (err: any) {
+        console.error("Error merging duplicates:", err);
+        res.status(500).json({ error: "Failed to merge transactions" });
+    }
+});
+
+/**
+ * @route   POST /api/duplicates/:id/keep
+ * @desc    Both transactions are real; keep both and stop flagging the pair
+ * @access  Private
+ */
+router.post("/:id/keep", async (req: any, res: Response) => {
+    try {
+        const candidate = await duplicateService.getCandidate(req.user.id, req.params.id);
+        if (!candidate) return res.status(404).json({ error: "Duplicate not found" });
+
+        await duplicateService.resolve(req.user.id, candidate.id, "kept");
+        res.json({ message: "Kept both transactions" });
+    } catch (err: any) {
+        console.error("Error resolving duplicate:", err);
+        res.status(500).json({ error: "Failed to update duplicate" });
+    }
+});
+
+/**
+ * @route   POST /api/duplicates/:id/dismiss
+ * @desc    Not a duplicate; hide the pair without further action
+ * @access  Private
+ */
+router.post("/:id/dismiss", async (req: any, res: Response) => {
+    try {
+        const candidate = await duplicateService.getCandidate(req.user.id, req.params.id);
+        if (!candidate) return res.status(404).json({ error: "Duplicate not found" });
+
+        await duplicateService.resolve(req.user.id, candidate.id, "dismissed");
+        res.json({ message: "Dismissed" });
+    } catch (err: any) {
+        console.error("Error resolving duplicate:", err);
+        res.status(500).json({ error: "Failed to update duplicate" });
+    }
+});
+
+module.exports = router;
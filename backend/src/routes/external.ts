@@ -2,8 +2,22 @@ import express = require("express");
 import type { Response } from "express";
 const { query } = require("../db");
 const auth = require("../middleware/auth");
+import { ImportBatchService } from "../services/importBatchService";
+import { DuplicateService } from "../services/duplicateService";
+import { TransferMatchService } from "../services/transferMatchService";
+import { PayeeService } from "../services/payeeService";
+import { RecurringService } from "../services/recurringService";
+import { ScheduledTransactionService } from "../services/scheduledTransactionService";
+import { ClassificationService } from "../services/classificationService";
 
 const router = express.Router();
+const importBatchService = new ImportBatchService();
+const duplicateService = new DuplicateService();
+const transferMatchService = new TransferMatchService();
+const payeeService = new PayeeService();
+const recurringService = new RecurringService();
+const scheduledTransactionService = new ScheduledTransactionService();
+const classificationService = new ClassificationService();
 
 // All external routes require authentication (works with JWT or API Key)
 router.use(auth);
@@ -64,6 +78,9 @@ router.post("/transactions", async (req: any, res: Response) => {
     const categoryCache = new Map();
 
     try {
+        // Each upload is recorded as an import batch so it can be reviewed or rolled back
+        const batch = await importBatchService.createBatch(userId, { source: "api" });
+
         for (let i = 0; i < transactions.length; i++) {
             const txn = transactions[i];
             let { account_id, account_name, category_id, category_name, date, description, amount, status } = txn;
@@ -113,8 +130,8 @@ router.post("/transactions", async (req: any, res: Response) => {
             // Insert Transaction
             try {
                 const insertSql = `
-                    INSERT INTO transactions (account_id, category_id, date, description, amount, status, user_id)
-                    VALUES ($1, $2, $3, $4, $5, $6, $7)
+                    INSERT INTO transactions (account_id, category_id, date, description, amount, status, user_id, import_batch_id)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
                     RETURNING *
                 `;
                 const { rows } = await query(insertSql, [
@@ -124,7 +141,8 @@ router.post("/transactions", async (req: any, res: Response) => {
                     description,
                     amount,
                     status || "cleared", // Default to cleared for API uploads? Or pending? Frontend defaults to pending.
-                    userId
+                    userId,
+                    batch.id
                 ]);
                 results.push(rows[0]);
             } catch (err: any) {
@@ -132,9 +150,54 @@ router.post("/transactions", async (req: any, res: Response) => {
             }
         }
 
+        const accountIds = new Set(results.map((r: any) => r.account_id));
+        await importBatchService.finishBatch(
+            batch.id,
+            { inserted: results.length, skipped: 0, invalid: errors.length },
+            accountIds.size === 1 ? results[0].account_id : null
+        );
+
+        await payeeService.linkNewTransactions(userId, results.map((r: any) => r.id));
+
+        // Rows sent without a category go through the rules engine like any other import
+        const updates = await classificationService.classifyNewTransactions(
+            userId,
+            results.filter((r: any) => !r.category_id).map((r: any) => r.id)
+        );
+        for (const update of updates) {
+            const row = results.find((r: any) => r.id === update.id);
+            if (row) Object.assign(row, update);
+        }
+
+        const scheduledMatched = await scheduledTransactionService.reconcileNewTransactions(
+            userId,
+            results.map((r: any) => r.id)
+        );
+
+        let possibleDuplicates = 0;
+        let transfersLinked = 0;
+        if (results.length > 0) {
+            try {
+                possibleDuplicates = await duplicateService.detect(userId, { batchId: batch.id });
+            } catch (err) {
+                console.error("Duplicate detection failed after API upload:", err);
+            }
+
+            try {
+                transfersLinked = (await transferMatchService.match(userId)).linked;
+            } catch (err) {
+                console.error("Transfer matching failed after API upload:", err);
+            }
+
+            await recurringService.detectAfterImport(userId);
+        }
+
         res.status(errors.length > 0 && results.length === 0 ? 400 : 201).json({
             success_count: results.length,
             error_count: errors.length,
+            possible_duplicates: possibleDuplicates,
+            transfers_linked: transfersLinked,
+            scheduled_matched: scheduledMatched,
             data: results,
             errors: errors.length > 0 ? errors : undefined
         });
@@ -1,5 +1,7 @@
 import express = require("express");
 import multer = require("multer");
+import { ImportProfileService, normalizeMapping } from "../services/importProfileService";
+import { ImportBatchService } from "../services/importBatchService";
 const auth = require("../middleware/auth");
 const { ImportService } = require("../services/importService");
 
@@ -7,10 +9,14 @@ const router = express.Router();
 // Store files in memory as they are text and we process them immediately
 const upload = multer({ storage: multer.memoryStorage() });
 const importService = new ImportService();
+const importProfileService = new ImportProfileService();
+const importBatchService = new ImportBatchService();
 
 router.use(auth);
 
 // POST /api/imports
+// Pass preview=true to get every parsed row back (new / duplicate / invalid) without inserting,
+// then acceptedRows=<JSON array of row keys> to insert only the rows the user kept.
 router.post(
     "/",
     upload.single("file"),
@@ -22,25 +28,70 @@ router.post(
             }
 
             const fileContent = req.file.buffer.toString("utf8");
-            const accountId = req.body.accountId;
+            let accountId = req.body.accountId;
             const format = req.body.format || "ofx";
             const dateFormat = req.body.dateFormat;
             const userId = req.user.id;
 
+            let acceptedRows;
+            if (req.body.acceptedRows) {
+                try {
+                    acceptedRows = JSON.parse(req.body.acceptedRows);
+                } catch (e) {
+                    res.status(400).json({ error: "acceptedRows must be a JSON array" });
+                    return;
+                }
+                if (!Array.isArray(acceptedRows)) {
+                    res.status(400).json({ error: "acceptedRows must be a JSON array" });
+                    return;
+                }
+            }
+            const options = {
+                preview: req.body.preview === "true",
+                acceptedRows,
+                source: "upload",
+                fileName: req.file.originalname,
+            };
+
             let result;
-            if (format.toLowerCase() === "qif") {
+            if (format.toLowerCase() === "csv") {
+                // Either a saved profile or an inline mapping (JSON string in the multipart body)
+                let mapping;
+                if (req.body.profileId) {
+                    const profile = await importProfileService.getProfile(userId, req.body.profileId);
+                    if (!profile) {
+                        res.status(404).json({ error: "Import profile not found" });
+                        return;
+                    }
+                    mapping = profile;
+                    if (!accountId && profile.account_id) accountId = profile.account_id;
+                } else if (req.body.mapping) {
+                    try {
+                        mapping = normalizeMapping(JSON.parse(req.body.mapping));
+                    } catch (e: any) {
+                        res.status(400).json({ error: e.message || "Invalid CSV mapping" });
+                        return;
+                    }
+                } else {
+                    res.status(400).json({ error: "CSV imports require a profileId or mapping" });
+                    return;
+                }
+
+                result = await importService.importCsv(fileContent, userId, mapping, accountId, options);
+            } else if (format.toLowerCase() === "qif") {
                 result = await importService.importQif(
                     fileContent,
                     userId,
                     accountId,
                     dateFormat,
+                    options,
                 );
             } else {
-                result = await importService.importOfx(fileContent, userId, accountId);
+                result = await importService.importOfx(fileContent, userId, accountId, options);
             }
 
             res.json({
-                message: "Import processed successfully",
+                message: options.preview ? "Import preview generated" : "Import processed successfully",
                 data: result,
             });
         } catch (error: any) {
@@ -52,4 +103,130 @@ router.post(
     },
 );
 
+/**
+ * @route   POST /api/imports/csv/inspect
+ * @desc    Return the first rows of a CSV file so the user can map its columns
+ * @access  Private
+ */
+router.post(
+    "/csv/inspect",
+    upload.single("file"),
+    async (req: any, res: express.Response) => {
+        try {
+            if (!req.file) {
+                res.status(400).json({ error: "No file uploaded" });
+                return;
+            }
+
+            const fileContent = req.file.buffer.toString("utf8");
+            const delimiter = req.body.delimiter || ",";
+            const rows: string[][] = importService.parseCsv(fileContent, delimiter);
+
+            res.json({
+                totalRows: rows.length,
+                rows: rows.slice(0, 10),
+            });
+        } catch (error: any) {
+            console.error("Error inspecting CSV:", error);
+            res.status(500).json({ error: error.message || "Failed to read CSV file" });
+        }
+    },
+);
+
+// GET /api/imports/profiles
+router.get("/profiles", async (req: any, res: express.Response) => {
+    try {
+        const profiles = await importProfileService.getProfiles(req.user.id);
+        res.json(profiles);
+    } catch (err: any) {
+        console.error("Error fetching import profiles:", err);
+        res.status(500).json({ error: "Failed to fetch import profiles" });
+    }
+});
+
+// POST /api/imports/profiles
+router.post("/profiles", async (req: any, res: express.Response) => {
+    if (!req.body.name) {
+        return res.status(400).json({ error: "Profile name is required" });
+    }
+
+    try {
+        const profile = await importProfileService.createProfile(req.user.id, req.body);
+        res.status(201).json(profile);
+    } catch (err: any) {
+        console.error("Error creating import profile:", err);
+        if (err.code === "23505") {
+            return res.status(409).json({ error: `A profile named '${req.body.name}' already exists.` });
+        }
+        res.status(400).json({ error: err.message || "Failed to create import profile" });
+    }
+});
+
+// PUT /api/imports/profiles/:id
+router.put("/profiles/:id", async (req: any, res: express.Response) => {
+    try {
+        const profile = await importProfileService.updateProfile(req.user.id, req.params.id, req.body);
+        if (!profile) return res.status(404).json({ error: "Import profile not found" });
+        res.json(profile);
+    } catch (err: any) {
+        console.error("Error updating import profile:", err);
+        res.status(400).json({ error: err.message || "Failed to update import profile" });
+    }
+});
+
+// DELETE /api/imports/profiles/:id
+router.delete("/profiles/:id", async (req: any, res: express.Response) => {
+    try {
+        await importProfileService.deleteProfile(req.user.id, req.params.id);
+        res.status(204).send();
+    } catch (err: any) {
+        console.error("Error deleting import profile:", err);
+        res.status(500).json({ error: "Failed to delete import profile" });
+    }
+});
+
+/**
+ * @route   GET /api/imports/batches
+ * @desc    List import batches, newest first
+ * @access  Private
+ */
+router.get("/batches", async (req: any, res: express.Response) => {
+    try {
+        const batches = await importBatchService.getBatches(req.user.id);
+        res.json(batches);
+    } catch (err: any) {
+        console.error("Error fetching import batches:", err);
+        res.status(500).json({ error: "Failed to fetch import batches" });
+    }
+});
+
+/**
+ * @route   DELETE /api/imports/batches/:id
+ * @desc    Delete every transaction a batch inserted. Refuses with 409 if any of them
+ *          have since been edited or matched as transfers, unless ?force=true.
+ * @access  Private
+ */
+router.delete("/batches/:id", async (req: any, res: express.Response) => {
+    try {
+        const batch = await importBatchService.getBatch(req.user.id, req.params.id);
+        if (!batch) {
+            return res.status(404).json({ error: "Import batch not found" });
+        }
+
+        const conflicts = await importBatchService.getConflicts(batch.id);
+        if ((conflicts.edited > 0 || conflicts.reconciled > 0) && req.query.force !== "true") {
+            return res.status(409).json({
+                error: "Some transactions in this batch have been changed since they were imported.",
+                ...conflicts,
+            });
+        }
+
+        const deleted = await importBatchService.rollbackBatch(req.user.id, batch.id);
+        res.json({ message: `Deleted ${deleted} transactions`, deleted });
+    } catch (err: any) {
+        console.error("Error rolling back import batch:", err);
+        res.status(500).json({ error: "Failed to roll back import batch" });
+    }
+});
+
 module.exports = router;
@@ -1,12 +1,35 @@
 import express = require("express");
 import { Request, Response } from "express";
 import { query } from "../db";
+import { llmProviders, getLlmProvider, parseJsonResponse } from "../services/llmProviders";
+import { LlmPrivacyService } from "../services/llmPrivacy";
+import { LlmUsageService } from "../services/llmUsage";
 
 const router = express.Router();
 const auth = require("../middleware/auth");
 
 router.use(auth);
 
+const llmPrivacyService = new LlmPrivacyService();
+const llmUsageService = new LlmUsageService();
+
+/**
+ * @route   GET /api/integrations/llm/providers
+ * @desc    Supported LLM providers, their defaults and capabilities
+ * @access  Private
+ */
+router.get("/llm/providers", async (req: any, res: Response) => {
+    res.json(Object.values(llmProviders).map((provider) => ({
+        id: provider.id,
+        label: provider.label,
+        default_base_url: provider.defaultBaseUrl,
+        default_model: provider.defaultModel,
+        requires_api_key: provider.requiresApiKey,
+        self_hosted: provider.selfHosted,
+        capabilities: provider.capabilities(provider.defaultModel),
+    })));
+});
+
 /**
  * @route   GET /api/integrations/llm
  * @desc    Get configured LLM integrations (masked API keys)
@@ -15,7 +38,7 @@ router.use(auth);
 router.get("/llm", async (req: any, res: Response) => {
     try {
         const sql = `
-            SELECT id, provider, model, is_active, created_at
+            SELECT id, provider, model, base_url, is_active, created_at
             FROM llm_settings 
             WHERE user_id = $1
         `;
@@ -36,25 +59,32 @@ router.get("/llm", async (req: any, res: Response) => {
  * @access  Private
  */
 router.post("/llm", async (req: any, res: Response) => {
-    const { provider, apiKey, model } = req.body;
+    const { provider: providerId, apiKey, model, baseUrl } = req.body;
+    const provider = getLlmProvider(providerId);
 
-    if (!provider || !apiKey) {
+    if (!provider) {
+        return res.status(400).json({ error: "Unknown provider" });
+    }
+    if (provider.requiresApiKey && !apiKey) {
         return res.status(400).json({ error: "Provider and API Key are required" });
     }
 
     try {
+        // A blank key keeps the stored one, so a self-hosted endpoint can be edited without re-entering it
         const sql = `
-            INSERT INTO llm_settings (user_id, provider, api_key, model)
-            VALUES ($1, $2, $3, $4)
+            INSERT INTO llm_settings (user_id, provider, api_key, model, base_url)
+            VALUES ($1, $2, $3, $4, $5)
             ON CONFLICT (user_id, provider) 
-            DO UPDATE SET api_key = EXCLUDED.api_key, model = EXCLUDED.model, updated_at = NOW()
-            RETURNING id, provider, model;
+            DO UPDATE SET api_key = COALESCE(EXCLUDED.api_key, llm_settings.api_key), model = EXCLUDED.model,
+                base_url = EXCLUDED.base_url, updated_at = NOW()
+            RETURNING id, provider, model, base_url;
         `;
         const { rows } = await query(sql, [
             req.user.id,
-            provider,
-            apiKey,
-            model || 'gpt-4o'
+            provider.id,
+            apiKey || null,
+            model || provider.defaultModel,
+            baseUrl || null,
         ]);
 
         res.json(rows[0]);
@@ -64,6 +94,176 @@ router.post("/llm", async (req: any, res: Response) => {
     }
 });
 
+/**
+ * @route   POST /api/integrations/llm/test
+ * @desc    Sends a tiny prompt to an endpoint to check it's reachable and answers in JSON.
+ *          Uses the stored API key if none is given, but only for the stored endpoint.
+ * @access  Private
+ */
+router.post("/llm/test", async (req: any, res: Response) => {
+    const { provider: providerId, apiKey, model, baseUrl } = req.body;
+    const provider = getLlmProvider(providerId);
+    if (!provider) {
+        return res.status(400).json({ error: "Unknown provider" });
+    }
+
+    let key = apiKey;
+    if (!key) {
+        try {
+            const { rows } = await query(
+                "SELECT api_key, base_url FROM llm_settings WHERE user_id = $1 AND provider = $2",
+                [req.user.id, provider.id]
+            );
+            // The saved key never goes anywhere the user hasn't saved it for
+            if (!baseUrl || baseUrl === rows[0]?.base_url) key = rows[0]?.api_key || "";
+        } catch (err: any) {
+            console.error("Error loading integration:", err);
+            return res.status(500).json({ error: "Internal Server Error" });
+        }
+    }
+    if (provider.requiresApiKey && !key) {
+        return res.status(400).json({ error: "API Key is required" });
+    }
+
+    const config = {
+        provider: provider.id,
+        apiKey: key,
+        baseUrl: baseUrl || provider.defaultBaseUrl,
+        model: model || provider.defaultModel,
+    };
+    const started = Date.now();
+    try {
+        const response = await llmPrivacyService.complete(req.user.id, "connection_test", config, {
+            system: "You are a connectivity check. Reply with JSON only.",
+            prompt: 'Reply with exactly this JSON object: {"ok": true}',
+            json: true,
+            maxTokens: 50,
+        });
+
+        let json = true;
+        try {
+            parseJsonResponse(response.content);
+        } catch (e) {
+            json = false;
+        }
+
+        res.json({
+            ok: true,
+            json,
+            latency_ms: Date.now() - started,
+            model: config.model,
+            reply: response.content.substring(0, 200),
+            capabilities: provider.capabilities(config.model),
+        });
+    } catch (err: any) {
+        const detail = err.response?.data?.error?.message || err.response?.data?.error || err.message;
+        res.json({
+            ok: false,
+            latency_ms: Date.now() - started,
+            error: typeof detail === "string" ? detail : JSON.stringify(detail),
+        });
+    }
+});
+
+/**
+ * @route   GET /api/integrations/llm/audit
+ * @desc    Prompts sent to LLMs and their replies, newest first
+ * @access  Private
+ */
+router.get("/llm/audit", async (req: any, res: Response) => {
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+    try {
+        res.json(await llmPrivacyService.getAuditLog(req.user.id, limit, offset));
+    } catch (err: any) {
+        console.error("Error fetching LLM audit log:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   DELETE /api/integrations/llm/audit
+ * @desc    Clear the LLM audit log
+ * @access  Private
+ */
+router.delete("/llm/audit", async (req: any, res: Response) => {
+    try {
+        await llmPrivacyService.clearAuditLog(req.user.id);
+        res.status(204).send();
+    } catch (err: any) {
+        console.error("Error clearing LLM audit log:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   GET /api/integrations/llm/usage
+ * @desc    Tokens used and estimated cost this month, by model, and for recent months
+ * @access  Private
+ */
+router.get("/llm/usage", async (req: any, res: Response) => {
+    const months = Math.min(Math.max(parseInt(req.query.months) || 6, 1), 24);
+    try {
+        res.json(await llmUsageService.getReport(req.user.id, months));
+    } catch (err: any) {
+        console.error("Error fetching LLM usage:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   GET /api/integrations/llm/prices
+ * @desc    Prices used to estimate cost, built-in and the user's own (USD per million tokens)
+ * @access  Private
+ */
+router.get("/llm/prices", async (req: any, res: Response) => {
+    try {
+        res.json(await llmUsageService.getPrices(req.user.id));
+    } catch (err: any) {
+        console.error("Error fetching LLM prices:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   POST /api/integrations/llm/prices
+ * @desc    Set the price of a model, overriding the built-in one
+ * @access  Private
+ */
+router.post("/llm/prices", async (req: any, res: Response) => {
+    const { provider, model, inputPerMillion, outputPerMillion } = req.body;
+    if (!getLlmProvider(provider) || !model || typeof model !== "string") {
+        return res.status(400).json({ error: "Provider and model are required" });
+    }
+    if (typeof inputPerMillion !== "number" || typeof outputPerMillion !== "number" || inputPerMillion < 0 || outputPerMillion < 0) {
+        return res.status(400).json({ error: "Prices must be zero or more" });
+    }
+
+    try {
+        await llmUsageService.setPrice(req.user.id, provider, model.trim(), inputPerMillion, outputPerMillion);
+        res.json(await llmUsageService.getPrices(req.user.id));
+    } catch (err: any) {
+        console.error("Error saving LLM price:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   DELETE /api/integrations/llm/prices/:provider/:model
+ * @desc    Remove the user's price for a model, going back to the built-in one
+ * @access  Private
+ */
+router.delete("/llm/prices/:provider/:model", async (req: any, res: Response) => {
+    try {
+        const deleted = await llmUsageService.deletePrice(req.user.id, req.params.provider, req.params.model);
+        if (!deleted) return res.status(404).json({ error: "Price not found" });
+        res.status(204).send();
+    } catch (err: any) {
+        console.error("Error deleting LLM price:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 /**
  * @route   DELETE /api/integrations/llm/:provider
  * @desc    Delete integration
@@ -0,0 +1,176 @@
+import express = require("express");
+import type { Response } from "express";
+import { PayeeService } from "../services/payeeService";
+
+const router = express.Router();
+const auth = require("../middleware/auth");
+
+router.use(auth);
+
+const payeeService = new PayeeService();
+
+/**
+ * @route   GET /api/payees
+ * @desc    List payees with their aliases, spend, frequency and first and last seen dates.
+ *          Optional startDate and endDate limit the activity counted.
+ * @access  Private
+ */
+router.get("/", async (req: any, res: Response) => {
+    const { startDate, endDate } = req.query;
+    try {
+        res.json(await payeeService.getPayees(req.user.id, startDate, endDate));
+    } catch (err: any) {
+        console.error("Error fetching payees:", err);
+        res.status(500).json({ error: "Failed to fetch payees" });
+    }
+});
+
+/**
+ * @route   POST /api/payees/relink
+ * @desc    Link every transaction to the payee its description matches, creating payees where none does
+ * @access  Private
+ */
+router.post("/relink", async (req: any, res: Response) => {
+    try {
+        const changed = await payeeService.link(req.user.id, null);
+        res.json({ message: `Linked ${changed} transactions to payees`, changed });
+    } catch (err: any) {
+        console.error("Error linking payees:", err);
+        res.status(500).json({ error: "Failed to link payees" });
+    }
+});
+
+/**
+ * @route   GET /api/payees/:id
+ * @desc    A payee with its aliases, totals and monthly activity
+ * @access  Private
+ */
+router.get("/:id", async (req: any, res: Response) => {
+    try {
+        const payee = await payeeService.getPayee(req.user.id, req.params.id);
+        if (!payee) return res.status(404).json({ error: "Payee not found" });
+        res.json({ ...payee, monthly: await payeeService.getMonthlyActivity(req.user.id, req.params.id) });
+    } catch (err: any) {
+        console.error(`Error fetching payee ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to fetch payee" });
+    }
+});
+
+/**
+ * @route   POST /api/payees
+ * @desc    Create a payee: { name, default_category_id, logo_url, color }
+ * @access  Private
+ */
+router.post("/", async (req: any, res: Response) => {
+    const error = payeeService.validatePayee(req.body);
+    if (error) return res.status(400).json({ error });
+
+    try {
+        res.status(201).json(await payeeService.createPayee(req.user.id, req.body));
+    } catch (err: any) {
+        console.error("Error creating payee:", err);
+        if (err.code === "23505") {
+            return res.status(409).json({ error: `Payee '${req.body.name}' already exists.` });
+        }
+        res.status(500).json({ error: "Failed to create payee" });
+    }
+});
+
+/**
+ * @route   PATCH /api/payees/:id
+ * @desc    Update a payee's name, default category, logo or colour
+ * @access  Private
+ */
+router.patch("/:id", async (req: any, res: Response) => {
+    const error = payeeService.validatePayee(req.body, true);
+    if (error) return res.status(400).json({ error });
+
+    try {
+        const payee = await payeeService.updatePayee(req.user.id, req.params.id, req.body);
+        if (!payee) return res.status(404).json({ error: "Payee not found" });
+        res.json(payee);
+    } catch (err: any) {
+        console.error(`Error updating payee ${req.params.id}:`, err);
+        if (err.code === "23505") {
+            return res.status(409).json({ error: `Payee '${req.body.name}' already exists.` });
+        }
+        res.status(500).json({ error: "Failed to update payee" });
+    }
+});
+
+/**
+ * @route   DELETE /api/payees/:id
+ * @desc    Delete a payee. Its transactions are kept, without a payee.
+ * @access  Private
+ */
+router.delete("/:id", async (req: any, res: Response) => {
+    try {
+        const deleted = await payeeService.deletePayee(req.user.id, req.params.id);
+        if (!deleted) return res.status(404).json({ error: "Payee not found" });
+        res.status(204).send();
+    } catch (err: any) {
+        console.error(`Error deleting payee ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to delete payee" });
+    }
+});
+
+/**
+ * @route   POST /api/payees/:id/merge
+ * @desc    Merge other payees ({ payeeIds }) into this one, moving their aliases and transactions
+ * @access  Private
+ */
+router.post("/:id/merge", async (req: any, res: Response) => {
+    const { payeeIds } = req.body;
+    if (!Array.isArray(payeeIds) || payeeIds.length === 0) {
+        return res.status(400).json({ error: "payeeIds must be a non-empty array" });
+    }
+
+    try {
+        const merged = await payeeService.merge(req.user.id, req.params.id, payeeIds);
+        if (merged === null) return res.status(404).json({ error: "Payee not found" });
+        res.json({ message: `Merged ${merged} payees`, merged });
+    } catch (err: any) {
+        console.error(`Error merging payees into ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to merge payees" });
+    }
+});
+
+/**
+ * @route   POST /api/payees/:id/aliases
+ * @desc    Add an alias: { match_type: 'exact' | 'contains' | 'regex', pattern }. Transactions it matches are relinked.
+ * @access  Private
+ */
+router.post("/:id/aliases", async (req: any, res: Response) => {
+    const error = payeeService.validateAlias(req.body);
+    if (error) return res.status(400).json({ error });
+
+    try {
+        const alias = await payeeService.addAlias(req.user.id, req.params.id, req.body);
+        if (!alias) return res.status(404).json({ error: "Payee not found" });
+        res.status(201).json(alias);
+    } catch (err: any) {
+        console.error(`Error adding alias to payee ${req.params.id}:`, err);
+        if (err.code === "23505") {
+            return res.status(409).json({ error: "Another payee already has that alias." });
+        }
+        res.status(500).json({ error: "Failed to add alias" });
+    }
+});
+
+/**
+ * @route   DELETE /api/payees/:id/aliases/:aliasId
+ * @desc    Remove an alias and relink the transactions it matched
+ * @access  Private
+ */
+router.delete("/:id/aliases/:aliasId", async (req: any, res: Response) => {
+    try {
+        const deleted = await payeeService.deleteAlias(req.user.id, req.params.id, req.params.aliasId);
+        if (!deleted) return res.status(404).json({ error: "Alias not found" });
+        res.status(204).send();
+    } catch (err: any) {
+        console.error(`Error removing alias ${req.params.aliasId}:`, err);
+        res.status(500).json({ error: "Failed to remove alias" });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,87 @@
+import express = require("express");
+import type { Response } from "express";
+import { RecurringService } from "../services/recurringService";
+
+const router = express.Router();
+const auth = require("../middleware/auth");
+
+router.use(auth);
+
+const recurringService = new RecurringService();
+
+/**
+ * @route   GET /api/recurring
+ * @desc    List recurring series (subscriptions, bills, income) with their status; ?includeDismissed=true for all
+ * @access  Private
+ */
+router.get("/", async (req: any, res: Response) => {
+    try {
+        res.json(await recurringService.getSeries(req.user.id, req.query.includeDismissed === "true"));
+    } catch (err: any) {
+        console.error("Error fetching recurring series:", err);
+        res.status(500).json({ error: "Failed to fetch recurring transactions" });
+    }
+});
+
+/**
+ * @route   GET /api/recurring/annual-cost
+ * @desc    Annualised cost of ongoing recurring payments, by category
+ * @access  Private
+ */
+router.get("/annual-cost", async (req: any, res: Response) => {
+    try {
+        res.json(await recurringService.getAnnualCostByCategory(req.user.id));
+    } catch (err: any) {
+        console.error("Error fetching recurring annual cost:", err);
+        res.status(500).json({ error: "Failed to fetch recurring annual cost" });
+    }
+});
+
+/**
+ * @route   POST /api/recurring/scan
+ * @desc    Re-detect recurring series across the user's transaction history
+ * @access  Private
+ */
+router.post("/scan", async (req: any, res: Response) => {
+    try {
+        const found = await recurringService.detect(req.user.id);
+        res.json({ message: `Found ${found} recurring series`, found });
+    } catch (err: any) {
+        console.error("Error detecting recurring transactions:", err);
+        res.status(500).json({ error: "Failed to detect recurring transactions" });
+    }
+});
+
+/**
+ * @route   POST /api/recurring/:id/dismiss
+ * @desc    Not recurring; hide the series and keep it hidden on later scans
+ * @access  Private
+ */
+router.post("/:id/dismiss", async (req: any, res: Response) => {
+    try {
+        const updated = await recurringService.setDismissed(req.user.id, req.params.id, true);
+        if (!updated) return res.status(404).json({ error: "Recurring series not found" });
+        res.json({ message: "Dismissed" });
+    } catch (err: any) {
+        console.error("Error dismissing recurring series:", err);
+        res.status(500).json({ error: "Failed to update recurring series" });
+    }
+});
+
+/**
+ * @route   POST /api/recurring/:id/restore
+ * @desc    Show a dismissed series again
+ * @access  Private
+ */
+router.post("/:id/restore", async (req: any, res: Response) => {
+    try {
+        const updated = await recurringService.setDismissed(req.user.id, req.params.id, false);
+        if (!updated) return res.status(404).json({ error: "Recurring series not found" });
+        res.json({ message: "Restored" });
+    } catch (err: any) {
+        console.error("Error restoring recurring series:", err);
+        res.status(500).json({ error: "Failed to update recurring series" });
+    }
+});
+
+module.exports = router;
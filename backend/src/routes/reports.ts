@@ -1,5 +1,7 @@
 import express = require("express");
 import type { Request, Response } from "express";
+import { PayeeService } from "../services/payeeService";
+import { ForecastService, MAX_FORECAST_MONTHS } from "../services/forecastService";
 
 const router = express.Router();
 const { query } = require("../db");
@@ -7,6 +9,9 @@ const auth = require("../middleware/auth");
 
 router.use(auth);
 
+const payeeService = new PayeeService();
+const forecastService = new ForecastService();
+
 /**
  * @route   GET /api/reports/budget-variance
  * @desc    Get budget vs actuals for a date range
@@ -31,7 +36,7 @@ router.get("/budget-variance", async (req: any, res: Response) => {
             ),
             range_actuals AS (
                 SELECT t.category_id, SUM(t.amount) as total_actual
-                FROM transactions t
+                FROM transaction_lines t
                 JOIN accounts a ON t.account_id = a.id
                 WHERE t.date >= $1 AND t.date <= $2
                   AND a.include_in_budget = true
@@ -107,7 +112,7 @@ router.get("/monthly-comparison", async (req: any, res: Response) => {
             ),
             monthly_actuals AS (
                 SELECT t.category_id, date_trunc('month', t.date)::date as month, SUM(t.amount) as amount
-                FROM transactions t
+                FROM transaction_lines t
                 JOIN accounts a ON t.account_id = a.id
                 WHERE t.date >= $1 AND t.date <= $2
                   AND a.include_in_budget = true
@@ -149,6 +154,76 @@ router.get("/monthly-comparison", async (req: any, res: Response) => {
     }
 });
 
+/**
+ * @route   GET /api/reports/spending-by-tag
+ * @desc    Get spending and income totals per tag for a date range
+ * @access  Public
+ */
+router.get("/spending-by-tag", async (req: any, res: Response) => {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+        return res
+            .status(400)
+            .json({ error: "startDate and endDate are required" });
+    }
+
+    try {
+        // A transaction with several tags counts in full towards each of them,
+        // so the totals can add up to more than was actually spent
+        const sql = `
+            SELECT
+                tag,
+                COUNT(*)::int as count,
+                COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0)::numeric(15, 2) as spent,
+                COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0)::numeric(15, 2) as received,
+                SUM(t.amount)::numeric(15, 2) as net
+            FROM transactions t, unnest(t.tags) AS tag
+            WHERE t.date >= $1 AND t.date <= $2
+              AND t.user_id = $3
+              AND t.is_transfer = false
+            GROUP BY tag
+            ORDER BY spent DESC, tag ASC;
+        `;
+
+        const { rows } = await query(sql, [startDate, endDate, (req as any).user.id]);
+        res.json(rows);
+    } catch (err: any) {
+        console.error("Error fetching spending by tag:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   GET /api/reports/spending-by-payee
+ * @desc    Get spend, frequency and first and last seen dates per payee for a date range,
+ *          biggest spend first (?limit=, default 20)
+ * @access  Public
+ */
+router.get("/spending-by-payee", async (req: any, res: Response) => {
+    const { startDate, endDate } = req.query;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    if (!startDate || !endDate) {
+        return res
+            .status(400)
+            .json({ error: "startDate and endDate are required" });
+    }
+
+    try {
+        const payees = await payeeService.getPayees(req.user.id, startDate, endDate);
+        res.json(
+            payees
+                .filter((p) => p.transaction_count > 0)
+                .slice(0, limit)
+                .map(({ aliases, ...payee }) => payee),
+        );
+    } catch (err: any) {
+        console.error("Error fetching spending by payee:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 /**
  * @route   GET /api/reports/wealth
  * @desc    Get daily total wealth over time
@@ -229,4 +304,30 @@ router.get("/wealth", async (req: any, res: Response) => {
     }
 });
 
+/**
+ * @route   GET /api/reports/forecast
+ * @desc    Project each account's balance, and the total, day by day for the next `months` (default 3).
+ *          Flags the first date an account drops below zero or `threshold` (defaults to the user's setting).
+ * @access  Private
+ */
+router.get("/forecast", async (req: any, res: Response) => {
+    const months = req.query.months === undefined ? 3 : parseInt(req.query.months as string);
+    if (!Number.isInteger(months) || months < 1 || months > MAX_FORECAST_MONTHS) {
+        return res.status(400).json({ error: `months must be between 1 and ${MAX_FORECAST_MONTHS}` });
+    }
+    const threshold = req.query.threshold === undefined || req.query.threshold === ""
+        ? undefined
+        : Number(req.query.threshold);
+    if (threshold !== undefined && !Number.isFinite(threshold)) {
+        return res.status(400).json({ error: "threshold must be a number" });
+    }
+
+    try {
+        res.json(await forecastService.forecast(req.user.id, months, threshold));
+    } catch (err: any) {
+        console.error("Error building cash-flow forecast:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 module.exports = router;
@@ -1,5 +1,6 @@
 import express = require("express");
 import { RuleService } from "../services/ruleService";
+import { RuleLearningService } from "../services/ruleLearningService";
 
 const router = express.Router();
 const auth = require("../middleware/auth");
@@ -8,6 +9,17 @@ const auth = require("../middleware/auth");
 router.use(auth);
 
 const ruleService = new RuleService();
+const ruleLearningService = new RuleLearningService();
+
+// Checks whichever of conditions / actions the request sends
+const validateRule = (body: any): string | null => {
+    if (body.conditions !== undefined) {
+        const error = ruleService.validateConditions(body.conditions);
+        if (error) return error;
+    }
+    if (body.actions !== undefined) return ruleService.validateActions(body.actions);
+    return null;
+};
 
 // GET /api/rules
 router.get("/", async (req: any, res) => {
@@ -20,9 +32,71 @@ router.get("/", async (req: any, res) => {
     }
 });
 
+// GET /api/rules/coverage
+// Flags rules that match nothing in history or are always beaten by a higher-priority rule
+router.get("/coverage", async (req: any, res) => {
+    try {
+        const coverage = await ruleService.getCoverage(req.user.id);
+        res.json(coverage);
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to analyse rules" });
+    }
+});
+
+// GET /api/rules/suggestions
+// Rules proposed from repeated manual recategorisation of the same payee
+router.get("/suggestions", async (req: any, res) => {
+    try {
+        const suggestions = await ruleLearningService.getSuggestions(req.user.id);
+        res.json(suggestions);
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to fetch rule suggestions" });
+    }
+});
+
+// POST /api/rules/suggestions/:id/accept
+router.post("/suggestions/:id/accept", async (req: any, res) => {
+    try {
+        const rule = await ruleLearningService.acceptSuggestion(req.user.id, req.params.id);
+        if (!rule) return res.status(404).json({ error: "Suggestion not found" });
+        res.status(201).json(rule);
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to create rule" });
+    }
+});
+
+// POST /api/rules/suggestions/:id/dismiss
+router.post("/suggestions/:id/dismiss", async (req: any, res) => {
+    try {
+        const dismissed = await ruleLearningService.dismissSuggestion(req.user.id, req.params.id);
+        if (!dismissed) return res.status(404).json({ error: "Suggestion not found" });
+        res.json({ message: "Suggestion dismissed" });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to dismiss suggestion" });
+    }
+});
+
+// GET /api/rules/overrides
+// Rules whose category the user keeps correcting by hand
+router.get("/overrides", async (req: any, res) => {
+    try {
+        const overrides = await ruleLearningService.getOverriddenRules(req.user.id);
+        res.json(overrides);
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to fetch overridden rules" });
+    }
+});
+
 // POST /api/rules
 router.post("/", async (req: any, res) => {
     try {
+        const error = validateRule(req.body);
+        if (error) return res.status(400).json({ error });
         const rule = await ruleService.createRule(req.user.id, req.body);
         res.status(201).json(rule);
     } catch (err: any) {
@@ -31,9 +105,41 @@ router.post("/", async (req: any, res) => {
     }
 });
 
+// POST /api/rules/dry-run
+// Evaluates a draft rule against existing transactions without saving anything
+router.post("/dry-run", async (req: any, res) => {
+    try {
+        const error = ruleService.validateConditions(req.body.conditions);
+        if (error) return res.status(400).json({ error });
+
+        const result = await ruleService.dryRun(req.user.id, req.body);
+        res.json(result);
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to preview rule" });
+    }
+});
+
+// POST /api/rules/:id/apply
+// Applies a saved rule to matching past transactions; { overwrite: true } replaces existing categories
+router.post("/:id/apply", async (req: any, res) => {
+    try {
+        const rule = await ruleService.getRule(req.user.id, req.params.id);
+        if (!rule) return res.status(404).json({ error: "Rule not found" });
+
+        const updated = await ruleService.applyToHistory(req.user.id, rule, req.body.overwrite === true);
+        res.json({ message: `Applied "${rule.name}" to ${updated} transactions`, updated });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ error: "Failed to apply rule" });
+    }
+});
+
 // PUT /api/rules/:id
 router.put("/:id", async (req: any, res) => {
     try {
+        const error = validateRule(req.body);
+        if (error) return res.status(400).json({ error });
         const rule = await ruleService.updateRule(req.user.id, req.params.id, req.body);
         if (!rule) return res.status(404).json({ error: "Rule not found" });
         res.json(rule);
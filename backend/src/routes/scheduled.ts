@@ -0,0 +1,132 @@
+import express = require("express");
+import type { Response } from "express";
+import { addDays, format } from "date-fns";
+import { ScheduledTransactionService } from "../services/scheduledTransactionService";
+
+const router = express.Router();
+const auth = require("../middleware/auth");
+
+router.use(auth);
+
+const scheduledTransactionService = new ScheduledTransactionService();
+
+/**
+ * @route   GET /api/scheduled
+ * @desc    List the user's scheduled transactions
+ * @access  Private
+ */
+router.get("/", async (req: any, res: Response) => {
+    try {
+        res.json(await scheduledTransactionService.getSchedules(req.user.id));
+    } catch (err: any) {
+        console.error("Error fetching scheduled transactions:", err);
+        res.status(500).json({ error: "Failed to fetch scheduled transactions" });
+    }
+});
+
+/**
+ * @route   GET /api/scheduled/projected
+ * @desc    Upcoming occurrences of active schedules over the next `days` (default 30), optionally for one accountId
+ * @access  Private
+ */
+router.get("/projected", async (req: any, res: Response) => {
+    const days = parseInt(req.query.days as string) || 30;
+    try {
+        const until = format(addDays(new Date(), days), "yyyy-MM-dd");
+        res.json(await scheduledTransactionService.getProjected(req.user.id, until, req.query.accountId));
+    } catch (err: any) {
+        console.error("Error projecting scheduled transactions:", err);
+        res.status(500).json({ error: "Failed to project scheduled transactions" });
+    }
+});
+
+/**
+ * @route   POST /api/scheduled
+ * @desc    Create a schedule: { account_id, description, amount, frequency, interval_count, start_date, end_date,
+ *          category_id, payee_id, auto_post }
+ * @access  Private
+ */
+router.post("/", async (req: any, res: Response) => {
+    const error = scheduledTransactionService.validateSchedule(req.body);
+    if (error) return res.status(400).json({ error });
+
+    try {
+        const schedule = await scheduledTransactionService.createSchedule(req.user.id, req.body);
+        if (!schedule) return res.status(404).json({ error: "Account, category or payee not found" });
+        res.status(201).json(schedule);
+    } catch (err: any) {
+        console.error("Error creating scheduled transaction:", err);
+        res.status(500).json({ error: "Failed to create scheduled transaction" });
+    }
+});
+
+/**
+ * @route   PATCH /api/scheduled/:id
+ * @desc    Update a schedule. Changing its recurrence restarts it from today.
+ * @access  Private
+ */
+router.patch("/:id", async (req: any, res: Response) => {
+    try {
+        const current = await scheduledTransactionService.getSchedule(req.user.id, req.params.id);
+        if (!current) return res.status(404).json({ error: "Scheduled transaction not found" });
+        const error = scheduledTransactionService.validateSchedule(req.body, true, current);
+        if (error) return res.status(400).json({ error });
+
+        const schedule = await scheduledTransactionService.updateSchedule(req.user.id, req.params.id, req.body);
+        if (!schedule) return res.status(404).json({ error: "Scheduled transaction, account, category or payee not found" });
+        res.json(schedule);
+    } catch (err: any) {
+        console.error(`Error updating scheduled transaction ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to update scheduled transaction" });
+    }
+});
+
+/**
+ * @route   DELETE /api/scheduled/:id
+ * @desc    Delete a schedule. Transactions already posted from it are kept.
+ * @access  Private
+ */
+router.delete("/:id", async (req: any, res: Response) => {
+    try {
+        const deleted = await scheduledTransactionService.deleteSchedule(req.user.id, req.params.id);
+        if (!deleted) return res.status(404).json({ error: "Scheduled transaction not found" });
+        res.status(204).send();
+    } catch (err: any) {
+        console.error(`Error deleting scheduled transaction ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to delete scheduled transaction" });
+    }
+});
+
+/**
+ * @route   POST /api/scheduled/:id/post
+ * @desc    Post the next occurrence now, as a pending transaction on its due date
+ * @access  Private
+ */
+router.post("/:id/post", async (req: any, res: Response) => {
+    try {
+        const transaction = await scheduledTransactionService.postNext(req.user.id, req.params.id);
+        if (!transaction) return res.status(404).json({ error: "Scheduled transaction not found or has nothing left to post" });
+        res.status(201).json(transaction);
+    } catch (err: any) {
+        console.error(`Error posting scheduled transaction ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to post scheduled transaction" });
+    }
+});
+
+/**
+ * @route   POST /api/scheduled/:id/skip
+ * @desc    Skip the next occurrence without posting it
+ * @access  Private
+ */
+router.post("/:id/skip", async (req: any, res: Response) => {
+    try {
+        const schedule = await scheduledTransactionService.skipNext(req.user.id, req.params.id);
+        if (!schedule) return res.status(404).json({ error: "Scheduled transaction not found or has nothing left to skip" });
+        res.json(schedule);
+    } catch (err: any) {
+        console.error(`Error skipping scheduled transaction ${req.params.id}:`, err);
+        res.status(500).json({ error: "Failed to skip scheduled transaction" });
+    }
+});
+
+module.exports = router;
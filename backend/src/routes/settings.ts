@@ -3,6 +3,7 @@ const { query } = require("../db");
 const auth = require("../middleware/auth");
 import type { Response } from "express";
 import crypto = require("crypto");
+import { AMOUNT_MODES } from "../services/llmPrivacy";
 
 const router = express.Router();
 
@@ -12,7 +13,12 @@ router.use(auth);
 router.get("/", async (req: any, res: Response) => {
     try {
         const result = await query(
-            "SELECT email, session_timeout_minutes, theme_preference FROM users WHERE id = $1",
+            `SELECT email, session_timeout_minutes, theme_preference, auto_classify_llm,
+                rule_learning_threshold, rule_learning_auto_create,
+                local_classifier_enabled, local_classifier_threshold, classification_review_threshold,
+                llm_redact_numbers, llm_redact_names, llm_redact_terms, llm_amount_mode, llm_monthly_cap,
+                forecast_low_balance_threshold
+             FROM users WHERE id = $1`,
             [req.user.id]
         );
 
@@ -67,6 +73,137 @@ router.post("/theme", async (req: any, res: Response) => {
     }
 });
 
+// @route   POST /api/settings/auto-classify
+// Rules always run on new transactions; this controls whether leftovers are also queued for the LLM
+router.post("/auto-classify", async (req: any, res: Response) => {
+    const { enabled } = req.body;
+    if (typeof enabled !== "boolean") {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    try {
+        await query(
+            "UPDATE users SET auto_classify_llm = $1 WHERE id = $2",
+            [enabled, req.user.id]
+        );
+        res.json({ message: "Auto-classification preference updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+// @route   POST /api/settings/rule-learning
+// How many consistent manual corrections of a payee it takes to propose a rule, and whether to create it directly
+router.post("/rule-learning", async (req: any, res: Response) => {
+    const { threshold, autoCreate } = req.body;
+    if (!Number.isInteger(threshold) || threshold < 2 || typeof autoCreate !== "boolean") {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    try {
+        await query(
+            "UPDATE users SET rule_learning_threshold = $1, rule_learning_auto_create = $2 WHERE id = $3",
+            [threshold, autoCreate, req.user.id]
+        );
+        res.json({ message: "Rule learning preferences updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+// @route   POST /api/settings/local-classifier
+// Whether the model trained on the user's history runs before the LLM, and how confident it must be to categorise
+router.post("/local-classifier", async (req: any, res: Response) => {
+    const { enabled, threshold } = req.body;
+    if (typeof enabled !== "boolean" || typeof threshold !== "number" || threshold < 0.5 || threshold > 0.99) {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    try {
+        await query(
+            "UPDATE users SET local_classifier_enabled = $1, local_classifier_threshold = $2 WHERE id = $3",
+            [enabled, threshold, req.user.id]
+        );
+        res.json({ message: "Local classifier preferences updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+// @route   POST /api/settings/classification-review
+// AI categorisations below this confidence are held for review instead of being applied
+router.post("/classification-review", async (req: any, res: Response) => {
+    const { threshold } = req.body;
+    if (typeof threshold !== "number" || threshold < 0 || threshold > 1) {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    try {
+        await query(
+            "UPDATE users SET classification_review_threshold = $1 WHERE id = $2",
+            [threshold, req.user.id]
+        );
+        res.json({ message: "Review threshold updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+// @route   POST /api/settings/llm-privacy
+// What's masked from transactions before they're sent to an AI provider
+router.post("/llm-privacy", async (req: any, res: Response) => {
+    const { redactNumbers, redactNames, redactTerms, amountMode } = req.body;
+    if (typeof redactNumbers !== "boolean" || typeof redactNames !== "boolean" ||
+        !Array.isArray(redactTerms) || redactTerms.some((t: any) => typeof t !== "string") ||
+        !AMOUNT_MODES.includes(amountMode)) {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    const terms = Array.from(new Set(redactTerms.map((t: string) => t.trim()).filter(Boolean)));
+    try {
+        await query(
+            `UPDATE users SET llm_redact_numbers = $1, llm_redact_names = $2, llm_redact_terms = $3, llm_amount_mode = $4
+             WHERE id = $5`,
+            [redactNumbers, redactNames, terms, amountMode, req.user.id]
+        );
+        res.json({ message: "AI privacy preferences updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+// @route   POST /api/settings/llm-spending-cap
+// Estimated AI spend per calendar month (USD) after which AI is no longer used. null removes the cap.
+router.post("/llm-spending-cap", async (req: any, res: Response) => {
+    const { cap } = req.body;
+    if (cap !== null && (typeof cap !== "number" || cap < 0)) {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    try {
+        await query("UPDATE users SET llm_monthly_cap = $1 WHERE id = $2", [cap, req.user.id]);
+        res.json({ message: "AI spending cap updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+// @route   POST /api/settings/forecast-threshold
+// The cash-flow forecast warns when an account is projected to drop below this. null warns below zero only.
+router.post("/forecast-threshold", async (req: any, res: Response) => {
+    const { threshold } = req.body;
+    if (threshold !== null && (typeof threshold !== "number" || !Number.isFinite(threshold))) {
+        return res.status(400).json({ message: "Invalid value" });
+    }
+
+    try {
+        await query("UPDATE users SET forecast_low_balance_threshold = $1 WHERE id = $2", [threshold, req.user.id]);
+        res.json({ message: "Forecast threshold updated successfully" });
+    } catch (err) {
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
 // @route   POST /api/settings/api-keys
 router.post("/api-keys", async (req: any, res: Response) => {
     const { name } = req.body;
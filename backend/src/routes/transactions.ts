@@ -1,13 +1,35 @@
 // Use `import = require()` for CommonJS compatibility with types
 import express = require("express");
+import multer = require("multer");
 import type { Request, Response } from "express";
+import { AttachmentService, MAX_ATTACHMENT_BYTES } from "../services/attachmentService";
+import { ClassificationService } from "../services/classificationService";
+import { PayeeService } from "../services/payeeService";
+import { RuleLearningService } from "../services/ruleLearningService";
+import { SplitService } from "../services/splitService";
+import { TagService } from "../services/tagService";
+import { TransactionSearchService, buildSearchClauses, parseSearchQuery } from "../services/transactionSearch";
 
 const router = express.Router();
 const { query } = require("../db");
 const auth = require("../middleware/auth");
 
+const classificationService = new ClassificationService();
+const payeeService = new PayeeService();
+const ruleLearningService = new RuleLearningService();
+const splitService = new SplitService();
+const tagService = new TagService();
+const transactionSearchService = new TransactionSearchService();
+const attachmentService = new AttachmentService();
+// Attachments are held in memory only until they're handed to the storage backend
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_ATTACHMENT_BYTES } });
+
 router.use(auth);
 
+// A category the user chose themselves is reviewed by definition, and replaces any pending suggestion
+const MANUAL_CATEGORY_SQL = `category_source = 'manual', category_rule_id = NULL, category_model = NULL,
+    category_confidence = NULL, category_reviewed = true, suggested_category_id = NULL`;
+
 /**
  * @route   GET /api/transactions
  * @desc    Get all transactions with account and category information
@@ -17,23 +39,25 @@ router.get("/", async (req: any, res: Response) => {
     try {
         const userId = req.user.id;
         const page = parseInt(req.query.page as string) || 1;
-        let limit = parseInt(req.query.limit as string) || 50;
+        const limit = parseInt(req.query.limit as string) || 50;
         const search = (req.query.search as string) || "";
         const categoryId = req.query.categoryId as string;
         const accountId = req.query.accountId as string;
+        const payeeId = req.query.payeeId as string;
         const month = req.query.month as string; // YYYY-MM
-
-        if (search) {
-            limit = 10000;
-        }
+        const review = req.query.review as string; // unreviewed | needs_review
+        const tags = ((req.query.tags as string) || "").split(",").map(tag => tag.trim()).filter(Boolean);
 
         const offset = (page - 1) * limit;
         const params: any[] = [userId];
         const whereClauses: string[] = ["t.user_id = $1"];
 
         if (search) {
-            params.push(`%${search}%`);
-            whereClauses.push(`t.description ILIKE $${params.length}`);
+            try {
+                whereClauses.push(...buildSearchClauses(parseSearchQuery(search), params));
+            } catch (err: any) {
+                return res.status(400).json({ error: err.message });
+            }
         }
 
         if (accountId && accountId !== "all") {
@@ -41,6 +65,11 @@ router.get("/", async (req: any, res: Response) => {
             whereClauses.push(`t.account_id = $${params.length}`);
         }
 
+        if (payeeId) {
+            params.push(payeeId);
+            whereClauses.push(`t.payee_id = $${params.length}`);
+        }
+
         const startDateParam = req.query.startDate as string;
         const endDateParam = req.query.endDate as string;
 
@@ -79,18 +108,33 @@ router.get("/", async (req: any, res: Response) => {
                 whereClauses.push(`t.category_id IS NULL`);
             } else if (categoryId !== "all") {
                 params.push(categoryId);
-                whereClauses.push(`t.category_id IN (
+                // Split transactions match on any of their lines
+                whereClauses.push(`t.id IN (
                     WITH RECURSIVE category_tree AS (
                         SELECT id FROM categories WHERE id = $${params.length}
                         UNION ALL
                         SELECT c.id FROM categories c
                         JOIN category_tree ct ON c.parent_id = ct.id
                     )
-                    SELECT id FROM category_tree
+                    SELECT transaction_id FROM transaction_lines
+                    WHERE user_id = $1 AND category_id IN (SELECT id FROM category_tree)
                 )`);
             }
         }
 
+        if (review === "unreviewed") {
+            // Categorised automatically and not yet confirmed by the user
+            whereClauses.push(`t.category_source IN ('rule', 'payee', 'local', 'llm') AND t.category_id IS NOT NULL AND t.category_reviewed = false`);
+        } else if (review === "needs_review") {
+            whereClauses.push(`t.suggested_category_id IS NOT NULL`);
+        }
+
+        if (tags.length > 0) {
+            // Transactions carrying every one of the tags
+            params.push(tags);
+            whereClauses.push(`t.tags @> $${params.length}::text[]`);
+        }
+
         const whereSQL =
             whereClauses.length > 0
                 ? `WHERE ${whereClauses.join(" AND ")}`
@@ -111,6 +155,7 @@ router.get("/", async (req: any, res: Response) => {
             status: "t.status",
             account: "a.name",
             category: "c.name",
+            payee: "p.name",
         };
 
         const sortByParam = req.query.sortBy as string;
@@ -152,11 +197,35 @@ router.get("/", async (req: any, res: Response) => {
                 a.name as account,
                 c.name as category,
                 t.category_id,
+                t.category_source,
+                t.category_model,
+                t.category_confidence,
+                t.category_reviewed,
+                t.suggested_category_id,
+                sc.name as suggested_category,
+                t.is_split,
+                CASE WHEN t.is_split THEN (
+                    SELECT json_agg(json_build_object(
+                        'id', s.id, 'category_id', s.category_id, 'category', sc2.name, 'amount', s.amount, 'memo', s.memo
+                    ) ORDER BY s.sort_order)
+                    FROM transaction_splits s
+                    LEFT JOIN categories sc2 ON s.category_id = sc2.id
+                    WHERE s.transaction_id = t.id
+                ) END as splits,
+                t.tags,
+                t.notes,
+                (SELECT COUNT(*)::int FROM transaction_attachments ta WHERE ta.transaction_id = t.id) as attachment_count,
+                t.payee_id,
+                p.name as payee,
+                p.color as payee_color,
+                p.logo_url as payee_logo_url,
                 t.account_id,
                 t.balance
             FROM balance_calc t
             JOIN accounts a ON t.account_id = a.id
             LEFT JOIN categories c ON t.category_id = c.id
+            LEFT JOIN payees p ON t.payee_id = p.id
+            LEFT JOIN categories sc ON t.suggested_category_id = sc.id
             ${whereSQL}
             ORDER BY ${orderByClause}
             LIMIT $${params.length + 1} OFFSET $${params.length + 2};
@@ -178,19 +247,47 @@ router.get("/", async (req: any, res: Response) => {
     }
 });
 
+/**
+ * @route   GET /api/transactions/search/suggestions
+ * @desc    Completions for the search term being typed (?term=cat:gro), e.g. field names or category names
+ * @access  Private
+ */
+router.get("/search/suggestions", async (req: any, res: Response) => {
+    try {
+        res.json(await transactionSearchService.suggest(req.user.id, (req.query.term as string) || ""));
+    } catch (err: any) {
+        console.error("Error fetching search suggestions:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   GET /api/transactions/tags
+ * @desc    List the user's tags with how many transactions carry each
+ * @access  Private
+ */
+router.get("/tags", async (req: any, res: Response) => {
+    try {
+        res.json(await tagService.getTags(req.user.id));
+    } catch (err: any) {
+        console.error("Error fetching tags:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 /**
  * @route   POST /api/transactions/bulk-update
- * @desc    Bulk update transactions (e.g. categorize multiple)
+ * @desc    Bulk update transactions (e.g. categorize multiple, add or remove tags)
  * @access  Public
  */
 router.post("/bulk-update", async (req: any, res: Response) => {
-    const { transactionIds, categoryId, is_transfer } = req.body;
+    const { transactionIds, categoryId, is_transfer, addTags, removeTags } = req.body;
 
     if (!Array.isArray(transactionIds) || transactionIds.length === 0) {
         return res.status(400).json({ error: "No transaction IDs provided" });
     }
 
-    if (categoryId === undefined && is_transfer === undefined) {
+    if (categoryId === undefined && is_transfer === undefined && addTags === undefined && removeTags === undefined) {
         return res.status(400).json({ error: "No fields to update provided" });
     }
 
@@ -199,9 +296,23 @@ router.post("/bulk-update", async (req: any, res: Response) => {
         const values: any[] = [];
         let paramIndex = 1;
 
+        const tagsToAdd = await tagService.normalize(req.user.id, addTags);
+        const tagsToRemove = (await tagService.normalize(req.user.id, removeTags)).map(tag => tag.toLowerCase());
+        if (tagsToAdd.length > 0 || tagsToRemove.length > 0) {
+            setClauses.push(`tags = ARRAY(
+                SELECT DISTINCT tag FROM unnest(tags || $${paramIndex++}::text[]) AS tag
+                WHERE lower(tag) <> ALL($${paramIndex++}::text[])
+                ORDER BY tag
+            )`);
+            values.push(tagsToAdd, tagsToRemove);
+        } else if (categoryId === undefined && is_transfer === undefined) {
+            return res.status(400).json({ error: "No tags provided" });
+        }
+
         if (categoryId !== undefined) {
             setClauses.push(`category_id = $${paramIndex++}`);
             values.push(categoryId || null);
+            setClauses.push(MANUAL_CATEGORY_SQL);
         }
 
         if (is_transfer !== undefined) {
@@ -217,6 +328,17 @@ router.post("/bulk-update", async (req: any, res: Response) => {
             }
         }
 
+        setClauses.push("edited_at = NOW()");
+
+        // Previous categories, so manual recategorisation can be learned from
+        const before = categoryId
+            ? (await query(
+                `SELECT id, category_id, COALESCE(original_description, description) AS description
+                 FROM transactions WHERE id = ANY($1::uuid[]) AND user_id = $2`,
+                [transactionIds, req.user.id]
+            )).rows
+            : [];
+
         values.push(transactionIds);
         values.push(req.user.id);
 
@@ -224,10 +346,22 @@ router.post("/bulk-update", async (req: any, res: Response) => {
             UPDATE transactions
             SET ${setClauses.join(", ")}
             WHERE id = ANY($${paramIndex}::uuid[]) AND user_id = $${paramIndex + 1}
-            RETURNING id, is_transfer, transfer_id, category_id;
+            RETURNING id, is_transfer, transfer_id, category_id, tags;
         `;
         const { rows } = await query(sql, values);
 
+        // Choosing one category replaces any split
+        if (categoryId !== undefined) {
+            await splitService.clearSplits(req.user.id, rows.map((r: any) => r.id));
+        }
+
+        await ruleLearningService.recordCorrections(req.user.id, before.map((txn: any) => ({
+            transactionId: txn.id,
+            description: txn.description,
+            previousCategoryId: txn.category_id,
+            categoryId,
+        })));
+
         res.json({
             message: `Successfully updated ${rows.length} transactions`,
             updated: rows
@@ -254,7 +388,11 @@ router.get("/:id", async (req: any, res: Response) => {
                 t.amount,
                 t.status,
                 t.account_id,
-                t.category_id
+                t.category_id,
+                t.is_split,
+                t.tags,
+                t.notes,
+                t.payee_id
             FROM transactions t
             WHERE t.id = $1 AND t.user_id = $2;
         `;
@@ -262,20 +400,189 @@ router.get("/:id", async (req: any, res: Response) => {
         if (rows.length === 0) {
             return res.status(404).json({ error: "Transaction not found" });
         }
-        res.json(rows[0]);
+        const transaction = rows[0];
+        transaction.splits = transaction.is_split ? await splitService.getSplits(req.user.id, id) : [];
+        transaction.attachments = await attachmentService.list(req.user.id, id);
+        res.json(transaction);
     } catch (err: any) {
         console.error(`Error fetching transaction ${id}:`, err);
         res.status(500).json({ error: "Internal Server Error" });
     }
 });
 
+/**
+ * @route   GET /api/transactions/:id/splits
+ * @desc    Get a transaction's split lines (empty if it isn't split)
+ * @access  Private
+ */
+router.get("/:id/splits", async (req: any, res: Response) => {
+    const { id } = req.params;
+    try {
+        res.json(await splitService.getSplits(req.user.id, id));
+    } catch (err: any) {
+        console.error(`Error fetching splits for transaction ${id}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   PUT /api/transactions/:id/splits
+ * @desc    Split a transaction across categories, replacing any existing lines.
+ *          Body: { splits: [{ category_id, amount, memo }] }, amounts summing to the transaction's
+ * @access  Private
+ */
+router.put("/:id/splits", async (req: any, res: Response) => {
+    const { id } = req.params;
+    const lines = (req.body.splits || []).map((line: any) => ({
+        category_id: line.category_id || null,
+        amount: typeof line.amount === "string" ? parseFloat(line.amount) : line.amount,
+        memo: line.memo || null,
+    }));
+
+    try {
+        const { rows } = await query(
+            "SELECT amount FROM transactions WHERE id = $1 AND user_id = $2",
+            [id, req.user.id],
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ error: "Transaction not found" });
+        }
+
+        try {
+            await splitService.validate(req.user.id, rows[0].amount, lines);
+        } catch (err: any) {
+            return res.status(400).json({ error: err.message });
+        }
+
+        const splits = await splitService.setSplits(req.user.id, id, lines);
+        res.json(splits);
+    } catch (err: any) {
+        console.error(`Error splitting transaction ${id}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   DELETE /api/transactions/:id/splits
+ * @desc    Remove a split; the transaction keeps the category of its largest line
+ * @access  Private
+ */
+router.delete("/:id/splits", async (req: any, res: Response) => {
+    const { id } = req.params;
+    try {
+        const cleared = await splitService.clearSplits(req.user.id, [id]);
+        if (cleared === 0) {
+            return res.status(404).json({ error: "Split transaction not found" });
+        }
+        res.status(204).send();
+    } catch (err: any) {
+        console.error(`Error removing splits from transaction ${id}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   GET /api/transactions/:id/attachments
+ * @desc    List a transaction's attachments
+ * @access  Private
+ */
+router.get("/:id/attachments", async (req: any, res: Response) => {
+    const { id } = req.params;
+    try {
+        res.json(await attachmentService.list(req.user.id, id));
+    } catch (err: any) {
+        console.error(`Error fetching attachments for transaction ${id}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   POST /api/transactions/:id/attachments
+ * @desc    Attach an image or PDF (multipart field "file") to a transaction
+ * @access  Private
+ */
+router.post("/:id/attachments", (req: any, res: Response, next: express.NextFunction) => {
+    upload.single("file")(req, res, (err: any) => {
+        if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+            return res.status(400).json({ error: `Files can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` });
+        }
+        next(err);
+    });
+}, async (req: any, res: Response) => {
+    const { id } = req.params;
+    if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    try {
+        attachmentService.validate(req.file);
+    } catch (err: any) {
+        return res.status(400).json({ error: err.message });
+    }
+
+    try {
+        const attachment = await attachmentService.add(req.user.id, id, req.file);
+        if (!attachment) {
+            return res.status(404).json({ error: "Transaction not found" });
+        }
+        res.status(201).json(attachment);
+    } catch (err: any) {
+        console.error(`Error attaching file to transaction ${id}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   GET /api/transactions/:id/attachments/:attachmentId
+ * @desc    Download an attachment
+ * @access  Private
+ */
+router.get("/:id/attachments/:attachmentId", async (req: any, res: Response) => {
+    const { id, attachmentId } = req.params;
+    try {
+        const result = await attachmentService.get(req.user.id, id, attachmentId);
+        if (!result) {
+            return res.status(404).json({ error: "Attachment not found" });
+        }
+        const disposition = req.query.inline === "true" ? "inline" : "attachment";
+        res.setHeader("Content-Type", result.attachment.content_type);
+        res.setHeader(
+            "Content-Disposition",
+            `${disposition}; filename*=UTF-8''${encodeURIComponent(result.attachment.filename)}`,
+        );
+        res.send(result.data);
+    } catch (err: any) {
+        console.error(`Error downloading attachment ${attachmentId}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route   DELETE /api/transactions/:id/attachments/:attachmentId
+ * @desc    Delete an attachment and its file
+ * @access  Private
+ */
+router.delete("/:id/attachments/:attachmentId", async (req: any, res: Response) => {
+    const { id, attachmentId } = req.params;
+    try {
+        const deleted = await attachmentService.delete(req.user.id, id, attachmentId);
+        if (!deleted) {
+            return res.status(404).json({ error: "Attachment not found" });
+        }
+        res.status(204).send();
+    } catch (err: any) {
+        console.error(`Error deleting attachment ${attachmentId}:`, err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 /**
  * @route   POST /api/transactions
  * @desc    Create a new transaction
  * @access  Public
  */
 router.post("/", async (req: any, res: Response) => {
-    const { account_id, category_id, date, description, amount, status } =
+    const { account_id, category_id, date, description, amount, status, notes } =
         req.body;
 
     if (!account_id || !date || !description || amount === undefined) {
@@ -286,8 +593,8 @@ router.post("/", async (req: any, res: Response) => {
 
     try {
         const sql = `
-            INSERT INTO transactions (account_id, category_id, date, description, amount, status, user_id)
-            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            INSERT INTO transactions (account_id, category_id, date, description, amount, status, user_id, category_source, category_reviewed, notes)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
             RETURNING *;
         `;
         const { rows } = await query(sql, [
@@ -297,9 +604,22 @@ router.post("/", async (req: any, res: Response) => {
             description,
             amount,
             status || "pending",
-            req.user.id
+            req.user.id,
+            category_id ? "manual" : null,
+            !!category_id,
+            notes?.trim() || null,
         ]);
-        res.status(201).json(rows[0]);
+
+        const transaction = rows[0];
+        await payeeService.linkNewTransactions(req.user.id, [transaction.id]);
+
+        // Let rules categorise it if the user didn't pick a category
+        if (!transaction.category_id) {
+            const [update] = await classificationService.classifyNewTransactions(req.user.id, [transaction.id]);
+            if (update) Object.assign(transaction, update);
+        }
+
+        res.status(201).json(transaction);
     } catch (err: any) {
         console.error("Error creating transaction:", err);
         res.status(500).json({ error: "Internal Server Error" });
@@ -313,10 +633,10 @@ router.post("/", async (req: any, res: Response) => {
  */
 router.patch("/:id", async (req: any, res: Response) => {
     const { id } = req.params;
-    const { category_id, description, status, date, amount, is_transfer } = req.body;
+    const { category_id, description, status, date, amount, is_transfer, notes } = req.body;
 
     if (
-        [category_id, description, status, date, amount, is_transfer].every(
+        [category_id, description, status, date, amount, is_transfer, notes].every(
             (field) => field === undefined,
         )
     ) {
@@ -333,6 +653,10 @@ router.patch("/:id", async (req: any, res: Response) => {
         }
         const currentTxn = currentResult.rows[0];
 
+        if (currentTxn.is_split && amount !== undefined && parseFloat(amount) !== parseFloat(currentTxn.amount)) {
+            return res.status(400).json({ error: "This transaction is split. Change its split lines or remove the split first." });
+        }
+
         const updatedTxn = {
             ...currentTxn,
             category_id:
@@ -347,11 +671,13 @@ router.patch("/:id", async (req: any, res: Response) => {
             date: date !== undefined ? date : currentTxn.date,
             amount: amount !== undefined ? amount : currentTxn.amount,
             is_transfer: is_transfer !== undefined ? is_transfer : currentTxn.is_transfer,
+            notes: notes !== undefined ? notes?.trim() || null : currentTxn.notes,
         };
 
         const sql = `
             UPDATE transactions
-            SET category_id = $1, description = $2, status = $3, date = $4, amount = $5, is_transfer = $6
+            SET category_id = $1, description = $2, status = $3, date = $4, amount = $5, is_transfer = $6,
+                notes = $9, edited_at = NOW()${category_id !== undefined ? `, ${MANUAL_CATEGORY_SQL}` : ""}
             WHERE id = $7 AND user_id = $8
             RETURNING *;
         `;
@@ -363,8 +689,23 @@ router.patch("/:id", async (req: any, res: Response) => {
             updatedTxn.amount,
             updatedTxn.is_transfer,
             id,
-            req.user.id
+            req.user.id,
+            updatedTxn.notes,
         ]);
+
+        if (category_id !== undefined) {
+            // Choosing one category replaces any split
+            if (currentTxn.is_split) {
+                await splitService.clearSplits(req.user.id, [id]);
+                rows[0].is_split = false;
+            }
+            await ruleLearningService.recordCorrections(req.user.id, [{
+                transactionId: id,
+                description: currentTxn.original_description || currentTxn.description,
+                previousCategoryId: currentTxn.category_id,
+                categoryId: category_id,
+            }]);
+        }
         res.json(rows[0]);
     } catch (err: any) {
         console.error(`Error updating transaction ${id}:`, err);
@@ -380,6 +721,7 @@ router.patch("/:id", async (req: any, res: Response) => {
 router.delete("/:id", async (req: any, res: Response) => {
     const { id } = req.params;
     try {
+        await attachmentService.deleteForTransactions(req.user.id, [id]);
         const { rowCount } = await query(
             "DELETE FROM transactions WHERE id = $1 AND user_id = $2",
             [id, req.user.id],
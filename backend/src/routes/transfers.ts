@@ -0,0 +1,97 @@
+import express = require("express");
+import type { Response } from "express";
+import { TransferMatchService } from "../services/transferMatchService";
+
+const router = express.Router();
+const auth = require("../middleware/auth");
+
+router.use(auth);
+
+const transferMatchService = new TransferMatchService();
+
+/**
+ * @route   GET /api/transfers/candidates
+ * @desc    List possible transfer pairs awaiting review
+ * @access  Private
+ */
+router.get("/candidates", async (req: any, res: Response) => {
+    try {
+        res.json(await transferMatchService.getPending(req.user.id));
+    } catch (err: any) {
+        console.error("Error fetching transfer candidates:", err);
+        res.status(500).json({ error: "Failed to fetch transfer candidates" });
+    }
+});
+
+/**
+ * @route   POST /api/transfers/scan
+ * @desc    Link unambiguous transfers between accounts and flag the rest for review
+ * @access  Private
+ */
+router.post("/scan", async (req: any, res: Response) => {
+    try {
+        const result = await transferMatchService.match(req.user.id);
+        res.json({
+            message: `Linked ${result.linked} transfers; ${result.flagged} possible matches need review`,
+            ...result,
+        });
+    } catch (err: any) {
+        console.error("Error matching transfers:", err);
+        res.status(500).json({ error: "Failed to match transfers" });
+    }
+});
+
+/**
+ * @route   POST /api/transfers/candidates/:id/link
+ * @desc    Link a reviewed pair as a transfer
+ * @access  Private
+ */
+router.post("/candidates/:id/link", async (req: any, res: Response) => {
+    try {
+        const linked = await transferMatchService.linkCandidate(req.user.id, req.params.id);
+        if (!linked) return res.status(404).json({ error: "Transfer candidate not found or no longer available" });
+        res.json({ message: "Linked as a transfer" });
+    } catch (err: any) {
+        console.error("Error linking transfer:", err);
+        res.status(500).json({ error: "Failed to link transfer" });
+    }
+});
+
+/**
+ * @route   POST /api/transfers/candidates/:id/dismiss
+ * @desc    Not a transfer; stop suggesting the pair
+ * @access  Private
+ */
+router.post("/candidates/:id/dismiss", async (req: any, res: Response) => {
+    try {
+        const dismissed = await transferMatchService.dismissCandidate(req.user.id, req.params.id);
+        if (!dismissed) return res.status(404).json({ error: "Transfer candidate not found" });
+        res.json({ message: "Dismissed" });
+    } catch (err: any) {
+        console.error("Error dismissing transfer candidate:", err);
+        res.status(500).json({ error: "Failed to update transfer candidate" });
+    }
+});
+
+/**
+ * @route   POST /api/transfers/unlink
+ * @desc    Unlink the transfer a transaction (transactionId) belongs to, so both sides are ordinary transactions again
+ * @access  Private
+ */
+router.post("/unlink", async (req: any, res: Response) => {
+    const { transactionId } = req.body;
+    if (!transactionId) {
+        return res.status(400).json({ error: "transactionId is required" });
+    }
+
+    try {
+        const updated = await transferMatchService.unlink(req.user.id, transactionId);
+        if (updated.length === 0) return res.status(404).json({ error: "Linked transfer not found" });
+        res.json({ message: "Transfer unlinked", updated });
+    } catch (err: any) {
+        console.error("Error unlinking transfer:", err);
+        res.status(500).json({ error: "Failed to unlink transfer" });
+    }
+});
+
+module.exports = router;
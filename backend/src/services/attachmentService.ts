@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import { query } from "../db";
+import { StorageName, getAttachmentStorage } from "./attachmentStorage";
+
+export interface TransactionAttachment {
+    id: string;
+    transaction_id: string;
+    filename: string;
+    content_type: string;
+    size_bytes: number;
+    created_at: string;
+}
+
+export interface UploadedFile {
+    originalname: string;
+    mimetype: string;
+    buffer: Buffer;
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const ALLOWED_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'image/heif'];
+
+const ATTACHMENT_COLUMNS = 'id, transaction_id, filename, content_type, size_bytes, created_at';
+
+/**
+ * Receipts and other files kept against transactions. Metadata lives in the database and
+ * the file itself in the configured AttachmentStorage.
+ */
+export class AttachmentService {
+    async list(userId: string, transactionId: string): Promise<TransactionAttachment[]> {
+        const { rows } = await query(
+            `SELECT ${ATTACHMENT_COLUMNS} FROM transaction_attachments
+             WHERE transaction_id = $1 AND user_id = $2
+             ORDER BY created_at`,
+            [transactionId, userId]
+        );
+        return rows;
+    }
+
+    /**
+     * Stores an uploaded image or PDF. Returns null if the transaction doesn't exist;
+     * throws with a message for the user if the file isn't acceptable.
+     */
+    async add(userId: string, transactionId: string, file: UploadedFile): Promise<TransactionAttachment | null> {
+        const { rows: [transaction] } = await query(
+            'SELECT id FROM transactions WHERE id = $1 AND user_id = $2',
+            [transactionId, userId]
+        );
+        if (!transaction) return null;
+
+        this.validate(file);
+
+        const storage = getAttachmentStorage();
+        const key = `${userId}/${transactionId}/${crypto.randomUUID()}`;
+        await storage.put(key, file.buffer, file.mimetype);
+
+        try {
+            const { rows } = await query(
+                `INSERT INTO transaction_attachments
+                    (transaction_id, user_id, filename, content_type, size_bytes, sha256, storage, storage_key)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                 RETURNING ${ATTACHMENT_COLUMNS}`,
+                [
+                    transactionId,
+                    userId,
+                    file.originalname || 'attachment',
+                    file.mimetype,
+                    file.buffer.length,
+                    crypto.createHash("sha256").update(file.buffer).digest("hex"),
+                    storage.name,
+                    key,
+                ]
+            );
+            return rows[0];
+        } catch (err) {
+            await storage.delete(key).catch(() => undefined);
+            throw err;
+        }
+    }
+
+    /**
+     * Throws with a message for the user if the file can't be attached.
+     */
+    validate(file: UploadedFile): void {
+        if (!ALLOWED_TYPES.includes(file.mimetype)) {
+            throw new Error("Only images and PDFs can be attached");
+        }
+        if (file.buffer.length === 0) {
+            throw new Error("The file is empty");
+        }
+    }
+
+    /**
+     * The attachment and its contents, or null if it doesn't exist.
+     */
+    async get(userId: string, transactionId: string, attachmentId: string): Promise<{ attachment: TransactionAttachment; data: Buffer } | null> {
+        const { rows: [row] } = await query(
+            `SELECT ${ATTACHMENT_COLUMNS}, storage, storage_key FROM transaction_attachments
+             WHERE id = $1 AND transaction_id = $2 AND user_id = $3`,
+            [attachmentId, transactionId, userId]
+        );
+        if (!row) return null;
+
+        const { storage, storage_key, ...attachment } = row;
+        const data = await getAttachmentStorage(storage as StorageName).get(storage_key);
+        return { attachment, data };
+    }
+
+    async delete(userId: string, transactionId: string, attachmentId: string): Promise<boolean> {
+        const { rows } = await query(
+            `DELETE FROM transaction_attachments
+             WHERE id = $1 AND transaction_id = $2 AND user_id = $3
+             RETURNING storage, storage_key`,
+            [attachmentId, transactionId, userId]
+        );
+        await this.removeFiles(rows);
+        return rows.length > 0;
+    }
+
+    /**
+     * Removes the files of transactions about to be deleted; their rows go with the transactions.
+     */
+    async deleteForTransactions(userId: string, transactionIds: string[]): Promise<void> {
+        const { rows } = await query(
+            `SELECT storage, storage_key FROM transaction_attachments
+             WHERE transaction_id = ANY($1::uuid[]) AND user_id = $2`,
+            [transactionIds, userId]
+        );
+        await this.removeFiles(rows);
+    }
+
+    // A file that can't be removed is logged rather than failing the delete
+    private async removeFiles(rows: { storage: StorageName; storage_key: string }[]): Promise<void> {
+        for (const row of rows) {
+            try {
+                await getAttachmentStorage(row.storage).delete(row.storage_key);
+            } catch (err) {
+                console.error(`Failed to remove attachment file ${row.storage_key}:`, err);
+            }
+        }
+    }
+}
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import axios from "axios";
+
+export type StorageName = 'local' | 's3';
+
+/**
+ * Where attachment files are kept. Keys are generated by AttachmentService, never taken from the user.
+ */
+export interface AttachmentStorage {
+    readonly name: StorageName;
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Buffer>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Files under a directory on the server, ATTACHMENTS_DIR or ./attachments by default.
+ * Back this directory up with the database.
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+    readonly name = 'local' as const;
+
+    constructor(private readonly root: string) { }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const file = this.resolve(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, data);
+    }
+
+    async get(key: string): Promise<Buffer> {
+        return fs.readFile(this.resolve(key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    private resolve(key: string): string {
+        const file = path.resolve(this.root, key);
+        if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+            throw new Error(`Invalid attachment key: ${key}`);
+        }
+        return file;
+    }
+}
+
+export interface S3Config {
+    endpoint: string;   // e.g. https://s3.ap-southeast-2.amazonaws.com, or a MinIO / R2 URL
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+/**
+ * Objects in an S3-compatible bucket, addressed path-style so MinIO and similar work too.
+ * Requests are signed with AWS Signature Version 4.
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+    readonly name = 's3' as const;
+
+    constructor(private readonly config: S3Config) { }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.request("PUT", key, data, { "content-type": contentType });
+    }
+
+    async get(key: string): Promise<Buffer> {
+        return this.request("GET", key);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request("DELETE", key);
+    }
+
+    private async request(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Buffer> {
+        const url = new URL(this.config.endpoint);
+        const objectPath = `/${[this.config.bucket, ...key.split("/")].map(encodeRfc3986).join("/")}`;
+        const basePath = url.pathname.replace(/\/$/, "");
+        const canonicalUri = `${basePath}${objectPath}`;
+
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+        const dateStamp = amzDate.slice(0, 8);
+        const payloadHash = sha256(body || "");
+
+        const headers: Record<string, string> = {
+            host: url.host,
+            "x-amz-content-sha256": payloadHash,
+            "x-amz-date": amzDate,
+            ...extraHeaders,
+        };
+        const signedHeaders = Object.keys(headers).sort();
+        const canonicalRequest = [
+            method,
+            canonicalUri,
+            "",
+            ...signedHeaders.map(name => `${name}:${headers[name].trim()}`),
+            "",
+            signedHeaders.join(";"),
+            payloadHash,
+        ].join("\n");
+
+        const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+        const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+        const signingKey = ["s3", "aws4_request"].reduce(
+            (signingKey, part) => hmac(signingKey, part),
+            hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+        );
+        const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+        const { host, ...sentHeaders } = headers;
+        const response = await axios.request({
+            method,
+            url: `${url.origin}${canonicalUri}`,
+            data: body,
+            headers: {
+                ...sentHeaders,
+                Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+            },
+            responseType: "arraybuffer",
+            maxBodyLength: Infinity,
+        });
+        return Buffer.from(response.data);
+    }
+}
+
+// encodeURIComponent leaves !'()* alone, but SigV4 expects them encoded
+const encodeRfc3986 = (segment: string) =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const storages = new Map<StorageName, AttachmentStorage>();
+
+/**
+ * The storage backend new attachments go to: S3 when ATTACHMENT_STORAGE=s3, local disk otherwise.
+ */
+export const getDefaultStorageName = (): StorageName =>
+    process.env.ATTACHMENT_STORAGE === 's3' ? 's3' : 'local';
+
+/**
+ * A storage backend by name. Existing attachments keep the backend they were saved to,
+ * so switching ATTACHMENT_STORAGE doesn't orphan them as long as both stay configured.
+ */
+export const getAttachmentStorage = (name: StorageName = getDefaultStorageName()): AttachmentStorage => {
+    let storage = storages.get(name);
+    if (!storage) {
+        if (name === 's3') {
+            const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+            if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+                throw new Error("S3 attachment storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+            }
+            storage = new S3AttachmentStorage({
+                endpoint: S3_ENDPOINT,
+                region: S3_REGION || "us-east-1",
+                bucket: S3_BUCKET,
+                accessKeyId: S3_ACCESS_KEY_ID,
+                secretAccessKey: S3_SECRET_ACCESS_KEY,
+            });
+        } else {
+            storage = new LocalAttachmentStorage(process.env.ATTACHMENTS_DIR || path.join(process.cwd(), "attachments"));
+        }
+        storages.set(name, storage);
+    }
+    return storage;
+};
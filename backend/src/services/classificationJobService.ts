@@ -0,0 +1,219 @@
+import { query } from "../db";
+import { ClassificationService } from "./classificationService";
+import { LlmConfig } from "./llmProviders";
+import { LlmUsageService } from "./llmUsage";
+
+// Uncategorised transactions fetched per page of the backlog
+const PAGE_SIZE = 100;
+// Pause between pages sent to the LLM, to stay under provider rate limits
+const LLM_PAGE_PAUSE_MS = 1000;
+// After this many pages in a row where the LLM failed (even after retries), it's skipped for the rest of the job
+const MAX_LLM_FAILURES = 3;
+
+export type ClassificationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ClassificationJob {
+    id: string;
+    status: ClassificationJobStatus;
+    trigger: 'manual' | 'auto';
+    only_rules: boolean;
+    total: number;
+    processed: number;
+    classified_rules: number;
+    classified_local: number;
+    classified_ai: number;
+    needs_review: number;
+    last_error: string | null;
+    cancel_requested: boolean;
+    created_at: Date;
+    started_at: Date | null;
+    finished_at: Date | null;
+}
+
+export interface ClassificationJobOptions {
+    onlyRules?: boolean;
+    trigger?: 'manual' | 'auto';
+}
+
+const JOB_COLUMNS = `id, status, trigger, only_rules, total, processed, classified_rules, classified_local,
+    classified_ai, needs_review, last_error, cancel_requested, created_at, started_at, finished_at`;
+
+// Rows still to classify. Automatic jobs skip rows the LLM has already answered for; manual ones
+// retry them, but only once per job (rows attempted since $2, the job's start, are skipped)
+const BACKLOG_FILTER = `user_id = $1 AND category_id IS NULL AND is_transfer = false AND suggested_category_id IS NULL
+    AND (classification_attempted_at IS NULL OR ($2::timestamptz IS NOT NULL AND classification_attempted_at < $2))`;
+
+// Jobs running in this process per user, and whether another sweep was requested meanwhile
+const runningJobs = new Map<string, { jobId: string; rerun: boolean }>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class ClassificationJobService {
+    private classificationService = new ClassificationService();
+    private llmUsageService = new LlmUsageService();
+
+    /**
+     * Starts classifying the user's whole uncategorised backlog in the background. If a job is
+     * already running it's returned instead, and sweeps the backlog again once it gets to the
+     * end so transactions inserted in the meantime are covered too.
+     */
+    async startJob(userId: string, options: ClassificationJobOptions = {}): Promise<ClassificationJob> {
+        const active = runningJobs.get(userId);
+        if (active) {
+            active.rerun = true;
+            const job = await this.getJob(userId, active.jobId);
+            if (job) return job;
+        }
+
+        const { rows } = await query(
+            `INSERT INTO classification_jobs (user_id, trigger, only_rules)
+             VALUES ($1, $2, $3)
+             RETURNING ${JOB_COLUMNS}`,
+            [userId, options.trigger || 'manual', !!options.onlyRules]
+        );
+        const job: ClassificationJob = rows[0];
+
+        runningJobs.set(userId, { jobId: job.id, rerun: false });
+        setImmediate(() => this.run(userId, job));
+        return job;
+    }
+
+    async getJob(userId: string, jobId: string): Promise<ClassificationJob | null> {
+        const { rows } = await query(
+            `SELECT ${JOB_COLUMNS} FROM classification_jobs WHERE id = $1 AND user_id = $2`,
+            [jobId, userId]
+        );
+        return rows[0] || null;
+    }
+
+    async getJobs(userId: string, limit: number = 10): Promise<ClassificationJob[]> {
+        const { rows } = await query(
+            `SELECT ${JOB_COLUMNS} FROM classification_jobs
+             WHERE user_id = $1
+             ORDER BY created_at DESC
+             LIMIT $2`,
+            [userId, limit]
+        );
+        return rows;
+    }
+
+    /**
+     * Asks a queued or running job to stop. It finishes the page it's on first, so
+     * everything classified so far is kept. Returns false if the job isn't active.
+     */
+    async cancelJob(userId: string, jobId: string): Promise<boolean> {
+        const { rowCount } = await query(
+            `UPDATE classification_jobs SET cancel_requested = true
+             WHERE id = $1 AND user_id = $2 AND status IN ('queued', 'running')`,
+            [jobId, userId]
+        );
+        return (rowCount || 0) > 0;
+    }
+
+    /**
+     * Jobs don't survive a restart; mark any left active as failed so the UI stops waiting.
+     */
+    async failInterruptedJobs(): Promise<void> {
+        await query(
+            `UPDATE classification_jobs
+             SET status = 'failed', last_error = 'System restart: job interrupted', finished_at = NOW()
+             WHERE status IN ('queued', 'running')`,
+            []
+        );
+    }
+
+    private async run(userId: string, job: ClassificationJob): Promise<void> {
+        const { id: jobId, only_rules: onlyRules } = job;
+        const state = runningJobs.get(userId)!;
+        const retryAttemptedBefore = job.trigger === 'manual' ? job.created_at : null;
+
+        try {
+            const { rows: categories } = await query('SELECT id, name FROM categories WHERE user_id = $1', [userId]);
+            let llm: LlmConfig | null = onlyRules ? null : await this.classificationService.getLlmConfig(userId);
+            let llmFailures = 0;
+
+            do {
+                state.rerun = false;
+
+                const { rows: [{ remaining }] } = await query(
+                    `SELECT COUNT(*)::int AS remaining FROM transactions WHERE ${BACKLOG_FILTER}`,
+                    [userId, retryAttemptedBefore]
+                );
+                await query(
+                    `UPDATE classification_jobs
+                     SET status = 'running', started_at = COALESCE(started_at, NOW()), total = processed + $2
+                     WHERE id = $1`,
+                    [jobId, remaining]
+                );
+
+                // Paged by ID so rows left uncategorised aren't fetched again in the same sweep
+                let cursor: string | null = null;
+                while (true) {
+                    if (await this.isCancelRequested(jobId)) {
+                        await this.finish(jobId, 'cancelled');
+                        return;
+                    }
+
+                    const { rows: page } = await query(
+                        `SELECT * FROM transactions
+                         WHERE ${BACKLOG_FILTER} AND ($3::uuid IS NULL OR id > $3::uuid)
+                         ORDER BY id
+                         LIMIT $4`,
+                        [userId, retryAttemptedBefore, cursor, PAGE_SIZE]
+                    );
+                    if (page.length === 0) break;
+                    cursor = page[page.length - 1].id;
+
+                    // Checked per page, since the job itself can use up what's left of the month's budget
+                    let capError: string | null = null;
+                    if (llm && await this.llmUsageService.isCapReached(userId)) {
+                        llm = null;
+                        capError = 'AI spending cap reached: the rest were left for rules and your history';
+                    }
+
+                    const result = await this.classificationService.classifyUncategorized(userId, page, categories, llm, onlyRules);
+
+                    let error = capError || (result.ai_error ? `AI: ${result.ai_error}` : null);
+                    llmFailures = result.ai_error ? llmFailures + 1 : 0;
+                    if (llm && llmFailures >= MAX_LLM_FAILURES) {
+                        llm = null;
+                        error = `${error} (AI skipped for the rest of this job)`;
+                    }
+
+                    await query(
+                        `UPDATE classification_jobs
+                         SET processed = processed + $2, classified_rules = classified_rules + $3,
+                             classified_local = classified_local + $4, classified_ai = classified_ai + $5,
+                             needs_review = needs_review + $6, last_error = COALESCE($7, last_error)
+                         WHERE id = $1`,
+                        [jobId, page.length, result.classified_rules, result.classified_local,
+                            result.classified_ai, result.needs_review, error]
+                    );
+
+                    if (llm) await sleep(LLM_PAGE_PAUSE_MS);
+                }
+            } while (state.rerun);
+
+            await this.finish(jobId, 'completed');
+        } catch (err: any) {
+            console.error(`Classification job ${jobId} failed:`, err);
+            await this.finish(jobId, 'failed', err.message).catch(() => undefined);
+        } finally {
+            runningJobs.delete(userId);
+        }
+    }
+
+    private async isCancelRequested(jobId: string): Promise<boolean> {
+        const { rows } = await query('SELECT cancel_requested FROM classification_jobs WHERE id = $1', [jobId]);
+        return !!rows[0]?.cancel_requested;
+    }
+
+    private async finish(jobId: string, status: ClassificationJobStatus, error?: string): Promise<void> {
+        await query(
+            `UPDATE classification_jobs
+             SET status = $2, finished_at = NOW(), last_error = COALESCE($3, last_error)
+             WHERE id = $1`,
+            [jobId, status, error || null]
+        );
+    }
+}
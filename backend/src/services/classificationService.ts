@@ -1,114 +1,277 @@
 import { query } from '../db';
-import axios from 'axios';
-import { RuleService } from './ruleService';
-
-interface Category {
+import { RuleService, RuleUpdate } from './ruleService';
+import { LocalClassifierService } from './localClassifier';
+import { RuleLearningService } from './ruleLearningService';
+import { LlmConfig, getLlmProvider, parseJsonResponse } from './llmProviders';
+import { LlmPrivacyService, LlmRedactor } from './llmPrivacy';
+import { LlmUsageService } from './llmUsage';
+import { PayeeService } from './payeeService';
+
+export interface Category {
     id: string;
     name: string;
 }
 
-interface Transaction {
+export interface Transaction {
     id: string;
     description: string;
     amount: number;
     date: string;
+    account_id: string;
+}
+
+/**
+ * What classifyUncategorized did with one batch.
+ */
+export interface BatchResult {
+    classified_rules: number;
+    classified_local: number;
+    classified_ai: number;
+    needs_review: number;
+    ai_error?: string; // Set if the LLM step gave up (after retries) on part of the batch
 }
 
+// Transactions per LLM request, to stay well inside context windows
+const LLM_BATCH_SIZE = 50;
+// Output tokens budgeted per classification in the LLM's reply (two aliases and a confidence)
+const TOKENS_PER_CLASSIFICATION = 60;
+
 export class ClassificationService {
     private ruleService = new RuleService();
+    private localClassifier = new LocalClassifierService();
+    private ruleLearningService = new RuleLearningService();
+    private llmPrivacyService = new LlmPrivacyService();
+    private llmUsageService = new LlmUsageService();
+    private payeeService = new PayeeService();
 
     /**
-     * Classifies uncategorized transactions using Rules FIRST, then LLM.
-     * @param apiKey The API Key for the LLM Provider (optional if only running rules?) 
-     *               Currently required by Route, but logic handles missing key gracefully.
-     * @param baseUrl The Base URL
-     * @param model The Model ID
-     * @param userId The User ID to scope transactions and rules
+     * Runs the rules engine, payees' default categories and then the local classifier over freshly
+     * inserted transactions and, if the user has opted in, queues an LLM pass for whatever is still uncategorised.
+     * Never throws: classification must not fail the insert that triggered it.
      */
-    async classifyUncategorized(apiKey: string, baseUrl: string = 'https://api.openai.com/v1', model: string = 'gpt-3.5-turbo', userId: string, onlyRules: boolean = false) {
-        if (!userId) throw new Error("User ID is required");
+    async classifyNewTransactions(userId: string, transactionIds: string[]): Promise<RuleUpdate[]> {
+        if (transactionIds.length === 0) return [];
+
+        try {
+            const updates = await this.ruleService.applyRules(userId, transactionIds);
+
+            // Then the payee's default category, for whatever the rules left uncategorised
+            for (const update of await this.payeeService.applyDefaultCategories(userId, transactionIds)) {
+                const index = updates.findIndex(u => u.id === update.id);
+                if (index >= 0) updates[index] = update;
+                else updates.push(update);
+            }
+            let resolved = updates.filter(u => u.category_id || u.is_transfer).length;
+
+            if (resolved < transactionIds.length) {
+                const { rows } = await query(
+                    `SELECT id, description, original_description, amount, account_id FROM transactions
+                     WHERE id = ANY($1::uuid[]) AND user_id = $2 AND category_id IS NULL AND is_transfer = false`,
+                    [transactionIds, userId]
+                );
+                const predicted = await this.classifyLocally(userId, rows);
+                for (const update of predicted) {
+                    const index = updates.findIndex(u => u.id === update.id);
+                    if (index >= 0) updates[index] = update;
+                    else updates.push(update);
+                }
+                resolved += predicted.length;
+            }
+
+            if (resolved < transactionIds.length) {
+                const { rows } = await query('SELECT auto_classify_llm FROM users WHERE id = $1', [userId]);
+                if (rows[0]?.auto_classify_llm) {
+                    this.queueLlmPass(userId);
+                }
+            }
+
+            return updates;
+        } catch (err) {
+            console.error("Automatic classification failed:", err);
+            return [];
+        }
+    }
+
+    /**
+     * The user's integration for the given provider, or their most recently updated active one,
+     * with provider defaults filled in. Null if there isn't a usable one.
+     */
+    async getLlmConfig(userId: string, providerId?: string): Promise<LlmConfig | null> {
+        const { rows } = await query(
+            `SELECT api_key, model, provider, base_url FROM llm_settings
+             WHERE user_id = $1 AND is_active = true AND ($2::text IS NULL OR provider = $2)
+             ORDER BY updated_at DESC
+             LIMIT 1`,
+            [userId, providerId || null]
+        );
+        if (rows.length === 0) return null;
+
+        const provider = getLlmProvider(rows[0].provider || 'openai');
+        if (!provider || (provider.requiresApiKey && !rows[0].api_key)) return null;
+
+        return {
+            apiKey: rows[0].api_key || '',
+            baseUrl: rows[0].base_url || provider.defaultBaseUrl,
+            model: rows[0].model || provider.defaultModel,
+            provider: provider.id,
+        };
+    }
 
-        // 1. Fetch Categories
-        const catResult = await query('SELECT id, name FROM categories WHERE user_id = $1', [userId]);
-        const categories = catResult.rows;
-        if (categories.length === 0) return { message: "No categories found." };
+    /**
+     * Categorises transactions the user's local model is confident about, if enabled.
+     * Returns the rows it updated.
+     */
+    private async classifyLocally(userId: string, transactions: { id: string; description: string; original_description?: string | null; amount: number | string; account_id: string }[]): Promise<RuleUpdate[]> {
+        if (transactions.length === 0) return [];
+
+        const { rows } = await query(
+            'SELECT local_classifier_enabled, local_classifier_threshold FROM users WHERE id = $1',
+            [userId]
+        );
+        if (!rows[0]?.local_classifier_enabled) return [];
+
+        const predictions = await this.localClassifier.predict(userId, transactions, parseFloat(rows[0].local_classifier_threshold));
+        const updates: RuleUpdate[] = [];
+        for (const [id, prediction] of predictions) {
+            const result = await query(
+                `UPDATE transactions SET category_id = $1, category_source = 'local', category_rule_id = NULL,
+                    category_model = 'local', category_confidence = $3, category_reviewed = false, suggested_category_id = NULL
+                 WHERE id = $2 AND category_id IS NULL
+                 RETURNING id, category_id, description, status, is_transfer, transfer_id, tags, notes`,
+                [prediction.category_id, id, prediction.confidence.toFixed(3)]
+            );
+            if (result.rows[0]) updates.push(result.rows[0]);
+        }
+        return updates;
+    }
+
+    private async getReviewThreshold(userId: string): Promise<number> {
+        const { rows } = await query('SELECT classification_review_threshold FROM users WHERE id = $1', [userId]);
+        return parseFloat(rows[0]?.classification_review_threshold ?? '0.7');
+    }
+
+    /**
+     * Starts a background classification job for the user's backlog, unless one is already
+     * running, in which case it is asked to sweep again so rows inserted meanwhile aren't missed.
+     */
+    private async queueLlmPass(userId: string): Promise<void> {
+        try {
+            if (!(await this.getLlmConfig(userId))) return;
+            if (await this.llmUsageService.isCapReached(userId)) return;
+
+            // Required lazily: the job service depends on this one
+            const { ClassificationJobService } = require('./classificationJobService');
+            await new ClassificationJobService().startJob(userId, { trigger: 'auto' });
+        } catch (err) {
+            console.error("Failed to queue background classification:", err);
+        }
+    }
 
-        // 2. Fetch Uncategorized Transactions
-        const txResult = await query('SELECT * FROM transactions WHERE category_id IS NULL AND is_transfer = false AND account_id IN (SELECT id FROM accounts WHERE user_id = $1) LIMIT 100', [userId]);
-        const transactions: Transaction[] = txResult.rows;
+    /**
+     * Classifies a batch of uncategorized transactions using Rules FIRST, then the local model, then LLM.
+     * @param userId The User ID to scope transactions and rules
+     * @param transactions The batch, e.g. one page of the backlog
+     * @param categories The user's categories, offered to the LLM
+     * @param llm The LLM integration to use; the AI step is skipped without one
+     * @param onlyRules Skip the local model and the LLM
+     */
+    async classifyUncategorized(
+        userId: string,
+        transactions: Transaction[],
+        categories: Category[],
+        llm: LlmConfig | null,
+        onlyRules: boolean = false
+    ): Promise<BatchResult> {
+        if (!userId) throw new Error("User ID is required");
 
-        if (transactions.length === 0) return { message: "No uncategorized transactions found." };
+        const result: BatchResult = { classified_rules: 0, classified_local: 0, classified_ai: 0, needs_review: 0 };
+        if (transactions.length === 0) return result;
 
         console.log(`Processing ${transactions.length} transactions for User ${userId}...`);
 
-        // 3. Apply Rules
+        // 1. Apply Rules
         const rules = await this.ruleService.getRules(userId);
         const activeRules = rules.filter(r => r.is_active);
 
-        let ruleMatches = 0;
-        const llmCandidates: Transaction[] = [];
+        let unmatched: Transaction[] = [];
 
         for (const tx of transactions) {
-            let matchedRule = null;
-            // Find first matching rule (Rules are ordered by priority)
-            for (const rule of activeRules) {
-                if (this.matchRule(tx.description, rule)) {
-                    matchedRule = rule;
-                    break;
+            // Rules are ordered by priority
+            const { changes, matched } = this.ruleService.evaluateRules(tx, activeRules);
+            if (matched.length > 0) {
+                const update = await this.ruleService.applyChanges(userId, tx, changes, matched);
+                if (update?.description) tx.description = update.description;
+                if (update?.category_id || update?.is_transfer) {
+                    result.classified_rules++;
+                    continue;
                 }
             }
-
-            if (matchedRule) {
-                // Apply Rule
-                await query('UPDATE transactions SET category_id = $1 WHERE id = $2', [matchedRule.category_id, tx.id]);
-                ruleMatches++;
-            } else {
-                llmCandidates.push(tx);
-            }
+            unmatched.push(tx);
         }
 
-        const message = `Classified ${ruleMatches} transactions via Rules.`;
+        // Payees' default categories are set up by the user too, so they count as rules
+        const payeeUpdates = await this.payeeService.applyDefaultCategories(userId, unmatched.map(t => t.id));
+        result.classified_rules += payeeUpdates.length;
+        const categorisedByPayee = new Set(payeeUpdates.map(u => u.id));
+        unmatched = unmatched.filter(t => !categorisedByPayee.has(t.id));
 
-        if (onlyRules) {
-            return {
-                classified_rules: ruleMatches,
-                classified_ai: 0,
-                message: `${message} AI skipped (Requested).`
-            };
-        }
+        if (onlyRules) return result;
 
-        // 4. LLM Classification
-        // If we have no candidates or no API key, stop here.
-        if (llmCandidates.length === 0) {
-            return {
-                classified_rules: ruleMatches,
-                classified_ai: 0,
-                message: `${message} No remaining transactions for AI.`
-            };
-        }
+        // 2. Local model trained on the user's own history
+        const localUpdates = await this.classifyLocally(userId, unmatched);
+        result.classified_local = localUpdates.length;
+        const locallyClassified = new Set(localUpdates.map(u => u.id));
+        const llmCandidates = unmatched.filter(t => !locallyClassified.has(t.id));
+
+        // 3. LLM Classification
+        // If we have no candidates, no categories or no API key, stop here.
+        if (llmCandidates.length === 0 || categories.length === 0 || !llm) return result;
 
-        if (!apiKey) {
-            return {
-                classified_rules: ruleMatches,
-                classified_ai: 0,
-                message: `${message} AI skipped (Missing API Key).`
-            };
+        const reviewThreshold = await this.getReviewThreshold(userId);
+
+        // Sent in chunks to avoid context window issues, smaller if the reply wouldn't fit the provider's token limit
+        const provider = getLlmProvider(llm.provider);
+        if (!provider) return { ...result, ai_error: `Unknown provider ${llm.provider}` };
+        const maxOutputTokens = provider.capabilities(llm.model).maxOutputTokens;
+        const batchSize = Math.max(1, Math.min(LLM_BATCH_SIZE, Math.floor(maxOutputTokens / TOKENS_PER_CLASSIFICATION)));
+
+        for (let i = 0; i < llmCandidates.length; i += batchSize) {
+            const batch = llmCandidates.slice(i, i + batchSize);
+            try {
+                const { applied, review } = await this.classifyWithLlm(userId, batch, categories, llm, reviewThreshold);
+                result.classified_ai += applied;
+                result.needs_review += review;
+            } catch (error: any) {
+                console.error("LLM Classification Error:", error.response?.data || error.message);
+                result.ai_error = error.message;
+                break;
+            }
         }
 
-        // Limit to 50 for LLM to avoid context window issues
-        const batch = llmCandidates.slice(0, 50);
+        return result;
+    }
+
+    /**
+     * Sends one batch to the LLM and saves its choices. Confident ones are applied,
+     * the rest are held as suggestions for review. Descriptions and amounts are redacted per the
+     * user's privacy settings and IDs are aliased, so nothing internal leaves the server.
+     */
+    private async classifyWithLlm(userId: string, batch: Transaction[], categories: Category[], llm: LlmConfig, reviewThreshold: number): Promise<{ applied: number; review: number }> {
         console.log(`Sending ${batch.length} transactions to LLM...`);
 
-        // Log logic from previous implementation...
-        const categoriesList = categories.map(c => `- ${c.name} (ID: ${c.id})`).join('\n');
-        const transactionsList = batch.map(t =>
-            `TxID: ${t.id} | Desc: "${t.description}" | Amt: ${t.amount} | Date: ${t.date}`
-        ).join('\n');
+        const redactor = await this.llmPrivacyService.getRedactor(userId);
+        const categoriesList = categories.map(c => `- ${c.name} (ID: ${redactor.alias(c.id, 'C')})`).join('\n');
+        // The date isn't sent: the description and amount are what identify a category
+        const transactionsList = batch.map(t => {
+            const amount = redactor.amount(t.amount);
+            const amountText = amount === null ? `Type: ${parseFloat(String(t.amount)) < 0 ? 'debit' : 'credit'}` : `Amt: ${amount}`;
+            return `TxID: ${redactor.alias(t.id, 'T')} | Desc: "${redactor.description(t.description)}" | ${amountText}`;
+        }).join('\n');
 
         const systemPrompt = `You are an expert financial classifier. 
 Your task is to assign the most appropriate Category ID to each Transaction based on its description and amount.
 Return strictly a JSON object with a single key "classifications" containing an array of objects.
-Each object must have "transaction_id" and "category_id".
+Each object must have "transaction_id", "category_id" and "confidence" (a number from 0 to 1 for how sure you are).
 If a transaction cannot be confidently classified, omit it or set category_id to null.
 Do not invent new categories. Use ONLY the provided IDs.`;
 
@@ -122,90 +285,119 @@ ${transactionsList}
 Classify these transactions. JSON Output:
 `;
 
-        try {
-            const cleanUrl = baseUrl.replace(/\/$/, '');
-            const payload: any = {
-                model: model,
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: userPrompt }
-                ],
-                temperature: 0.1,
-            };
-
-            if (model.includes('gpt') || model.includes('json')) {
-                payload.response_format = { type: "json_object" };
-            }
+        const response = await this.llmPrivacyService.complete(userId, 'classification', llm, {
+            system: systemPrompt,
+            prompt: userPrompt,
+            json: true,
+            maxTokens: batch.length * TOKENS_PER_CLASSIFICATION + 200,
+        });
 
-            const response = await axios.post(`${cleanUrl}/chat/completions`, payload, {
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'Content-Type': 'application/json'
+        const parsed = parseJsonResponse(response.content);
+        const classifications = parsed.classifications || parsed;
+        if (!Array.isArray(classifications)) throw new Error("Invalid response format");
+
+        // Rows it leaves uncategorised aren't sent again by automatic jobs
+        await query(
+            'UPDATE transactions SET classification_attempted_at = NOW() WHERE id = ANY($1::uuid[])',
+            [batch.map(t => t.id)]
+        );
+
+        const batchIds = new Set(batch.map(t => t.id));
+        const source = `${llm.provider}/${llm.model}`;
+
+        let applied = 0;
+        let review = 0;
+        for (const item of classifications) {
+            const transactionId = redactor.resolve(item.transaction_id);
+            if (transactionId && item.category_id && batchIds.has(transactionId)) {
+                // Try to find by alias first
+                const categoryId = redactor.resolve(item.category_id);
+                let validCat = categories.find(c => c.id === categoryId);
+
+                // Fallback: Try to find by Name (case-insensitive) if ID match fails
+                // This handles models that return names like "Groceries" instead of IDs
+                if (!validCat) {
+                    validCat = categories.find(c => c.name.toLowerCase() === String(item.category_id).toLowerCase());
                 }
-            });
 
-            const responseContent = response.data.choices[0].message.content;
-            console.log("[DEBUG] LLM Response Status:", response.status);
-            console.log("[DEBUG] LLM Raw Content Preview:", responseContent.substring(0, 1000));
-
-            let parsed;
-            try {
-                parsed = JSON.parse(responseContent);
-            } catch (e) {
-                const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-                if (jsonMatch) parsed = JSON.parse(jsonMatch[0]);
-                else throw new Error("Failed to parse JSON from LLM response");
-            }
-
-            const classifications = parsed.classifications || parsed;
-            if (!Array.isArray(classifications)) throw new Error("Invalid response format");
-
-            let llmMatches = 0;
-            for (const item of classifications) {
-                if (item.transaction_id && item.category_id) {
-                    // Try to find by ID first
-                    let validCat = categories.find(c => c.id === item.category_id);
-
-                    // Fallback: Try to find by Name (case-insensitive) if ID match fails
-                    // This handles models that return names like "Groceries" instead of UUIDs
-                    if (!validCat) {
-                        validCat = categories.find(c => c.name.toLowerCase() === String(item.category_id).toLowerCase());
-                    }
-
-                    if (validCat) {
+                if (validCat) {
+                    // A missing or malformed confidence counts as unsure
+                    const confidence = Math.min(Math.max(parseFloat(item.confidence) || 0, 0), 1);
+                    if (confidence >= reviewThreshold) {
+                        await query(
+                            `UPDATE transactions SET category_id = $1, category_source = 'llm', category_rule_id = NULL,
+                                category_model = $3, category_confidence = $4, category_reviewed = false, suggested_category_id = NULL
+                             WHERE id = $2`,
+                            [validCat.id, transactionId, source, confidence.toFixed(3)]
+                        );
+                        applied++;
+                    } else {
                         await query(
-                            'UPDATE transactions SET category_id = $1 WHERE id = $2',
-                            [validCat.id, item.transaction_id]
+                            `UPDATE transactions SET suggested_category_id = $1, category_source = 'llm',
+                                category_model = $3, category_confidence = $4
+                             WHERE id = $2 AND category_id IS NULL`,
+                            [validCat.id, transactionId, source, confidence.toFixed(3)]
                         );
-                        llmMatches++;
+                        review++;
                     }
                 }
             }
-
-            return {
-                classified_rules: ruleMatches,
-                classified_ai: llmMatches,
-                classified_total: ruleMatches + llmMatches,
-                total_processed: transactions.length, // Checked 100
-                message: `Classified ${ruleMatches} via Rules, ${llmMatches} via AI.`
-            };
-
-        } catch (error: any) {
-            console.error("LLM Classification Error:", error.response?.data || error.message);
-            // Return what we achieved with rules at least
-            return {
-                classified_rules: ruleMatches,
-                classified_ai: 0,
-                message: `Classified ${ruleMatches} via Rules. AI Failed: ${error.message}`
-            };
         }
+
+        return { applied, review };
+    }
+
+    /**
+     * Accepts what the classifier chose: applies a low-confidence suggestion waiting for review,
+     * or confirms a category that was applied automatically. Returns the updated rows.
+     */
+    async acceptReview(userId: string, transactionIds: string[]): Promise<{ id: string; category_id: string }[]> {
+        const { rows } = await query(
+            `UPDATE transactions
+             SET category_id = COALESCE(suggested_category_id, category_id), suggested_category_id = NULL, category_reviewed = true
+             WHERE id = ANY($1::uuid[]) AND user_id = $2
+               AND (suggested_category_id IS NOT NULL OR (category_source IN ('rule', 'payee', 'local', 'llm') AND category_id IS NOT NULL))
+             RETURNING id, category_id`,
+            [transactionIds, userId]
+        );
+        return rows;
+    }
+
+    /**
+     * Replaces the classifier's choice with the user's. Counts as a manual correction for rule learning.
+     * Returns null if the transaction doesn't exist.
+     */
+    async changeReview(userId: string, transactionId: string, categoryId: string): Promise<{ id: string; category_id: string } | null> {
+        const current = await query(
+            `SELECT category_id, COALESCE(original_description, description) AS description
+             FROM transactions WHERE id = $1 AND user_id = $2`,
+            [transactionId, userId]
+        );
+        if (current.rows.length === 0) return null;
+
+        const { rows } = await query(
+            `UPDATE transactions
+             SET category_id = $1, category_source = 'manual', category_rule_id = NULL, category_model = NULL,
+                 category_confidence = NULL, category_reviewed = true, suggested_category_id = NULL, edited_at = NOW()
+             WHERE id = $2 AND user_id = $3
+             RETURNING id, category_id`,
+            [categoryId, transactionId, userId]
+        );
+
+        await this.ruleLearningService.recordCorrections(userId, [{
+            transactionId,
+            description: current.rows[0].description,
+            previousCategoryId: current.rows[0].category_id,
+            categoryId,
+        }]);
+        return rows[0];
     }
 
     /**
      * Suggests rules based on distinct descriptions and leaf categories.
      * Process ALL descriptions in batches to provide comprehensive suggestions.
      */
-    async suggestRules(apiKey: string, baseUrl: string = 'https://api.openai.com/v1', model: string = 'gpt-3.5-turbo', userId: string) {
+    async suggestRules(userId: string, llm: LlmConfig | null) {
         if (!userId) throw new Error("User ID is required");
 
         // 1. Fetch Leaf Categories
@@ -237,19 +429,24 @@ Classify these transactions. JSON Output:
         const activeRules = existingRules.filter(r => r.is_active);
 
         descriptions = descriptions.filter(desc => {
-            return !activeRules.some(rule => this.matchRule(desc, rule));
+            return !activeRules.some(rule => this.ruleService.matchRule({ description: desc }, rule));
         });
 
         if (descriptions.length === 0) return { message: "All common transactions are already covered by existing rules." };
 
         console.log(`Generating rules for ${descriptions.length} descriptions in batches...`);
 
-        if (!apiKey) throw new Error("API Key is required for Rule Suggestion");
+        if (!llm) throw new Error("An AI integration is required for Rule Suggestion");
+        if (!getLlmProvider(llm.provider)) throw new Error(`Unknown provider ${llm.provider}`);
+
+        // Redaction can make descriptions identical, so they're deduplicated again afterwards
+        const redactor = await this.llmPrivacyService.getRedactor(userId);
+        const redactedDescriptions = Array.from(new Set(descriptions.map(d => redactor.description(d)).filter(Boolean)));
 
         // 3. Process in Batches
         const BATCH_SIZE = 50;
         const accumulatedRules: any[] = [];
-        const categoriesList = leafCats.map(c => `- ${c.name} (ID: ${c.id})`).join('\n');
+        const categoriesList = leafCats.map(c => `- ${c.name} (ID: ${redactor.alias(c.id, 'C')})`).join('\n');
 
         const systemPrompt = `You are an expert financial rule generator.
 Create automation rules to categorize transaction descriptions.
@@ -257,11 +454,13 @@ GROUP similar descriptions into a SINGLE rule with multiple match conditions.
 Example: Rule "Groceries" -> Conditions ["Woolworths", "Coles", "Aldi"].
 Use "contains" for partial matches.
 
-Output JSON: { "rules": [ { "name": "Groceries", "category_id": "UUID", "conditions": [ { "match_value": "Woolworths", "match_type": "contains" } ] } ] }
+Placeholders like [CARD], [REF] or [NAME] stand in for private details; never use them in match values.
+
+Output JSON: { "rules": [ { "name": "Groceries", "category_id": "C1", "conditions": [ { "match_value": "Woolworths", "match_type": "contains" } ] } ] }
 Use ONLY provided Categories.`;
 
-        for (let i = 0; i < descriptions.length; i += BATCH_SIZE) {
-            const batch = descriptions.slice(i, i + BATCH_SIZE);
+        for (let i = 0; i < redactedDescriptions.length; i += BATCH_SIZE) {
+            const batch = redactedDescriptions.slice(i, i + BATCH_SIZE);
             const descriptionsList = batch.map(d => `- ${d}`).join('\n');
 
             const userPrompt = `
@@ -274,31 +473,22 @@ ${descriptionsList}
 Generate Grouped Rules JSON:`;
 
             try {
-                const cleanUrl = baseUrl.replace(/\/$/, '');
-                const payload: any = {
-                    model: model,
-                    messages: [
-                        { role: "system", content: systemPrompt },
-                        { role: "user", content: userPrompt }
-                    ],
-                    temperature: 0.1,
-                    response_format: { type: "json_object" }
-                };
-
-                const response = await axios.post(`${cleanUrl}/chat/completions`, payload, {
-                    headers: { 'Authorization': `Bearer ${apiKey}` }
+                const response = await this.llmPrivacyService.complete(userId, 'rule_suggestions', llm, {
+                    system: systemPrompt,
+                    prompt: userPrompt,
+                    json: true,
                 });
 
-                const content = response.data.choices[0].message.content;
-                const parsed = JSON.parse(content);
+                const parsed = parseJsonResponse(response.content);
                 if (parsed.rules && Array.isArray(parsed.rules)) {
                     // Normalize keys immediately
                     const normalized = parsed.rules.map((r: any) => ({
                         ...r,
+                        category_id: redactor.resolve(r.category_id),
                         conditions: (r.conditions || []).map((c: any) => ({
                             match_type: c.match_type || c.type || 'contains',
                             match_value: c.match_value || c.value || ''
-                        }))
+                        })).filter((c: any) => c.match_value && !LlmRedactor.isRedacted(c.match_value))
                     }));
                     accumulatedRules.push(...normalized);
                 }
@@ -315,7 +505,7 @@ Generate Grouped Rules JSON:`;
         for (const rule of accumulatedRules) {
             // Validate category
             const cat = leafCats.find(c => c.id === rule.category_id);
-            if (!cat) continue;
+            if (!cat || rule.conditions.length === 0) continue;
 
             rule.category_name = cat.name;
 
@@ -339,34 +529,4 @@ Generate Grouped Rules JSON:`;
 
         return { rules: Array.from(ruleMap.values()) };
     }
-
-    private matchRule(description: string, rule: any): boolean {
-        // Handle legacy single condition vs new array
-        const conditions = rule.conditions && rule.conditions.length > 0
-            ? rule.conditions
-            : (rule.match_value ? [{ match_type: rule.match_type || 'contains', match_value: rule.match_value }] : []);
-
-        for (const cond of conditions) {
-            if (this.matchCondition(description, cond)) return true;
-        }
-        return false;
-    }
-
-    private matchCondition(description: string, cond: any): boolean {
-        const desc = description.toLowerCase();
-        const val = (cond.match_value || cond.value || '').toLowerCase(); // AI might return 'value' or 'match_value'
-
-        try {
-            switch (cond.match_type || cond.type) {
-                case 'exact': return desc === val;
-                case 'starts_with': return desc.startsWith(val);
-                case 'regex': return new RegExp(val, 'i').test(description);
-                case 'contains':
-                default:
-                    return desc.includes(val);
-            }
-        } catch (e) {
-            return false;
-        }
-    }
 }
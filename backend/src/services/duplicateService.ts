@@ -0,0 +1,221 @@
+import { pool, query } from "../db";
+
+// How far apart two postings of the same purchase can be (e.g. pending vs. settled date)
+const MAX_DAY_GAP = 3;
+const MIN_SIMILARITY = 0.6;
+
+// Words banks add to descriptions that say nothing about the merchant
+const NOISE_WORDS = new Set([
+    "pty", "ltd", "au", "aus", "nsw", "vic", "qld", "wa", "sa", "tas", "act", "nt",
+    "card", "purchase", "eftpos", "visa", "debit", "credit", "pos", "tap", "pay", "payment",
+]);
+
+/**
+ * Reduces a bank description to the words that identify the merchant, so the same
+ * purchase from different sources (OFX memo vs. QIF payee vs. API) compares equal.
+ */
+export const normalizeDescription = (description: string): string =>
+    (description || "")
+        .toLowerCase()
+        .replace(/\d{3,}/g, " ") // Card numbers, references, terminal IDs
+        .replace(/[^a-z0-9]+/g, " ")
+        .split(" ")
+        .filter((word) => word && !NOISE_WORDS.has(word))
+        .join(" ");
+
+const bigrams = (text: string): string[] => {
+    const compact = text.replace(/ /g, "");
+    const result: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+    return result;
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalised descriptions (0..1).
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+    const normA = normalizeDescription(a);
+    const normB = normalizeDescription(b);
+    if (!normA || !normB) return 0;
+    if (normA === normB || normA.includes(normB) || normB.includes(normA)) return 1;
+
+    const gramsA = bigrams(normA);
+    const gramsB = bigrams(normB);
+    if (gramsA.length === 0 || gramsB.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    for (const gram of gramsA) counts.set(gram, (counts.get(gram) || 0) + 1);
+
+    let overlap = 0;
+    for (const gram of gramsB) {
+        const count = counts.get(gram) || 0;
+        if (count > 0) {
+            overlap++;
+            counts.set(gram, count - 1);
+        }
+    }
+    return (2 * overlap) / (gramsA.length + gramsB.length);
+};
+
+export class DuplicateService {
+    /**
+     * Flags likely duplicate pairs within each account. Pairs that were already flagged
+     * (including ones the user resolved) are left alone.
+     * Pass batchId to only look at pairs involving rows from that import.
+     */
+    async detect(userId: string, options: { accountId?: string; batchId?: string } = {}): Promise<number> {
+        const params: any[] = [userId, MAX_DAY_GAP];
+        const filters: string[] = [];
+
+        if (options.accountId) {
+            params.push(options.accountId);
+            filters.push(`a.account_id = $${params.length}`);
+        }
+        if (options.batchId) {
+            params.push(options.batchId);
+            filters.push(`(a.import_batch_id = $${params.length} OR b.import_batch_id = $${params.length})`);
+        }
+
+        // Rows from the same import batch are separate lines in one statement, not duplicates
+        const sql = `
+            SELECT a.id as a_id, b.id as b_id, a.account_id,
+                COALESCE(a.original_description, a.description) as a_description,
+                COALESCE(b.original_description, b.description) as b_description
+            FROM transactions a
+            JOIN transactions b
+                ON b.account_id = a.account_id
+                AND b.amount = a.amount
+                AND a.id < b.id
+                AND ABS(a.date - b.date) <= $2
+            WHERE a.user_id = $1
+                AND (a.import_batch_id IS NULL OR b.import_batch_id IS NULL OR a.import_batch_id <> b.import_batch_id)
+                ${filters.map((f) => `AND ${f}`).join(" ")}
+                AND NOT EXISTS (
+                    SELECT 1 FROM duplicate_candidates d
+                    WHERE d.transaction_a_id = a.id AND d.transaction_b_id = b.id
+                )
+        `;
+        const { rows } = await query(sql, params);
+
+        let flagged = 0;
+        for (const pair of rows) {
+            const similarity = descriptionSimilarity(pair.a_description, pair.b_description);
+            if (similarity < MIN_SIMILARITY) continue;
+
+            const result = await query(
+                `INSERT INTO duplicate_candidates (user_id, account_id, transaction_a_id, transaction_b_id, similarity)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (transaction_a_id, transaction_b_id) DO NOTHING`,
+                [userId, pair.account_id, pair.a_id, pair.b_id, similarity.toFixed(3)]
+            );
+            flagged += result.rowCount || 0;
+        }
+
+        return flagged;
+    }
+
+    async getPending(userId: string): Promise<any[]> {
+        const sql = `
+            SELECT
+                d.id,
+                d.similarity,
+                d.created_at,
+                acc.name as account_name,
+                json_build_object(
+                    'id', a.id, 'date', a.date, 'description', a.description, 'amount', a.amount,
+                    'category', ca.name, 'provider_transaction_id', a.provider_transaction_id, 'created_at', a.created_at
+                ) as transaction_a,
+                json_build_object(
+                    'id', b.id, 'date', b.date, 'description', b.description, 'amount', b.amount,
+                    'category', cb.name, 'provider_transaction_id', b.provider_transaction_id, 'created_at', b.created_at
+                ) as transaction_b
+            FROM duplicate_candidates d
+            JOIN transactions a ON d.transaction_a_id = a.id
+            JOIN transactions b ON d.transaction_b_id = b.id
+            JOIN accounts acc ON d.account_id = acc.id
+            LEFT JOIN categories ca ON a.category_id = ca.id
+            LEFT JOIN categories cb ON b.category_id = cb.id
+            WHERE d.user_id = $1 AND d.status = 'pending'
+            ORDER BY a.date DESC
+        `;
+        const { rows } = await query(sql, [userId]);
+        return rows;
+    }
+
+    async getCandidate(userId: string, candidateId: string): Promise<any | null> {
+        const { rows } = await query(
+            "SELECT * FROM duplicate_candidates WHERE id = $1 AND user_id = $2",
+            [candidateId, userId]
+        );
+        return rows[0] || null;
+    }
+
+    /**
+     * Keeps one transaction of the pair and deletes the other. The survivor picks up the
+     * removed row's category and notes if it has none, and its attachments. If the removed row was
+     * one side of a transfer, its partner stops being a transfer.
+     * Returns false if the candidate has already been resolved.
+     */
+    async merge(userId: string, candidate: any, keepId: string): Promise<boolean> {
+        const removeId = keepId === candidate.transaction_a_id
+            ? candidate.transaction_b_id
+            : candidate.transaction_a_id;
+
+        const client = await pool.connect();
+        try {
+            await client.query("BEGIN");
+            const { rows: [pending] } = await client.query(
+                "SELECT id FROM duplicate_candidates WHERE id = $1 AND user_id = $2 AND status = 'pending' FOR UPDATE",
+                [candidate.id, userId]
+            );
+            if (!pending) {
+                await client.query("ROLLBACK");
+                return false;
+            }
+
+            const { rows: [removed] } = await client.query(
+                "SELECT provider_transaction_id, category_id, notes, transfer_id FROM transactions WHERE id = $1 AND user_id = $2",
+                [removeId, userId]
+            );
+
+            if (removed) {
+                await client.query(
+                    "UPDATE transactions SET category_id = COALESCE(category_id, $2), notes = COALESCE(notes, $3) WHERE id = $1 AND user_id = $4",
+                    [keepId, removed.category_id, removed.notes, userId]
+                );
+                await client.query(
+                    "UPDATE transaction_attachments SET transaction_id = $1 WHERE transaction_id = $2 AND user_id = $3",
+                    [keepId, removeId, userId]
+                );
+                if (removed.transfer_id) {
+                    await client.query(
+                        "UPDATE transactions SET is_transfer = false, transfer_id = NULL WHERE transfer_id = $1 AND id <> $2 AND user_id = $3",
+                        [removed.transfer_id, removeId, userId]
+                    );
+                }
+                await client.query("DELETE FROM transactions WHERE id = $1 AND user_id = $2", [removeId, userId]);
+            }
+
+            await client.query(
+                `UPDATE duplicate_candidates
+                 SET status = 'merged', resolved_at = NOW(), merged_provider_transaction_id = $2
+                 WHERE id = $1`,
+                [candidate.id, removed?.provider_transaction_id || null]
+            );
+            await client.query("COMMIT");
+            return true;
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    async resolve(userId: string, candidateId: string, status: "kept" | "dismissed"): Promise<void> {
+        await query(
+            "UPDATE duplicate_candidates SET status = $3, resolved_at = NOW() WHERE id = $1 AND user_id = $2",
+            [candidateId, userId, status]
+        );
+    }
+}
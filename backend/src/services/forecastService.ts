@@ -0,0 +1,352 @@
+import { addDays, addMonths, differenceInCalendarDays, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { query } from "../db";
+import { RecurringService, nextOccurrence } from "./recurringService";
+import { ScheduledTransactionService } from "./scheduledTransactionService";
+import { accruesInterest, applyLoanInterest, monthlyInterest } from "./loanInterest";
+
+export type ForecastSource = 'transaction' | 'scheduled' | 'recurring' | 'interest';
+
+/**
+ * A single projected movement of money. Budgeted spending is spread across days rather than
+ * listed, so it shows in balances but not here.
+ */
+export interface ForecastEvent {
+    date: string;
+    account_id: string;
+    description: string;
+    amount: number;
+    category_id: string | null;
+    source: ForecastSource;
+}
+
+export interface ForecastPoint {
+    date: string;
+    balance: number;
+}
+
+export interface ForecastLowBalance {
+    account_id: string;
+    account: string;
+    date: string;
+    balance: number;
+}
+
+export interface AccountForecast {
+    account_id: string;
+    name: string;
+    type: string;
+    is_active: boolean;
+    opening_balance: number;
+    closing_balance: number;
+    lowest_balance: number;
+    lowest_date: string;
+    below_zero_date: string | null;       // Only for accounts that should stay in credit
+    below_threshold_date: string | null;
+    budgeted_spend: number;               // Budget left to spend, spread across the forecast
+    balances: ForecastPoint[];
+}
+
+export interface Forecast {
+    start_date: string;                   // Today, with today's balances
+    end_date: string;
+    threshold: number | null;
+    total: ForecastPoint[];
+    accounts: AccountForecast[];
+    first_below_zero: ForecastLowBalance | null;
+    first_below_threshold: ForecastLowBalance | null;
+    events: ForecastEvent[];
+}
+
+export const MAX_FORECAST_MONTHS = 24;
+
+// Accounts whose balance normally sits below zero, so dropping below it isn't a warning
+const LIABILITY_TYPES = ['credit', 'loan'];
+// How far back to look for the account a budgeted category is usually paid from
+const BUDGET_ACCOUNT_LOOKBACK_DAYS = 90;
+// How far a detected recurring payment's amount can be from a schedule's and still be the same thing
+const SCHEDULE_AMOUNT_TOLERANCE = 0.1;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const dateRange = (from: string, to: string): string[] => {
+    const days: string[] = [];
+    for (let day = parseISO(from); format(day, "yyyy-MM-dd") <= to; day = addDays(day, 1)) {
+        days.push(format(day, "yyyy-MM-dd"));
+    }
+    return days;
+};
+
+/**
+ * Projects account balances day by day from today: known future transactions, scheduled
+ * transactions, detected recurring payments, what's left of each month's budgets, and loan
+ * interest. Flags the first day an account is projected to go below zero or the user's threshold.
+ */
+export class ForecastService {
+    private recurringService = new RecurringService();
+    private scheduledTransactionService = new ScheduledTransactionService();
+
+    /**
+     * Forecasts the next `months` months. `threshold` overrides the user's low-balance threshold;
+     * leave it undefined to use theirs.
+     */
+    async forecast(userId: string, months: number, threshold?: number | null): Promise<Forecast> {
+        const today = format(new Date(), "yyyy-MM-dd");
+        const tomorrow = format(addDays(parseISO(today), 1), "yyyy-MM-dd");
+        const end = format(addMonths(parseISO(today), months), "yyyy-MM-dd");
+
+        if (threshold === undefined) {
+            const { rows: [user] } = await query(
+                "SELECT forecast_low_balance_threshold FROM users WHERE id = $1",
+                [userId]
+            );
+            threshold = user?.forecast_low_balance_threshold != null ? parseFloat(user.forecast_low_balance_threshold) : null;
+        }
+
+        // Bring loan interest up to date first, so today's balances include it
+        const { rows: accountRows } = await query(
+            `SELECT
+                a.id, a.name, LOWER(a.type) AS type, a.is_active, a.include_in_budget,
+                a.balance AS starting_balance,
+                (a.balance + COALESCE(SUM(t.amount), 0))::numeric(15, 2) AS balance,
+                a.interest_rate, a.interest_start_date, a.interest_start_date::text AS interest_start,
+                a.interest_type, a.last_interest_applied_at
+             FROM accounts a
+             LEFT JOIN transactions t ON a.id = t.account_id
+             WHERE a.user_id = $1
+             GROUP BY a.id
+             ORDER BY a.name ASC`,
+            [userId]
+        );
+        const accounts = await applyLoanInterest(accountRows, userId);
+
+        const events: ForecastEvent[] = [];
+
+        // Transactions already entered with a future date are in the balance; move them to their day
+        const { rows: future } = await query(
+            `SELECT account_id, date::text AS date, description, amount, category_id
+             FROM transactions WHERE user_id = $1 AND date > $2`,
+            [userId, today]
+        );
+        const futureTotals = new Map<string, number>();
+        for (const t of future) {
+            futureTotals.set(t.account_id, (futureTotals.get(t.account_id) || 0) + parseFloat(t.amount));
+            if (t.date <= end) {
+                events.push({ ...t, amount: parseFloat(t.amount), source: 'transaction' });
+            }
+        }
+
+        // Occurrences that are already overdue are expected any day now
+        for (const p of await this.scheduledTransactionService.getProjected(userId, end)) {
+            events.push({
+                date: p.date < tomorrow ? tomorrow : p.date,
+                account_id: p.account_id,
+                description: p.description,
+                amount: parseFloat(p.amount),
+                category_id: p.category_id,
+                source: 'scheduled',
+            });
+        }
+
+        // A detected series the user has also scheduled is already counted
+        const schedules = (await this.scheduledTransactionService.getSchedules(userId)).filter((s) => s.is_active);
+        const series = (await this.recurringService.getSeries(userId)).filter((s) =>
+            s.status !== 'ended' && s.account_id && !schedules.some((schedule) =>
+                schedule.account_id === s.account_id && (schedule.payee_id
+                    ? schedule.payee_id === s.payee_id
+                    : Math.sign(parseFloat(schedule.amount)) === Math.sign(parseFloat(s.expected_amount))
+                        && Math.abs(parseFloat(schedule.amount) - parseFloat(s.expected_amount))
+                            <= Math.abs(parseFloat(schedule.amount)) * SCHEDULE_AMOUNT_TOLERANCE)
+            )
+        );
+        for (const s of series) {
+            for (let cycles = 0; ; cycles++) {
+                const date = nextOccurrence(s.next_expected_date, s.cadence, cycles);
+                if (date > end) break;
+                if (date < tomorrow && cycles > 0) continue;
+                events.push({
+                    date: date < tomorrow ? tomorrow : date,
+                    account_id: s.account_id!,
+                    description: s.payee,
+                    amount: parseFloat(s.expected_amount),
+                    category_id: s.category_id,
+                    source: 'recurring',
+                });
+            }
+        }
+
+        const budgetSpend = await this.spreadBudgets(userId, accounts, events, today, tomorrow, end);
+
+        const eventsByDay = new Map<string, ForecastEvent[]>();
+        for (const event of events) {
+            const key = `${event.account_id}:${event.date}`;
+            if (!eventsByDay.has(key)) eventsByDay.set(key, []);
+            eventsByDay.get(key)!.push(event);
+        }
+
+        const days = dateRange(tomorrow, end);
+        const forecasts: AccountForecast[] = [];
+        for (const account of accounts) {
+            let balance = parseFloat(account.balance) - (futureTotals.get(account.id) || 0);
+            const checked = account.is_active && !LIABILITY_TYPES.includes(account.type);
+            const forecast: AccountForecast = {
+                account_id: account.id,
+                name: account.name,
+                type: account.type,
+                is_active: account.is_active,
+                opening_balance: round(balance),
+                closing_balance: 0,
+                lowest_balance: round(balance),
+                lowest_date: today,
+                below_zero_date: checked && balance < 0 ? today : null,
+                below_threshold_date: checked && threshold !== null && balance < threshold ? today : null,
+                budgeted_spend: 0,
+                balances: [{ date: today, balance: round(balance) }],
+            };
+
+            for (const day of days) {
+                // Charged on the 1st on the balance before the month's interest, as applyLoanInterest does
+                if (accruesInterest(account) && day.endsWith('-01') && day > account.interest_start) {
+                    const interest = monthlyInterest(account, balance);
+                    if (interest > 0) {
+                        balance -= interest;
+                        events.push({
+                            date: day,
+                            account_id: account.id,
+                            description: "Interest Charge",
+                            amount: -interest,
+                            category_id: null,
+                            source: 'interest',
+                        });
+                    }
+                }
+                for (const event of eventsByDay.get(`${account.id}:${day}`) || []) balance += event.amount;
+                const budgeted = budgetSpend.get(`${account.id}:${day}`) || 0;
+                balance += budgeted;
+                forecast.budgeted_spend -= budgeted;
+
+                const rounded = round(balance);
+                forecast.balances.push({ date: day, balance: rounded });
+                if (rounded < forecast.lowest_balance) {
+                    forecast.lowest_balance = rounded;
+                    forecast.lowest_date = day;
+                }
+                if (checked && !forecast.below_zero_date && rounded < 0) forecast.below_zero_date = day;
+                if (checked && threshold !== null && !forecast.below_threshold_date && rounded < threshold) {
+                    forecast.below_threshold_date = day;
+                }
+            }
+
+            forecast.closing_balance = round(balance);
+            forecast.budgeted_spend = round(forecast.budgeted_spend);
+            forecasts.push(forecast);
+        }
+
+        const total = forecasts.length > 0
+            ? forecasts[0].balances.map((point, i) => ({
+                date: point.date,
+                balance: round(forecasts.reduce((sum, f) => sum + f.balances[i].balance, 0)),
+            }))
+            : [{ date: today, balance: 0 }, ...days.map((date) => ({ date, balance: 0 }))];
+
+        const firstBelow = (field: 'below_zero_date' | 'below_threshold_date'): ForecastLowBalance | null => {
+            const [first] = forecasts
+                .filter((f) => f[field])
+                .sort((a, b) => a[field]!.localeCompare(b[field]!));
+            if (!first) return null;
+            const point = first.balances.find((p) => p.date === first[field])!;
+            return { account_id: first.account_id, account: first.name, date: point.date, balance: point.balance };
+        };
+
+        return {
+            start_date: today,
+            end_date: end,
+            threshold,
+            total,
+            accounts: forecasts,
+            first_below_zero: firstBelow('below_zero_date'),
+            first_below_threshold: threshold !== null ? firstBelow('below_threshold_date') : null,
+            events: events.sort((a, b) => a.date.localeCompare(b.date)),
+        };
+    }
+
+    /**
+     * What's left of each month's category budgets after what's been spent and what's already
+     * projected, spread evenly over the rest of the month. Months without a budget carry the
+     * latest one forward. Each category is charged to the account it's usually paid from.
+     * Returns the daily amount (negative) keyed by "accountId:date".
+     */
+    private async spreadBudgets(
+        userId: string,
+        accounts: any[],
+        events: ForecastEvent[],
+        today: string,
+        tomorrow: string,
+        end: string
+    ): Promise<Map<string, number>> {
+        const spread = new Map<string, number>();
+
+        const { rows: budgets } = await query(
+            `SELECT category_id, month::text AS month, amount FROM budgets
+             WHERE user_id = $1 AND amount > 0 AND month <= $2
+             ORDER BY month`,
+            [userId, end]
+        );
+        if (budgets.length === 0) return spread;
+
+        const monthStart = format(startOfMonth(parseISO(today)), "yyyy-MM-dd");
+        const { rows: actuals } = await query(
+            `SELECT t.category_id, SUM(t.amount) AS spent
+             FROM transaction_lines t
+             JOIN accounts a ON t.account_id = a.id
+             WHERE t.user_id = $1 AND a.include_in_budget = true AND COALESCE(t.is_transfer, false) = false
+                AND t.category_id IS NOT NULL AND t.date >= $2 AND t.date <= $3
+             GROUP BY t.category_id`,
+            [userId, monthStart, today]
+        );
+        const spentThisMonth = new Map<string, number>(actuals.map((a: any) => [a.category_id, parseFloat(a.spent)]));
+
+        const { rows: usual } = await query(
+            `SELECT DISTINCT ON (t.category_id) t.category_id, t.account_id
+             FROM transaction_lines t
+             JOIN accounts a ON t.account_id = a.id
+             WHERE t.user_id = $1 AND a.include_in_budget = true AND a.is_active = true
+                AND t.amount < 0 AND t.category_id IS NOT NULL AND t.date > $2::date - $3::integer
+             GROUP BY t.category_id, t.account_id
+             ORDER BY t.category_id, COUNT(*) DESC`,
+            [userId, today, BUDGET_ACCOUNT_LOOKBACK_DAYS]
+        );
+        const usualAccount = new Map<string, string>(usual.map((u: any) => [u.category_id, u.account_id]));
+        const fallbackAccount = accounts.find((a) => a.is_active && a.include_in_budget && !LIABILITY_TYPES.includes(a.type));
+
+        for (let month = monthStart; month <= end; month = format(addMonths(parseISO(month), 1), "yyyy-MM-dd")) {
+            const monthEnd = format(endOfMonth(parseISO(month)), "yyyy-MM-dd");
+            const from = month < tomorrow ? tomorrow : month;
+            if (from > monthEnd) continue;
+            const daysLeft = differenceInCalendarDays(parseISO(monthEnd), parseISO(from)) + 1;
+
+            const monthBudgets = new Map<string, number>();
+            for (const budget of budgets) {
+                if (budget.month <= month) monthBudgets.set(budget.category_id, parseFloat(budget.amount));
+            }
+
+            for (const [categoryId, budget] of monthBudgets) {
+                const accountId = usualAccount.get(categoryId) || fallbackAccount?.id;
+                if (!accountId) continue;
+
+                const projected = events
+                    .filter((e) => e.category_id === categoryId && e.date >= month && e.date <= monthEnd)
+                    .reduce((sum, e) => sum + e.amount, 0);
+                const spent = -((month === monthStart ? spentThisMonth.get(categoryId) || 0 : 0) + projected);
+                const remaining = budget - Math.max(0, spent);
+                if (remaining <= 0) continue;
+
+                const perDay = remaining / daysLeft;
+                for (const day of dateRange(from, monthEnd < end ? monthEnd : end)) {
+                    const key = `${accountId}:${day}`;
+                    spread.set(key, (spread.get(key) || 0) - perDay);
+                }
+            }
+        }
+        return spread;
+    }
+}
@@ -0,0 +1,137 @@
+import { query } from "../db";
+import { AttachmentService } from "./attachmentService";
+
+export type ImportSource = "upload" | "scraper" | "api";
+
+export interface ImportBatch {
+    id: string;
+    user_id: string;
+    source: ImportSource;
+    format: string | null;
+    file_name: string | null;
+    account_id: string | null;
+    connection_id: string | null;
+    inserted_count: number;
+    skipped_count: number;
+    invalid_count: number;
+    rolled_back_at: Date | null;
+    created_at: Date;
+}
+
+/**
+ * Transactions in a batch that a rollback would throw away user work on:
+ * edited by hand, or matched up as one side of a transfer.
+ */
+export interface BatchConflicts {
+    edited: number;
+    reconciled: number;
+}
+
+export class ImportBatchService {
+    private attachmentService = new AttachmentService();
+
+    async createBatch(
+        userId: string,
+        data: {
+            source: ImportSource;
+            format?: string | null;
+            fileName?: string | null;
+            accountId?: string | null;
+            connectionId?: string | null;
+        },
+    ): Promise<ImportBatch> {
+        const { rows } = await query(
+            `INSERT INTO import_batches (user_id, source, format, file_name, account_id, connection_id)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [
+                userId,
+                data.source,
+                data.format || null,
+                data.fileName || null,
+                data.accountId || null,
+                data.connectionId || null,
+            ]
+        );
+        return rows[0];
+    }
+
+    async finishBatch(
+        batchId: string,
+        counts: { inserted: number; skipped: number; invalid: number },
+        accountId?: string | null,
+    ): Promise<void> {
+        await query(
+            `UPDATE import_batches
+             SET inserted_count = $2, skipped_count = $3, invalid_count = $4,
+                 account_id = COALESCE($5, account_id)
+             WHERE id = $1`,
+            [batchId, counts.inserted, counts.skipped, counts.invalid, accountId || null]
+        );
+    }
+
+    async getBatches(userId: string): Promise<any[]> {
+        const sql = `
+            SELECT
+                b.*,
+                a.name as account_name,
+                ac.name as connection_name,
+                COALESCE(
+                    (SELECT array_agg(DISTINCT acc.name)
+                     FROM transactions t
+                     JOIN accounts acc ON t.account_id = acc.id
+                     WHERE t.import_batch_id = b.id),
+                    '{}'
+                ) as account_names,
+                (SELECT COUNT(*) FROM transactions t WHERE t.import_batch_id = b.id)::int as remaining_count
+            FROM import_batches b
+            LEFT JOIN accounts a ON b.account_id = a.id
+            LEFT JOIN automated_connections ac ON b.connection_id = ac.id
+            WHERE b.user_id = $1
+            ORDER BY b.created_at DESC
+        `;
+        const { rows } = await query(sql, [userId]);
+        return rows;
+    }
+
+    async getBatch(userId: string, batchId: string): Promise<ImportBatch | null> {
+        const { rows } = await query(
+            "SELECT * FROM import_batches WHERE id = $1 AND user_id = $2",
+            [batchId, userId]
+        );
+        return rows[0] || null;
+    }
+
+    async getConflicts(batchId: string): Promise<BatchConflicts> {
+        const { rows } = await query(
+            `SELECT
+                COUNT(*) FILTER (WHERE edited_at IS NOT NULL)::int as edited,
+                COUNT(*) FILTER (WHERE is_transfer = true OR transfer_id IS NOT NULL)::int as reconciled
+             FROM transactions
+             WHERE import_batch_id = $1`,
+            [batchId]
+        );
+        return rows[0];
+    }
+
+    /**
+     * Deletes every transaction the batch inserted and marks the batch as rolled back.
+     * Returns the number of transactions removed.
+     */
+    async rollbackBatch(userId: string, batchId: string): Promise<number> {
+        const { rows: removed } = await query(
+            "SELECT id FROM transactions WHERE import_batch_id = $1 AND user_id = $2",
+            [batchId, userId]
+        );
+        await this.attachmentService.deleteForTransactions(userId, removed.map((r: any) => r.id));
+        const { rowCount } = await query(
+            "DELETE FROM transactions WHERE import_batch_id = $1 AND user_id = $2",
+            [batchId, userId]
+        );
+        await query(
+            "UPDATE import_batches SET rolled_back_at = NOW() WHERE id = $1 AND user_id = $2",
+            [batchId, userId]
+        );
+        return rowCount || 0;
+    }
+}
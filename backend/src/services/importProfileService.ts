@@ -0,0 +1,150 @@
+import { query } from "../db";
+
+/**
+ * Describes how to read a bank's CSV export.
+ * Column values are zero-based indexes into each data row.
+ */
+export interface CsvMapping {
+    delimiter: string;
+    date_column: number;
+    description_column: number;
+    amount_column?: number | null;
+    debit_column?: number | null;
+    credit_column?: number | null;
+    reference_column?: number | null;
+    date_format: string;
+    invert_sign: boolean;
+    skip_header_rows: number;
+    skip_footer_rows: number;
+}
+
+export interface ImportProfile extends CsvMapping {
+    id: string;
+    user_id: string;
+    name: string;
+    account_id: string | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+const toIndex = (value: any): number | null => {
+    if (value === undefined || value === null || value === "") return null;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+/**
+ * Normalises a mapping coming from a request body (strings from multipart forms, etc.)
+ * and validates that it has enough columns to produce transactions.
+ */
+export const normalizeMapping = (data: any): CsvMapping => {
+    const mapping: CsvMapping = {
+        delimiter: data.delimiter || ",",
+        date_column: toIndex(data.date_column) as number,
+        description_column: toIndex(data.description_column) as number,
+        amount_column: toIndex(data.amount_column),
+        debit_column: toIndex(data.debit_column),
+        credit_column: toIndex(data.credit_column),
+        reference_column: toIndex(data.reference_column),
+        date_format: data.date_format || "DD/MM/YYYY",
+        invert_sign: data.invert_sign === true || data.invert_sign === "true",
+        skip_header_rows: toIndex(data.skip_header_rows) ?? 0,
+        skip_footer_rows: toIndex(data.skip_footer_rows) ?? 0,
+    };
+
+    if (mapping.date_column === null || mapping.description_column === null) {
+        throw new Error("Date and description columns are required.");
+    }
+    if (mapping.amount_column === null && (mapping.debit_column === null || mapping.credit_column === null)) {
+        throw new Error("Either an amount column or both debit and credit columns are required.");
+    }
+
+    return mapping;
+};
+
+export class ImportProfileService {
+    async getProfiles(userId: string): Promise<ImportProfile[]> {
+        const { rows } = await query(
+            "SELECT * FROM import_profiles WHERE user_id = $1 ORDER BY name ASC",
+            [userId]
+        );
+        return rows;
+    }
+
+    async getProfile(userId: string, profileId: string): Promise<ImportProfile | null> {
+        const { rows } = await query(
+            "SELECT * FROM import_profiles WHERE id = $1 AND user_id = $2",
+            [profileId, userId]
+        );
+        return rows[0] || null;
+    }
+
+    async createProfile(userId: string, data: any): Promise<ImportProfile> {
+        const mapping = normalizeMapping(data);
+        const sql = `
+            INSERT INTO import_profiles (
+                user_id, name, account_id, delimiter, date_column, description_column,
+                amount_column, debit_column, credit_column, reference_column,
+                date_format, invert_sign, skip_header_rows, skip_footer_rows
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+            RETURNING *
+        `;
+        const { rows } = await query(sql, [
+            userId,
+            data.name,
+            data.account_id || null,
+            mapping.delimiter,
+            mapping.date_column,
+            mapping.description_column,
+            mapping.amount_column,
+            mapping.debit_column,
+            mapping.credit_column,
+            mapping.reference_column,
+            mapping.date_format,
+            mapping.invert_sign,
+            mapping.skip_header_rows,
+            mapping.skip_footer_rows,
+        ]);
+        return rows[0];
+    }
+
+    async updateProfile(userId: string, profileId: string, data: any): Promise<ImportProfile | null> {
+        const existing = await this.getProfile(userId, profileId);
+        if (!existing) return null;
+
+        // Merge over the stored profile so partial updates keep a valid mapping
+        const mapping = normalizeMapping({ ...existing, ...data });
+        const sql = `
+            UPDATE import_profiles
+            SET name = $3, account_id = $4, delimiter = $5, date_column = $6, description_column = $7,
+                amount_column = $8, debit_column = $9, credit_column = $10, reference_column = $11,
+                date_format = $12, invert_sign = $13, skip_header_rows = $14, skip_footer_rows = $15,
+                updated_at = NOW()
+            WHERE id = $2 AND user_id = $1
+            RETURNING *
+        `;
+        const { rows } = await query(sql, [
+            userId,
+            profileId,
+            data.name ?? existing.name,
+            data.account_id !== undefined ? data.account_id || null : existing.account_id,
+            mapping.delimiter,
+            mapping.date_column,
+            mapping.description_column,
+            mapping.amount_column,
+            mapping.debit_column,
+            mapping.credit_column,
+            mapping.reference_column,
+            mapping.date_format,
+            mapping.invert_sign,
+            mapping.skip_header_rows,
+            mapping.skip_footer_rows,
+        ]);
+        return rows[0];
+    }
+
+    async deleteProfile(userId: string, profileId: string): Promise<void> {
+        await query("DELETE FROM import_profiles WHERE id = $1 AND user_id = $2", [profileId, userId]);
+    }
+}
@@ -1,23 +1,336 @@
 // @ts-ignore
 import { parse } from "node-ofx-parser";
-const { query } = require("../db");
+import { query } from "../db";
+import type { CsvMapping } from "./importProfileService";
+import { RuleService } from "./ruleService";
+import { ImportBatchService, ImportSource } from "./importBatchService";
+import { DuplicateService } from "./duplicateService";
+import { TransferMatchService } from "./transferMatchService";
+import { PayeeService } from "./payeeService";
+import { RecurringService } from "./recurringService";
+import { ScheduledTransactionService } from "./scheduledTransactionService";
+import { ClassificationService } from "./classificationService";
+import { SplitLine, SplitService } from "./splitService";
 
 interface ImportResult {
+    batchId: string;
+    possibleDuplicates: number;
+    transfersLinked: number;
+    possibleTransfers: number;
+    scheduledMatched: number;   // Imported transactions reconciled with a scheduled transaction
+    categorised: number;
     accounts: {
         accountId: string;
         inserted: number;
         skipped: number;
+        invalid: number;
     }[];
 }
 
-class ImportService {
+interface ParsedTransaction {
+    fitId: string;
+    date: string;
+    description: string;
+    amount: number;
+    splits?: SplitLine[]; // Category lines from the file, when it splits the transaction
+    error?: string; // Set when the row can't be imported
+}
+
+/**
+ * Transactions parsed from one statement, along with the account they belong to.
+ * accountId is null when previewing an import that would create a new account.
+ */
+interface StagedStatement {
+    accountId: string | null;
+    accountName: string;
+    transactions: ParsedTransaction[];
+}
+
+export interface ImportOptions {
+    preview?: boolean;
+    // Row keys ("<statement>:<row>") from a preview; when set only these rows are inserted
+    acceptedRows?: string[];
+    // Recorded on the import batch
+    source?: ImportSource;
+    fileName?: string;
+    connectionId?: string;
+}
+
+export interface ImportPreviewRow {
+    key: string;
+    date: string;
+    description: string;
+    amount: number;
+    status: "new" | "duplicate" | "invalid";
+    error: string | null;
+    duplicate_of: { id: string; date: string; description: string; amount: number } | null;
+    category_id: string | null;
+    category_name: string | null;
+    rule_name: string | null;
+}
+
+export interface ImportPreview {
+    accounts: {
+        accountId: string | null;
+        accountName: string;
+        isNewAccount: boolean;
+        rows: ImportPreviewRow[];
+    }[];
+}
+
+export class ImportService {
+    private ruleService = new RuleService();
+    private importBatchService = new ImportBatchService();
+    private duplicateService = new DuplicateService();
+    private transferMatchService = new TransferMatchService();
+    private payeeService = new PayeeService();
+    private recurringService = new RecurringService();
+    private scheduledTransactionService = new ScheduledTransactionService();
+    private classificationService = new ClassificationService();
+    private splitService = new SplitService();
+
     async importOfx(
         ofxData: string,
         userId: string,
         targetAccountId?: string,
-    ): Promise<ImportResult> {
+        options: ImportOptions = {},
+    ): Promise<ImportResult | ImportPreview> {
+        const statements = await this.stageOfx(ofxData, userId, targetAccountId, !options.preview);
+        return this.complete(statements, userId, "ofx", options);
+    }
+
+    async importQif(
+        qifData: string,
+        userId: string,
+        targetAccountId?: string,
+        dateFormat: string = "MM/DD/YYYY",
+        options: ImportOptions = {},
+    ): Promise<ImportResult | ImportPreview> {
+        const statements = await this.stageQif(qifData, userId, targetAccountId, dateFormat, !options.preview);
+        return this.complete(statements, userId, "qif", options);
+    }
+
+    async importCsv(
+        csvData: string,
+        userId: string,
+        mapping: CsvMapping,
+        targetAccountId?: string,
+        options: ImportOptions = {},
+    ): Promise<ImportResult | ImportPreview> {
+        const accountId = await this.resolveManualAccount(
+            { name: "CSV Import", slug: "csv-import", institutionName: "CSV Manual Import" },
+            { providerAccountId: "csv-default", name: "Default CSV Account" },
+            userId,
+            targetAccountId,
+            !options.preview,
+        );
+
+        const statements: StagedStatement[] = [{
+            accountId,
+            accountName: "Default CSV Account",
+            transactions: this.parseCsvTransactions(csvData, mapping, accountId || "new"),
+        }];
+        return this.complete(statements, userId, "csv", options);
+    }
+
+    /**
+     * Either inserts the staged transactions as a new import batch or describes what an import would do.
+     */
+    private async complete(
+        statements: StagedStatement[],
+        userId: string,
+        format: string,
+        options: ImportOptions,
+    ): Promise<ImportResult | ImportPreview> {
+        if (options.preview) {
+            return this.buildPreview(statements, userId);
+        }
+
+        const accountIds = new Set(statements.map((s) => s.accountId));
+        const batch = await this.importBatchService.createBatch(userId, {
+            source: options.source || "upload",
+            format,
+            fileName: options.fileName,
+            accountId: accountIds.size === 1 ? statements[0].accountId : null,
+            connectionId: options.connectionId,
+        });
+
+        const accepted = options.acceptedRows ? new Set(options.acceptedRows) : null;
+        const result: ImportResult = { batchId: batch.id, possibleDuplicates: 0, transfersLinked: 0, possibleTransfers: 0, scheduledMatched: 0, categorised: 0, accounts: [] };
+        const totals = { inserted: 0, skipped: 0, invalid: 0 };
+        const insertedIds: string[] = [];
+
+        for (const [statementIndex, statement] of statements.entries()) {
+            const rows = accepted
+                ? statement.transactions.filter((_, i) => accepted.has(`${statementIndex}:${i}`))
+                : statement.transactions;
+
+            const { insertedIds: ids, ...stats } = await this.insertTransactions(
+                statement.accountId as string,
+                userId,
+                rows,
+                batch.id,
+            );
+            result.accounts.push({ accountId: statement.accountId as string, ...stats });
+            insertedIds.push(...ids);
+
+            totals.inserted += stats.inserted;
+            totals.skipped += stats.skipped;
+            totals.invalid += stats.invalid;
+        }
+
+        await this.importBatchService.finishBatch(batch.id, totals);
+
+        await this.payeeService.linkNewTransactions(userId, insertedIds);
+        const categorised = await this.classificationService.classifyNewTransactions(userId, insertedIds);
+        result.categorised = categorised.filter((u) => u.category_id).length;
+        // Before duplicate detection, which would otherwise flag the posted pending transactions these replace
+        result.scheduledMatched = await this.scheduledTransactionService.reconcileNewTransactions(userId, insertedIds);
+
+        if (totals.inserted > 0) {
+            try {
+                result.possibleDuplicates = await this.duplicateService.detect(userId, { batchId: batch.id });
+            } catch (err) {
+                console.error("Duplicate detection failed after import:", err);
+            }
+
+            try {
+                const transfers = await this.transferMatchService.match(userId);
+                result.transfersLinked = transfers.linked;
+                result.possibleTransfers = transfers.flagged;
+            } catch (err) {
+                console.error("Transfer matching failed after import:", err);
+            }
+
+            // After transfer matching, which takes transfers out of the picture
+            await this.recurringService.detectAfterImport(userId);
+        }
+
+        return result;
+    }
+
+    private async buildPreview(statements: StagedStatement[], userId: string): Promise<ImportPreview> {
+        const preview: ImportPreview = { accounts: [] };
+
+        const rules = (await this.ruleService.getRules(userId)).filter((r) => r.is_active);
+        const catRes = await query("SELECT id, name FROM categories WHERE user_id = $1", [userId]);
+        const categoryNames = new Map<string, string>(catRes.rows.map((c: any) => [c.id, c.name]));
+
+        for (const [statementIndex, statement] of statements.entries()) {
+            const valid = statement.transactions.filter((t) => !t.error);
+
+            let accountName = statement.accountName;
+            if (statement.accountId) {
+                const accountRes = await query("SELECT name FROM accounts WHERE id = $1", [statement.accountId]);
+                accountName = accountRes.rows[0]?.name || accountName;
+            }
+
+            // provider_transaction_id is globally unique, so these would be skipped on insert
+            const fitIdRes = await query(
+                `SELECT id, provider_transaction_id, date::text AS date, description, amount, user_id
+                 FROM transactions WHERE provider_transaction_id = ANY($1)`,
+                [valid.map((t) => t.fitId)],
+            );
+            const byFitId = new Map<string, any>(fitIdRes.rows.map((r: any) => [r.provider_transaction_id, r]));
+
+            // Rows the user already merged away as duplicates are skipped on insert too
+            const mergedRes = await query(
+                `SELECT merged_provider_transaction_id FROM duplicate_candidates
+                 WHERE user_id = $1 AND merged_provider_transaction_id = ANY($2)`,
+                [userId, valid.map((t) => t.fitId)],
+            );
+            const mergedFitIds = new Set<string>(mergedRes.rows.map((r: any) => r.merged_provider_transaction_id));
+
+            // Same date/amount/description already in the account under a different ID (e.g. from another source)
+            let existing: any[] = [];
+            if (statement.accountId && valid.length > 0) {
+                const dates = valid.map((t) => t.date).sort();
+                const existingRes = await query(
+                    `SELECT id, date::text AS date, COALESCE(original_description, description) AS description, amount
+                     FROM transactions
+                     WHERE account_id = $1 AND date BETWEEN $2 AND $3`,
+                    [statement.accountId, dates[0], dates[dates.length - 1]],
+                );
+                existing = existingRes.rows;
+            }
+            const claimed = new Set<string>();
+
+            const rows: ImportPreviewRow[] = statement.transactions.map((txn, i) => {
+                const row: ImportPreviewRow = {
+                    key: `${statementIndex}:${i}`,
+                    date: txn.date,
+                    description: txn.description,
+                    amount: txn.amount,
+                    status: "new",
+                    error: null,
+                    duplicate_of: null,
+                    category_id: null,
+                    category_name: null,
+                    rule_name: null,
+                };
+
+                if (txn.error) {
+                    return { ...row, status: "invalid", error: txn.error };
+                }
+
+                const fitIdMatch = byFitId.get(txn.fitId);
+                const contentMatch = fitIdMatch
+                    ? null
+                    : existing.find((e) =>
+                        !claimed.has(e.id) &&
+                        e.date === txn.date &&
+                        parseFloat(e.amount) === txn.amount &&
+                        e.description.trim().toLowerCase() === txn.description.trim().toLowerCase());
+
+                if (mergedFitIds.has(txn.fitId)) {
+                    row.status = "duplicate";
+                } else if (fitIdMatch || contentMatch) {
+                    const match = fitIdMatch || contentMatch;
+                    claimed.add(match.id);
+                    row.status = "duplicate";
+                    // Don't reveal another user's transaction that happens to share the ID
+                    if (!fitIdMatch || fitIdMatch.user_id === userId) {
+                        row.duplicate_of = {
+                            id: match.id,
+                            date: match.date,
+                            description: match.description,
+                            amount: parseFloat(match.amount),
+                        };
+                    }
+                }
+
+                const { changes, matched } = this.ruleService.evaluateRules(
+                    { ...txn, account_id: statement.accountId },
+                    rules,
+                );
+                if (matched.length > 0) {
+                    row.rule_name = matched.map((r) => r.name).join(", ");
+                    row.category_id = changes.category_id || null;
+                    row.category_name = changes.category_id ? categoryNames.get(changes.category_id) || null : null;
+                }
+
+                return row;
+            });
+
+            preview.accounts.push({
+                accountId: statement.accountId,
+                accountName,
+                isNewAccount: statement.accountId === null,
+                rows,
+            });
+        }
+
+        return preview;
+    }
+
+    private async stageOfx(
+        ofxData: string,
+        userId: string,
+        targetAccountId: string | undefined,
+        createAccounts: boolean,
+    ): Promise<StagedStatement[]> {
         const parsedData = parse(ofxData);
-        const result: ImportResult = { accounts: [] };
+        const statements: StagedStatement[] = [];
 
         // 1. Ensure Data Provider exists
         const providerName = "OFX Import";
@@ -30,7 +343,7 @@ class ImportService {
         );
         if (providerRes.rows.length > 0) {
             providerId = providerRes.rows[0].id;
-        } else {
+        } else if (createAccounts) {
             const newProvider = await query(
                 "INSERT INTO data_providers (name, slug) VALUES ($1, $2) RETURNING id",
                 [providerName, providerSlug],
@@ -59,7 +372,7 @@ class ImportService {
 
         if (connectionRes.rows.length > 0) {
             connectionId = connectionRes.rows[0].id;
-        } else {
+        } else if (createAccounts) {
             const newConnection = await query(
                 `INSERT INTO provider_connections (provider_id, api_key, customer_id, institution_name)
                  VALUES ($1, 'manual', 'manual', $2) RETURNING id`,
@@ -77,14 +390,15 @@ class ImportService {
                 : [ofxRoot.CREDITCARDMSGSRSV1.CCSTMTTRNRS];
 
             for (const msg of ccMsgs) {
-                const stats = await this.processStatement(
+                const statement = await this.processStatement(
                     msg.CCSTMTRS,
                     connectionId,
                     "credit",
                     userId,
                     targetAccountId,
+                    createAccounts,
                 );
-                if (stats) result.accounts.push(stats);
+                if (statement) statements.push(statement);
             }
         }
 
@@ -95,104 +409,54 @@ class ImportService {
                 : [ofxRoot.BANKMSGSRSV1.STMTTRNRS];
 
             for (const msg of bankMsgs) {
-                const stats = await this.processStatement(
+                const statement = await this.processStatement(
                     msg.STMTRS,
                     connectionId,
                     "checking",
                     userId,
                     targetAccountId,
+                    createAccounts,
                 );
-                if (stats) result.accounts.push(stats);
+                if (statement) statements.push(statement);
             }
         }
 
-        return result;
+        return statements;
     }
 
-    async importQif(
+    private async stageQif(
         qifData: string,
         userId: string,
-        targetAccountId?: string,
-        dateFormat: string = "MM/DD/YYYY",
-    ): Promise<ImportResult> {
-        const result: ImportResult = { accounts: [] };
-
-        // 1. Ensure Data Provider exists
-        const providerName = "QIF Import";
-        const providerSlug = "qif-import";
-        let providerId;
-
-        const providerRes = await query(
-            "SELECT id FROM data_providers WHERE slug = $1",
-            [providerSlug],
-        );
-        if (providerRes.rows.length > 0) {
-            providerId = providerRes.rows[0].id;
-        } else {
-            const newProvider = await query(
-                "INSERT INTO data_providers (name, slug) VALUES ($1, $2) RETURNING id",
-                [providerName, providerSlug],
-            );
-            providerId = newProvider.rows[0].id;
-        }
-
-        // 2. Ensure Provider Connection exists
-        const institutionName = "QIF Manual Import";
-        let connectionId;
-        const connectionRes = await query(
-            "SELECT id FROM provider_connections WHERE provider_id = $1 AND institution_name = $2 AND user_id = $3",
-            [providerId, institutionName, userId],
+        targetAccountId: string | undefined,
+        dateFormat: string,
+        createAccounts: boolean,
+    ): Promise<StagedStatement[]> {
+        // 1. Find or Create Account (under a per-user QIF connection)
+        const accountId = await this.resolveManualAccount(
+            { name: "QIF Import", slug: "qif-import", institutionName: "QIF Manual Import" },
+            { providerAccountId: "qif-default", name: "Default QIF Account" },
+            userId,
+            targetAccountId,
+            createAccounts,
         );
 
-        if (connectionRes.rows.length > 0) {
-            connectionId = connectionRes.rows[0].id;
-        } else {
-            const newConnection = await query(
-                `INSERT INTO provider_connections (provider_id, api_key, customer_id, institution_name, user_id)
-                 VALUES ($1, 'manual', 'manual', $2, $3) RETURNING id`,
-                [providerId, institutionName, userId],
-            );
-            connectionId = newConnection.rows[0].id;
-        }
-
-        // 3. Find or Create Account
-        let accountId: string;
-        if (targetAccountId) {
-            // Verify ownership
-            const ownershipRes = await query("SELECT id FROM accounts WHERE id = $1 AND user_id = $2", [targetAccountId, userId]);
-            if (ownershipRes.rows.length === 0) {
-                throw new Error("Target account not found or access denied.");
-            }
-            accountId = targetAccountId;
-        } else {
-            const accountRes = await query(
-                "SELECT id FROM accounts WHERE provider_account_id = $1 AND user_id = $2",
-                ["qif-default", userId],
-            );
-
-            if (accountRes.rows.length > 0) {
-                accountId = accountRes.rows[0].id;
-            } else {
-                const newAccount = await query(
-                    `INSERT INTO accounts (connection_id, provider_account_id, name, type, balance, user_id)
-                     VALUES ($1, $2, $3, $4, 0, $5) RETURNING id`,
-                    [
-                        connectionId,
-                        "qif-default",
-                        "Default QIF Account",
-                        "checking",
-                        userId
-                    ],
-                );
-                accountId = newAccount.rows[0].id;
-            }
-        }
-
-        // 4. Parse QIF Data
+        // 2. Parse QIF Data
         const lines = qifData.split(/\r?\n/);
         let currentTxn: any = null;
         const transactions: any[] = [];
 
+        // Split lines are "S" (category), "E" (memo) and "$" (amount), in that order but with any
+        // of them optional. A field the current line already has starts the next one.
+        const splitLine = (field: "memo" | "amount") => {
+            const splits = currentTxn.splits || (currentTxn.splits = []);
+            let line = splits[splits.length - 1];
+            if (!line || line[field] !== undefined) {
+                line = { category: null };
+                splits.push(line);
+            }
+            return line;
+        };
+
         for (const line of lines) {
             if (line.startsWith("!Type:")) continue;
             if (line === "^") {
@@ -209,7 +473,7 @@ class ImportService {
 
             switch (code) {
                 case "D": // Date
-                    currentTxn.date = this.parseQifDate(value, dateFormat);
+                    currentTxn.date = this.parseDate(value, dateFormat);
                     break;
                 case "T": // Amount
                     currentTxn.amount = parseFloat(value.replace(/,/g, ""));
@@ -223,21 +487,29 @@ class ImportService {
                 case "N": // Check number
                     currentTxn.fitId = value;
                     break;
+                case "S": // Split category
+                    (currentTxn.splits || (currentTxn.splits = [])).push({ category: value });
+                    break;
+                case "E": // Split memo
+                    splitLine("memo").memo = value;
+                    break;
+                case "$": // Split amount
+                    splitLine("amount").amount = parseFloat(value.replace(/,/g, ""));
+                    break;
             }
         }
 
-        // 5. Insert Transactions
-        let insertedCount = 0;
-        let skippedCount = 0;
-        const occurrenceMap = new Map<string, number>();
+        const categoryIds = await this.getCategoryLookup(userId);
 
-        for (const txn of transactions) {
+        // 3. Build unique IDs
+        const occurrenceMap = new Map<string, number>();
+        const rows: ParsedTransaction[] = transactions.map((txn) => {
             const descriptionParts = [txn.description, txn.memo].filter(Boolean);
             const description = descriptionParts.join(" - ") || "Unknown Transaction";
 
             // Fix: Amex puts Date in 'N', and user may have identical txns on same day.
             // Use composite key + occurrence count to distinguish them safeley.
-            const baseUnique = `qif-${accountId}-${txn.date}-${txn.amount}-${txn.description}`;
+            const baseUnique = `qif-${accountId || "new"}-${txn.date}-${txn.amount}-${txn.description}`;
 
             const count = (occurrenceMap.get(baseUnique) || 0) + 1;
             occurrenceMap.set(baseUnique, count);
@@ -246,40 +518,321 @@ class ImportService {
                 ? `${baseUnique}-${count}-${txn.fitId}`
                 : `${baseUnique}-${count}`;
 
+            const splits = this.toSplitLines(txn.splits, txn.amount, categoryIds);
+            return this.validate({ fitId, date: txn.date, description, amount: txn.amount, ...(splits && { splits }) });
+        });
+
+        return [{ accountId, accountName: "Default QIF Account", transactions: rows }];
+    }
+
+    /**
+     * The user's category IDs by lower-cased name.
+     */
+    private async getCategoryLookup(userId: string): Promise<Map<string, string>> {
+        const { rows } = await query("SELECT id, name FROM categories WHERE user_id = $1", [userId]);
+        return new Map(rows.map((c: any) => [c.name.trim().toLowerCase(), c.id]));
+    }
+
+    /**
+     * Turns QIF split lines into SplitLines, matching categories by name ("Food:Groceries" matches
+     * "Groceries"). Transfers ("[Savings]") and unknown categories are left uncategorised with the
+     * name kept as the memo. Null unless there are two or more (non-zero) lines adding up to the amount.
+     */
+    private toSplitLines(
+        qifSplits: { category: string | null; memo?: string; amount?: number }[] | undefined,
+        amount: number,
+        categoryIds: Map<string, string>,
+    ): SplitLine[] | null {
+        if (!qifSplits || qifSplits.length < 2) return null;
+
+        const lines: SplitLine[] = qifSplits.map((split) => {
+            const name = (split.category || "").split("/")[0].trim(); // Drop any "/class"
+            const leaf = name.split(":").pop()!.trim().toLowerCase();
+            const categoryId = name.startsWith("[")
+                ? null
+                : categoryIds.get(name.toLowerCase()) || categoryIds.get(leaf) || null;
+            return {
+                category_id: categoryId,
+                amount: split.amount as number,
+                memo: split.memo || (!categoryId && name ? name : null),
+            };
+        });
+
+        if (lines.some((line) => line.amount === undefined || isNaN(line.amount))) return null;
+        const nonZero = lines.filter((line) => line.amount !== 0);
+        if (nonZero.length < 2) return null;
+
+        const total = lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0);
+        if (total !== Math.round(amount * 100)) {
+            console.warn(`Ignoring QIF splits adding up to ${total / 100} on a transaction of ${amount}`);
+            return null;
+        }
+        return nonZero;
+    }
+
+    /**
+     * Splits raw CSV text into rows of cells. Handles quoted cells containing
+     * delimiters, escaped quotes ("") and embedded newlines.
+     */
+    parseCsv(csvData: string, delimiter: string = ","): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = "";
+        let inQuotes = false;
+        const text = csvData.replace(/^\uFEFF/, "");
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (inQuotes) {
+                if (char === '"') {
+                    if (text[i + 1] === '"') {
+                        cell += '"';
+                        i++;
+                    } else {
+                        inQuotes = false;
+                    }
+                } else {
+                    cell += char;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                inQuotes = true;
+            } else if (char === delimiter) {
+                row.push(cell.trim());
+                cell = "";
+            } else if (char === "\n" || char === "\r") {
+                if (char === "\r" && text[i + 1] === "\n") i++;
+                row.push(cell.trim());
+                rows.push(row);
+                row = [];
+                cell = "";
+            } else {
+                cell += char;
+            }
+        }
+
+        if (cell !== "" || row.length > 0) {
+            row.push(cell.trim());
+            rows.push(row);
+        }
+
+        // Drop blank lines so header/footer skip counts refer to real rows
+        return rows.filter((r) => r.some((c) => c !== ""));
+    }
+
+    private parseCsvTransactions(
+        csvData: string,
+        mapping: CsvMapping,
+        accountId: string,
+    ): ParsedTransaction[] {
+        const allRows = this.parseCsv(csvData, mapping.delimiter);
+        const dataRows = allRows.slice(
+            mapping.skip_header_rows,
+            allRows.length - mapping.skip_footer_rows,
+        );
+
+        const occurrenceMap = new Map<string, number>();
+        const transactions: ParsedTransaction[] = [];
+
+        for (const cells of dataRows) {
+            const rawDate = cells[mapping.date_column] || "";
+            const description = cells[mapping.description_column] || "Unknown Transaction";
+
+            let amount: number;
+            if (mapping.amount_column !== null && mapping.amount_column !== undefined) {
+                // A blank amount is an invalid row, not a zero transaction
+                amount = this.parseAmount(cells[mapping.amount_column]);
+            } else {
+                // Debit/credit exports usually list both as positive numbers, leaving one side blank.
+                // A row with both blank is invalid.
+                const debit = this.parseAmount(cells[mapping.debit_column as number]);
+                const credit = this.parseAmount(cells[mapping.credit_column as number]);
+                amount = isNaN(debit) && isNaN(credit)
+                    ? NaN
+                    : Math.abs(isNaN(credit) ? 0 : credit) - Math.abs(isNaN(debit) ? 0 : debit);
+            }
+
+            if (mapping.invert_sign) amount = -amount;
+
+            // Ignore any time component, e.g. "01/02/2026 10:31" or "2026-02-01T10:31:00"
+            const date = this.parseDate(rawDate.split(/[ T]/)[0], mapping.date_format);
+            const reference = mapping.reference_column !== null && mapping.reference_column !== undefined
+                ? cells[mapping.reference_column]
+                : "";
+
+            // Without a bank reference, fall back to the same composite key + occurrence scheme as QIF
+            const baseUnique = `csv-${accountId}-${date}-${amount}-${description}`;
+            const count = (occurrenceMap.get(baseUnique) || 0) + 1;
+            occurrenceMap.set(baseUnique, count);
+
+            const fitId = reference
+                ? `csv-${accountId}-${reference}`
+                : `${baseUnique}-${count}`;
+
+            transactions.push(this.validate({ fitId, date, description, amount }));
+        }
+
+        return transactions;
+    }
+
+    private validate(txn: ParsedTransaction): ParsedTransaction {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(txn.date) || isNaN(Date.parse(txn.date))) {
+            return { ...txn, error: `Unrecognised date "${txn.date}"` };
+        }
+        if (txn.amount === undefined || isNaN(txn.amount)) {
+            return { ...txn, error: "Missing or invalid amount" };
+        }
+        return txn;
+    }
+
+    // NaN for an empty or missing cell
+    private parseAmount(value: string | undefined): number {
+        if (value === undefined || value === null) return NaN;
+        let clean = value.replace(/[$,\s]/g, "");
+        if (clean === "") return NaN;
+        // Accounting style negatives, e.g. (12.50)
+        if (/^\(.*\)$/.test(clean)) clean = `-${clean.slice(1, -1)}`;
+        // Trailing sign/suffix, e.g. 12.50- or 12.50 DR
+        if (/-$/.test(clean) || /DR$/i.test(clean)) clean = `-${clean.replace(/(-|DR)$/i, "")}`;
+        clean = clean.replace(/CR$/i, "");
+        return parseFloat(clean);
+    }
+
+    /**
+     * Finds (or creates) the data provider, per-user connection and default account
+     * used for file imports that don't identify their own account.
+     * Returns null instead of creating anything when createAccounts is false.
+     */
+    private async resolveManualAccount(
+        provider: { name: string; slug: string; institutionName: string },
+        defaultAccount: { providerAccountId: string; name: string },
+        userId: string,
+        targetAccountId?: string,
+        createAccounts: boolean = true,
+    ): Promise<string | null> {
+        if (targetAccountId) {
+            // Verify ownership
+            const ownershipRes = await query("SELECT id FROM accounts WHERE id = $1 AND user_id = $2", [targetAccountId, userId]);
+            if (ownershipRes.rows.length === 0) {
+                throw new Error("Target account not found or access denied.");
+            }
+            return targetAccountId;
+        }
+
+        const existingRes = await query(
+            "SELECT id FROM accounts WHERE provider_account_id = $1 AND user_id = $2",
+            [defaultAccount.providerAccountId, userId],
+        );
+        if (existingRes.rows.length > 0) {
+            return existingRes.rows[0].id;
+        }
+        if (!createAccounts) {
+            return null;
+        }
+
+        let providerId;
+        const providerRes = await query(
+            "SELECT id FROM data_providers WHERE slug = $1",
+            [provider.slug],
+        );
+        if (providerRes.rows.length > 0) {
+            providerId = providerRes.rows[0].id;
+        } else {
+            const newProvider = await query(
+                "INSERT INTO data_providers (name, slug) VALUES ($1, $2) RETURNING id",
+                [provider.name, provider.slug],
+            );
+            providerId = newProvider.rows[0].id;
+        }
+
+        let connectionId;
+        const connectionRes = await query(
+            "SELECT id FROM provider_connections WHERE provider_id = $1 AND institution_name = $2 AND user_id = $3",
+            [providerId, provider.institutionName, userId],
+        );
+
+        if (connectionRes.rows.length > 0) {
+            connectionId = connectionRes.rows[0].id;
+        } else {
+            const newConnection = await query(
+                `INSERT INTO provider_connections (provider_id, api_key, customer_id, institution_name, user_id)
+                 VALUES ($1, 'manual', 'manual', $2, $3) RETURNING id`,
+                [providerId, provider.institutionName, userId],
+            );
+            connectionId = newConnection.rows[0].id;
+        }
+
+        const newAccount = await query(
+            `INSERT INTO accounts (connection_id, provider_account_id, name, type, balance, user_id)
+             VALUES ($1, $2, $3, $4, 0, $5) RETURNING id`,
+            [
+                connectionId,
+                defaultAccount.providerAccountId,
+                defaultAccount.name,
+                "checking",
+                userId
+            ],
+        );
+        return newAccount.rows[0].id;
+    }
+
+    private async insertTransactions(
+        accountId: string,
+        userId: string,
+        transactions: ParsedTransaction[],
+        batchId: string,
+    ): Promise<{ inserted: number; skipped: number; invalid: number; insertedIds: string[] }> {
+        const insertedIds: string[] = [];
+        let insertedCount = 0;
+        let skippedCount = 0;
+        let invalidCount = 0;
+
+        for (const txn of transactions) {
+            if (txn.error) {
+                invalidCount++;
+                continue;
+            }
+
             try {
                 const insertRes = await query(
                     `INSERT INTO transactions
-                    (account_id, provider_transaction_id, date, description, amount, status, user_id)
-                    VALUES ($1, $2, $3, $4, $5, 'cleared', $6)
+                    (account_id, provider_transaction_id, date, description, amount, status, user_id, import_batch_id)
+                    SELECT $1::uuid, $2::varchar, $3::date, $4::varchar, $5::numeric, 'cleared'::transaction_status, $6::uuid, $7::uuid
+                    WHERE NOT EXISTS (
+                        SELECT 1 FROM duplicate_candidates
+                        WHERE user_id = $6 AND merged_provider_transaction_id = $2
+                    )
                     ON CONFLICT (provider_transaction_id) DO NOTHING
                     RETURNING id`,
-                    [accountId, fitId, txn.date, description, txn.amount, userId],
+                    [accountId, txn.fitId, txn.date, txn.description, txn.amount, userId, batchId],
                 );
 
                 if (insertRes.rowCount && insertRes.rowCount > 0) {
                     insertedCount++;
+                    insertedIds.push(insertRes.rows[0].id);
+                    if (txn.splits) {
+                        await this.splitService.setSplits(userId, insertRes.rows[0].id, txn.splits, { imported: true })
+                            .catch((err) => console.error("Failed to split imported transaction:", err));
+                    }
                 } else {
                     if (skippedCount < 10) {
-                        console.warn(`[DEBUG] Skipped Duplicate: Date=${txn.date} | Amt=${txn.amount} | Desc=${txn.description} | FitID=${fitId}`);
+                        console.warn(`[DEBUG] Skipped Duplicate: Date=${txn.date} | Amt=${txn.amount} | Desc=${txn.description} | FitID=${txn.fitId}`);
                     }
                     skippedCount++;
                 }
             } catch (err) {
-                console.error("Failed to insert QIF transaction:", err);
+                console.error("Failed to insert imported transaction:", err);
             }
         }
 
-        result.accounts.push({
-            accountId: accountId,
-            inserted: insertedCount,
-            skipped: skippedCount,
-        });
-
-        return result;
+        return { inserted: insertedCount, skipped: skippedCount, invalid: invalidCount, insertedIds };
     }
 
-    private parseQifDate(qifDate: string, format: string): string {
-        const parts = qifDate.replace(/ /g, "").split(/[/'-]/);
+    private parseDate(rawDate: string, format: string): string {
+        const parts = rawDate.replace(/ /g, "").split(/[/'.-]/);
         if (parts.length === 3) {
             let month, day, year;
             if (format === "DD/MM/YYYY") {
@@ -296,7 +849,7 @@ class ImportService {
             }
             return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
         }
-        return qifDate;
+        return rawDate;
     }
 
     private async processStatement(
@@ -304,8 +857,9 @@ class ImportService {
         connectionId: string,
         defaultType: string,
         userId: string,
-        targetAccountId?: string,
-    ) {
+        targetAccountId: string | undefined,
+        createAccounts: boolean,
+    ): Promise<StagedStatement | null> {
         // Identify Account
         let accountIdRaw = "";
         if (stmtRs.CCACCTFROM) {
@@ -319,7 +873,8 @@ class ImportService {
         }
 
         // Find or Create Account
-        let accountId;
+        let accountId = null;
+        const accountName = `Imported Account ${accountIdRaw}`;
         if (targetAccountId) {
             // Verify ownership
             const ownershipRes = await query("SELECT id FROM accounts WHERE id = $1 AND user_id = $2", [targetAccountId, userId]);
@@ -335,14 +890,14 @@ class ImportService {
 
             if (accountRes.rows.length > 0) {
                 accountId = accountRes.rows[0].id;
-            } else {
+            } else if (createAccounts) {
                 const newAccount = await query(
                     `INSERT INTO accounts (connection_id, provider_account_id, name, type, balance, user_id)
                  VALUES ($1, $2, $3, $4, 0, $5) RETURNING id`,
                     [
                         connectionId,
                         accountIdRaw,
-                        `Imported Account ${accountIdRaw}`,
+                        accountName,
                         defaultType,
                         userId
                     ],
@@ -354,55 +909,27 @@ class ImportService {
         // Process Transactions
         const transactions = stmtRs.BANKTRANLIST?.STMTTRN;
         if (!transactions) {
-            return { accountId: accountIdRaw, inserted: 0, skipped: 0 };
+            return { accountId, accountName, transactions: [] };
         }
 
         const txnList = Array.isArray(transactions)
             ? transactions
             : [transactions];
 
-        let insertedCount = 0;
-        let skippedCount = 0;
-
-        for (const txn of txnList) {
+        const rows: ParsedTransaction[] = txnList.map((txn: any) => {
             // Parse date: OFX dates are YYYYMMDDHHMMSS usually
             // e.g., 20251009000000 -> 2025-10-09
-            const dateStr = txn.DTPOSTED.substring(0, 8);
+            const dateStr = (txn.DTPOSTED || "").substring(0, 8);
             const formattedDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
 
-            const amount = parseFloat(txn.TRNAMT);
-            const fitId = txn.FITID;
-            const memo = txn.MEMO || txn.NAME || "";
-
-            // Insert Transaction
-            try {
-                const result = await query(
-                    `INSERT INTO transactions
-                    (account_id, provider_transaction_id, date, description, amount, status, user_id)
-                    VALUES ($1, $2, $3, $4, $5, 'cleared', $6)
-                    ON CONFLICT (provider_transaction_id) DO NOTHING
-                    RETURNING id`,
-                    [accountId, fitId, formattedDate, memo, amount, userId],
-                );
-
-                if (result.rowCount && result.rowCount > 0) {
-                    insertedCount++;
-                } else {
-                    skippedCount++;
-                }
-            } catch (err) {
-                console.error(`Failed to insert transaction ${fitId}:`, err);
-            }
-        }
+            return this.validate({
+                fitId: txn.FITID,
+                date: formattedDate,
+                description: txn.MEMO || txn.NAME || "",
+                amount: parseFloat(txn.TRNAMT),
+            });
+        });
 
-        return {
-            accountId: accountIdRaw,
-            inserted: insertedCount,
-            skipped: skippedCount,
-        };
+        return { accountId, accountName, transactions: rows };
     }
 }
-
-module.exports = {
-    ImportService,
-};
@@ -0,0 +1,233 @@
+import { query } from "../db";
+import { LlmConfig, LlmRequest, LlmResponse, getLlmProvider } from "./llmProviders";
+import { LlmUsageService } from "./llmUsage";
+
+// Audit entries older than this are pruned as new ones are written
+const AUDIT_RETENTION_DAYS = 90;
+
+export type AmountMode = 'exact' | 'rounded' | 'omit';
+
+export const AMOUNT_MODES: AmountMode[] = ['exact', 'rounded', 'omit'];
+
+export interface LlmPrivacySettings {
+    redactNumbers: boolean;
+    redactNames: boolean;
+    redactTerms: string[];
+    amountMode: AmountMode;
+}
+
+export type LlmPurpose = 'classification' | 'rule_suggestions' | 'connection_test';
+
+export interface LlmAuditEntry {
+    id: string;
+    purpose: LlmPurpose;
+    provider: string;
+    model: string | null;
+    system_prompt: string;
+    prompt: string;
+    response: string | null;
+    error: string | null;
+    duration_ms: number | null;
+    created_at: Date;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words that end a name captured after a transfer keyword
+const NAME_STOP = "(?!(?:REF|REFERENCE|RECEIPT|INV|INVOICE|FOR|VIA|ON|AT|CARD|ACC|ACCT|ACCOUNT)\\b)";
+const NAME_WORD = `${NAME_STOP}[A-Z][A-Za-z'.-]*`;
+
+// Transfers to and from people name them, e.g. "OSKO PAYMENT TO JANE CITIZEN"
+const TRANSFER_NAME = new RegExp(
+    `\\b((?:INTERNET |ONLINE |FAST )?(?:TRANSFER|TFR|XFER|OSKO(?: PAYMENT)?|PAYID(?: PAYMENT)?|PAY ANYONE|DEPOSIT)\\s+(?:TO|FROM))\\s+(${NAME_WORD}(?:\\s+${NAME_WORD}){0,3})`,
+    'gi'
+);
+const TITLED_NAME = new RegExp(`\\b(?:MR|MRS|MS|MISS)\\.?\\s+${NAME_WORD}(?:\\s+${NAME_WORD})?`, 'gi');
+
+// Masked card numbers as banks print them: XXXX-XXXX-XXXX-1234, ****1234, xx1234
+const MASKED_CARD = /(?:[X*•#]{2,}[\s-]?)+\d{2,4}\b/gi;
+// Full card numbers, optionally grouped by spaces or dashes
+const CARD_NUMBER = /\b\d(?:[ -]?\d){11,18}\b/g;
+// BSB and account number, and IBANs
+const ACCOUNT_NUMBER = /\b\d{3}-\d{3}\s+\d{4,10}\b|\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/g;
+// A label followed by something containing a digit, e.g. "REF: 84A920", "RECEIPT 123456"
+const LABELLED_REFERENCE = /\b(REF(?:ERENCE)?|RECEIPT|RCPT|INV(?:OICE)?|TXN|TRACE|AUTH|ID|NO)\b[\s.:#-]*(?=[A-Z0-9-]*\d)[A-Z0-9-]{3,}/gi;
+// Unlabelled codes mixing letters with several digits, and long bare numbers
+const CODE = /\b(?=[A-Z0-9]*[A-Z])(?=(?:[A-Z]*\d){3})[A-Z0-9]{8,}\b/gi;
+const LONG_NUMBER = /\b\d{6,}\b/g;
+
+/**
+ * Rewrites what's sent to an LLM for one request. Masks identifying details in descriptions,
+ * coarsens amounts, and swaps internal IDs for short aliases that are mapped back afterwards.
+ */
+export class LlmRedactor {
+    private aliases = new Map<string, string>();
+    private ids = new Map<string, string>();
+    private counters = new Map<string, number>();
+    private terms: RegExp | null;
+
+    constructor(private settings: LlmPrivacySettings) {
+        const terms = settings.redactTerms.map(t => t.trim()).filter(Boolean);
+        this.terms = settings.redactNames && terms.length > 0
+            ? new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\b`, 'gi')
+            : null;
+    }
+
+    /**
+     * A short stand-in for an ID, e.g. T1 or C4. The same ID always gets the same alias.
+     */
+    alias(id: string, prefix: string): string {
+        const existing = this.aliases.get(id);
+        if (existing) return existing;
+
+        const next = (this.counters.get(prefix) || 0) + 1;
+        this.counters.set(prefix, next);
+        const alias = `${prefix}${next}`;
+        this.aliases.set(id, alias);
+        this.ids.set(alias, id);
+        return alias;
+    }
+
+    /**
+     * The ID behind an alias the model returned, or undefined if it isn't one of ours.
+     */
+    resolve(alias: unknown): string | undefined {
+        if (alias === null || alias === undefined) return undefined;
+        return this.ids.get(String(alias).trim().toUpperCase());
+    }
+
+    description(text: string): string {
+        let result = text || '';
+
+        if (this.settings.redactNumbers) {
+            result = result
+                .replace(MASKED_CARD, '[CARD]')
+                .replace(ACCOUNT_NUMBER, '[ACCOUNT]')
+                .replace(CARD_NUMBER, '[CARD]')
+                .replace(LABELLED_REFERENCE, '$1 [REF]')
+                .replace(CODE, '[REF]')
+                .replace(LONG_NUMBER, '[NUMBER]');
+        }
+
+        if (this.settings.redactNames) {
+            // Terms go last: a masked first name would stop the rest of a transfer name being found
+            result = result
+                .replace(TRANSFER_NAME, '$1 [NAME]')
+                .replace(TITLED_NAME, '[NAME]');
+            if (this.terms) result = result.replace(this.terms, '[NAME]');
+            result = result.replace(/\[NAME\](?:\s+\[NAME\])+/g, '[NAME]');
+        }
+
+        return result.replace(/\s+/g, ' ').trim();
+    }
+
+    /**
+     * The amount as it should appear in a prompt, or null if it's left out. Rounded amounts
+     * keep one significant figure (-47.30 becomes ~-50), enough to tell a coffee from rent.
+     */
+    amount(amount: number | string): string | null {
+        const value = parseFloat(String(amount)) || 0;
+        switch (this.settings.amountMode) {
+            case 'omit':
+                return null;
+            case 'rounded':
+                return `~${Number(value.toPrecision(1))}`;
+            default:
+                return value.toFixed(2);
+        }
+    }
+
+    /**
+     * True if text contains one of the placeholders above, so it can't be matched against real data.
+     */
+    static isRedacted(text: string): boolean {
+        return /\[(?:CARD|ACCOUNT|REF|NUMBER|NAME)\]/.test(text);
+    }
+}
+
+/**
+ * The user's privacy preferences for LLM calls, and the audit log of everything sent.
+ */
+export class LlmPrivacyService {
+    private usageService = new LlmUsageService();
+
+    async getSettings(userId: string): Promise<LlmPrivacySettings> {
+        const { rows } = await query(
+            `SELECT llm_redact_numbers, llm_redact_names, llm_redact_terms, llm_amount_mode
+             FROM users WHERE id = $1`,
+            [userId]
+        );
+        const user = rows[0] || {};
+        return {
+            redactNumbers: user.llm_redact_numbers ?? true,
+            redactNames: user.llm_redact_names ?? true,
+            redactTerms: user.llm_redact_terms || [],
+            amountMode: AMOUNT_MODES.includes(user.llm_amount_mode) ? user.llm_amount_mode : 'exact',
+        };
+    }
+
+    async getRedactor(userId: string): Promise<LlmRedactor> {
+        return new LlmRedactor(await this.getSettings(userId));
+    }
+
+    /**
+     * Sends a request to the configured provider, recording the prompt and the reply (or error)
+     * in the user's audit log, and the tokens used. All LLM calls should go through here.
+     * Refused once the user's monthly spending cap is reached, except for connection tests.
+     */
+    async complete(userId: string, purpose: LlmPurpose, llm: LlmConfig, request: LlmRequest): Promise<LlmResponse> {
+        const provider = getLlmProvider(llm.provider);
+        if (!provider) throw new Error(`Unknown provider ${llm.provider}`);
+        if (purpose !== 'connection_test' && await this.usageService.isCapReached(userId)) {
+            throw new Error("Monthly AI spending cap reached");
+        }
+
+        const started = Date.now();
+        try {
+            const response = await provider.complete(llm, request);
+            await this.record(userId, purpose, llm, request, response.content, null, Date.now() - started);
+            await this.usageService.record(userId, purpose, llm, response.usage)
+                .catch(err => console.error("Failed to record LLM usage:", err));
+            return response;
+        } catch (err: any) {
+            await this.record(userId, purpose, llm, request, null, err.message, Date.now() - started);
+            throw err;
+        }
+    }
+
+    async getAuditLog(userId: string, limit: number = 50, offset: number = 0): Promise<{ entries: LlmAuditEntry[]; total: number }> {
+        const { rows } = await query(
+            `SELECT id, purpose, provider, model, system_prompt, prompt, response, error, duration_ms, created_at,
+                COUNT(*) OVER()::int AS total
+             FROM llm_audit_log
+             WHERE user_id = $1
+             ORDER BY created_at DESC
+             LIMIT $2 OFFSET $3`,
+            [userId, limit, offset]
+        );
+        const total = rows[0]?.total || 0;
+        return { entries: rows.map(({ total, ...entry }) => entry), total };
+    }
+
+    async clearAuditLog(userId: string): Promise<void> {
+        await query('DELETE FROM llm_audit_log WHERE user_id = $1', [userId]);
+    }
+
+    // A failure to audit is logged rather than failing the LLM call that's already been made
+    private async record(userId: string, purpose: LlmPurpose, llm: LlmConfig, request: LlmRequest,
+        response: string | null, error: string | null, durationMs: number): Promise<void> {
+        try {
+            await query(
+                `INSERT INTO llm_audit_log (user_id, purpose, provider, model, system_prompt, prompt, response, error, duration_ms)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+                [userId, purpose, llm.provider, llm.model, request.system, request.prompt, response, error, durationMs]
+            );
+            await query(
+                `DELETE FROM llm_audit_log WHERE user_id = $1 AND created_at < NOW() - $2 * INTERVAL '1 day'`,
+                [userId, AUDIT_RETENTION_DAYS]
+            );
+        } catch (err) {
+            console.error("Failed to write LLM audit log:", err);
+        }
+    }
+}
@@ -0,0 +1,251 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+// Retries for rate limiting (429), server errors and network failures
+const MAX_RETRIES = 4;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs to an LLM API, retrying transient failures. Honours the provider's Retry-After
+ * header when rate limited, otherwise backs off exponentially.
+ */
+export const postWithRetry = async (url: string, payload: any, config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await axios.post(url, payload, config);
+        } catch (err: any) {
+            const status = err.response?.status;
+            const transient = !err.response || status === 429 || status >= 500;
+            if (!transient || attempt >= MAX_RETRIES) throw err;
+
+            const retryAfter = parseFloat(err.response?.headers?.['retry-after']);
+            const delay = Math.min(isNaN(retryAfter) ? 1000 * 2 ** attempt : retryAfter * 1000, MAX_RETRY_DELAY_MS);
+            console.warn(`LLM request failed (${status || err.code}), retrying in ${delay}ms...`);
+            await sleep(delay);
+        }
+    }
+};
+
+/**
+ * A configured integration, from llm_settings with the provider's defaults filled in.
+ */
+export interface LlmConfig {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+    provider: string;
+}
+
+export interface LlmRequest {
+    system: string;
+    prompt: string;
+    json?: boolean;          // Ask for a JSON object back
+    maxTokens?: number;      // Capped at the provider's limit
+    temperature?: number;
+}
+
+export interface LlmUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LlmResponse {
+    content: string;
+    usage: LlmUsage | null; // Not every server reports it
+}
+
+export interface LlmCapabilities {
+    // The API can be told to return JSON. Without it the prompt asks, and JSON is extracted from the text.
+    jsonMode: boolean;
+    maxOutputTokens: number;
+}
+
+export abstract class LlmProvider {
+    abstract readonly id: string;
+    abstract readonly label: string;
+    abstract readonly defaultBaseUrl: string;
+    abstract readonly defaultModel: string;
+    requiresApiKey: boolean = true;
+    selfHosted: boolean = false; // Runs on the user's own hardware, at a base URL they choose
+
+    abstract capabilities(model: string): LlmCapabilities;
+
+    abstract complete(config: LlmConfig, request: LlmRequest): Promise<LlmResponse>;
+
+    protected url(config: LlmConfig, path: string): string {
+        return `${(config.baseUrl || this.defaultBaseUrl).replace(/\/$/, '')}${path}`;
+    }
+
+    protected maxTokens(config: LlmConfig, request: LlmRequest): number {
+        const limit = this.capabilities(config.model).maxOutputTokens;
+        return Math.min(request.maxTokens || limit, limit);
+    }
+}
+
+/**
+ * OpenAI's chat completions API, and the many servers that copy it.
+ */
+export class OpenAiCompatibleProvider extends LlmProvider {
+    constructor(
+        readonly id: string,
+        readonly label: string,
+        readonly defaultBaseUrl: string,
+        readonly defaultModel: string,
+        private options: { jsonMode: boolean; maxOutputTokens: number; requiresApiKey?: boolean; selfHosted?: boolean }
+    ) {
+        super();
+        this.requiresApiKey = options.requiresApiKey ?? true;
+        this.selfHosted = !!options.selfHosted;
+    }
+
+    capabilities(): LlmCapabilities {
+        return { jsonMode: this.options.jsonMode, maxOutputTokens: this.options.maxOutputTokens };
+    }
+
+    async complete(config: LlmConfig, request: LlmRequest): Promise<LlmResponse> {
+        const payload: any = {
+            model: config.model,
+            messages: [
+                { role: "system", content: request.system },
+                { role: "user", content: request.prompt }
+            ],
+            temperature: request.temperature ?? 0.1,
+            max_tokens: this.maxTokens(config, request),
+        };
+        if (request.json && this.options.jsonMode) {
+            payload.response_format = { type: "json_object" };
+        }
+
+        const headers: any = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+        const response = await postWithRetry(this.url(config, '/chat/completions'), payload, { headers });
+        const usage = response.data.usage;
+        return {
+            content: response.data.choices?.[0]?.message?.content || '',
+            usage: usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : null,
+        };
+    }
+}
+
+/**
+ * Anthropic's messages API. There's no JSON mode, so the reply is prefilled with "{" instead.
+ */
+export class AnthropicProvider extends LlmProvider {
+    readonly id = 'anthropic';
+    readonly label = 'Anthropic (Claude)';
+    readonly defaultBaseUrl = 'https://api.anthropic.com/v1';
+    readonly defaultModel = 'claude-3-5-haiku-latest';
+
+    capabilities(): LlmCapabilities {
+        return { jsonMode: false, maxOutputTokens: 8192 };
+    }
+
+    async complete(config: LlmConfig, request: LlmRequest): Promise<LlmResponse> {
+        const messages: any[] = [{ role: "user", content: request.prompt }];
+        if (request.json) messages.push({ role: "assistant", content: "{" });
+
+        const response = await postWithRetry(this.url(config, '/messages'), {
+            model: config.model,
+            system: request.system,
+            messages,
+            max_tokens: this.maxTokens(config, request),
+            temperature: request.temperature ?? 0.1,
+        }, {
+            headers: {
+                'x-api-key': config.apiKey,
+                'anthropic-version': '2023-06-01',
+                'Content-Type': 'application/json'
+            }
+        });
+
+        const text = (response.data.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+        const usage = response.data.usage;
+        return {
+            content: request.json ? `{${text}` : text,
+            usage: usage ? { inputTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 } : null,
+        };
+    }
+}
+
+/**
+ * Gemini's native generateContent API.
+ */
+export class GeminiProvider extends LlmProvider {
+    readonly id = 'gemini';
+    readonly label = 'Google Gemini';
+    readonly defaultBaseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+    readonly defaultModel = 'gemini-1.5-flash';
+
+    capabilities(): LlmCapabilities {
+        return { jsonMode: true, maxOutputTokens: 8192 };
+    }
+
+    async complete(config: LlmConfig, request: LlmRequest): Promise<LlmResponse> {
+        const generationConfig: any = {
+            temperature: request.temperature ?? 0.1,
+            maxOutputTokens: this.maxTokens(config, request),
+        };
+        if (request.json) generationConfig.responseMimeType = 'application/json';
+
+        const response = await postWithRetry(this.url(config, `/models/${encodeURIComponent(config.model)}:generateContent`), {
+            systemInstruction: { parts: [{ text: request.system }] },
+            contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+            generationConfig,
+        }, {
+            headers: {
+                'x-goog-api-key': config.apiKey,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        const parts = response.data.candidates?.[0]?.content?.parts || [];
+        const usage = response.data.usageMetadata;
+        return {
+            content: parts.map((part: any) => part.text || '').join(''),
+            usage: usage ? { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 } : null,
+        };
+    }
+}
+
+const providerList: LlmProvider[] = [
+    new OpenAiCompatibleProvider('openai', 'OpenAI (ChatGPT)', 'https://api.openai.com/v1', 'gpt-4o', {
+        jsonMode: true, maxOutputTokens: 16384,
+    }),
+    new AnthropicProvider(),
+    new GeminiProvider(),
+    new OpenAiCompatibleProvider('ollama', 'Ollama (self-hosted)', 'http://localhost:11434/v1', 'llama3.1', {
+        jsonMode: true, maxOutputTokens: 4096, requiresApiKey: false, selfHosted: true,
+    }),
+    new OpenAiCompatibleProvider('llamacpp', 'llama.cpp server (self-hosted)', 'http://localhost:8080/v1', 'default', {
+        jsonMode: true, maxOutputTokens: 4096, requiresApiKey: false, selfHosted: true,
+    }),
+    // LM Studio only accepts JSON schemas, not plain JSON mode
+    new OpenAiCompatibleProvider('lmstudio', 'LM Studio (self-hosted)', 'http://localhost:1234/v1', 'local-model', {
+        jsonMode: false, maxOutputTokens: 4096, requiresApiKey: false, selfHosted: true,
+    }),
+    new OpenAiCompatibleProvider('openai_compatible', 'Other OpenAI-compatible server', 'http://localhost:8000/v1', 'default', {
+        jsonMode: false, maxOutputTokens: 4096, requiresApiKey: false, selfHosted: true,
+    }),
+];
+
+export const llmProviders: { [key: string]: LlmProvider } = Object.fromEntries(providerList.map(p => [p.id, p]));
+
+export const getLlmProvider = (id: string): LlmProvider | null => llmProviders[id] || null;
+
+/**
+ * Parses a JSON object from an LLM reply, tolerating prose or code fences around it.
+ */
+export const parseJsonResponse = (content: string): any => {
+    try {
+        return JSON.parse(content);
+    } catch (e) {
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        if (jsonMatch) return JSON.parse(jsonMatch[0]);
+        throw new Error("Failed to parse JSON from LLM response");
+    }
+};
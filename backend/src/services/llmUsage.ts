@@ -0,0 +1,181 @@
+import { query } from "../db";
+import { LlmConfig, LlmUsage, getLlmProvider } from "./llmProviders";
+
+export interface LlmPrice {
+    provider: string;
+    model: string;
+    input_per_million: number;  // USD
+    output_per_million: number;
+    custom: boolean;            // Set by the user rather than built in
+}
+
+export interface LlmUsageSummary {
+    requests: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost: number;
+    unpriced_requests: number;  // Requests with no known price, so not counted in cost
+}
+
+export interface LlmUsageReport {
+    cap: number | null;
+    cap_reached: boolean;
+    month: LlmUsageSummary;
+    by_model: (LlmUsageSummary & { provider: string; model: string })[];
+    history: (LlmUsageSummary & { month: string })[];
+}
+
+// Built-in list prices in USD per million tokens. Models are matched by prefix, so
+// dated and "-latest" variants are covered. Self-hosted providers are free.
+const DEFAULT_PRICES: Omit<LlmPrice, 'custom'>[] = [
+    { provider: 'openai', model: 'gpt-4o-mini', input_per_million: 0.15, output_per_million: 0.60 },
+    { provider: 'openai', model: 'gpt-4o', input_per_million: 2.50, output_per_million: 10.00 },
+    { provider: 'openai', model: 'gpt-4.1-nano', input_per_million: 0.10, output_per_million: 0.40 },
+    { provider: 'openai', model: 'gpt-4.1-mini', input_per_million: 0.40, output_per_million: 1.60 },
+    { provider: 'openai', model: 'gpt-4.1', input_per_million: 2.00, output_per_million: 8.00 },
+    { provider: 'anthropic', model: 'claude-3-5-haiku', input_per_million: 0.80, output_per_million: 4.00 },
+    { provider: 'anthropic', model: 'claude-3-5-sonnet', input_per_million: 3.00, output_per_million: 15.00 },
+    { provider: 'anthropic', model: 'claude-3-7-sonnet', input_per_million: 3.00, output_per_million: 15.00 },
+    { provider: 'anthropic', model: 'claude-sonnet-4', input_per_million: 3.00, output_per_million: 15.00 },
+    { provider: 'gemini', model: 'gemini-1.5-flash', input_per_million: 0.075, output_per_million: 0.30 },
+    { provider: 'gemini', model: 'gemini-1.5-pro', input_per_million: 1.25, output_per_million: 5.00 },
+    { provider: 'gemini', model: 'gemini-2.0-flash', input_per_million: 0.10, output_per_million: 0.40 },
+];
+
+const SUMMARY_COLUMNS = `COUNT(*)::int AS requests,
+    COALESCE(SUM(input_tokens), 0)::int AS input_tokens,
+    COALESCE(SUM(output_tokens), 0)::int AS output_tokens,
+    COALESCE(SUM(cost), 0)::float AS cost,
+    COUNT(*) FILTER (WHERE cost IS NULL)::int AS unpriced_requests`;
+
+/**
+ * Records the tokens each LLM request used and what it cost, and enforces the user's monthly cap.
+ */
+export class LlmUsageService {
+    /**
+     * Built-in prices merged with the user's own, which take precedence.
+     */
+    async getPrices(userId: string): Promise<LlmPrice[]> {
+        const { rows } = await query(
+            `SELECT provider, model, input_per_million::float, output_per_million::float
+             FROM llm_prices WHERE user_id = $1
+             ORDER BY provider, model`,
+            [userId]
+        );
+        const custom: LlmPrice[] = rows.map((r: any) => ({ ...r, custom: true }));
+        const defaults = DEFAULT_PRICES
+            .filter(d => !custom.some(c => c.provider === d.provider && c.model === d.model))
+            .map(d => ({ ...d, custom: false }));
+        return [...custom, ...defaults];
+    }
+
+    async setPrice(userId: string, provider: string, model: string, inputPerMillion: number, outputPerMillion: number): Promise<void> {
+        await query(
+            `INSERT INTO llm_prices (user_id, provider, model, input_per_million, output_per_million)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (user_id, provider, model)
+             DO UPDATE SET input_per_million = EXCLUDED.input_per_million, output_per_million = EXCLUDED.output_per_million,
+                updated_at = NOW()`,
+            [userId, provider, model, inputPerMillion, outputPerMillion]
+        );
+    }
+
+    /**
+     * Removes the user's price for a model, so the built-in one (if any) applies again.
+     */
+    async deletePrice(userId: string, provider: string, model: string): Promise<boolean> {
+        const { rowCount } = await query(
+            'DELETE FROM llm_prices WHERE user_id = $1 AND provider = $2 AND model = $3',
+            [userId, provider, model]
+        );
+        return (rowCount || 0) > 0;
+    }
+
+    /**
+     * The price for a model: an exact match first, then the longest matching prefix.
+     * Null if it isn't known. Self-hosted models cost nothing.
+     */
+    async getPrice(userId: string, provider: string, model: string): Promise<LlmPrice | null> {
+        if (getLlmProvider(provider)?.selfHosted) {
+            return { provider, model, input_per_million: 0, output_per_million: 0, custom: false };
+        }
+
+        const candidates = (await this.getPrices(userId))
+            .filter(p => p.provider === provider && model.startsWith(p.model))
+            .sort((a, b) => b.model.length - a.model.length);
+        return candidates[0] || null;
+    }
+
+    async record(userId: string, purpose: string, llm: LlmConfig, usage: LlmUsage | null): Promise<void> {
+        let cost: number | null = null;
+        if (usage) {
+            const price = await this.getPrice(userId, llm.provider, llm.model);
+            if (price) {
+                cost = (usage.inputTokens * price.input_per_million + usage.outputTokens * price.output_per_million) / 1_000_000;
+            }
+        }
+
+        await query(
+            `INSERT INTO llm_usage (user_id, provider, model, purpose, input_tokens, output_tokens, cost)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [userId, llm.provider, llm.model, purpose, usage?.inputTokens ?? null, usage?.outputTokens ?? null, cost]
+        );
+    }
+
+    async getMonthlyCap(userId: string): Promise<number | null> {
+        const { rows } = await query('SELECT llm_monthly_cap FROM users WHERE id = $1', [userId]);
+        const cap = rows[0]?.llm_monthly_cap;
+        return cap === null || cap === undefined ? null : parseFloat(cap);
+    }
+
+    /**
+     * True once this calendar month's estimated spend has reached the user's cap.
+     */
+    async isCapReached(userId: string): Promise<boolean> {
+        const cap = await this.getMonthlyCap(userId);
+        if (cap === null) return false;
+        return (await this.getMonthToDateCost(userId)) >= cap;
+    }
+
+    async getReport(userId: string, months: number = 6): Promise<LlmUsageReport> {
+        const cap = await this.getMonthlyCap(userId);
+
+        const { rows: [month] } = await query(
+            `SELECT ${SUMMARY_COLUMNS} FROM llm_usage
+             WHERE user_id = $1 AND created_at >= date_trunc('month', NOW())`,
+            [userId]
+        );
+        const { rows: byModel } = await query(
+            `SELECT provider, model, ${SUMMARY_COLUMNS} FROM llm_usage
+             WHERE user_id = $1 AND created_at >= date_trunc('month', NOW())
+             GROUP BY provider, model
+             ORDER BY cost DESC, requests DESC`,
+            [userId]
+        );
+        const { rows: history } = await query(
+            `SELECT to_char(date_trunc('month', created_at), 'YYYY-MM') AS month, ${SUMMARY_COLUMNS}
+             FROM llm_usage
+             WHERE user_id = $1 AND created_at >= date_trunc('month', NOW()) - ($2 - 1) * INTERVAL '1 month'
+             GROUP BY 1
+             ORDER BY 1 DESC`,
+            [userId, months]
+        );
+
+        return {
+            cap,
+            cap_reached: cap !== null && month.cost >= cap,
+            month,
+            by_model: byModel,
+            history,
+        };
+    }
+
+    private async getMonthToDateCost(userId: string): Promise<number> {
+        const { rows } = await query(
+            `SELECT COALESCE(SUM(cost), 0)::float AS cost FROM llm_usage
+             WHERE user_id = $1 AND created_at >= date_trunc('month', NOW())`,
+            [userId]
+        );
+        return rows[0].cost;
+    }
+}
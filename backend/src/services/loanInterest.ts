@@ -0,0 +1,92 @@
+import { query } from "../db";
+
+/**
+ * Whether an account is charged monthly interest: a loan with a rate and a date interest starts from.
+ */
+export const accruesInterest = (account: any): boolean =>
+    account.type === 'loan' && parseFloat(account.interest_rate) > 0 && !!account.interest_start_date;
+
+/**
+ * One month's interest on a loan, given its balance before this month's interest.
+ * For 'simple' interest, we use the original starting balance
+ * For 'compound' interest, we use the total balance so far
+ */
+export const monthlyInterest = (account: any, balance: number): number => {
+    const baseBalanceForCalculation = account.interest_type === 'simple'
+        ? parseFloat(account.starting_balance)
+        : balance;
+
+    return Math.round(Math.abs(baseBalanceForCalculation) * (parseFloat(account.interest_rate) / 100 / 12) * 100) / 100;
+};
+
+/**
+ * Helper to apply interest to loan accounts
+ */
+export async function applyLoanInterest(accounts: any[], userId: string) {
+    const processedAccounts = [...accounts];
+    const today = new Date();
+    // Use UTC for consistent month boundaries
+    const todayUtc = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+
+    for (let i = 0; i < processedAccounts.length; i++) {
+        const account = processedAccounts[i];
+
+        if (accruesInterest(account)) {
+            let lastApplied = account.last_interest_applied_at
+                ? new Date(account.last_interest_applied_at)
+                : new Date(account.interest_start_date);
+
+            // Ensure we are working with UTC dates and start at the beginning of the next month
+            let currentMonth = new Date(Date.UTC(lastApplied.getUTCFullYear(), lastApplied.getUTCMonth() + 1, 1));
+
+            let addedInterest = 0;
+            let lastAppliedDateStr = account.last_interest_applied_at;
+            while (currentMonth <= todayUtc) {
+                const dateStr = currentMonth.toISOString().split('T')[0];
+                const fitId = `interest-${account.id}-${dateStr}`;
+
+                // Calculate interest for this month based on the balance BEFORE this month's interest
+                const interest = monthlyInterest(account, parseFloat(account.balance) + addedInterest);
+
+                if (interest > 0) {
+                    try {
+                        const existing = await query(
+                            "SELECT id FROM transactions WHERE account_id = $1 AND provider_transaction_id = $2",
+                            [account.id, fitId]
+                        );
+
+                        if (existing.rows.length === 0) {
+                            await query(
+                                `INSERT INTO transactions
+                                (account_id, provider_transaction_id, date, description, amount, status, user_id)
+                                VALUES ($1, $2, $3, $4, $5, 'cleared', $6)`,
+                                [account.id, fitId, dateStr, "Interest Charge", -interest, userId]
+                            );
+                            addedInterest -= interest;
+                        }
+
+                        // Mark this month as successfully verified/applied
+                        lastAppliedDateStr = dateStr;
+                    } catch (err) {
+                        console.error(`Error applying interest for ${account.name} on ${dateStr}:`, err);
+                        break;
+                    }
+                }
+
+                currentMonth.setUTCMonth(currentMonth.getUTCMonth() + 1);
+            }
+
+            if (lastAppliedDateStr && lastAppliedDateStr !== account.last_interest_applied_at) {
+                await query(
+                    "UPDATE accounts SET last_interest_applied_at = $1 WHERE id = $2",
+                    [lastAppliedDateStr, account.id]
+                );
+                account.last_interest_applied_at = lastAppliedDateStr;
+                // Update the balance in the returned object to include the newly added interest
+                account.balance = (parseFloat(account.balance) + addedInterest).toFixed(2);
+            }
+        }
+    }
+
+    return processedAccounts;
+}
@@ -0,0 +1,148 @@
+import { query } from "../db";
+import { normalizeDescription } from "./duplicateService";
+
+// Fewer categorised transactions than this and the model isn't trusted at all
+const MIN_TRAINING_EXAMPLES = 20;
+// A category needs at least this many examples before it can be predicted
+const MIN_CLASS_EXAMPLES = 2;
+const MAX_TRAINING_EXAMPLES = 5000;
+// Models are rebuilt from the database once they are this old
+const MODEL_TTL_MS = 15 * 60 * 1000;
+
+export interface ClassifierExample {
+    description: string;
+    amount: number | string;
+    account_id: string | null;
+    category_id?: string | null;
+}
+
+export interface Prediction {
+    category_id: string;
+    confidence: number; // Posterior probability of the best category (0..1)
+}
+
+/**
+ * Description words (and adjacent word pairs), the rough size and sign of the amount, and the account.
+ */
+const featuresOf = (tx: ClassifierExample): { words: string[]; features: string[] } => {
+    const tokens = normalizeDescription(tx.description).split(" ").filter(Boolean);
+    const words = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) words.push(`${tokens[i]}_${tokens[i + 1]}`);
+
+    const amount = parseFloat(String(tx.amount)) || 0;
+    const magnitude = Math.floor(Math.log2(Math.abs(amount) + 1));
+    const features = [...words, `amount:${amount < 0 ? "-" : "+"}${magnitude}`];
+    if (tx.account_id) features.push(`account:${tx.account_id}`);
+
+    return { words, features };
+};
+
+/**
+ * Multinomial naive Bayes with Laplace smoothing.
+ */
+export class NaiveBayesClassifier {
+    private classCounts = new Map<string, number>();
+    private featureCounts = new Map<string, Map<string, number>>();
+    private featureTotals = new Map<string, number>();
+    private vocabulary = new Set<string>();
+    private words = new Set<string>();
+    private examples = 0;
+
+    train(examples: ClassifierExample[]): void {
+        for (const example of examples) {
+            if (!example.category_id) continue;
+            const category = example.category_id;
+            const { words, features } = featuresOf(example);
+
+            this.examples++;
+            this.classCounts.set(category, (this.classCounts.get(category) || 0) + 1);
+
+            const counts = this.featureCounts.get(category) || new Map<string, number>();
+            for (const feature of features) {
+                counts.set(feature, (counts.get(feature) || 0) + 1);
+                this.vocabulary.add(feature);
+            }
+            this.featureCounts.set(category, counts);
+            this.featureTotals.set(category, (this.featureTotals.get(category) || 0) + features.length);
+            words.forEach((w) => this.words.add(w));
+        }
+    }
+
+    /**
+     * Returns null when the model has too little data, or none of the description's words
+     * have been seen before (amount and account alone aren't enough to go on).
+     */
+    predict(tx: ClassifierExample): Prediction | null {
+        if (this.examples < MIN_TRAINING_EXAMPLES) return null;
+
+        const { words, features } = featuresOf(tx);
+        if (!words.some((w) => this.words.has(w))) return null;
+
+        const vocabularySize = this.vocabulary.size;
+        const scores: { category: string; score: number }[] = [];
+
+        for (const [category, count] of this.classCounts) {
+            if (count < MIN_CLASS_EXAMPLES) continue;
+
+            const counts = this.featureCounts.get(category)!;
+            const total = this.featureTotals.get(category)!;
+            let score = Math.log(count / this.examples);
+            for (const feature of features) {
+                score += Math.log(((counts.get(feature) || 0) + 1) / (total + vocabularySize));
+            }
+            scores.push({ category, score });
+        }
+        if (scores.length === 0) return null;
+
+        // Normalise log scores into probabilities (log-sum-exp)
+        const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+        const sum = scores.reduce((acc, s) => acc + Math.exp(s.score - best.score), 0);
+        return { category_id: best.category, confidence: 1 / sum };
+    }
+}
+
+// Trained models per user
+const models = new Map<string, { model: NaiveBayesClassifier; trainedAt: number }>();
+
+export class LocalClassifierService {
+    /**
+     * The user's model, trained on their own categorised (non-transfer) transactions.
+     */
+    async getModel(userId: string): Promise<NaiveBayesClassifier> {
+        const cached = models.get(userId);
+        if (cached && Date.now() - cached.trainedAt < MODEL_TTL_MS) return cached.model;
+
+        const { rows } = await query(
+            `SELECT COALESCE(original_description, description) AS description, amount, account_id, category_id
+             FROM transactions
+             WHERE user_id = $1 AND category_id IS NOT NULL AND is_transfer = false
+             ORDER BY date DESC
+             LIMIT $2`,
+            [userId, MAX_TRAINING_EXAMPLES]
+        );
+
+        const model = new NaiveBayesClassifier();
+        model.train(rows);
+        models.set(userId, { model, trainedAt: Date.now() });
+        return model;
+    }
+
+    /**
+     * Predictions at or above the confidence threshold, keyed by transaction ID.
+     */
+    async predict(
+        userId: string,
+        transactions: (ClassifierExample & { id: string; original_description?: string | null })[],
+        threshold: number
+    ): Promise<Map<string, Prediction>> {
+        const predictions = new Map<string, Prediction>();
+        if (transactions.length === 0) return predictions;
+
+        const model = await this.getModel(userId);
+        for (const tx of transactions) {
+            const prediction = model.predict({ ...tx, description: tx.original_description || tx.description });
+            if (prediction && prediction.confidence >= threshold) predictions.set(tx.id, prediction);
+        }
+        return predictions;
+    }
+}
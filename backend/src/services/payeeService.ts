@@ -0,0 +1,474 @@
+import { pool, query } from "../db";
+import { normalizeDescription } from "./duplicateService";
+import type { RuleUpdate } from "./ruleService";
+
+export type PayeeAliasMatchType = 'exact' | 'contains' | 'regex';
+
+export interface PayeeAlias {
+    id: string;
+    payee_id: string;
+    match_type: PayeeAliasMatchType;
+    pattern: string;
+    created_at: string;
+}
+
+export interface Payee {
+    id: string;
+    name: string;
+    default_category_id: string | null;
+    logo_url: string | null;
+    color: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * A payee with its activity, for the payee list and report.
+ */
+export interface PayeeSummary extends Payee {
+    default_category: string | null;
+    transaction_count: number;
+    total_spent: string;
+    total_received: string;
+    first_seen: string | null;
+    last_seen: string | null;
+    avg_days_between: string | null; // How often the payee comes up; null with fewer than two transactions
+    aliases: PayeeAlias[];
+}
+
+export interface PayeeInput {
+    name?: string;
+    default_category_id?: string | null;
+    logo_url?: string | null;
+    color?: string | null;
+}
+
+const ALIAS_MATCH_TYPES: PayeeAliasMatchType[] = ['exact', 'contains', 'regex'];
+
+// Card networks and payment processors put these in front of the merchant
+const PAYMENT_PREFIX = /^(?:(?:eftpos|visa|mastercard|debit|credit|card|purchase|pos|tap|contactless|sq|sp|pp|paypal|zlr)\b\s*[*:#-]?\s*)+/;
+
+const titleCase = (text: string): string =>
+    text.replace(/\b[a-z]/g, (c) => c.toUpperCase());
+
+/**
+ * Reduces a bank description to the merchant alone, e.g. "VISA PURCHASE WOOLWORTHS 1234    SYDNEY NSW"
+ * and "EFTPOS WOOLWORTHS 0412 BONDI" both become "woolworths". Used as the key of 'exact' aliases.
+ */
+export const normalizePayee = (description: string): string => {
+    const merchant = (description || "")
+        .toLowerCase()
+        .trim()
+        .replace(PAYMENT_PREFIX, "")
+        // Banks pad the merchant from its location with a run of spaces
+        .split(/\s{2,}/)[0]
+        .replace(/\b(?:x{2,}|\*{2,})\d+\b/g, " ") // Masked card numbers
+        .replace(/^(.*?[a-z].*?)\s+\d{3,}\b.*$/, "$1") // A store or terminal number, then the location
+        .replace(/\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g, " ") // Value dates
+        .replace(/\s+-\s+.*$/, ""); // " - SYDNEY AU" style suffixes
+
+    return normalizeDescription(merchant) || normalizeDescription(description);
+};
+
+interface AliasMatcher {
+    payee_id: string;
+    test: (description: string) => boolean;
+}
+
+// What's needed to link descriptions to payees: user-written patterns, tried first (longest first,
+// as the more specific), then the normalised keys of 'exact' aliases and payee names
+interface PayeeMatchers {
+    patterns: AliasMatcher[];
+    keys: Map<string, string>;
+}
+
+/**
+ * Payees and their aliases, and linking transactions to them.
+ */
+export class PayeeService {
+    async getPayees(userId: string, startDate?: string, endDate?: string): Promise<PayeeSummary[]> {
+        return this.summarise(userId, null, startDate, endDate);
+    }
+
+    async getPayee(userId: string, payeeId: string): Promise<PayeeSummary | null> {
+        const [payee] = await this.summarise(userId, payeeId);
+        return payee || null;
+    }
+
+    /**
+     * Monthly spend and transaction count for one payee, oldest first.
+     */
+    async getMonthlyActivity(userId: string, payeeId: string): Promise<{ month: string; count: number; spent: string; received: string }[]> {
+        const { rows } = await query(
+            `SELECT
+                to_char(date_trunc('month', t.date), 'YYYY-MM') AS month,
+                COUNT(*)::int AS count,
+                COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0)::numeric(15, 2) AS spent,
+                COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0)::numeric(15, 2) AS received
+             FROM transactions t
+             WHERE t.payee_id = $1 AND t.user_id = $2 AND t.is_transfer = false
+             GROUP BY 1
+             ORDER BY 1`,
+            [payeeId, userId]
+        );
+        return rows;
+    }
+
+    /**
+     * Returns an error message if the payee fields aren't valid. `partial` allows name to be omitted.
+     */
+    validatePayee(data: PayeeInput, partial: boolean = false): string | null {
+        if (!partial || data.name !== undefined) {
+            if (typeof data.name !== 'string' || !data.name.trim()) return "A payee needs a name";
+        }
+        if (data.color && !/^#[0-9a-fA-F]{6}$/.test(data.color)) return "Colour must be a hex colour like #1f77b4";
+        if (data.logo_url && !/^https?:\/\//i.test(data.logo_url)) return "Logo must be an http(s) URL";
+        return null;
+    }
+
+    async createPayee(userId: string, data: PayeeInput): Promise<Payee> {
+        const { rows } = await query(
+            `INSERT INTO payees (user_id, name, default_category_id, logo_url, color)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING *`,
+            [userId, data.name!.trim(), data.default_category_id || null, data.logo_url || null, data.color || null]
+        );
+        // Its name may be the normalised form of descriptions already linked elsewhere
+        await this.relinkPayee(userId, rows[0].id);
+        return rows[0];
+    }
+
+    async updatePayee(userId: string, payeeId: string, data: PayeeInput): Promise<Payee | null> {
+        const setClauses: string[] = [];
+        const values: any[] = [];
+        const fields: (keyof PayeeInput)[] = ['name', 'default_category_id', 'logo_url', 'color'];
+        for (const field of fields) {
+            if (data[field] === undefined) continue;
+            values.push(field === 'name' ? data.name!.trim() : data[field] || null);
+            setClauses.push(`${field} = $${values.length}`);
+        }
+        if (setClauses.length === 0) return this.getPayee(userId, payeeId);
+
+        values.push(payeeId, userId);
+        const { rows } = await query(
+            `UPDATE payees SET ${setClauses.join(', ')}, updated_at = NOW()
+             WHERE id = $${values.length - 1} AND user_id = $${values.length}
+             RETURNING *`,
+            values
+        );
+        return rows[0] || null;
+    }
+
+    /**
+     * Deletes a payee; its transactions are left without one until they're next relinked.
+     */
+    async deletePayee(userId: string, payeeId: string): Promise<boolean> {
+        const { rowCount } = await query('DELETE FROM payees WHERE id = $1 AND user_id = $2', [payeeId, userId]);
+        return (rowCount || 0) > 0;
+    }
+
+    /**
+     * Returns an error message if the alias isn't valid.
+     */
+    validateAlias(data: { match_type?: string; pattern?: string }): string | null {
+        const matchType = data.match_type || 'exact';
+        if (!ALIAS_MATCH_TYPES.includes(matchType as PayeeAliasMatchType)) return `Unknown alias type '${matchType}'`;
+        const pattern = String(data.pattern ?? '').trim();
+        if (!pattern) return "An alias needs a pattern";
+        if (matchType === 'regex') {
+            try { new RegExp(pattern, 'i'); } catch (e) { return `Invalid regular expression '${pattern}'`; }
+        }
+        if (matchType === 'exact' && !normalizePayee(pattern)) return `'${pattern}' has nothing left to match once normalised`;
+        return null;
+    }
+
+    /**
+     * Adds an alias and relinks transactions it now matches. Returns null if the payee doesn't exist.
+     */
+    async addAlias(userId: string, payeeId: string, data: { match_type?: PayeeAliasMatchType; pattern: string }): Promise<PayeeAlias | null> {
+        const matchType = data.match_type || 'exact';
+        const pattern = matchType === 'exact' ? normalizePayee(data.pattern) : data.pattern.trim();
+
+        const { rows } = await query(
+            `INSERT INTO payee_aliases (payee_id, user_id, match_type, pattern)
+             SELECT id, user_id, $3, $4 FROM payees WHERE id = $1 AND user_id = $2
+             RETURNING *`,
+            [payeeId, userId, matchType, pattern]
+        );
+        if (rows.length === 0) return null;
+
+        await this.relinkPayee(userId, payeeId);
+        return rows[0];
+    }
+
+    async deleteAlias(userId: string, payeeId: string, aliasId: string): Promise<boolean> {
+        const { rowCount } = await query(
+            'DELETE FROM payee_aliases WHERE id = $1 AND payee_id = $2 AND user_id = $3',
+            [aliasId, payeeId, userId]
+        );
+        if (!rowCount) return false;
+
+        await this.relinkPayee(userId, payeeId);
+        return true;
+    }
+
+    /**
+     * Folds other payees into this one: their aliases and transactions move over and they're deleted.
+     * Returns the number merged, or null if the target doesn't exist.
+     */
+    async merge(userId: string, targetId: string, sourceIds: string[]): Promise<number | null> {
+        const sources = sourceIds.filter(id => id !== targetId);
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            const { rows: [target] } = await client.query(
+                'SELECT id FROM payees WHERE id = $1 AND user_id = $2 FOR UPDATE',
+                [targetId, userId]
+            );
+            if (!target) {
+                await client.query('ROLLBACK');
+                return null;
+            }
+
+            await client.query(
+                `UPDATE payee_aliases SET payee_id = $1 WHERE payee_id = ANY($2::uuid[]) AND user_id = $3`,
+                [targetId, sources, userId]
+            );
+            // Merged names still identify the payee
+            await client.query(
+                `INSERT INTO payee_aliases (payee_id, user_id, match_type, pattern)
+                 SELECT $1, $2, 'exact', unnest($3::text[])
+                 ON CONFLICT (user_id, match_type, pattern) DO UPDATE SET payee_id = EXCLUDED.payee_id`,
+                [targetId, userId, await this.sourceKeys(userId, sources)]
+            );
+            await client.query(
+                `UPDATE transactions SET payee_id = $1 WHERE payee_id = ANY($2::uuid[]) AND user_id = $3`,
+                [targetId, sources, userId]
+            );
+            const { rowCount } = await client.query(
+                'DELETE FROM payees WHERE id = ANY($1::uuid[]) AND user_id = $2',
+                [sources, userId]
+            );
+            await client.query('COMMIT');
+            return rowCount || 0;
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Links transactions (or, with null, all of the user's transactions) to the payee their raw bank
+     * description matches, creating a payee from the normalised description when none does. Returns how many changed.
+     */
+    async link(userId: string, transactionIds: string[] | null): Promise<number> {
+        // Rules may have rewritten the description; the bank's text is kept in original_description
+        const { rows } = await query(
+            `SELECT id, COALESCE(original_description, description) AS description, payee_id FROM transactions
+             WHERE user_id = $1 AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))`,
+            [userId, transactionIds]
+        );
+        if (rows.length === 0) return 0;
+
+        const matchers = await this.loadMatchers(userId);
+        const changes = new Map<string, string[]>();
+
+        for (const row of rows) {
+            const payeeId = await this.matchOrCreate(userId, matchers, row.description);
+            if (payeeId && payeeId !== row.payee_id) {
+                changes.set(payeeId, [...(changes.get(payeeId) || []), row.id]);
+            }
+        }
+
+        return this.applyLinks(userId, changes);
+    }
+
+    /**
+     * Relinks after one payee is added or its aliases change. Only transactions that now match it, or
+     * were linked to it, move; payees are created only for the latter, when nothing else matches them.
+     * The full relink (link with null) is left to the user.
+     */
+    private async relinkPayee(userId: string, payeeId: string): Promise<number> {
+        const { rows } = await query(
+            `SELECT id, COALESCE(original_description, description) AS description, payee_id FROM transactions
+             WHERE user_id = $1`,
+            [userId]
+        );
+        const matchers = await this.loadMatchers(userId);
+        const changes = new Map<string, string[]>();
+
+        for (const row of rows) {
+            const match = this.matchPayee(matchers, row.description);
+            let target: string | undefined;
+            if (match === payeeId && row.payee_id !== payeeId) {
+                target = payeeId;
+            } else if (row.payee_id === payeeId && match !== payeeId) {
+                target = await this.matchOrCreate(userId, matchers, row.description);
+            }
+            if (target) changes.set(target, [...(changes.get(target) || []), row.id]);
+        }
+
+        return this.applyLinks(userId, changes);
+    }
+
+    // Aliases the user wrote win over normalised keys
+    private matchPayee(matchers: PayeeMatchers, description: string): string | undefined {
+        return matchers.patterns.find(m => m.test(description))?.payee_id
+            || matchers.keys.get(normalizePayee(description));
+    }
+
+    private async matchOrCreate(userId: string, matchers: PayeeMatchers, description: string): Promise<string | undefined> {
+        const payeeId = this.matchPayee(matchers, description);
+        if (payeeId) return payeeId;
+
+        const key = normalizePayee(description);
+        if (!key) return undefined;
+        const created = await this.createFromKey(userId, key);
+        matchers.keys.set(key, created);
+        return created;
+    }
+
+    private async applyLinks(userId: string, changes: Map<string, string[]>): Promise<number> {
+        let changed = 0;
+        for (const [payeeId, ids] of changes) {
+            await query(
+                'UPDATE transactions SET payee_id = $1 WHERE id = ANY($2::uuid[]) AND user_id = $3',
+                [payeeId, ids, userId]
+            );
+            changed += ids.length;
+        }
+        return changed;
+    }
+
+    /**
+     * Links freshly inserted transactions to payees. Never throws: linking must not fail the insert
+     * that triggered it.
+     */
+    async linkNewTransactions(userId: string, transactionIds: string[]): Promise<void> {
+        if (transactionIds.length === 0) return;
+        try {
+            await this.link(userId, transactionIds);
+        } catch (err) {
+            console.error("Payee linking failed:", err);
+        }
+    }
+
+    /**
+     * Gives uncategorised transactions their payee's default category. Returns the rows it updated.
+     */
+    async applyDefaultCategories(userId: string, transactionIds: string[]): Promise<RuleUpdate[]> {
+        const { rows } = await query(
+            `UPDATE transactions t
+             SET category_id = p.default_category_id, category_source = 'payee', category_rule_id = NULL,
+                 category_model = NULL, category_confidence = 1, category_reviewed = false, suggested_category_id = NULL
+             FROM payees p
+             WHERE t.payee_id = p.id AND p.default_category_id IS NOT NULL
+                AND t.id = ANY($1::uuid[]) AND t.user_id = $2
+                AND t.category_id IS NULL AND t.is_transfer = false AND t.is_split = false
+             RETURNING t.id, t.category_id, t.description, t.status, t.is_transfer, t.transfer_id, t.tags, t.notes`,
+            [transactionIds, userId]
+        );
+        return rows;
+    }
+
+    private async summarise(userId: string, payeeId: string | null, startDate?: string, endDate?: string): Promise<PayeeSummary[]> {
+        const { rows } = await query(
+            `SELECT
+                p.*,
+                c.name AS default_category,
+                COUNT(t.id)::int AS transaction_count,
+                COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0 AND t.is_transfer = false), 0)::numeric(15, 2) AS total_spent,
+                COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0 AND t.is_transfer = false), 0)::numeric(15, 2) AS total_received,
+                MIN(t.date) AS first_seen,
+                MAX(t.date) AS last_seen,
+                CASE WHEN COUNT(t.id) > 1
+                    THEN ((MAX(t.date) - MIN(t.date))::numeric / (COUNT(t.id) - 1))::numeric(10, 1)
+                END AS avg_days_between,
+                COALESCE((
+                    SELECT json_agg(json_build_object(
+                        'id', a.id, 'payee_id', a.payee_id, 'match_type', a.match_type,
+                        'pattern', a.pattern, 'created_at', a.created_at
+                    ) ORDER BY a.match_type, a.pattern)
+                    FROM payee_aliases a WHERE a.payee_id = p.id
+                ), '[]') AS aliases
+             FROM payees p
+             LEFT JOIN categories c ON p.default_category_id = c.id
+             LEFT JOIN transactions t ON t.payee_id = p.id AND t.user_id = p.user_id
+                AND ($3::date IS NULL OR t.date >= $3::date)
+                AND ($4::date IS NULL OR t.date <= $4::date)
+             WHERE p.user_id = $1 AND ($2::uuid IS NULL OR p.id = $2::uuid)
+             GROUP BY p.id, c.name
+             ORDER BY total_spent DESC, p.name`,
+            [userId, payeeId, startDate || null, endDate || null]
+        );
+        return rows;
+    }
+
+    private async loadMatchers(userId: string): Promise<PayeeMatchers> {
+        const { rows: aliases } = await query(
+            'SELECT payee_id, match_type, pattern FROM payee_aliases WHERE user_id = $1',
+            [userId]
+        );
+        const { rows: payees } = await query('SELECT id, name FROM payees WHERE user_id = $1', [userId]);
+
+        const patterns: (AliasMatcher & { length: number })[] = [];
+        const keys = new Map<string, string>();
+
+        for (const payee of payees) {
+            const key = normalizePayee(payee.name);
+            if (key) keys.set(key, payee.id);
+        }
+        for (const alias of aliases) {
+            if (alias.match_type === 'exact') {
+                keys.set(alias.pattern, alias.payee_id);
+            } else if (alias.match_type === 'contains') {
+                const needle = alias.pattern.toLowerCase();
+                patterns.push({ payee_id: alias.payee_id, length: needle.length, test: (d) => d.toLowerCase().includes(needle) });
+            } else {
+                try {
+                    const regex = new RegExp(alias.pattern, 'i');
+                    patterns.push({ payee_id: alias.payee_id, length: alias.pattern.length, test: (d) => regex.test(d) });
+                } catch (e) {
+                    console.error(`Skipping invalid payee alias /${alias.pattern}/:`, e);
+                }
+            }
+        }
+
+        patterns.sort((a, b) => b.length - a.length);
+        return { patterns, keys };
+    }
+
+    // Reuses a payee of the same name if the user already has one
+    private async createFromKey(userId: string, key: string): Promise<string> {
+        const name = titleCase(key);
+        const { rows: [payee] } = await query(
+            `WITH inserted AS (
+                INSERT INTO payees (user_id, name) VALUES ($1, $2)
+                ON CONFLICT (user_id, name) DO NOTHING
+                RETURNING id
+            )
+            SELECT id FROM inserted
+            UNION ALL
+            SELECT id FROM payees WHERE user_id = $1 AND name = $2
+            LIMIT 1`,
+            [userId, name]
+        );
+        await query(
+            `INSERT INTO payee_aliases (payee_id, user_id, match_type, pattern)
+             VALUES ($1, $2, 'exact', $3)
+             ON CONFLICT (user_id, match_type, pattern) DO NOTHING`,
+            [payee.id, userId, key]
+        );
+        return payee.id;
+    }
+
+    private async sourceKeys(userId: string, payeeIds: string[]): Promise<string[]> {
+        const { rows } = await query(
+            'SELECT name FROM payees WHERE id = ANY($1::uuid[]) AND user_id = $2',
+            [payeeIds, userId]
+        );
+        return rows.map((r: any) => normalizePayee(r.name)).filter(Boolean);
+    }
+}
@@ -0,0 +1,389 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { query } from "../db";
+
+export type RecurringCadence = 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'annual';
+
+interface CadenceConfig {
+    days: number;           // Nominal length of one cycle
+    months: number;         // Month-based cadences step by calendar month; 0 for the others
+    tolerance: number;      // How many days early or late a payment can be
+    perYear: number;
+    grace: number;          // Days after the expected date before a payment counts as missed
+    minOccurrences: number; // Fewest payments that make a series
+}
+
+export const CADENCES: Record<RecurringCadence, CadenceConfig> = {
+    weekly: { days: 7, months: 0, tolerance: 1, perYear: 52, grace: 3, minOccurrences: 3 },
+    fortnightly: { days: 14, months: 0, tolerance: 2, perYear: 26, grace: 4, minOccurrences: 3 },
+    monthly: { days: 30.44, months: 1, tolerance: 4, perYear: 12, grace: 7, minOccurrences: 3 },
+    quarterly: { days: 91.31, months: 3, tolerance: 10, perYear: 4, grace: 14, minOccurrences: 3 },
+    annual: { days: 365.25, months: 12, tolerance: 15, perYear: 1, grace: 30, minOccurrences: 2 },
+};
+
+// Amounts more than this apart (relative to the smaller) belong to different series from the same payee
+const AMOUNT_STEP = 0.2;
+// Share of intervals that must fit the cadence, allowing for the odd skipped or extra payment
+const MIN_FIT = 0.75;
+// Largest coefficient of variation across recent amounts; above it the payee is just visited often
+const MAX_AMOUNT_CV = 0.25;
+// A change smaller than this is rounding or currency conversion, not a new price
+const PRICE_CHANGE = 0.01;
+
+// The direction of a series, as dismissals record it, from its expected amount
+const SERIES_DIRECTION = "CASE WHEN s.expected_amount < 0 THEN 'out' ELSE 'in' END";
+
+export type RecurringStatus = 'active' | 'missed' | 'ended';
+
+export interface RecurringSeries {
+    id: string;
+    payee_id: string;
+    payee: string;
+    payee_color: string | null;
+    payee_logo_url: string | null;
+    account_id: string | null;
+    account: string | null;
+    category_id: string | null;
+    category: string | null;
+    cadence: RecurringCadence;
+    expected_amount: string;
+    previous_amount: string | null;
+    price_increased: boolean;
+    occurrences: number;
+    first_date: string;
+    last_date: string;
+    next_expected_date: string;
+    dismissed: boolean;
+    status: RecurringStatus;   // 'missed' once the grace period has passed, 'ended' after two missed cycles
+    is_new: boolean;           // Started within the last few cycles
+    annual_amount: string;     // expected_amount over a year; negative for money going out
+}
+
+export interface RecurringCategoryCost {
+    category_id: string | null;
+    category: string | null;
+    series_count: number;
+    annual_cost: string;
+}
+
+interface SeriesTransaction {
+    id: string;
+    date: string; // YYYY-MM-DD
+    amount: number;
+    account_id: string;
+    category_id: string | null;
+}
+
+interface DetectedSeries {
+    payee_id: string;
+    account_id: string;
+    category_id: string | null;
+    first_transaction_id: string;
+    cadence: RecurringCadence;
+    expected_amount: number;
+    previous_amount: number | null;
+    price_increased: boolean;
+    occurrences: number;
+    first_date: string;
+    last_date: string;
+    next_expected_date: string;
+}
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const changed = (a: number, b: number): boolean =>
+    Math.abs(Math.abs(a) - Math.abs(b)) > Math.abs(b) * PRICE_CHANGE;
+
+/**
+ * The date one cycle after `date`, e.g. the same day next month for a monthly series.
+ */
+export const nextOccurrence = (date: string, cadence: RecurringCadence, cycles = 1): string => {
+    const config = CADENCES[cadence];
+    const start = parseISO(date);
+    const next = config.months
+        ? addMonths(start, config.months * cycles)
+        : addDays(start, config.days * cycles);
+    return format(next, "yyyy-MM-dd");
+};
+
+/**
+ * Finds subscriptions, bills and income: payments to or from the same payee, of a similar amount,
+ * at a regular cadence. Series are stored with when the next payment is due and what it should be.
+ */
+export class RecurringService {
+    /**
+     * Rebuilds the user's recurring series from their transaction history. Series the user
+     * dismissed stay dismissed: a dismissal covers any series with the same payee, account,
+     * cadence and direction. Returns how many series were found.
+     */
+    async detect(userId: string): Promise<number> {
+        const { rows } = await query(
+            `SELECT t.id, t.date::text AS date, t.amount, t.account_id, t.category_id, t.payee_id,
+                    p.default_category_id
+             FROM transactions t
+             JOIN payees p ON t.payee_id = p.id
+             WHERE t.user_id = $1 AND t.is_transfer = false AND t.status <> 'failed' AND t.amount <> 0
+             ORDER BY t.date, t.id`,
+            [userId]
+        );
+
+        // Money in and money out from the same payee (a refund, say) are never one series
+        const groups = new Map<string, { payeeId: string; defaultCategoryId: string | null; transactions: SeriesTransaction[] }>();
+        for (const row of rows) {
+            const key = `${row.payee_id}:${parseFloat(row.amount) < 0 ? 'out' : 'in'}`;
+            if (!groups.has(key)) {
+                groups.set(key, { payeeId: row.payee_id, defaultCategoryId: row.default_category_id, transactions: [] });
+            }
+            groups.get(key)!.transactions.push({
+                id: row.id,
+                date: row.date,
+                amount: parseFloat(row.amount),
+                account_id: row.account_id,
+                category_id: row.category_id,
+            });
+        }
+
+        const detected: DetectedSeries[] = [];
+        for (const group of groups.values()) {
+            for (const cluster of this.clusterByAmount(group.transactions)) {
+                const series = this.analyse(cluster);
+                if (!series) continue;
+                detected.push({
+                    ...series,
+                    payee_id: group.payeeId,
+                    category_id: series.category_id || group.defaultCategoryId,
+                });
+            }
+        }
+
+        const ids: string[] = [];
+        for (const series of detected) {
+            const { rows: [saved] } = await query(
+                `INSERT INTO recurring_series (
+                    user_id, payee_id, account_id, category_id, first_transaction_id, cadence,
+                    expected_amount, previous_amount, price_increased, occurrences,
+                    first_date, last_date, next_expected_date
+                 )
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+                 ON CONFLICT (user_id, first_transaction_id) DO UPDATE SET
+                    payee_id = EXCLUDED.payee_id,
+                    account_id = EXCLUDED.account_id,
+                    category_id = EXCLUDED.category_id,
+                    cadence = EXCLUDED.cadence,
+                    expected_amount = EXCLUDED.expected_amount,
+                    previous_amount = EXCLUDED.previous_amount,
+                    price_increased = EXCLUDED.price_increased,
+                    occurrences = EXCLUDED.occurrences,
+                    first_date = EXCLUDED.first_date,
+                    last_date = EXCLUDED.last_date,
+                    next_expected_date = EXCLUDED.next_expected_date,
+                    updated_at = NOW()
+                 RETURNING id`,
+                [userId, series.payee_id, series.account_id, series.category_id, series.first_transaction_id,
+                    series.cadence, series.expected_amount, series.previous_amount, series.price_increased,
+                    series.occurrences, series.first_date, series.last_date, series.next_expected_date]
+            );
+            ids.push(saved.id);
+        }
+
+        await query(
+            "DELETE FROM recurring_series WHERE user_id = $1 AND NOT (id = ANY($2::uuid[]))",
+            [userId, ids]
+        );
+
+        return ids.length;
+    }
+
+    /**
+     * Re-runs detection after new transactions arrive. Never throws: detection must not fail the
+     * import that triggered it.
+     */
+    async detectAfterImport(userId: string): Promise<void> {
+        try {
+            await this.detect(userId);
+        } catch (err) {
+            console.error("Recurring detection failed:", err);
+        }
+    }
+
+    async getSeries(userId: string, includeDismissed = false): Promise<RecurringSeries[]> {
+        const { rows } = await query(
+            `SELECT
+                s.id, s.payee_id, p.name AS payee, p.color AS payee_color, p.logo_url AS payee_logo_url,
+                s.account_id, a.name AS account, s.category_id, c.name AS category,
+                s.cadence, s.expected_amount, s.previous_amount, s.price_increased, s.occurrences,
+                s.first_date::text AS first_date, s.last_date::text AS last_date,
+                s.next_expected_date::text AS next_expected_date, d.id IS NOT NULL AS dismissed
+             FROM recurring_series s
+             JOIN payees p ON s.payee_id = p.id
+             LEFT JOIN accounts a ON s.account_id = a.id
+             LEFT JOIN categories c ON s.category_id = c.id
+             LEFT JOIN recurring_dismissals d ON d.user_id = s.user_id AND d.payee_id = s.payee_id
+                AND d.account_id = s.account_id AND d.cadence = s.cadence AND d.direction = ${SERIES_DIRECTION}
+             WHERE s.user_id = $1 AND ($2::boolean OR d.id IS NULL)
+             ORDER BY s.next_expected_date, p.name`,
+            [userId, includeDismissed]
+        );
+
+        const today = format(new Date(), "yyyy-MM-dd");
+        return rows.map((row: any) => {
+            const config = CADENCES[row.cadence as RecurringCadence];
+            const overdue = differenceInCalendarDays(parseISO(today), parseISO(row.next_expected_date));
+            const status: RecurringStatus = overdue > config.days * 2
+                ? 'ended'
+                : overdue > config.grace ? 'missed' : 'active';
+            return {
+                ...row,
+                status,
+                is_new: status !== 'ended' && row.occurrences <= config.minOccurrences + 1,
+                annual_amount: (parseFloat(row.expected_amount) * config.perYear).toFixed(2),
+            };
+        });
+    }
+
+    /**
+     * What the user's ongoing recurring payments cost a year, by category. Ended series and
+     * income are left out.
+     */
+    async getAnnualCostByCategory(userId: string): Promise<RecurringCategoryCost[]> {
+        const totals = new Map<string, { category_id: string | null; category: string | null; series_count: number; cost: number }>();
+        for (const series of await this.getSeries(userId)) {
+            if (series.status === 'ended' || parseFloat(series.expected_amount) >= 0) continue;
+            const key = series.category_id || '';
+            const total = totals.get(key)
+                || { category_id: series.category_id, category: series.category, series_count: 0, cost: 0 };
+            total.series_count++;
+            total.cost -= parseFloat(series.annual_amount);
+            totals.set(key, total);
+        }
+        return [...totals.values()]
+            .sort((a, b) => b.cost - a.cost)
+            .map(({ cost, ...total }) => ({ ...total, annual_cost: cost.toFixed(2) }));
+    }
+
+    /**
+     * Dismisses or restores a series, and with it any later series from the same payee, account,
+     * cadence and direction. Returns false if the series doesn't exist.
+     */
+    async setDismissed(userId: string, seriesId: string, dismissed: boolean): Promise<boolean> {
+        const { rows: [series] } = await query(
+            `SELECT s.payee_id, s.account_id, s.cadence, ${SERIES_DIRECTION} AS direction
+             FROM recurring_series s
+             WHERE s.id = $1 AND s.user_id = $2 AND s.account_id IS NOT NULL`,
+            [seriesId, userId]
+        );
+        if (!series) return false;
+
+        const key = [userId, series.payee_id, series.account_id, series.cadence, series.direction];
+        if (dismissed) {
+            await query(
+                `INSERT INTO recurring_dismissals (user_id, payee_id, account_id, cadence, direction)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (user_id, payee_id, account_id, cadence, direction) DO NOTHING`,
+                key
+            );
+        } else {
+            await query(
+                `DELETE FROM recurring_dismissals
+                 WHERE user_id = $1 AND payee_id = $2 AND account_id = $3 AND cadence = $4 AND direction = $5`,
+                key
+            );
+        }
+        return true;
+    }
+
+    /**
+     * Splits one payee's transactions into groups of similar amounts, so a streaming plan and the
+     * occasional movie rental from the same payee are told apart.
+     */
+    private clusterByAmount(transactions: SeriesTransaction[]): SeriesTransaction[][] {
+        const byAmount = [...transactions].sort((a, b) => Math.abs(a.amount) - Math.abs(b.amount));
+        const clusters: SeriesTransaction[][] = [];
+        let current: SeriesTransaction[] = [];
+        for (const transaction of byAmount) {
+            const previous = current[current.length - 1];
+            if (previous && Math.abs(transaction.amount) > Math.abs(previous.amount) * (1 + AMOUNT_STEP)) {
+                clusters.push(current);
+                current = [];
+            }
+            current.push(transaction);
+        }
+        if (current.length > 0) clusters.push(current);
+
+        return clusters.map((cluster) => cluster.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id)));
+    }
+
+    /**
+     * Works out whether a group of similar, date-ordered payments recur, and if so at what cadence.
+     * Only the latest unbroken run counts: a subscription cancelled and taken up again later is a
+     * new series.
+     */
+    private analyse(cluster: SeriesTransaction[]): Omit<DetectedSeries, 'payee_id'> | null {
+        if (cluster.length < 2) return null;
+
+        const intervals = (run: SeriesTransaction[]) =>
+            run.slice(1).map((t, i) => differenceInCalendarDays(parseISO(t.date), parseISO(run[i].date)));
+
+        const cadence = this.closestCadence(median(intervals(cluster)));
+        if (!cadence) return null;
+        const config = CADENCES[cadence];
+
+        let start = 0;
+        cluster.forEach((t, i) => {
+            if (i > 0 && intervals([cluster[i - 1], t])[0] > config.days * 3 + config.tolerance) start = i;
+        });
+        const run = cluster.slice(start);
+        if (run.length < config.minOccurrences) return null;
+
+        // A skipped payment shows up as a double or triple interval, which still fits
+        const gaps = intervals(run);
+        const fitting = gaps.filter((gap) =>
+            [1, 2, 3].some((cycles) => Math.abs(gap - config.days * cycles) <= config.tolerance * cycles)
+        );
+        if (fitting.length / gaps.length < MIN_FIT) return null;
+
+        const amounts = run.slice(-6).map((t) => Math.abs(t.amount));
+        const mean = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+        const deviation = Math.sqrt(amounts.reduce((sum, a) => sum + (a - mean) ** 2, 0) / amounts.length);
+        if (deviation / mean > MAX_AMOUNT_CV) return null;
+
+        const last = run[run.length - 1];
+        const previous = run[run.length - 2];
+        // A new price is one the latest payment moved to after at least two the same
+        const priceChanged = run.length >= 3
+            && changed(last.amount, previous.amount)
+            && !changed(previous.amount, run[run.length - 3].amount);
+
+        const categoryCounts = new Map<string, number>();
+        for (const t of run) {
+            if (t.category_id) categoryCounts.set(t.category_id, (categoryCounts.get(t.category_id) || 0) + 1);
+        }
+        const category = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+        return {
+            account_id: last.account_id,
+            category_id: category ? category[0] : null,
+            first_transaction_id: run[0].id,
+            cadence,
+            expected_amount: priceChanged
+                ? last.amount
+                : Math.round(median(run.slice(-3).map((t) => t.amount)) * 100) / 100,
+            previous_amount: priceChanged ? previous.amount : null,
+            price_increased: priceChanged && Math.abs(last.amount) > Math.abs(previous.amount),
+            occurrences: run.length,
+            first_date: run[0].date,
+            last_date: last.date,
+            next_expected_date: nextOccurrence(last.date, cadence),
+        };
+    }
+
+    private closestCadence(interval: number): RecurringCadence | null {
+        const [cadence] = (Object.keys(CADENCES) as RecurringCadence[])
+            .filter((c) => Math.abs(interval - CADENCES[c].days) <= CADENCES[c].tolerance)
+            .sort((a, b) => Math.abs(interval - CADENCES[a].days) - Math.abs(interval - CADENCES[b].days));
+        return cadence || null;
+    }
+}
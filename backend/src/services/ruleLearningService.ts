@@ -0,0 +1,246 @@
+import { query } from "../db";
+import { normalizePayee } from "./payeeService";
+import { Rule, RuleService } from "./ruleService";
+
+// Priority given to learned rules, same as rules created from AI suggestions
+const LEARNED_RULE_PRIORITY = 50;
+
+export interface CategoryCorrection {
+    transactionId: string;
+    description: string; // The bank's description (original_description if a rule rewrote it)
+    previousCategoryId: string | null;
+    categoryId: string | null;
+}
+
+export interface RuleSuggestion {
+    id: string;
+    payee: string;
+    category_id: string;
+    category_name: string;
+    correction_count: number;
+    example_description: string | null;
+    created_at: Date;
+}
+
+export interface OverriddenRule {
+    id: string;
+    name: string;
+    override_count: number; // Corrections since the rule was last edited
+    last_overridden_at: Date;
+}
+
+interface LearningSettings {
+    threshold: number;
+    autoCreate: boolean;
+}
+
+const titleCase = (text: string): string =>
+    text.replace(/\b[a-z]/g, (c) => c.toUpperCase());
+
+export class RuleLearningService {
+    private ruleService = new RuleService();
+
+    /**
+     * Records manual category changes and turns repeated, consistent corrections of the
+     * same payee into a rule suggestion (or a rule, if the user opted in).
+     * Never throws: learning must not fail the edit that triggered it.
+     */
+    async recordCorrections(userId: string, corrections: CategoryCorrection[]): Promise<void> {
+        try {
+            const payees = new Map<string, string>();
+
+            for (const correction of corrections) {
+                if (!correction.categoryId || correction.categoryId === correction.previousCategoryId) continue;
+
+                // The merchant alone, as payees are linked by, so corrections at different
+                // branches ("woolworths bondi", "woolworths town hall") count together
+                const payee = normalizePayee(correction.description);
+                if (!payee) continue;
+
+                const overriddenRuleId = correction.previousCategoryId
+                    ? await this.findOverriddenRule(correction.transactionId, correction.previousCategoryId)
+                    : null;
+
+                await query(
+                    `INSERT INTO category_corrections
+                        (user_id, transaction_id, description, payee, previous_category_id, category_id, overridden_rule_id)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                    [
+                        userId,
+                        correction.transactionId,
+                        correction.description,
+                        payee,
+                        correction.previousCategoryId,
+                        correction.categoryId,
+                        overriddenRuleId,
+                    ]
+                );
+                payees.set(payee, correction.description);
+            }
+
+            if (payees.size === 0) return;
+
+            const settings = await this.getSettings(userId);
+            for (const [payee, description] of payees) {
+                await this.learn(userId, payee, description, settings);
+            }
+        } catch (err) {
+            console.error("Failed to learn from category corrections:", err);
+        }
+    }
+
+    async getSuggestions(userId: string): Promise<RuleSuggestion[]> {
+        const { rows } = await query(
+            `SELECT s.id, s.payee, s.category_id, c.name AS category_name, s.correction_count, s.created_at,
+                (SELECT cc.description FROM category_corrections cc
+                 WHERE cc.user_id = s.user_id AND cc.payee = s.payee
+                 ORDER BY cc.created_at DESC LIMIT 1) AS example_description
+             FROM rule_suggestions s
+             JOIN categories c ON s.category_id = c.id
+             WHERE s.user_id = $1 AND s.status = 'pending'
+             ORDER BY s.correction_count DESC, s.created_at DESC`,
+            [userId]
+        );
+        return rows;
+    }
+
+    /**
+     * Creates the suggested rule. Returns null if the suggestion doesn't exist or was already handled.
+     */
+    async acceptSuggestion(userId: string, suggestionId: string): Promise<Rule | null> {
+        const suggestion = (await this.getSuggestions(userId)).find((s) => s.id === suggestionId);
+        if (!suggestion) return null;
+
+        const rule = await this.createLearnedRule(
+            userId,
+            suggestion.payee,
+            suggestion.example_description || suggestion.payee,
+            suggestion.category_id
+        );
+        await query(
+            "UPDATE rule_suggestions SET status = 'accepted', rule_id = $2 WHERE id = $1",
+            [suggestionId, rule.id]
+        );
+        return rule;
+    }
+
+    async dismissSuggestion(userId: string, suggestionId: string): Promise<boolean> {
+        const { rowCount } = await query(
+            "UPDATE rule_suggestions SET status = 'dismissed' WHERE id = $1 AND user_id = $2 AND status = 'pending'",
+            [suggestionId, userId]
+        );
+        return (rowCount || 0) > 0;
+    }
+
+    /**
+     * Rules the user has corrected at least as often as the learning threshold since
+     * the rule was last edited, i.e. rules that probably need fixing or deleting.
+     */
+    async getOverriddenRules(userId: string): Promise<OverriddenRule[]> {
+        const { rows } = await query(
+            `SELECT r.id, r.name, COUNT(*)::int AS override_count, MAX(c.created_at) AS last_overridden_at
+             FROM category_corrections c
+             JOIN transaction_rules r ON r.id = c.overridden_rule_id
+             WHERE c.user_id = $1 AND c.created_at > r.updated_at
+             GROUP BY r.id, r.name
+             HAVING COUNT(*) >= (SELECT rule_learning_threshold FROM users WHERE id = $1)
+             ORDER BY override_count DESC`,
+            [userId]
+        );
+        return rows;
+    }
+
+    private async getSettings(userId: string): Promise<LearningSettings> {
+        const { rows } = await query(
+            "SELECT rule_learning_threshold, rule_learning_auto_create FROM users WHERE id = $1",
+            [userId]
+        );
+        return {
+            threshold: rows[0]?.rule_learning_threshold || 3,
+            autoCreate: !!rows[0]?.rule_learning_auto_create,
+        };
+    }
+
+    // The most recent rule that set the category the user just replaced
+    private async findOverriddenRule(transactionId: string, previousCategoryId: string): Promise<string | null> {
+        const { rows } = await query(
+            `SELECT m.rule_id FROM rule_matches m
+             JOIN transaction_rules r ON r.id = m.rule_id
+             WHERE m.transaction_id = $1 AND r.category_id = $2
+             ORDER BY m.matched_at DESC
+             LIMIT 1`,
+            [transactionId, previousCategoryId]
+        );
+        return rows[0]?.rule_id || null;
+    }
+
+    /**
+     * Looks at the payee's latest corrections. Once the most recent run of corrections to
+     * the same category covers enough distinct transactions, proposes (or creates) a rule.
+     */
+    private async learn(userId: string, payee: string, description: string, settings: LearningSettings): Promise<void> {
+        const { rows } = await query(
+            `SELECT transaction_id, category_id FROM category_corrections
+             WHERE user_id = $1 AND payee = $2
+             ORDER BY created_at DESC
+             LIMIT 100`,
+            [userId, payee]
+        );
+        if (rows.length === 0) return;
+
+        const categoryId = rows[0].category_id;
+        const transactions = new Set<string>();
+        for (const row of rows) {
+            if (row.category_id !== categoryId) break;
+            if (row.transaction_id) transactions.add(row.transaction_id);
+        }
+        if (transactions.size < settings.threshold) return;
+
+        const existing = await query(
+            "SELECT id, status FROM rule_suggestions WHERE user_id = $1 AND payee = $2 AND category_id = $3",
+            [userId, payee, categoryId]
+        );
+        if (existing.rows.length > 0) {
+            if (existing.rows[0].status === 'pending') {
+                await query(
+                    "UPDATE rule_suggestions SET correction_count = $2 WHERE id = $1",
+                    [existing.rows[0].id, transactions.size]
+                );
+            }
+            return;
+        }
+
+        // An existing rule already does this (e.g. the user created one by hand meanwhile)
+        const rules = (await this.ruleService.getRules(userId)).filter((r) => r.is_active);
+        if (this.ruleService.evaluateRules({ description }, rules).changes.category_id === categoryId) return;
+
+        const rule = settings.autoCreate
+            ? await this.createLearnedRule(userId, payee, description, categoryId)
+            : null;
+
+        await query(
+            `INSERT INTO rule_suggestions (user_id, payee, category_id, correction_count, status, rule_id)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (user_id, payee, category_id) DO NOTHING`,
+            [userId, payee, categoryId, transactions.size, rule ? 'accepted' : 'pending', rule?.id || null]
+        );
+    }
+
+    /**
+     * Matches the payee with 'contains' when it appears as-is in the bank's description,
+     * otherwise with a regex over its words (normalising drops card numbers, locations and noise words).
+     */
+    private async createLearnedRule(userId: string, payee: string, description: string, categoryId: string): Promise<Rule> {
+        const condition = description.toLowerCase().includes(payee)
+            ? { field: 'description' as const, match_type: 'contains' as const, match_value: payee }
+            : { field: 'description' as const, match_type: 'regex' as const, match_value: payee.split(" ").join(".*") };
+
+        return this.ruleService.createRule(userId, {
+            name: titleCase(payee),
+            priority: LEARNED_RULE_PRIORITY,
+            conditions: [condition],
+            actions: [{ type: 'set_category', value: categoryId }],
+            is_active: true,
+        });
+    }
+}
@@ -1,8 +1,100 @@
+import { randomUUID } from "crypto";
 import { query } from "../db";
 
+export type RuleConditionField = 'description' | 'amount' | 'direction' | 'account' | 'day_of_month' | 'weekday';
+
 export interface RuleCondition {
-    match_type: 'contains' | 'exact' | 'starts_with' | 'regex';
+    field?: RuleConditionField; // Missing on rules saved before conditions had fields; means description
+    match_type: 'contains' | 'exact' | 'starts_with' | 'regex' | 'equals' | 'between' | 'greater_than' | 'less_than' | 'is';
     match_value: string;
+    match_value_to?: string; // Upper bound for 'between'
+}
+
+export interface RuleConditionGroup {
+    operator: 'and' | 'or';
+    conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+/**
+ * The parts of a transaction rules can look at. Imports being previewed have no
+ * account yet, so account conditions simply don't match them.
+ */
+export interface RuleTransaction {
+    description: string;
+    amount?: number | string;
+    date?: string | Date;
+    account_id?: string | null;
+}
+
+export type RuleActionType =
+    | 'set_category'
+    | 'set_description'
+    | 'mark_transfer'
+    | 'set_status'
+    | 'add_tags'
+    | 'add_note'
+    | 'stop'       // Don't evaluate lower-priority rules (the default)
+    | 'continue';  // Let lower-priority rules match too
+
+export interface RuleAction {
+    type: RuleActionType;
+    value?: string;      // Category ID, description, status or note
+    account_id?: string; // mark_transfer: the other side of the transfer
+    tags?: string[];     // add_tags
+}
+
+/**
+ * What the matching rules would do to a transaction. Later rules override earlier
+ * ones for single values; tags and notes accumulate.
+ */
+export interface RuleChanges {
+    category_id?: string;
+    category_rule_id?: string; // The rule that set category_id
+    description?: string;
+    status?: string;
+    is_transfer?: boolean;
+    transfer_account_id?: string;
+    tags: string[];
+    notes: string[];
+}
+
+/**
+ * A transaction after rules have been applied to it.
+ */
+export interface RuleUpdate {
+    id: string;
+    category_id: string | null;
+    description: string;
+    status: string;
+    is_transfer: boolean;
+    transfer_id: string | null;
+    tags: string[];
+    notes: string | null;
+}
+
+/**
+ * A transaction a draft rule matches, as returned by dryRun.
+ */
+export interface DryRunRow {
+    id: string;
+    date: string;
+    description: string;
+    amount: string;
+    account: string;
+    category: string | null;
+    category_id: string | null;
+    category_differs: boolean; // The rule would assign a different category than the row has now
+    shadowed_by: { id: string; name: string } | null; // Higher-priority rule that stops before this one
+}
+
+export interface DryRunResult {
+    total_matches: number;
+    different_category: number;
+    shadowed: number;
+    shadowing_rules: { id: string; name: string; count: number }[];
+    rows: DryRunRow[]; // Most recent first, capped at DRY_RUN_ROW_LIMIT
 }
 
 export interface Rule {
@@ -12,35 +104,148 @@ export interface Rule {
     priority: number;
     match_type?: string; // Deprecated
     match_value?: string; // Deprecated
-    conditions: RuleCondition[];
-    category_id: string;
+    conditions: RuleConditionNode[]; // Any entry matching matches the rule; use an 'and' group to require all
+    actions: RuleAction[];
+    category_id: string | null; // Mirrors the set_category action
     is_active: boolean;
     created_at: Date;
     updated_at: Date;
+    // Hit statistics from rule_matches
+    last_matched_at?: Date | null;
+    total_matches?: number;
+    matches_90d?: number;
 }
 
+/**
+ * How a rule fares over the user's whole transaction history, given the rules above it.
+ */
+export interface RuleCoverage {
+    rule_id: string;
+    history_matches: number;    // Transactions the rule's conditions match
+    reached_matches: number;    // ...of which no higher-priority rule stopped evaluation first
+    never_matched: boolean;     // Never applied and matches nothing in history
+    fully_shadowed: boolean;    // Matches history, but a higher-priority rule always wins
+    shadowed_by: { id: string; name: string } | null; // The rule that wins most often
+}
+
+// Match types each field accepts. The first is the default.
+export const conditionMatchTypes: { [field in RuleConditionField]: RuleCondition['match_type'][] } = {
+    description: ['contains', 'exact', 'starts_with', 'regex'],
+    amount: ['equals', 'between', 'greater_than', 'less_than'],
+    direction: ['is'],
+    account: ['is'],
+    day_of_month: ['equals', 'between'],
+    weekday: ['is'],
+};
+
+const MAX_GROUP_DEPTH = 4;
+
+const TRANSACTION_STATUSES = ['pending', 'cleared', 'failed'];
+
+// How far apart the two sides of a transfer can be posted
+const TRANSFER_MAX_DAY_GAP = 3;
+
+const DRY_RUN_ROW_LIMIT = 200;
+
+const isGroup = (node: any): node is RuleConditionGroup =>
+    !!node && Array.isArray(node.conditions);
+
+// Day of month and weekday of a transaction date. pg returns DATE columns as local midnight.
+const dateParts = (date: string | Date | undefined): { day: number; weekday: number } | null => {
+    if (date instanceof Date) return { day: date.getDate(), weekday: date.getDay() };
+
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '');
+    if (!match) return null;
+    const utc = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+    return { day: utc.getUTCDate(), weekday: utc.getUTCDay() };
+};
+
+const compareNumber = (actual: number, cond: RuleCondition): boolean => {
+    const value = parseFloat(cond.match_value);
+    if (isNaN(actual) || isNaN(value)) return false;
+
+    switch (cond.match_type) {
+        case 'between': {
+            const to = parseFloat(cond.match_value_to || '');
+            if (isNaN(to)) return false;
+            return actual >= Math.min(value, to) && actual <= Math.max(value, to);
+        }
+        case 'greater_than': return actual > value;
+        case 'less_than': return actual < value;
+        case 'equals':
+        default:
+            return Math.abs(actual - value) < 0.005;
+    }
+};
+
 export class RuleService {
     async getRules(userId: string): Promise<Rule[]> {
-        const sql = `SELECT * FROM transaction_rules WHERE user_id = $1 ORDER BY priority ASC, created_at DESC`;
+        const sql = `
+            SELECT r.*, s.last_matched_at,
+                COALESCE(s.total_matches, 0)::int AS total_matches,
+                COALESCE(s.matches_90d, 0)::int AS matches_90d
+            FROM transaction_rules r
+            LEFT JOIN LATERAL (
+                SELECT MAX(m.matched_at) AS last_matched_at,
+                    COUNT(*) AS total_matches,
+                    COUNT(*) FILTER (WHERE m.matched_at >= NOW() - INTERVAL '90 days') AS matches_90d
+                FROM rule_matches m
+                WHERE m.rule_id = r.id
+            ) s ON true
+            WHERE r.user_id = $1
+            ORDER BY r.priority ASC, r.created_at DESC
+        `;
         const { rows } = await query(sql, [userId]);
         // Parse conditions if string (pg might do it automatically for JSONB, but usually yes)
         // Ensure legacy rows work by filling conditions if empty? 
         // Migration handled it, but let's be safe.
         return rows.map(row => ({
             ...row,
-            conditions: row.conditions || (row.match_value ? [{ match_type: row.match_type, match_value: row.match_value }] : [])
+            conditions: row.conditions || (row.match_value ? [{ match_type: row.match_type, match_value: row.match_value }] : []),
+            actions: row.actions && row.actions.length > 0
+                ? row.actions
+                : (row.category_id ? [{ type: 'set_category', value: row.category_id }] : [])
         }));
     }
 
+    async getRule(userId: string, ruleId: string): Promise<Rule | null> {
+        const rules = await this.getRules(userId);
+        return rules.find(r => r.id === ruleId) || null;
+    }
+
+    /**
+     * Actions to store for a create/update request. Clients that only send category_id
+     * (older UI, AI suggestions) get a single set_category action.
+     */
+    private actionsFromRequest(data: Partial<Rule>): RuleAction[] | null {
+        if (Array.isArray(data.actions)) return data.actions;
+        if (data.category_id) return [{ type: 'set_category', value: data.category_id }];
+        return null;
+    }
+
+    private withCategory(actions: RuleAction[], categoryId: string): RuleAction[] {
+        if (!actions.some(a => a.type === 'set_category')) {
+            return [{ type: 'set_category', value: categoryId }, ...actions];
+        }
+        return actions.map(a => a.type === 'set_category' ? { ...a, value: categoryId } : a);
+    }
+
+    private categoryFromActions(actions: RuleAction[]): string | null {
+        const setCategory = [...actions].reverse().find(a => a.type === 'set_category');
+        return setCategory?.value || null;
+    }
+
     async createRule(userId: string, data: Partial<Rule>): Promise<Rule> {
         // Ensure conditions exist
         const conditions = data.conditions && data.conditions.length > 0
             ? JSON.stringify(data.conditions)
             : JSON.stringify([{ match_type: data.match_type || 'contains', match_value: data.match_value || '' }]);
 
+        const actions = this.actionsFromRequest(data) || [];
+
         const sql = `
-            INSERT INTO transaction_rules (user_id, name, priority, conditions, category_id, is_active)
-            VALUES ($1, $2, $3, $4, $5, $6)
+            INSERT INTO transaction_rules (user_id, name, priority, conditions, actions, category_id, is_active)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
             RETURNING *
         `;
         const { rows } = await query(sql, [
@@ -48,7 +253,8 @@ export class RuleService {
             data.name,
             data.priority || 0,
             conditions,
-            data.category_id,
+            JSON.stringify(actions),
+            this.categoryFromActions(actions),
             data.is_active ?? true
         ]);
         return rows[0];
@@ -56,21 +262,33 @@ export class RuleService {
 
     async updateRule(userId: string, ruleId: string, data: Partial<Rule>): Promise<Rule> {
         const conditions = data.conditions ? JSON.stringify(data.conditions) : null;
+        let actions = this.actionsFromRequest(data);
+
+        // A bare category_id only changes the category; the rule's other actions are kept
+        if (actions && !Array.isArray(data.actions)) {
+            const existing = await this.getRule(userId, ruleId);
+            if (existing) actions = this.withCategory(existing.actions, data.category_id!);
+        }
 
+        // category_id follows the actions, so it's cleared when set_category is removed
         const sql = `
             UPDATE transaction_rules 
             SET name = COALESCE($3, name),
                 priority = COALESCE($4, priority),
                 conditions = COALESCE($5, conditions),
-                category_id = COALESCE($6, category_id),
-                is_active = COALESCE($7, is_active),
+                actions = COALESCE($6, actions),
+                category_id = CASE WHEN $6::jsonb IS NULL THEN category_id ELSE $7 END,
+                is_active = COALESCE($8, is_active),
                 updated_at = NOW()
             WHERE id = $2 AND user_id = $1
             RETURNING *
         `;
         const { rows } = await query(sql, [
             userId, ruleId,
-            data.name, data.priority, conditions, data.category_id, data.is_active
+            data.name, data.priority, conditions,
+            actions ? JSON.stringify(actions) : null,
+            actions ? this.categoryFromActions(actions) : null,
+            data.is_active
         ]);
         return rows[0];
     }
@@ -78,4 +296,475 @@ export class RuleService {
     async deleteRule(userId: string, ruleId: string): Promise<void> {
         await query('DELETE FROM transaction_rules WHERE id = $1 AND user_id = $2', [ruleId, userId]);
     }
+
+    /**
+     * Runs the active rules over the given transactions and saves what they change.
+     * Only touches rows that are still uncategorised and not transfers.
+     * Returns the rows that at least one rule matched.
+     */
+    async applyRules(userId: string, transactionIds: string[]): Promise<RuleUpdate[]> {
+        if (transactionIds.length === 0) return [];
+
+        const rules = (await this.getRules(userId)).filter(r => r.is_active);
+        if (rules.length === 0) return [];
+
+        const { rows } = await query(
+            `SELECT id, description, amount, date, account_id FROM transactions
+             WHERE id = ANY($1::uuid[]) AND user_id = $2 AND category_id IS NULL AND is_transfer = false`,
+            [transactionIds, userId]
+        );
+
+        const updates: RuleUpdate[] = [];
+        for (const tx of rows) {
+            const { changes, matched } = this.evaluateRules(tx, rules);
+            if (matched.length === 0) continue;
+
+            const update = await this.applyChanges(userId, tx, changes, matched);
+            if (update) updates.push(update);
+        }
+        return updates;
+    }
+
+    /**
+     * Evaluates a draft rule (saved or not) against all of the user's transactions without
+     * changing anything. Rows a higher-priority rule claims first are reported as shadowed.
+     */
+    async dryRun(userId: string, draft: Partial<Rule>): Promise<DryRunResult> {
+        const matches = await this.matchHistory(userId, draft);
+        const targetCategory = this.categoryFromActions(this.actionsFromRequest(draft) || []);
+
+        const result: DryRunResult = {
+            total_matches: matches.length,
+            different_category: 0,
+            shadowed: 0,
+            shadowing_rules: [],
+            rows: [],
+        };
+        const shadowing = new Map<string, { id: string; name: string; count: number }>();
+
+        for (const { tx, shadowedBy } of matches) {
+            const categoryDiffers = !!targetCategory && !!tx.category_id && tx.category_id !== targetCategory;
+            if (categoryDiffers) result.different_category++;
+
+            if (shadowedBy) {
+                result.shadowed++;
+                const entry = shadowing.get(shadowedBy.id) || { id: shadowedBy.id, name: shadowedBy.name, count: 0 };
+                entry.count++;
+                shadowing.set(shadowedBy.id, entry);
+            }
+
+            if (result.rows.length < DRY_RUN_ROW_LIMIT) {
+                result.rows.push({
+                    id: tx.id,
+                    date: tx.date,
+                    description: tx.description,
+                    amount: tx.amount,
+                    account: tx.account,
+                    category: tx.category,
+                    category_id: tx.category_id,
+                    category_differs: categoryDiffers,
+                    shadowed_by: shadowedBy ? { id: shadowedBy.id, name: shadowedBy.name } : null,
+                });
+            }
+        }
+
+        result.shadowing_rules = [...shadowing.values()].sort((a, b) => b.count - a.count);
+        return result;
+    }
+
+    /**
+     * Applies a saved rule to every past transaction it matches, except rows a
+     * higher-priority rule claims. Existing categories are only replaced with overwrite.
+     */
+    async applyToHistory(userId: string, rule: Rule, overwrite: boolean): Promise<number> {
+        const matches = await this.matchHistory(userId, rule);
+
+        let updated = 0;
+        for (const { tx, shadowedBy, changes } of matches) {
+            if (shadowedBy) continue;
+
+            if (tx.category_id && !overwrite) delete changes.category_id;
+            if (changes.category_id === tx.category_id) delete changes.category_id;
+            // Already linked to the other side of a transfer; don't relink it
+            if (tx.transfer_id) delete changes.transfer_account_id;
+
+            if (await this.applyChanges(userId, tx, changes, [rule])) updated++;
+        }
+        return updated;
+    }
+
+    /**
+     * All of the user's transactions the draft rule matches, with what it would change and
+     * the higher-priority rule (if any) that would stop evaluation before reaching it.
+     */
+    private async matchHistory(userId: string, draft: Partial<Rule>): Promise<{ tx: any; shadowedBy: Rule | null; changes: RuleChanges }[]> {
+        const priority = draft.priority ?? 0;
+        const rules = await this.getRules(userId);
+        // Rules run in getRules order: by priority, then newest first. An unsaved draft would be the newest.
+        const saved = draft.id ? rules.find(r => r.id === draft.id) : undefined;
+        const createdAt = saved ? new Date(saved.created_at).getTime() : Infinity;
+        const higherRules = rules.filter(r => r.is_active && r.id !== draft.id && (
+            r.priority < priority || (r.priority === priority && new Date(r.created_at).getTime() > createdAt)
+        ));
+        const rule = { ...draft, actions: this.actionsFromRequest(draft) || [] } as Rule;
+
+        const { rows } = await query(
+            `SELECT t.id, t.date::text AS date, t.description, t.amount, t.account_id, t.category_id,
+                    t.is_transfer, t.transfer_id, a.name AS account, c.name AS category
+             FROM transactions t
+             JOIN accounts a ON t.account_id = a.id
+             LEFT JOIN categories c ON t.category_id = c.id
+             WHERE t.user_id = $1
+             ORDER BY t.date DESC, t.created_at DESC`,
+            [userId]
+        );
+
+        const matches: { tx: any; shadowedBy: Rule | null; changes: RuleChanges }[] = [];
+        for (const tx of rows) {
+            // Higher-priority rules run first and may rewrite the description this rule sees
+            const earlier = this.evaluateRules(tx, higherRules);
+            const seen = { ...tx, description: earlier.changes.description || tx.description };
+
+            const { changes, matched } = this.evaluateRules(seen, [rule]);
+            if (matched.length === 0) continue;
+
+            const last = earlier.matched[earlier.matched.length - 1];
+            const shadowedBy = last && !last.actions.some(a => a.type === 'continue') ? last : null;
+            matches.push({ tx, shadowedBy, changes });
+        }
+        return matches;
+    }
+
+    /**
+     * Works out what the rules would do to a transaction, without saving anything.
+     * Rules are evaluated in order; later rules see the description earlier ones rewrote.
+     * Evaluation stops at the first matching rule unless it has a 'continue' action.
+     */
+    evaluateRules(tx: RuleTransaction, rules: Rule[]): { changes: RuleChanges; matched: Rule[] } {
+        const current = { ...tx };
+        const changes: RuleChanges = { tags: [], notes: [] };
+        const matched: Rule[] = [];
+
+        for (const rule of rules) {
+            if (!this.matchRule(current, rule)) continue;
+            matched.push(rule);
+
+            const actions: RuleAction[] = rule.actions && rule.actions.length > 0
+                ? rule.actions
+                : (rule.category_id ? [{ type: 'set_category', value: rule.category_id }] : []);
+
+            for (const action of actions) {
+                switch (action.type) {
+                    case 'set_category':
+                        changes.category_id = action.value;
+                        changes.category_rule_id = rule.id;
+                        break;
+                    case 'set_description':
+                        changes.description = current.description = action.value || current.description;
+                        break;
+                    case 'mark_transfer':
+                        changes.is_transfer = true;
+                        changes.transfer_account_id = action.account_id || undefined;
+                        break;
+                    case 'set_status':
+                        changes.status = action.value;
+                        break;
+                    case 'add_tags':
+                        for (const tag of (action.tags || []).map(t => String(t).trim()).filter(Boolean)) {
+                            if (!changes.tags.includes(tag)) changes.tags.push(tag);
+                        }
+                        break;
+                    case 'add_note':
+                        if (action.value) changes.notes.push(action.value);
+                        break;
+                }
+            }
+
+            if (!actions.some(a => a.type === 'continue')) break;
+        }
+
+        return { changes, matched };
+    }
+
+    /**
+     * Saves rule changes to a transaction and records a hit for each rule that produced them.
+     * A transfer with a counterpart account is linked to the opposite-signed transaction
+     * there, if one can be found.
+     */
+    async applyChanges(userId: string, tx: { id: string; amount: any; date: any }, changes: RuleChanges, matched: Rule[] = []): Promise<RuleUpdate | null> {
+        const setClauses: string[] = [];
+        const values: any[] = [tx.id, userId];
+        const param = (value: any) => {
+            values.push(value);
+            return `$${values.length}`;
+        };
+
+        if (changes.category_id) {
+            setClauses.push(`category_id = ${param(changes.category_id)}`);
+            setClauses.push(`category_source = 'rule', category_rule_id = ${param(changes.category_rule_id || null)}`);
+            setClauses.push("category_model = NULL, category_confidence = 1, category_reviewed = false, suggested_category_id = NULL");
+        }
+        if (changes.status) setClauses.push(`status = ${param(changes.status)}::transaction_status`);
+        if (changes.description) {
+            setClauses.push("original_description = COALESCE(original_description, description)");
+            setClauses.push(`description = ${param(changes.description)}`);
+        }
+        if (changes.tags.length > 0) {
+            setClauses.push(`tags = ARRAY(SELECT DISTINCT unnest(tags || ${param(changes.tags)}::text[]))`);
+        }
+        if (changes.notes.length > 0) {
+            const note = param(changes.notes.join("\n"));
+            // Skipped if the note is already there, so re-applying a rule doesn't repeat it
+            setClauses.push(`notes = CASE
+                WHEN COALESCE(notes, '') = '' THEN ${note}
+                WHEN POSITION(${note} IN notes) > 0 THEN notes
+                ELSE notes || E'\\n' || ${note} END`);
+        }
+        if (changes.is_transfer) {
+            setClauses.push("is_transfer = true");
+
+            const counterpartId = changes.transfer_account_id
+                ? await this.findTransferCounterpart(userId, tx, changes.transfer_account_id)
+                : null;
+            if (counterpartId) {
+                const transferId = randomUUID();
+                setClauses.push(`transfer_id = ${param(transferId)}`);
+                await query(
+                    "UPDATE transactions SET is_transfer = true, transfer_id = $1 WHERE id = $2 AND user_id = $3",
+                    [transferId, counterpartId, userId]
+                );
+            }
+        }
+
+        if (setClauses.length === 0) return null;
+
+        const { rows } = await query(
+            `UPDATE transactions SET ${setClauses.join(", ")}
+             WHERE id = $1 AND user_id = $2
+             RETURNING id, category_id, description, status, is_transfer, transfer_id, tags, notes`,
+            values
+        );
+        if (rows.length > 0 && matched.length > 0) {
+            await this.recordMatches(tx.id, matched);
+        }
+        return rows[0] || null;
+    }
+
+    // A rule re-applied to the same transaction (e.g. apply to history) only counts once
+    private async recordMatches(transactionId: string, rules: Rule[]): Promise<void> {
+        await query(
+            `INSERT INTO rule_matches (rule_id, transaction_id)
+             SELECT r.id, $2::uuid FROM unnest($1::uuid[]) AS r(id)
+             WHERE NOT EXISTS (
+                 SELECT 1 FROM rule_matches m WHERE m.rule_id = r.id AND m.transaction_id = $2::uuid
+             )`,
+            [rules.map(r => r.id), transactionId]
+        );
+    }
+
+    /**
+     * Runs every active rule over the user's transaction history to find rules that never
+     * match anything, or whose matches are always claimed by a higher-priority rule.
+     */
+    async getCoverage(userId: string): Promise<RuleCoverage[]> {
+        const rules = (await this.getRules(userId)).filter(r => r.is_active);
+        const { rows } = await query(
+            'SELECT id, description, amount, date, account_id FROM transactions WHERE user_id = $1',
+            [userId]
+        );
+
+        const stats = new Map(rules.map(r => [r.id, { matches: 0, reached: 0, winners: new Map<string, number>() }]));
+
+        for (const tx of rows) {
+            const current = { ...tx };
+            let stoppedBy: Rule | null = null;
+
+            for (const rule of rules) {
+                if (!this.matchRule(current, rule)) continue;
+                const stat = stats.get(rule.id)!;
+                stat.matches++;
+
+                if (stoppedBy) {
+                    stat.winners.set(stoppedBy.id, (stat.winners.get(stoppedBy.id) || 0) + 1);
+                    continue;
+                }
+                stat.reached++;
+
+                const rename = [...rule.actions].reverse().find(a => a.type === 'set_description');
+                if (rename?.value) current.description = rename.value;
+                if (!rule.actions.some(a => a.type === 'continue')) stoppedBy = rule;
+            }
+        }
+
+        return rules.map(rule => {
+            const stat = stats.get(rule.id)!;
+            const [winnerId] = [...stat.winners.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+            const winner = rules.find(r => r.id === winnerId);
+
+            return {
+                rule_id: rule.id,
+                history_matches: stat.matches,
+                reached_matches: stat.reached,
+                never_matched: stat.matches === 0 && !rule.total_matches,
+                fully_shadowed: stat.matches > 0 && stat.reached === 0,
+                shadowed_by: winner ? { id: winner.id, name: winner.name } : null,
+            };
+        });
+    }
+
+    private async findTransferCounterpart(userId: string, tx: { id: string; amount: any; date: any }, accountId: string): Promise<string | null> {
+        const { rows } = await query(
+            `SELECT id FROM transactions
+             WHERE user_id = $1 AND account_id = $2 AND id <> $3
+                AND amount = -($4::numeric)
+                AND ABS(date - $5::date) <= $6
+                AND transfer_id IS NULL
+             ORDER BY ABS(date - $5::date) ASC
+             LIMIT 1`,
+            [userId, accountId, tx.id, tx.amount, tx.date, TRANSFER_MAX_DAY_GAP]
+        );
+        return rows[0]?.id || null;
+    }
+
+    /**
+     * Returns an error message if the actions can't be applied.
+     */
+    validateActions(actions: any): string | null {
+        if (!Array.isArray(actions)) return "Actions must be a list";
+
+        const effects = actions.filter(a => a?.type !== 'stop' && a?.type !== 'continue');
+        if (effects.length === 0) return "At least one action is required";
+        if (actions.some(a => a?.type === 'stop') && actions.some(a => a?.type === 'continue')) {
+            return "A rule can't both stop and continue";
+        }
+
+        for (const action of effects) {
+            const value = String(action.value ?? '').trim();
+            switch (action.type) {
+                case 'set_category':
+                    if (!value) return "Choose a category to set";
+                    break;
+                case 'set_description':
+                    if (!value) return "Enter the description to rewrite to";
+                    break;
+                case 'add_note':
+                    if (!value) return "Enter the note to add";
+                    break;
+                case 'set_status':
+                    if (!TRANSACTION_STATUSES.includes(value)) return `Status must be one of ${TRANSACTION_STATUSES.join(', ')}`;
+                    break;
+                case 'add_tags':
+                    if (!Array.isArray(action.tags) || action.tags.filter((t: any) => String(t).trim()).length === 0) {
+                        return "Enter at least one tag to add";
+                    }
+                    break;
+                case 'mark_transfer':
+                    break;
+                default:
+                    return `Unknown action '${action.type}'`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Returns an error message if the conditions aren't something matchRule understands.
+     */
+    validateConditions(conditions: any, depth: number = 0): string | null {
+        if (!Array.isArray(conditions) || conditions.length === 0) return "At least one condition is required";
+        if (depth > MAX_GROUP_DEPTH) return `Condition groups can be nested at most ${MAX_GROUP_DEPTH} deep`;
+
+        for (const node of conditions) {
+            if (isGroup(node)) {
+                if (node.operator !== 'and' && node.operator !== 'or') return "Condition groups must use 'and' or 'or'";
+                const error = this.validateConditions(node.conditions, depth + 1);
+                if (error) return error;
+                continue;
+            }
+
+            const field: RuleConditionField = node?.field || 'description';
+            const allowed = conditionMatchTypes[field];
+            if (!allowed) return `Unknown condition field '${field}'`;
+            if (!allowed.includes(node.match_type)) return `'${node.match_type}' can't be used with ${field}`;
+
+            const value = String(node.match_value ?? '').trim();
+            if (!value) return `A ${field.replace(/_/g, ' ')} condition is missing its value`;
+
+            if (field === 'description' && node.match_type === 'regex') {
+                try { new RegExp(value); } catch (e) { return `Invalid regular expression '${value}'`; }
+            }
+            if (field === 'amount' || field === 'day_of_month') {
+                const bounds = node.match_type === 'between' ? [value, node.match_value_to] : [value];
+                if (bounds.some(b => b === undefined || b === null || isNaN(parseFloat(b)))) {
+                    return `A ${field.replace(/_/g, ' ')} condition needs a number`;
+                }
+            }
+            if (field === 'direction' && value !== 'debit' && value !== 'credit') return "Direction must be 'debit' or 'credit'";
+            if (field === 'weekday' && !/^[0-6]$/.test(value)) return "Weekday must be 0 (Sunday) to 6 (Saturday)";
+        }
+        return null;
+    }
+
+    /**
+     * Returns true if any of the rule's top-level conditions (or groups) match the transaction.
+     */
+    matchRule(tx: RuleTransaction, rule: any): boolean {
+        // Handle legacy single condition vs new array
+        const conditions = rule.conditions && rule.conditions.length > 0
+            ? rule.conditions
+            : (rule.match_value ? [{ match_type: rule.match_type || 'contains', match_value: rule.match_value }] : []);
+
+        return conditions.some((node: any) => this.matchNode(tx, node));
+    }
+
+    matchNode(tx: RuleTransaction, node: any): boolean {
+        if (!isGroup(node)) return this.matchCondition(tx, node);
+        if (node.conditions.length === 0) return false;
+
+        return node.operator === 'and'
+            ? node.conditions.every(child => this.matchNode(tx, child))
+            : node.conditions.some(child => this.matchNode(tx, child));
+    }
+
+    matchCondition(tx: RuleTransaction, cond: any): boolean {
+        const amount = parseFloat(String(tx.amount ?? ''));
+
+        switch (cond.field || 'description') {
+            case 'amount':
+                return compareNumber(amount, cond);
+            case 'direction':
+                return cond.match_value === 'credit' ? amount > 0 : amount < 0;
+            case 'account':
+                return !!tx.account_id && tx.account_id === cond.match_value;
+            case 'day_of_month': {
+                const parts = dateParts(tx.date);
+                return !!parts && compareNumber(parts.day, cond);
+            }
+            case 'weekday': {
+                const parts = dateParts(tx.date);
+                return !!parts && parts.weekday === parseInt(cond.match_value, 10);
+            }
+            case 'description':
+            default:
+                return this.matchDescription(tx.description || '', cond);
+        }
+    }
+
+    private matchDescription(description: string, cond: any): boolean {
+        const desc = description.toLowerCase();
+        const val = (cond.match_value || cond.value || '').toLowerCase(); // AI might return 'value' or 'match_value'
+
+        try {
+            switch (cond.match_type || cond.type) {
+                case 'exact': return desc === val;
+                case 'starts_with': return desc.startsWith(val);
+                case 'regex': return new RegExp(val, 'i').test(description);
+                case 'contains':
+                default:
+                    return desc.includes(val);
+            }
+        } catch (e) {
+            return false;
+        }
+    }
 }
@@ -0,0 +1,542 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { pool, query } from "../db";
+import { RecurringCadence, nextOccurrence } from "./recurringService";
+import { PayeeService } from "./payeeService";
+import { ClassificationService } from "./classificationService";
+
+export type ScheduleFrequency = 'once' | RecurringCadence;
+
+export interface ScheduledTransaction {
+    id: string;
+    account_id: string;
+    category_id: string | null;
+    payee_id: string | null;
+    description: string;
+    amount: string;
+    frequency: ScheduleFrequency;
+    interval_count: number;
+    start_date: string;
+    end_date: string | null;
+    next_due_date: string | null;
+    auto_post: boolean;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * A schedule with the names of what it points at, for the schedule list.
+ */
+export interface ScheduledTransactionSummary extends ScheduledTransaction {
+    account: string;
+    category: string | null;
+    payee: string | null;
+}
+
+export interface ScheduleInput {
+    account_id?: string;
+    category_id?: string | null;
+    payee_id?: string | null;
+    description?: string;
+    amount?: number | string;
+    frequency?: ScheduleFrequency;
+    interval_count?: number;
+    start_date?: string;
+    end_date?: string | null;
+    auto_post?: boolean;
+    is_active?: boolean;
+}
+
+/**
+ * One future (or overdue) occurrence of a schedule that hasn't happened yet.
+ */
+export interface ProjectedTransaction {
+    scheduled_transaction_id: string;
+    account_id: string;
+    category_id: string | null;
+    category: string | null;
+    payee_id: string | null;
+    description: string;
+    amount: string;
+    date: string;
+    overdue: boolean;   // Due before today and neither posted, matched nor skipped
+}
+
+const FREQUENCIES: ScheduleFrequency[] = ['once', 'weekly', 'fortnightly', 'monthly', 'quarterly', 'annual'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// How far an imported transaction can post from the due date and still be the scheduled one
+const MATCH_DAYS = 4;
+// How far its amount can be off, e.g. a utility bill that was estimated
+const AMOUNT_TOLERANCE = 0.1;
+
+const SCHEDULE_COLUMNS = `
+    s.id, s.account_id, s.category_id, s.payee_id, s.description, s.amount, s.frequency, s.interval_count,
+    s.start_date::text AS start_date, s.end_date::text AS end_date, s.next_due_date::text AS next_due_date,
+    s.auto_post, s.is_active, s.created_at, s.updated_at`;
+
+const today = (): string => format(new Date(), "yyyy-MM-dd");
+
+const dayGap = (a: string, b: string): number => Math.abs(differenceInCalendarDays(parseISO(a), parseISO(b)));
+
+/**
+ * The first occurrence of a schedule strictly after `date` (or on it, with `inclusive`), or null
+ * once the schedule has ended. Occurrences are counted from start_date so that, say, the 31st
+ * stays the 31st in months that have one.
+ */
+export const occurrenceAfter = (
+    schedule: Pick<ScheduledTransaction, 'frequency' | 'interval_count' | 'start_date' | 'end_date'>,
+    date: string,
+    inclusive = false
+): string | null => {
+    let next: string | null = schedule.start_date;
+    for (let cycles = 1; next && (inclusive ? next < date : next <= date); cycles++) {
+        next = schedule.frequency === 'once'
+            ? null
+            : nextOccurrence(schedule.start_date, schedule.frequency, cycles * schedule.interval_count);
+    }
+    return next && (!schedule.end_date || next <= schedule.end_date) ? next : null;
+};
+
+/**
+ * Future-dated items the user knows about (rent, salary, premiums, loan repayments), repeating by
+ * a recurrence rule. Occurrences are projected into registers and forecasts until they're posted
+ * as pending transactions, matched to an imported transaction, or skipped.
+ */
+export class ScheduledTransactionService {
+    private payeeService = new PayeeService();
+    private classificationService = new ClassificationService();
+
+    async getSchedules(userId: string): Promise<ScheduledTransactionSummary[]> {
+        const { rows } = await query(
+            `SELECT ${SCHEDULE_COLUMNS}, a.name AS account, c.name AS category, p.name AS payee
+             FROM scheduled_transactions s
+             JOIN accounts a ON s.account_id = a.id
+             LEFT JOIN categories c ON s.category_id = c.id
+             LEFT JOIN payees p ON s.payee_id = p.id
+             WHERE s.user_id = $1
+             ORDER BY s.is_active DESC, s.next_due_date NULLS LAST, s.description`,
+            [userId]
+        );
+        return rows;
+    }
+
+    async getSchedule(userId: string, scheduleId: string): Promise<ScheduledTransaction | null> {
+        const { rows } = await query(
+            `SELECT ${SCHEDULE_COLUMNS} FROM scheduled_transactions s WHERE s.id = $1 AND s.user_id = $2`,
+            [scheduleId, userId]
+        );
+        return rows[0] || null;
+    }
+
+    /**
+     * Returns an error message if the schedule isn't valid. With `partial`, only the fields given are
+     * checked, against the `current` schedule they update.
+     */
+    validateSchedule(data: ScheduleInput, partial: boolean = false, current?: ScheduledTransaction): string | null {
+        if (!partial || data.description !== undefined) {
+            if (typeof data.description !== 'string' || !data.description.trim()) return "A schedule needs a description";
+        }
+        if (!partial || data.amount !== undefined) {
+            const amount = Number(data.amount);
+            if (data.amount === '' || data.amount === null || !Number.isFinite(amount) || amount === 0) {
+                return "Amount must be a non-zero number";
+            }
+        }
+        if (!partial && !data.account_id) return "A schedule needs an account";
+        if (!partial || data.frequency !== undefined) {
+            if (!FREQUENCIES.includes(data.frequency as ScheduleFrequency)) return `Unknown frequency '${data.frequency}'`;
+        }
+        if (data.interval_count !== undefined && (!Number.isInteger(data.interval_count) || data.interval_count < 1)) {
+            return "Interval must be a whole number of at least 1";
+        }
+        if (!partial || data.start_date !== undefined) {
+            if (!DATE_PATTERN.test(String(data.start_date))) return "Start date must be a YYYY-MM-DD date";
+        }
+        if (data.end_date && !DATE_PATTERN.test(data.end_date)) return "End date must be a YYYY-MM-DD date";
+        const startDate = data.start_date ?? current?.start_date;
+        const endDate = data.end_date !== undefined ? data.end_date : current?.end_date;
+        if (endDate && startDate && endDate < startDate) return "End date must be after the start date";
+        return null;
+    }
+
+    /**
+     * Creates a schedule. Its first due date is the first occurrence from today on: occurrences
+     * before today are history, not something to post. Returns null if the account, category or
+     * payee isn't the user's.
+     */
+    async createSchedule(userId: string, data: ScheduleInput): Promise<ScheduledTransaction | null> {
+        if (!await this.ownsReferences(userId, data)) return null;
+        const schedule = {
+            frequency: data.frequency!,
+            interval_count: data.interval_count || 1,
+            start_date: data.start_date!,
+            end_date: data.end_date || null,
+        };
+        const { rows } = await query(
+            `INSERT INTO scheduled_transactions (
+                user_id, account_id, category_id, payee_id, description, amount, frequency, interval_count,
+                start_date, end_date, next_due_date, auto_post, is_active
+             )
+             SELECT $1, id, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+             FROM accounts WHERE id = $2 AND user_id = $1
+             RETURNING id`,
+            [userId, data.account_id, data.category_id || null, data.payee_id || null, data.description!.trim(),
+                data.amount, schedule.frequency, schedule.interval_count, schedule.start_date, schedule.end_date,
+                occurrenceAfter(schedule, today(), true), !!data.auto_post, data.is_active ?? true]
+        );
+        return rows[0] ? this.getSchedule(userId, rows[0].id) : null;
+    }
+
+    /**
+     * Updates a schedule. Changing its recurrence rule restarts it from the first occurrence from
+     * today on. Returns null if the schedule, or the account, category or payee it's given, isn't the user's.
+     */
+    async updateSchedule(userId: string, scheduleId: string, data: ScheduleInput): Promise<ScheduledTransaction | null> {
+        const current = await this.getSchedule(userId, scheduleId);
+        if (!current) return null;
+        if (data.account_id) {
+            const { rowCount } = await query('SELECT 1 FROM accounts WHERE id = $1 AND user_id = $2', [data.account_id, userId]);
+            if (!rowCount) return null;
+        }
+        if (!await this.ownsReferences(userId, data)) return null;
+
+        const setClauses: string[] = [];
+        const values: any[] = [];
+        const fields: (keyof ScheduleInput)[] = [
+            'account_id', 'category_id', 'payee_id', 'description', 'amount', 'frequency',
+            'interval_count', 'start_date', 'end_date', 'auto_post', 'is_active',
+        ];
+        for (const field of fields) {
+            if (data[field] === undefined) continue;
+            if (field === 'description') values.push(data.description!.trim());
+            else if (field === 'category_id' || field === 'payee_id' || field === 'end_date') values.push(data[field] || null);
+            else values.push(data[field]);
+            setClauses.push(`${field} = $${values.length}`);
+        }
+        if (setClauses.length === 0) return current;
+
+        const rule = {
+            frequency: data.frequency ?? current.frequency,
+            interval_count: data.interval_count ?? current.interval_count,
+            start_date: data.start_date ?? current.start_date,
+            end_date: data.end_date !== undefined ? data.end_date || null : current.end_date,
+        };
+        const ruleChanged = (['frequency', 'interval_count', 'start_date', 'end_date'] as const)
+            .some((field) => data[field] !== undefined && (data[field] || null) !== (current[field] || null));
+        if (ruleChanged) {
+            values.push(occurrenceAfter(rule, today(), true));
+            setClauses.push(`next_due_date = $${values.length}`);
+        }
+
+        values.push(scheduleId, userId);
+        await query(
+            `UPDATE scheduled_transactions SET ${setClauses.join(', ')}, updated_at = NOW()
+             WHERE id = $${values.length - 1} AND user_id = $${values.length}`,
+            values
+        );
+        return this.getSchedule(userId, scheduleId);
+    }
+
+    /**
+     * Deletes a schedule. Transactions posted from it are kept.
+     */
+    async deleteSchedule(userId: string, scheduleId: string): Promise<boolean> {
+        const { rowCount } = await query(
+            'DELETE FROM scheduled_transactions WHERE id = $1 AND user_id = $2',
+            [scheduleId, userId]
+        );
+        return (rowCount || 0) > 0;
+    }
+
+    /**
+     * Occurrences of the user's active schedules from their next due date up to `until`, optionally
+     * for one account, in date order. Overdue ones are included at their due date.
+     */
+    async getProjected(userId: string, until: string, accountId?: string): Promise<ProjectedTransaction[]> {
+        const { rows } = await query(
+            `SELECT ${SCHEDULE_COLUMNS}, c.name AS category
+             FROM scheduled_transactions s
+             LEFT JOIN categories c ON s.category_id = c.id
+             WHERE s.user_id = $1 AND s.is_active = true AND s.next_due_date <= $2
+                AND ($3::uuid IS NULL OR s.account_id = $3)`,
+            [userId, until, accountId || null]
+        );
+
+        const now = today();
+        const projected: ProjectedTransaction[] = [];
+        for (const schedule of rows) {
+            for (let date = schedule.next_due_date; date && date <= until; date = occurrenceAfter(schedule, date)) {
+                projected.push({
+                    scheduled_transaction_id: schedule.id,
+                    account_id: schedule.account_id,
+                    category_id: schedule.category_id,
+                    category: schedule.category,
+                    payee_id: schedule.payee_id,
+                    description: schedule.description,
+                    amount: schedule.amount,
+                    date,
+                    overdue: date < now,
+                });
+            }
+        }
+        return projected.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * Posts the schedule's next occurrence now, as a pending transaction on its due date.
+     * Returns null if the schedule doesn't exist or has nothing left to post.
+     */
+    async postNext(userId: string, scheduleId: string): Promise<any | null> {
+        const schedule = await this.getSchedule(userId, scheduleId);
+        if (!schedule?.next_due_date) return null;
+        return this.post(userId, schedule);
+    }
+
+    /**
+     * Moves past the schedule's next occurrence without posting it, e.g. a month the rent wasn't due.
+     */
+    async skipNext(userId: string, scheduleId: string): Promise<ScheduledTransaction | null> {
+        const schedule = await this.getSchedule(userId, scheduleId);
+        if (!schedule?.next_due_date) return null;
+        await this.advance(schedule);
+        return this.getSchedule(userId, scheduleId);
+    }
+
+    /**
+     * Posts every occurrence that has fallen due on auto-posting schedules, for all users.
+     * A schedule that fails is logged and left for the next run; the rest still post.
+     * Returns how many transactions were inserted.
+     */
+    async postDue(): Promise<number> {
+        const { rows } = await query(
+            `SELECT ${SCHEDULE_COLUMNS}, s.user_id
+             FROM scheduled_transactions s
+             WHERE s.is_active = true AND s.auto_post = true AND s.next_due_date <= $1`,
+            [today()]
+        );
+
+        let posted = 0;
+        for (const schedule of rows) {
+            try {
+                while (schedule.next_due_date && schedule.next_due_date <= today()) {
+                    await this.post(schedule.user_id, schedule);
+                    posted++;
+                }
+            } catch (err) {
+                console.error(`Failed to post scheduled transaction ${schedule.id}:`, err);
+            }
+        }
+        return posted;
+    }
+
+    /**
+     * Matches freshly imported transactions to the schedules they fulfil, so a scheduled item
+     * isn't counted twice. A transaction that matches a posted pending one replaces it, keeping
+     * what the user added to the pending one (see replacePlaceholder); one that
+     * matches an occurrence that was never posted moves the schedule on. Returns how many matched.
+     */
+    async reconcile(userId: string, transactionIds: string[]): Promise<number> {
+        if (transactionIds.length === 0) return 0;
+
+        const { rows: imported } = await query(
+            `SELECT id, account_id, date::text AS date, amount, payee_id, category_id, is_split
+             FROM transactions
+             WHERE id = ANY($1::uuid[]) AND user_id = $2 AND scheduled_transaction_id IS NULL AND is_transfer = false
+             ORDER BY date, id`,
+            [transactionIds, userId]
+        );
+        if (imported.length === 0) return 0;
+        const accountIds = [...new Set(imported.map((t: any) => t.account_id))];
+
+        // Paused schedules aren't expected to recur, but what they already posted can still be replaced
+        const { rows: schedules } = await query(
+            `SELECT ${SCHEDULE_COLUMNS}
+             FROM scheduled_transactions s
+             WHERE s.user_id = $1 AND s.account_id = ANY($2::uuid[])`,
+            [userId, accountIds]
+        );
+        if (schedules.length === 0) return 0;
+
+        // Posted occurrences still awaiting the real thing: pending, and entered by posting rather
+        // than by an import or a data provider
+        const { rows: placeholders } = await query(
+            `SELECT id, scheduled_transaction_id, account_id, date::text AS date, amount, payee_id,
+                    category_id, category_source, category_reviewed, notes, tags, is_split
+             FROM transactions
+             WHERE user_id = $1 AND account_id = ANY($2::uuid[]) AND scheduled_transaction_id IS NOT NULL
+                AND status = 'pending' AND import_batch_id IS NULL AND provider_transaction_id IS NULL
+                AND NOT (id = ANY($3::uuid[]))`,
+            [userId, accountIds, transactionIds]
+        );
+
+        const amountFits = (amount: string, expected: string) =>
+            Math.sign(parseFloat(amount)) === Math.sign(parseFloat(expected))
+            && Math.abs(parseFloat(amount) - parseFloat(expected)) <= Math.abs(parseFloat(expected)) * AMOUNT_TOLERANCE;
+        const payeeFits = (payeeId: string | null, expected: string | null) =>
+            !payeeId || !expected || payeeId === expected;
+
+        const usedPlaceholders = new Set<string>();
+        let matched = 0;
+        for (const transaction of imported) {
+            let best: { gap: number; difference: number; schedule: any; placeholder?: any } | null = null;
+            const consider = (schedule: any, date: string, amount: string, payeeId: string | null, placeholder?: any) => {
+                const gap = dayGap(transaction.date, date);
+                if (gap > MATCH_DAYS || !amountFits(transaction.amount, amount) || !payeeFits(transaction.payee_id, payeeId)) return;
+                const difference = Math.abs(parseFloat(transaction.amount) - parseFloat(amount));
+                if (!best || gap < best.gap || (gap === best.gap && difference < best.difference)) {
+                    best = { gap, difference, schedule, placeholder };
+                }
+            };
+
+            for (const placeholder of placeholders) {
+                if (usedPlaceholders.has(placeholder.id) || placeholder.account_id !== transaction.account_id) continue;
+                // Split lines must add up to the amount, so only an unsplit import of the same amount can take them over
+                if (placeholder.is_split && (transaction.is_split || parseFloat(placeholder.amount) !== parseFloat(transaction.amount))) continue;
+                const schedule = schedules.find((s: any) => s.id === placeholder.scheduled_transaction_id);
+                if (schedule) consider(schedule, placeholder.date, placeholder.amount, placeholder.payee_id, placeholder);
+            }
+            for (const schedule of schedules) {
+                if (!schedule.is_active || schedule.account_id !== transaction.account_id || !schedule.next_due_date) continue;
+                consider(schedule, schedule.next_due_date, schedule.amount, schedule.payee_id);
+            }
+
+            const match = best as { schedule: any; placeholder?: any } | null;
+            if (!match) continue;
+
+            if (match.placeholder) {
+                usedPlaceholders.add(match.placeholder.id);
+                await this.replacePlaceholder(userId, transaction.id, match.placeholder, match.schedule.id);
+            } else {
+                await query(
+                    'UPDATE transactions SET scheduled_transaction_id = $2 WHERE id = $1',
+                    [transaction.id, match.schedule.id]
+                );
+                await this.advance(match.schedule);
+            }
+            matched++;
+        }
+        return matched;
+    }
+
+    /**
+     * Reconciles freshly inserted transactions. Never throws: reconciliation must not fail the
+     * insert that triggered it.
+     */
+    async reconcileNewTransactions(userId: string, transactionIds: string[]): Promise<number> {
+        try {
+            return await this.reconcile(userId, transactionIds);
+        } catch (err) {
+            console.error("Schedule reconciliation failed:", err);
+            return 0;
+        }
+    }
+
+    /**
+     * Whether the category and payee given for a schedule, if any, are the user's.
+     */
+    private async ownsReferences(userId: string, data: ScheduleInput): Promise<boolean> {
+        if (data.category_id) {
+            const { rowCount } = await query('SELECT 1 FROM categories WHERE id = $1 AND user_id = $2', [data.category_id, userId]);
+            if (!rowCount) return false;
+        }
+        if (data.payee_id) {
+            const { rowCount } = await query('SELECT 1 FROM payees WHERE id = $1 AND user_id = $2', [data.payee_id, userId]);
+            if (!rowCount) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Swaps a posted pending transaction for the imported one that fulfils it. The imported one
+     * takes over its attachments, tags and split lines, and its category and notes if the import
+     * brought none.
+     */
+    private async replacePlaceholder(userId: string, transactionId: string, placeholder: any, scheduleId: string): Promise<void> {
+        const client = await pool.connect();
+        try {
+            await client.query("BEGIN");
+            await client.query(
+                "UPDATE transaction_attachments SET transaction_id = $1 WHERE transaction_id = $2 AND user_id = $3",
+                [transactionId, placeholder.id, userId]
+            );
+            if (placeholder.is_split) {
+                await client.query(
+                    "UPDATE transaction_splits SET transaction_id = $1 WHERE transaction_id = $2 AND user_id = $3",
+                    [transactionId, placeholder.id, userId]
+                );
+            }
+            await client.query("DELETE FROM transactions WHERE id = $1 AND user_id = $2", [placeholder.id, userId]);
+            // A split's category is that of its largest line, so it replaces whatever the import had
+            await client.query(
+                `UPDATE transactions SET
+                    scheduled_transaction_id = $2,
+                    category_id = CASE WHEN category_id IS NULL OR $7 THEN $3 ELSE category_id END,
+                    category_source = CASE WHEN category_id IS NULL OR $7 THEN $4 ELSE category_source END,
+                    category_reviewed = CASE WHEN category_id IS NULL OR $7 THEN $5 ELSE category_reviewed END,
+                    notes = COALESCE(notes, $6),
+                    is_split = is_split OR $7,
+                    tags = ARRAY(SELECT DISTINCT unnest(tags || $8::text[]))
+                 WHERE id = $1`,
+                [transactionId, scheduleId, placeholder.category_id, placeholder.category_source,
+                    placeholder.category_reviewed, placeholder.notes, !!placeholder.is_split, placeholder.tags || []]
+            );
+            await client.query("COMMIT");
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    private async post(userId: string, schedule: ScheduledTransaction): Promise<any> {
+        const { rows: [transaction] } = await query(
+            `INSERT INTO transactions (
+                account_id, category_id, payee_id, date, description, amount, status, user_id,
+                category_source, category_reviewed, scheduled_transaction_id
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7, $8, $9, $10)
+             RETURNING *`,
+            [schedule.account_id, schedule.category_id, schedule.payee_id, schedule.next_due_date,
+                schedule.description, schedule.amount, userId, schedule.category_id ? 'manual' : null,
+                !!schedule.category_id, schedule.id]
+        );
+        await this.advance(schedule);
+
+        if (!transaction.payee_id) await this.payeeService.linkNewTransactions(userId, [transaction.id]);
+        if (!transaction.category_id) {
+            const [update] = await this.classificationService.classifyNewTransactions(userId, [transaction.id]);
+            if (update) Object.assign(transaction, update);
+        }
+        return transaction;
+    }
+
+    /**
+     * Moves the schedule on to its following occurrence. Updates `schedule` in place too.
+     */
+    private async advance(schedule: ScheduledTransaction): Promise<void> {
+        schedule.next_due_date = occurrenceAfter(schedule, schedule.next_due_date!);
+        await query(
+            'UPDATE scheduled_transactions SET next_due_date = $2, updated_at = NOW() WHERE id = $1',
+            [schedule.id, schedule.next_due_date]
+        );
+    }
+}
+
+/**
+ * Posts due occurrences of auto-posting schedules on startup and then hourly.
+ */
+export const startSchedulePosting = () => {
+    const service = new ScheduledTransactionService();
+    const run = () => service.postDue()
+        .then((posted) => {
+            if (posted > 0) console.log(`Posted ${posted} scheduled transactions.`);
+        })
+        .catch((err: any) => {
+            console.error("Scheduled posting error:", err);
+        });
+
+    run();
+    setInterval(run, 60 * 60 * 1000);
+};
@@ -35,6 +35,7 @@ const processScraperExports = async (connection: any, scraperRoot: string, conne
                     console.log(`Importing data from ${scraperFile}...`);
                     let importResult;
                     let targetAccountId = connection.account_id;
+                    const importOptions = { source: "scraper", fileName: scraperFile, connectionId };
 
                     // Attempt to resolve specific account from map
                     if (connection.accounts_map) {
@@ -75,13 +76,15 @@ const processScraperExports = async (connection: any, scraperRoot: string, conne
                             fileData,
                             connection.user_id,
                             targetAccountId,
-                            dateFormat
+                            dateFormat,
+                            importOptions
                         );
                     } else {
                         importResult = await importService.importOfx(
                             fileData,
                             connection.user_id,
-                            targetAccountId
+                            targetAccountId,
+                            importOptions
                         );
                     }
 
@@ -0,0 +1,136 @@
+import { query, pool } from "../db";
+
+export interface SplitLine {
+    category_id: string | null;
+    amount: number;
+    memo?: string | null;
+}
+
+export interface TransactionSplit extends SplitLine {
+    id: string;
+    transaction_id: string;
+    category_name: string | null;
+    sort_order: number;
+}
+
+const toCents = (amount: number | string) => Math.round(parseFloat(String(amount)) * 100);
+
+/**
+ * Divides a transaction between several categories. The parent's amount is unchanged and its lines must add up to it.
+ */
+export class SplitService {
+    async getSplits(userId: string, transactionId: string): Promise<TransactionSplit[]> {
+        const { rows } = await query(
+            `SELECT s.id, s.transaction_id, s.category_id, c.name AS category_name, s.amount, s.memo, s.sort_order
+             FROM transaction_splits s
+             LEFT JOIN categories c ON s.category_id = c.id
+             WHERE s.transaction_id = $1 AND s.user_id = $2
+             ORDER BY s.sort_order`,
+            [transactionId, userId]
+        );
+        return rows;
+    }
+
+    /**
+     * Replaces the transaction's split lines. The parent takes the category of the largest line.
+     * Lines read from an import file don't count as the user's edit or review.
+     * Returns null if the transaction doesn't exist.
+     */
+    async setSplits(
+        userId: string,
+        transactionId: string,
+        lines: SplitLine[],
+        { imported = false }: { imported?: boolean } = {},
+    ): Promise<TransactionSplit[] | null> {
+        const { rows: [transaction] } = await query(
+            'SELECT id, amount FROM transactions WHERE id = $1 AND user_id = $2',
+            [transactionId, userId]
+        );
+        if (!transaction) return null;
+
+        await this.validate(userId, transaction.amount, lines);
+
+        const primary = lines
+            .filter(line => line.category_id)
+            .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0];
+
+        const client = await pool.connect();
+        try {
+            await client.query("BEGIN");
+            await client.query('DELETE FROM transaction_splits WHERE transaction_id = $1', [transactionId]);
+            for (const [index, line] of lines.entries()) {
+                await client.query(
+                    `INSERT INTO transaction_splits (transaction_id, user_id, category_id, amount, memo, sort_order)
+                     VALUES ($1, $2, $3, $4, $5, $6)`,
+                    [transactionId, userId, line.category_id || null, line.amount, line.memo?.trim() || null, index]
+                );
+            }
+            await client.query(
+                imported
+                    ? 'UPDATE transactions SET is_split = true, category_id = $2 WHERE id = $1'
+                    : `UPDATE transactions
+                       SET is_split = true, category_id = $2, category_source = 'manual', category_rule_id = NULL,
+                           category_model = NULL, category_confidence = NULL, category_reviewed = true,
+                           suggested_category_id = NULL, edited_at = NOW()
+                       WHERE id = $1`,
+                [transactionId, primary?.category_id || null]
+            );
+            await client.query("COMMIT");
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
+        }
+
+        return this.getSplits(userId, transactionId);
+    }
+
+    /**
+     * Turns split transactions back into ordinary ones. They keep the category they were showing.
+     */
+    async clearSplits(userId: string, transactionIds: string[]): Promise<number> {
+        const { rowCount } = await query(
+            `UPDATE transactions SET is_split = false, edited_at = NOW()
+             WHERE id = ANY($1::uuid[]) AND user_id = $2 AND is_split = true`,
+            [transactionIds, userId]
+        );
+        await query(
+            'DELETE FROM transaction_splits WHERE transaction_id = ANY($1::uuid[]) AND user_id = $2',
+            [transactionIds, userId]
+        );
+        return rowCount || 0;
+    }
+
+    /**
+     * Throws with a message for the user if the lines can't split a transaction of this amount.
+     */
+    async validate(userId: string, parentAmount: number | string, lines: SplitLine[]): Promise<void> {
+        if (!Array.isArray(lines) || lines.length < 2) {
+            throw new Error("A split needs at least two lines");
+        }
+        for (const line of lines) {
+            if (typeof line.amount !== "number" || isNaN(line.amount) || line.amount === 0) {
+                throw new Error("Every split line needs a non-zero amount");
+            }
+        }
+
+        const total = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+        if (total !== toCents(parentAmount)) {
+            throw new Error(
+                `Split lines add up to ${(total / 100).toFixed(2)} but the transaction is ${parseFloat(String(parentAmount)).toFixed(2)}`
+            );
+        }
+
+        const categoryIds = Array.from(new Set(lines.map(line => line.category_id).filter(Boolean)));
+        if (categoryIds.length > 0) {
+            const { rows } = await query(
+                'SELECT id FROM categories WHERE id = ANY($1::uuid[]) AND user_id = $2',
+                [categoryIds, userId]
+            );
+            if (rows.length !== categoryIds.length) {
+                throw new Error("Unknown category in split lines");
+            }
+        }
+    }
+}
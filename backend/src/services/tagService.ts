@@ -0,0 +1,47 @@
+import { query } from "../db";
+
+export interface TagUsage {
+    tag: string;
+    count: number;
+}
+
+/**
+ * Free-form labels on transactions, cutting across the category hierarchy (e.g. "Japan trip 2026", "reimbursable").
+ */
+export class TagService {
+    /**
+     * Every tag the user has used, most used first.
+     */
+    async getTags(userId: string): Promise<TagUsage[]> {
+        const { rows } = await query(
+            `SELECT tag, COUNT(*)::int AS count
+             FROM transactions, unnest(tags) AS tag
+             WHERE user_id = $1
+             GROUP BY tag
+             ORDER BY count DESC, tag`,
+            [userId]
+        );
+        return rows;
+    }
+
+    /**
+     * Trims and de-duplicates tags, reusing the spelling of a tag the user already has
+     * so "kids" doesn't sit alongside "Kids".
+     */
+    async normalize(userId: string, tags: unknown): Promise<string[]> {
+        if (!Array.isArray(tags)) return [];
+        const existing = await this.getTags(userId);
+        const byLower = new Map(existing.map(t => [t.tag.toLowerCase(), t.tag]));
+
+        const result: string[] = [];
+        for (const raw of tags) {
+            const tag = String(raw).trim().replace(/\s+/g, ' ');
+            if (!tag) continue;
+            const canonical = byLower.get(tag.toLowerCase()) || tag;
+            if (!result.some(t => t.toLowerCase() === canonical.toLowerCase())) {
+                result.push(canonical);
+            }
+        }
+        return result;
+    }
+}
@@ -0,0 +1,253 @@
+import { query } from "../db";
+
+/**
+ * The search box query language, e.g.
+ *   desc:woolworths amount:<-50 account:"Amex" category:Groceries after:2026-01-01 tag:trip is:uncategorized
+ * Bare words match the description. Prefix a term with "-" to exclude matches, e.g. -tag:reimbursable.
+ */
+export const SEARCH_FIELDS: { name: string; description: string; values?: string[] }[] = [
+    { name: 'desc', description: 'Description contains text' },
+    { name: 'notes', description: 'Notes contain text' },
+    { name: 'amount', description: 'Amount, e.g. amount:<-50, amount:>=100, amount:10..20' },
+    { name: 'account', description: 'Account name contains text' },
+    { name: 'payee', description: 'Payee name contains text' },
+    { name: 'category', description: 'Category (and its subcategories)' },
+    { name: 'tag', description: 'Has the tag' },
+    { name: 'after', description: 'On or after a date (YYYY-MM-DD or YYYY-MM)' },
+    { name: 'before', description: 'On or before a date (YYYY-MM-DD or YYYY-MM)' },
+    { name: 'on', description: 'On a date or in a month (YYYY-MM-DD or YYYY-MM)' },
+    { name: 'is', description: 'A state of the transaction', values: ['uncategorized', 'categorized', 'transfer', 'split', 'pending', 'cleared', 'failed', 'tagged', 'untagged'] },
+    { name: 'has', description: 'Has notes or attachments', values: ['notes', 'attachments'] },
+];
+
+const FIELD_ALIASES: Record<string, string> = {
+    description: 'desc',
+    amt: 'amount',
+    acct: 'account',
+    merchant: 'payee',
+    cat: 'category',
+    tags: 'tag',
+    note: 'notes',
+    from: 'after',
+    to: 'before',
+};
+
+export interface SearchTerm {
+    field: string | null;   // null for bare text
+    value: string;
+    negated: boolean;
+}
+
+export interface SearchSuggestion {
+    value: string;          // The complete term, ready to replace what the user is typing
+    description?: string;
+}
+
+// An optional "-", an optional "field:", then a quoted or unquoted value. The closing quote is optional
+// so a half-typed query still parses.
+const TOKEN = /(-)?(?:([a-zA-Z]+):)?("(?:[^"\\]|\\.)*"?|\S+)/g;
+
+const unquote = (value: string) =>
+    value.startsWith('"') ? value.replace(/^"/, '').replace(/"$/, '').replace(/\\(.)/g, '$1') : value;
+
+const escapeLike = (value: string) => value.replace(/([%_\\])/g, '\\$1');
+
+export const quoteSearchValue = (value: string) =>
+    /[\s"]/.test(value) ? `"${value.replace(/(["\\])/g, '\\$1')}"` : value;
+
+/**
+ * Splits a query into terms. Unknown fields are kept as bare text, so "re:invoice" still searches for it.
+ */
+export function parseSearchQuery(input: string): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    for (const match of (input || '').matchAll(TOKEN)) {
+        const [raw, negation, rawField, rawValue] = match;
+        const field = rawField ? FIELD_ALIASES[rawField.toLowerCase()] || rawField.toLowerCase() : null;
+        const value = unquote(rawValue).trim();
+
+        if (field && !SEARCH_FIELDS.some(f => f.name === field)) {
+            terms.push({ field: null, value: unquote(raw.replace(/^-/, '')), negated: !!negation });
+        } else if (value) {
+            terms.push({ field, value, negated: !!negation });
+        }
+    }
+    return terms;
+}
+
+// [first day, last day] of a YYYY-MM-DD date or a YYYY-MM month
+const parseDateRange = (field: string, value: string): [string, string] => {
+    // Date.parse rolls days over (2026-02-30 is 2 March), so check the date reads back the same
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value)) {
+        return [value, value];
+    }
+    const month = value.match(/^(\d{4})-(\d{2})$/);
+    if (month && Number(month[2]) >= 1 && Number(month[2]) <= 12) {
+        const lastDay = new Date(Date.UTC(Number(month[1]), Number(month[2]), 0)).toISOString().split("T")[0];
+        return [`${value}-01`, lastDay];
+    }
+    throw new Error(`${field}: expects a date like 2026-01-31 or a month like 2026-01, not "${value}"`);
+};
+
+const parseAmount = (value: string): number => {
+    const amount = Number(value.replace(/[$,]/g, ''));
+    if (value.trim() === '' || isNaN(amount)) {
+        throw new Error(`amount: expects a number, not "${value}"`);
+    }
+    return amount;
+};
+
+const IS_CLAUSES = new Map(Object.entries({
+    uncategorized: 't.category_id IS NULL',
+    uncategorised: 't.category_id IS NULL',
+    categorized: 't.category_id IS NOT NULL',
+    categorised: 't.category_id IS NOT NULL',
+    transfer: 't.is_transfer = true',
+    split: 't.is_split = true',
+    pending: "t.status = 'pending'",
+    cleared: "t.status = 'cleared'",
+    failed: "t.status = 'failed'",
+    tagged: 'cardinality(t.tags) > 0',
+    untagged: 'cardinality(t.tags) = 0',
+}));
+
+const HAS_NOTES = "COALESCE(t.notes, '') <> ''";
+const HAS_ATTACHMENTS = 'EXISTS (SELECT 1 FROM transaction_attachments ta WHERE ta.transaction_id = t.id)';
+const HAS_CLAUSES = new Map([
+    ['notes', HAS_NOTES],
+    ['note', HAS_NOTES],
+    ['attachments', HAS_ATTACHMENTS],
+    ['attachment', HAS_ATTACHMENTS],
+]);
+
+/**
+ * Turns parsed terms into WHERE conditions on `transactions t`, adding their values to `params`.
+ * Assumes $1 is the user's id. Throws with a message for the user if a value is invalid.
+ */
+export function buildSearchClauses(terms: SearchTerm[], params: any[]): string[] {
+    const param = (value: any) => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+    const contains = (value: string) => param(`%${escapeLike(value)}%`);
+
+    return terms.map(term => {
+        const { value } = term;
+        let clause: string;
+
+        switch (term.field) {
+            case null:
+            case 'desc':
+                clause = `t.description ILIKE ${contains(value)}`;
+                break;
+            case 'notes':
+                clause = `COALESCE(t.notes, '') ILIKE ${contains(value)}`;
+                break;
+            case 'amount': {
+                const range = value.match(/^(.+?)\.\.(.+)$/);
+                const comparison = value.match(/^(<=|>=|<|>|=)?(.+)$/)!;
+                if (range) {
+                    clause = `t.amount BETWEEN ${param(parseAmount(range[1]))} AND ${param(parseAmount(range[2]))}`;
+                } else {
+                    clause = `t.amount ${comparison[1] || '='} ${param(parseAmount(comparison[2]))}`;
+                }
+                break;
+            }
+            case 'account':
+                clause = `t.account_id IN (SELECT id FROM accounts WHERE user_id = $1 AND name ILIKE ${contains(value)})`;
+                break;
+            case 'payee':
+                clause = `t.payee_id IN (SELECT id FROM payees WHERE user_id = $1 AND name ILIKE ${contains(value)})`;
+                break;
+            case 'category':
+                // Split transactions match on any of their lines
+                clause = `t.id IN (
+                    WITH RECURSIVE category_tree AS (
+                        SELECT id FROM categories WHERE user_id = $1 AND lower(name) = lower(${param(value)})
+                        UNION ALL
+                        SELECT c.id FROM categories c
+                        JOIN category_tree ct ON c.parent_id = ct.id
+                    )
+                    SELECT transaction_id FROM transaction_lines
+                    WHERE user_id = $1 AND category_id IN (SELECT id FROM category_tree)
+                )`;
+                break;
+            case 'tag':
+                clause = `EXISTS (SELECT 1 FROM unnest(t.tags) AS tag WHERE lower(tag) = lower(${param(value)}))`;
+                break;
+            case 'after':
+                clause = `t.date >= ${param(parseDateRange('after', value)[0])}::date`;
+                break;
+            case 'before':
+                clause = `t.date <= ${param(parseDateRange('before', value)[1])}::date`;
+                break;
+            case 'on': {
+                const [start, end] = parseDateRange('on', value);
+                clause = `t.date BETWEEN ${param(start)}::date AND ${param(end)}::date`;
+                break;
+            }
+            case 'is':
+                clause = IS_CLAUSES.get(value.toLowerCase()) || '';
+                if (!clause) throw new Error(`is: doesn't know "${value}"`);
+                break;
+            case 'has':
+                clause = HAS_CLAUSES.get(value.toLowerCase()) || '';
+                if (!clause) throw new Error(`has: doesn't know "${value}"`);
+                break;
+            default:
+                throw new Error(`Unknown search field "${term.field}"`);
+        }
+
+        // Not just NOT: a clause on a nullable column (payee:, say) is NULL rather than false
+        // for rows without a value, and excluding a payee mustn't hide unlinked transactions
+        return term.negated ? `(${clause}) IS NOT TRUE` : clause;
+    });
+}
+
+/**
+ * Suggests completions for the term being typed: field names, then the user's accounts,
+ * payees, categories and tags, or the fixed values of is: and has:.
+ */
+export class TransactionSearchService {
+    async suggest(userId: string, partial: string, limit: number = 10): Promise<SearchSuggestion[]> {
+        const match = (partial || '').match(/^(-?)(?:([a-zA-Z]+):)?"?(.*)$/)!;
+        const [, negation, rawField, rawValue] = match;
+        const prefix = rawValue.replace(/"$/, '').toLowerCase();
+
+        if (!rawField) {
+            return SEARCH_FIELDS
+                .filter(f => f.name.startsWith(prefix))
+                .map(f => ({ value: `${negation}${f.name}:`, description: f.description }));
+        }
+
+        const field = FIELD_ALIASES[rawField.toLowerCase()] || rawField.toLowerCase();
+        const definition = SEARCH_FIELDS.find(f => f.name === field);
+        let values: string[] = [];
+
+        if (definition?.values) {
+            values = definition.values.filter(v => v.startsWith(prefix));
+        } else if (field === 'account') {
+            values = await this.names('SELECT name FROM accounts WHERE user_id = $1', userId, prefix, limit);
+        } else if (field === 'payee') {
+            values = await this.names('SELECT name FROM payees WHERE user_id = $1', userId, prefix, limit);
+        } else if (field === 'category') {
+            values = await this.names('SELECT name FROM categories WHERE user_id = $1', userId, prefix, limit);
+        } else if (field === 'tag') {
+            values = await this.names('SELECT unnest(tags) AS name FROM transactions WHERE user_id = $1', userId, prefix, limit);
+        }
+
+        return values.slice(0, limit).map(value => ({ value: `${negation}${field}:${quoteSearchValue(value)}` }));
+    }
+
+    // Names from a query returning a `name` column, those starting with the prefix first
+    private async names(sql: string, userId: string, prefix: string, limit: number): Promise<string[]> {
+        const { rows } = await query(
+            `SELECT name FROM (${sql}) AS options
+             WHERE name ILIKE $2
+             GROUP BY name
+             ORDER BY name ILIKE $3 DESC, name
+             LIMIT $4`,
+            [userId, `%${escapeLike(prefix)}%`, `${escapeLike(prefix)}%`, limit]
+        );
+        return rows.map((r: any) => r.name);
+    }
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from "crypto";
+import { query } from "../db";
+
+// How far apart the two sides of a transfer can post (e.g. an overnight or weekend transfer)
+const MAX_DAY_GAP = 4;
+
+export interface TransferMatchResult {
+    linked: number;     // Unambiguous pairs linked automatically
+    flagged: number;    // Pairs left for review because a transaction has more than one possible partner
+}
+
+/**
+ * Pairs up the two sides of transfers between the user's accounts: an amount leaving one account
+ * and the same amount arriving in another within a few days. Linked pairs share a transfer_id.
+ */
+export class TransferMatchService {
+    async match(userId: string): Promise<TransferMatchResult> {
+        const { rows: pairs } = await query(
+            `SELECT o.id AS outflow_id, i.id AS inflow_id, ABS(i.date - o.date) AS day_gap
+             FROM transactions o
+             JOIN transactions i
+                ON i.user_id = o.user_id
+                AND i.account_id <> o.account_id
+                AND i.amount = -o.amount
+                AND ABS(i.date - o.date) <= $2
+             WHERE o.user_id = $1
+                AND o.amount < 0
+                AND o.transfer_id IS NULL AND i.transfer_id IS NULL
+                AND o.is_split = false AND i.is_split = false
+                AND NOT EXISTS (
+                    SELECT 1 FROM transfer_candidates c
+                    WHERE c.outflow_id = o.id AND c.inflow_id = i.id
+                )`,
+            [userId, MAX_DAY_GAP]
+        );
+
+        // Transactions already waiting for review stay ambiguous until the user decides
+        const { rows: pending } = await query(
+            "SELECT outflow_id, inflow_id FROM transfer_candidates WHERE user_id = $1 AND status = 'pending'",
+            [userId]
+        );
+        const inReview = new Set<string>(pending.flatMap((c: any) => [c.outflow_id, c.inflow_id]));
+
+        const partners = new Map<string, number>();
+        for (const pair of pairs) {
+            partners.set(pair.outflow_id, (partners.get(pair.outflow_id) || 0) + 1);
+            partners.set(pair.inflow_id, (partners.get(pair.inflow_id) || 0) + 1);
+        }
+
+        const result: TransferMatchResult = { linked: 0, flagged: 0 };
+        for (const pair of pairs) {
+            const unambiguous = partners.get(pair.outflow_id) === 1
+                && partners.get(pair.inflow_id) === 1
+                && !inReview.has(pair.outflow_id)
+                && !inReview.has(pair.inflow_id);
+
+            if (unambiguous) {
+                await this.link(userId, pair.outflow_id, pair.inflow_id, false);
+            }
+            await query(
+                `INSERT INTO transfer_candidates (user_id, outflow_id, inflow_id, day_gap, status, auto_linked, resolved_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7)
+                 ON CONFLICT (outflow_id, inflow_id) DO NOTHING`,
+                [userId, pair.outflow_id, pair.inflow_id, pair.day_gap,
+                    unambiguous ? 'linked' : 'pending', unambiguous, unambiguous ? new Date() : null]
+            );
+            if (unambiguous) result.linked++;
+            else result.flagged++;
+        }
+
+        return result;
+    }
+
+    /**
+     * Possible pairs awaiting review, with both transactions and their accounts.
+     */
+    async getPending(userId: string): Promise<any[]> {
+        const sql = `
+            SELECT
+                c.id,
+                c.day_gap,
+                c.created_at,
+                json_build_object(
+                    'id', o.id, 'date', o.date, 'description', o.description, 'amount', o.amount,
+                    'account_id', o.account_id, 'account', oa.name
+                ) as outflow,
+                json_build_object(
+                    'id', i.id, 'date', i.date, 'description', i.description, 'amount', i.amount,
+                    'account_id', i.account_id, 'account', ia.name
+                ) as inflow
+            FROM transfer_candidates c
+            JOIN transactions o ON c.outflow_id = o.id
+            JOIN transactions i ON c.inflow_id = i.id
+            JOIN accounts oa ON o.account_id = oa.id
+            JOIN accounts ia ON i.account_id = ia.id
+            WHERE c.user_id = $1 AND c.status = 'pending'
+            ORDER BY o.date DESC, o.id, c.day_gap
+        `;
+        const { rows } = await query(sql, [userId]);
+        return rows;
+    }
+
+    /**
+     * Links a pair the user picked from review. Other pending pairs involving either transaction
+     * are dismissed, since each can only be one side of one transfer.
+     * Returns false if the candidate doesn't exist, is no longer pending, or either side was linked since.
+     */
+    async linkCandidate(userId: string, candidateId: string): Promise<boolean> {
+        const { rows: [candidate] } = await query(
+            `SELECT c.outflow_id, c.inflow_id
+             FROM transfer_candidates c
+             JOIN transactions o ON c.outflow_id = o.id
+             JOIN transactions i ON c.inflow_id = i.id
+             WHERE c.id = $1 AND c.user_id = $2 AND c.status = 'pending'
+                AND o.transfer_id IS NULL AND i.transfer_id IS NULL`,
+            [candidateId, userId]
+        );
+        if (!candidate) return false;
+
+        await this.link(userId, candidate.outflow_id, candidate.inflow_id, true);
+        await query(
+            "UPDATE transfer_candidates SET status = 'linked', resolved_at = NOW() WHERE id = $1",
+            [candidateId]
+        );
+        await query(
+            `UPDATE transfer_candidates SET status = 'dismissed', resolved_at = NOW()
+             WHERE user_id = $1 AND status = 'pending' AND id <> $2
+                AND (outflow_id = ANY($3::uuid[]) OR inflow_id = ANY($3::uuid[]))`,
+            [userId, candidateId, [candidate.outflow_id, candidate.inflow_id]]
+        );
+        return true;
+    }
+
+    async dismissCandidate(userId: string, candidateId: string): Promise<boolean> {
+        const { rowCount } = await query(
+            `UPDATE transfer_candidates SET status = 'dismissed', resolved_at = NOW()
+             WHERE id = $1 AND user_id = $2 AND status = 'pending'`,
+            [candidateId, userId]
+        );
+        return (rowCount || 0) > 0;
+    }
+
+    /**
+     * Breaks up the transfer a transaction belongs to, and remembers its pairs as dismissed so
+     * the matcher doesn't link them again. Returns the transactions that were unlinked.
+     */
+    async unlink(userId: string, transactionId: string): Promise<{ id: string; is_transfer: boolean; transfer_id: null }[]> {
+        const { rows: [transaction] } = await query(
+            "SELECT transfer_id FROM transactions WHERE id = $1 AND user_id = $2",
+            [transactionId, userId]
+        );
+        if (!transaction?.transfer_id) return [];
+
+        const { rows } = await query(
+            `UPDATE transactions SET is_transfer = false, transfer_id = NULL, edited_at = NOW()
+             WHERE transfer_id = $1 AND user_id = $2
+             RETURNING id, is_transfer, transfer_id`,
+            [transaction.transfer_id, userId]
+        );
+
+        await query(
+            `INSERT INTO transfer_candidates (user_id, outflow_id, inflow_id, day_gap, status, resolved_at)
+             SELECT $1, o.id, i.id, ABS(i.date - o.date), 'dismissed', NOW()
+             FROM transactions o
+             JOIN transactions i ON i.amount = -o.amount
+             WHERE o.id = ANY($2::uuid[]) AND i.id = ANY($2::uuid[]) AND o.amount < 0
+             ON CONFLICT (outflow_id, inflow_id) DO UPDATE SET status = 'dismissed', resolved_at = NOW()`,
+            [userId, rows.map((r: any) => r.id)]
+        );
+
+        return rows;
+    }
+
+    // Only the user linking a pair counts as an edit; automatic matches leave edited_at alone
+    private async link(userId: string, outflowId: string, inflowId: string, byUser: boolean): Promise<void> {
+        await query(
+            `UPDATE transactions SET is_transfer = true, transfer_id = $3,
+                edited_at = CASE WHEN $4::boolean THEN NOW() ELSE edited_at END
+             WHERE id = ANY($1::uuid[]) AND user_id = $2`,
+            [[outflowId, inflowId], userId, randomUUID(), byUser]
+        );
+    }
+}
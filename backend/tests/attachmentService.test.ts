@@ -0,0 +1,124 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import { fakeDb, queriesMatching } from "./db";
+import { AttachmentService } from "../src/services/attachmentService";
+import { LocalAttachmentStorage, S3AttachmentStorage } from "../src/services/attachmentStorage";
+import { ImportBatchService } from "../src/services/importBatchService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+vi.mock("axios", () => ({ default: { request: vi.fn() } }));
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "attachments-"));
+process.env.ATTACHMENTS_DIR = root;
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+const receipt = { originalname: "receipt.pdf", mimetype: "application/pdf", buffer: Buffer.from("%PDF-1.7") };
+
+describe("LocalAttachmentStorage", () => {
+    const storage = new LocalAttachmentStorage(root);
+
+    it("keeps files under its directory", async () => {
+        await storage.put("u1/t1/a1", Buffer.from("receipt"));
+
+        expect((await storage.get("u1/t1/a1")).toString()).toBe("receipt");
+        await storage.delete("u1/t1/a1");
+        await expect(storage.get("u1/t1/a1")).rejects.toThrow();
+    });
+
+    it("refuses keys that point outside it", async () => {
+        await expect(storage.get("../etc/passwd")).rejects.toThrow("Invalid attachment key: ../etc/passwd");
+    });
+});
+
+describe("S3AttachmentStorage", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("addresses objects path-style and signs the request", async () => {
+        vi.mocked(axios.request).mockResolvedValue({ data: new ArrayBuffer(0) } as any);
+        const storage = new S3AttachmentStorage({
+            endpoint: "https://minio.local:9000/", region: "ap-southeast-2", bucket: "receipts", accessKeyId: "AKID", secretAccessKey: "secret",
+        });
+
+        await storage.put("u1/t1/it's (1)", Buffer.from("receipt"), "image/png");
+
+        const [request] = vi.mocked(axios.request).mock.calls[0] as any[];
+        expect(request.method).toBe("PUT");
+        expect(request.url).toBe("https://minio.local:9000/receipts/u1/t1/it%27s%20%281%29");
+        expect(request.headers["content-type"]).toBe("image/png");
+        expect(request.headers.Authorization).toMatch(
+            /^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/ap-southeast-2\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+        );
+    });
+});
+
+describe("AttachmentService", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("stores an upload and records it against the transaction", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("SELECT id FROM transactions")) return [{ id: "t1" }];
+            if (sql.includes("INSERT INTO transaction_attachments")) return [{ id: "a1", filename: "receipt.pdf" }];
+        });
+
+        expect(await new AttachmentService().add("u1", "t1", receipt)).toEqual({ id: "a1", filename: "receipt.pdf" });
+
+        const [insert] = queriesMatching(queries, "INSERT INTO transaction_attachments");
+        expect(insert.params.slice(0, 5)).toEqual(["t1", "u1", "receipt.pdf", "application/pdf", 8]);
+        expect(insert.params[6]).toBe("local");
+        expect(fs.readFileSync(path.join(root, insert.params[7])).toString()).toBe("%PDF-1.7");
+    });
+
+    it("doesn't attach to another user's transaction", async () => {
+        const queries = fakeDb();
+
+        expect(await new AttachmentService().add("u1", "t-other", receipt)).toBeNull();
+        expect(queriesMatching(queries, "INSERT")).toHaveLength(0);
+    });
+
+    it.each([
+        ["a web page", { ...receipt, mimetype: "text/html" }, "Only images and PDFs can be attached"],
+        ["an empty file", { ...receipt, buffer: Buffer.alloc(0) }, "The file is empty"],
+    ])("rejects %s", async (_name, file, message) => {
+        fakeDb(() => [{ id: "t1" }]);
+
+        await expect(new AttachmentService().add("u1", "t1", file)).rejects.toThrow(message);
+    });
+
+    it("removes the stored file if it can't be recorded", async () => {
+        fakeDb((sql) => {
+            if (sql.includes("SELECT id FROM transactions")) return [{ id: "t2" }];
+            if (sql.includes("INSERT")) throw new Error("connection lost");
+        });
+
+        await expect(new AttachmentService().add("u1", "t2", receipt)).rejects.toThrow("connection lost");
+        expect(fs.readdirSync(path.join(root, "u1", "t2"))).toEqual([]);
+    });
+
+    it("removes the files of transactions being deleted, carrying on past one that can't be removed", async () => {
+        const storage = new LocalAttachmentStorage(root);
+        await storage.put("u1/t3/a1", Buffer.from("one"));
+        const queries = fakeDb(() => [
+            { storage: "local", storage_key: "u1/t3/../../../outside" },
+            { storage: "local", storage_key: "u1/t3/a1" },
+        ]);
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await new AttachmentService().deleteForTransactions("u1", ["t3"]);
+
+        expect(queries[0].params).toEqual([["t3"], "u1"]);
+        expect(error).toHaveBeenCalledWith("Failed to remove attachment file u1/t3/../../../outside:", expect.any(Error));
+        expect(fs.existsSync(path.join(root, "u1/t3/a1"))).toBe(false);
+    });
+
+    it("removes attachment files when an import is rolled back", async () => {
+        const remove = vi.spyOn(AttachmentService.prototype, "deleteForTransactions").mockResolvedValue();
+        fakeDb((sql) => sql.includes("SELECT id FROM transactions") ? [{ id: "t1" }, { id: "t2" }] : []);
+
+        await new ImportBatchService().rollbackBatch("u1", "b1");
+
+        expect(remove).toHaveBeenCalledWith("u1", ["t1", "t2"]);
+    });
+});
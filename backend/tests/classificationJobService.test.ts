@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { ClassificationJobService } from "../src/services/classificationJobService";
+import { ClassificationService } from "../src/services/classificationService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const job = (overrides: Record<string, any> = {}) => ({
+    id: "j1", status: "queued", trigger: "manual", only_rules: true, total: 0, processed: 0, cancel_requested: false,
+    created_at: "2026-10-19T10:00:00Z", ...overrides,
+});
+
+const transactions = (count: number, from = 0) =>
+    Array.from({ length: count }, (_, i) => ({ id: `t${String(from + i).padStart(3, "0")}`, description: "COFFEE", amount: "-4.50" }));
+
+// Serves the backlog a page at a time after the cursor, until the job finishes or is cancelled
+const runJob = async (backlog: any[], options: { trigger?: "manual" | "auto"; cancelAfter?: number } = {}) => {
+    let pages = 0;
+    const queries = fakeDb((sql, params) => {
+        if (sql.includes("INSERT INTO classification_jobs")) return [job({ trigger: params[1], only_rules: params[2] })];
+        if (sql.includes("COUNT(*)::int AS remaining")) return [{ remaining: backlog.length }];
+        if (sql.includes("SELECT cancel_requested")) return [{ cancel_requested: options.cancelAfter !== undefined && pages >= options.cancelAfter }];
+        if (sql.includes("SELECT * FROM transactions")) {
+            const [cursor, limit] = params.slice(-2);
+            pages++;
+            return backlog.filter(t => !cursor || t.id > cursor).slice(0, limit);
+        }
+    });
+    await new ClassificationJobService().startJob("u1", { onlyRules: true, trigger: options.trigger });
+    await vi.waitFor(() => expect(queriesMatching(queries, "finished_at = NOW()")).toHaveLength(1));
+    return queries;
+};
+
+describe("ClassificationJobService", () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.spyOn(ClassificationService.prototype, "classifyUncategorized").mockImplementation(async (_userId, page) => ({
+            classified_rules: page.length - 1, classified_local: 1, classified_ai: 0, needs_review: 0,
+        }));
+    });
+
+    it("works through the whole backlog a page at a time and adds up what each page classified", async () => {
+        const queries = await runJob(transactions(250));
+
+        expect(vi.mocked(ClassificationService.prototype.classifyUncategorized).mock.calls.map(c => c[1].length)).toEqual([100, 100, 50]);
+        expect(queriesMatching(queries, "processed = processed + $2").map(q => q.params.slice(1, 4))).toEqual([
+            [100, 99, 1], [100, 99, 1], [50, 49, 1],
+        ]);
+        expect(queriesMatching(queries, "total = processed + $2")[0].params).toEqual(["j1", 250]);
+        expect(queriesMatching(queries, "finished_at = NOW()")[0].params).toEqual(["j1", "completed", null]);
+    });
+
+    it("stops after the page it's on when cancelled", async () => {
+        const queries = await runJob(transactions(250), { cancelAfter: 1 });
+
+        expect(ClassificationService.prototype.classifyUncategorized).toHaveBeenCalledTimes(1);
+        expect(queriesMatching(queries, "finished_at = NOW()")[0].params[1]).toBe("cancelled");
+    });
+
+    it("records why a job failed", async () => {
+        vi.mocked(ClassificationService.prototype.classifyUncategorized).mockRejectedValue(new Error("categories missing"));
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        const queries = await runJob(transactions(5));
+
+        expect(queriesMatching(queries, "finished_at = NOW()")[0].params).toEqual(["j1", "failed", "categories missing"]);
+    });
+
+    it("only retries rows the LLM already answered for when the user started the job", async () => {
+        const manual = await runJob(transactions(1), { trigger: "manual" });
+        const auto = await runJob(transactions(1), { trigger: "auto" });
+
+        const backlogQuery = (queries: any[]) => queriesMatching(queries, "SELECT * FROM transactions")[0];
+        expect(backlogQuery(manual).sql).toContain("classification_attempted_at IS NULL OR ($2::timestamptz IS NOT NULL AND classification_attempted_at < $2)");
+        expect(backlogQuery(manual).params[1]).toBe("2026-10-19T10:00:00Z");
+        expect(backlogQuery(auto).params[1]).toBeNull();
+    });
+
+    it("fails jobs a restart interrupted", async () => {
+        const queries = fakeDb();
+
+        await new ClassificationJobService().failInterruptedJobs();
+
+        expect(queries[0].sql).toContain("status = 'failed', last_error = 'System restart: job interrupted'");
+        expect(queries[0].sql).toContain("WHERE status IN ('queued', 'running')");
+    });
+});
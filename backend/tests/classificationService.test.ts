@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { ClassificationService } from "../src/services/classificationService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+describe("ClassificationService.acceptReview", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("returns the rows it confirmed", async () => {
+        fakeDb((sql) => sql.includes("UPDATE transactions") ? [{ id: "t1", category_id: "c1" }] : []);
+
+        const accepted = await new ClassificationService().acceptReview("u1", ["t1"]);
+
+        expect(accepted).toEqual([{ id: "t1", category_id: "c1" }]);
+    });
+
+    it.each(["rule", "payee", "local", "llm"])("confirms categories applied by '%s'", async (source) => {
+        const queries = fakeDb();
+
+        await new ClassificationService().acceptReview("u1", ["t1"]);
+
+        const [update] = queriesMatching(queries, "UPDATE transactions", "category_reviewed = true");
+        const sources = update.sql.match(/category_source IN \(([^)]*)\)/)![1];
+        expect(sources).toContain(`'${source}'`);
+        expect(update.params).toEqual([["t1"], "u1"]);
+    });
+
+    it("never confirms a manual choice as the classifier's", async () => {
+        const queries = fakeDb();
+
+        await new ClassificationService().acceptReview("u1", ["t1"]);
+
+        const [update] = queriesMatching(queries, "UPDATE transactions");
+        expect(update.sql.match(/category_source IN \(([^)]*)\)/)![1]).not.toContain("'manual'");
+    });
+});
@@ -0,0 +1,28 @@
+import { vi } from "vitest";
+import { pool, query } from "../src/db";
+
+export interface RecordedQuery {
+    sql: string;
+    params: any[];
+}
+
+/**
+ * Answers the services' queries, including those on a pooled client inside a transaction,
+ * with the rows `respond` returns, and records every query made. Tests mock "../src/db" with
+ * `vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }))` first.
+ */
+export const fakeDb = (respond: (sql: string, params: any[]) => any[] | void = () => []): RecordedQuery[] => {
+    const queries: RecordedQuery[] = [];
+    const run = async (sql: string, params: any[] = []) => {
+        queries.push({ sql, params });
+        const rows = respond(sql, params) || [];
+        return { rows, rowCount: rows.length };
+    };
+    vi.mocked(query).mockImplementation(run as any);
+    vi.mocked(pool.connect).mockImplementation((async () => ({ query: run, release: () => undefined })) as any);
+    return queries;
+};
+
+// The queries whose SQL contains all of the given fragments
+export const queriesMatching = (queries: RecordedQuery[], ...fragments: string[]): RecordedQuery[] =>
+    queries.filter(q => fragments.every(fragment => q.sql.includes(fragment)));
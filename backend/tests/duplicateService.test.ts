@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { DuplicateService, descriptionSimilarity, normalizeDescription } from "../src/services/duplicateService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+describe("normalizeDescription", () => {
+    it.each([
+        ["EFTPOS PURCHASE WOOLWORTHS 1234 BONDI NSW", "woolworths bondi"],
+        ["Visa Debit - Netflix.com AU", "netflix com"],
+        ["TAP & PAY 4567123412341234 Cafe 21", "cafe 21"],
+        ["", ""],
+    ])("reduces %j to %j", (description, normalised) => {
+        expect(normalizeDescription(description)).toBe(normalised);
+    });
+});
+
+describe("descriptionSimilarity", () => {
+    it.each([
+        ["WOOLWORTHS 1234 BONDI", "EFTPOS WOOLWORTHS BONDI NSW", 1],
+        ["Netflix.com", "NETFLIX.COM 8123 AU", 1],
+        ["Coles", "Aldi", 0],
+        ["1234", "Coles", 0],
+    ])("scores %j against %j as %d", (a, b, score) => {
+        expect(descriptionSimilarity(a, b)).toBe(score);
+    });
+
+    it("scores partly matching descriptions between 0 and 1", () => {
+        const score = descriptionSimilarity("Uber Trip Sydney", "Uber Eats Sydney");
+        expect(score).toBeGreaterThan(0.6);
+        expect(score).toBeLessThan(1);
+    });
+});
+
+describe("DuplicateService.detect", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("flags same-amount pairs with similar descriptions, and only those", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("FROM transactions a")) {
+                return [
+                    { a_id: "t1", b_id: "t2", account_id: "a1", a_description: "WOOLWORTHS 1234", b_description: "EFTPOS WOOLWORTHS" },
+                    { a_id: "t3", b_id: "t4", account_id: "a1", a_description: "Coles", b_description: "Shell Service Station" },
+                ];
+            }
+            if (sql.includes("INSERT INTO duplicate_candidates")) return [{}];
+        });
+
+        expect(await new DuplicateService().detect("u1", { batchId: "b1" })).toBe(1);
+        expect(queriesMatching(queries, "INSERT INTO duplicate_candidates")[0].params).toEqual(["u1", "a1", "t1", "t2", "1.000"]);
+        // Rows from the same import batch aren't compared
+        expect(queriesMatching(queries, "FROM transactions a")[0].params).toEqual(["u1", 3, "b1"]);
+    });
+});
+
+describe("DuplicateService.merge", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    const candidate = { id: "d1", transaction_a_id: "t1", transaction_b_id: "t2" };
+
+    const merge = async (removed: Record<string, any> = {}) => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("FROM duplicate_candidates")) return [{ id: "d1" }];
+            if (sql.includes("FROM transactions WHERE id = $1")) {
+                return [{ provider_transaction_id: "fit-2", category_id: "groceries", notes: "Receipt", transfer_id: null, ...removed }];
+            }
+        });
+        const merged = await new DuplicateService().merge("u1", candidate, "t1");
+        return { merged, queries };
+    };
+
+    it("keeps one transaction, gives it the other's category and notes, and deletes the other", async () => {
+        const { merged, queries } = await merge();
+
+        expect(merged).toBe(true);
+        const sql = queries.map(q => q.sql);
+        expect(sql[0]).toBe("BEGIN");
+        expect(sql[sql.length - 1]).toBe("COMMIT");
+        expect(queriesMatching(queries, "COALESCE(category_id, $2)")[0].params).toEqual(["t1", "groceries", "Receipt", "u1"]);
+        expect(queriesMatching(queries, "DELETE FROM transactions")[0].params).toEqual(["t2", "u1"]);
+        // Its ID is remembered so the next import doesn't bring it back
+        expect(queriesMatching(queries, "status = 'merged'")[0].params).toEqual(["d1", "fit-2"]);
+    });
+
+    it("moves the removed transaction's attachments to the one kept", async () => {
+        const { queries } = await merge();
+
+        expect(queriesMatching(queries, "UPDATE transaction_attachments")[0].params).toEqual(["t1", "t2", "u1"]);
+    });
+
+    it("stops the removed transaction's transfer partner being a transfer", async () => {
+        const { queries } = await merge({ transfer_id: "x1" });
+
+        expect(queriesMatching(queries, "is_transfer = false")[0].params).toEqual(["x1", "t2", "u1"]);
+    });
+
+    it("does nothing when the pair was already resolved", async () => {
+        const queries = fakeDb();
+
+        expect(await new DuplicateService().merge("u1", candidate, "t1")).toBe(false);
+        expect(queriesMatching(queries, "DELETE")).toHaveLength(0);
+        expect(queries.map(q => q.sql)).toContain("ROLLBACK");
+    });
+});
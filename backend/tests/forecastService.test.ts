@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./db";
+import { ForecastService } from "../src/services/forecastService";
+import { RecurringService } from "../src/services/recurringService";
+import { ScheduledTransactionService } from "../src/services/scheduledTransactionService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const checking = {
+    id: "checking", name: "Checking", type: "checking", is_active: true, include_in_budget: true,
+    starting_balance: "0", balance: "1200.00", interest_rate: "0", interest_start_date: null, interest_start: null,
+};
+const loan = {
+    id: "loan", name: "Car Loan", type: "loan", is_active: true, include_in_budget: false,
+    starting_balance: "-10000", balance: "-9000.00", interest_rate: "6", interest_start_date: "2020-01-01",
+    interest_start: "2020-01-01", interest_type: "compound", last_interest_applied_at: "2026-10-01",
+};
+const rent = {
+    scheduled_transaction_id: "rent", account_id: "checking", category_id: "housing", category: "Housing",
+    description: "Rent", amount: "-1000.00", date: "2026-10-22", overdue: false,
+};
+const series = (overrides: Record<string, any>) => ({
+    id: "s", payee_id: "p", payee: "Payee", account_id: "checking", category_id: null, cadence: "monthly",
+    expected_amount: "-10.00", next_expected_date: "2026-10-25", status: "active", ...overrides,
+});
+
+interface Setup {
+    accounts?: any[];
+    future?: any[];
+    budgets?: any[];
+    spent?: any[];
+    userThreshold?: string | null;
+    projected?: any[];
+    series?: any[];
+}
+
+const forecast = (setup: Setup, months = 1, threshold?: number | null) => {
+    fakeDb((sql) => {
+        if (sql.includes("forecast_low_balance_threshold")) return [{ forecast_low_balance_threshold: setup.userThreshold ?? null }];
+        if (sql.includes("FROM accounts a")) return (setup.accounts || [checking]).map(a => ({ ...a }));
+        if (sql.includes("date > $2")) return setup.future || [];
+        if (sql.includes("FROM budgets")) return setup.budgets || [];
+        if (sql.includes("AS spent")) return setup.spent || [];
+    });
+    vi.spyOn(ScheduledTransactionService.prototype, "getProjected").mockResolvedValue(setup.projected || [] as any);
+    vi.spyOn(ScheduledTransactionService.prototype, "getSchedules").mockResolvedValue(
+        (setup.projected || []).map((p) => ({ id: p.scheduled_transaction_id, account_id: p.account_id, payee_id: null, amount: p.amount, is_active: true })) as any
+    );
+    vi.spyOn(RecurringService.prototype, "getSeries").mockResolvedValue(setup.series || [] as any);
+    return new ForecastService().forecast("u1", months, threshold);
+};
+
+const balanceOn = (result: Awaited<ReturnType<typeof forecast>>, accountId: string, date: string) =>
+    result.accounts.find(a => a.account_id === accountId)!.balances.find(b => b.date === date)!.balance;
+
+describe("ForecastService.forecast", () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(new Date("2026-10-19T12:00:00"));
+    });
+    afterEach(() => vi.useRealTimers());
+
+    it("projects each day from today's balance for the requested months", async () => {
+        const result = await forecast({}, 2);
+
+        expect(result.start_date).toBe("2026-10-19");
+        expect(result.end_date).toBe("2026-12-19");
+        expect(result.total).toHaveLength(62);
+        expect(result.total[0]).toEqual({ date: "2026-10-19", balance: 1200 });
+        expect(result.accounts[0]).toMatchObject({ opening_balance: 1200, closing_balance: 1200, below_zero_date: null });
+    });
+
+    it("moves future-dated transactions from today's balance to their own day", async () => {
+        const result = await forecast({
+            future: [{ account_id: "checking", date: "2026-10-24", description: "Insurance", amount: "-100.00", category_id: null }],
+        });
+
+        expect(result.accounts[0].opening_balance).toBe(1300);
+        expect(balanceOn(result, "checking", "2026-10-23")).toBe(1300);
+        expect(balanceOn(result, "checking", "2026-10-24")).toBe(1200);
+    });
+
+    it("adds scheduled and recurring transactions, but not a series that's already scheduled", async () => {
+        const result = await forecast({
+            projected: [rent],
+            series: [
+                series({ id: "landlord", payee: "Landlord", expected_amount: "-1000.00", next_expected_date: "2026-10-22" }),
+                series({ id: "netflix", payee: "Netflix", expected_amount: "-15.99", next_expected_date: "2026-10-25" }),
+            ],
+        });
+
+        expect(result.events.map(e => [e.date, e.description, e.source])).toEqual([
+            ["2026-10-22", "Rent", "scheduled"],
+            ["2026-10-25", "Netflix", "recurring"],
+        ]);
+        expect(balanceOn(result, "checking", "2026-10-25")).toBe(184.01);
+    });
+
+    it("expects overdue recurring payments tomorrow, once", async () => {
+        const result = await forecast({
+            series: [series({ payee: "Gym", expected_amount: "-50.00", next_expected_date: "2026-09-30", status: "missed" })],
+        });
+
+        expect(result.events.map(e => e.date)).toEqual(["2026-10-20", "2026-10-30"]);
+    });
+
+    it("spreads what's left of the month's budget over the remaining days", async () => {
+        const result = await forecast({
+            budgets: [{ category_id: "groceries", month: "2026-10-01", amount: "400.00" }],
+            spent: [{ category_id: "groceries", spent: "-100.00" }],
+        });
+
+        // 300 left over the 12 days to the end of October, then 400 over November's 30
+        expect(balanceOn(result, "checking", "2026-10-20")).toBe(1175);
+        expect(balanceOn(result, "checking", "2026-10-31")).toBe(900);
+        expect(balanceOn(result, "checking", "2026-11-01")).toBeCloseTo(886.67, 2);
+        expect(result.accounts[0].budgeted_spend).toBeCloseTo(300 + 400 * 19 / 30, 2);
+    });
+
+    it("charges loan interest on the 1st of each month", async () => {
+        const result = await forecast({ accounts: [checking, loan] }, 2);
+
+        const interest = result.events.filter(e => e.source === "interest");
+        expect(interest.map(e => [e.date, e.amount])).toEqual([["2026-11-01", -45], ["2026-12-01", -45.23]]);
+        expect(balanceOn(result, "loan", "2026-12-01")).toBe(-9090.23);
+    });
+
+    it("flags the first day an account drops below zero or the user's threshold", async () => {
+        const result = await forecast({ projected: [rent], userThreshold: "500.00" });
+
+        expect(result.threshold).toBe(500);
+        expect(result.first_below_threshold).toEqual({ account_id: "checking", account: "Checking", date: "2026-10-22", balance: 200 });
+        expect(result.first_below_zero).toBeNull();
+    });
+
+    it("doesn't flag loans and credit cards for sitting below zero", async () => {
+        const result = await forecast({ accounts: [checking, loan] }, 1, 0);
+
+        expect(result.first_below_zero).toBeNull();
+        expect(result.first_below_threshold).toBeNull();
+        expect(result.accounts.find(a => a.account_id === "loan")!.lowest_balance).toBe(-9045);
+    });
+
+    it("lets an explicit null threshold override the user's setting", async () => {
+        const result = await forecast({ projected: [rent], userThreshold: "500.00" }, 1, null);
+
+        expect(result.threshold).toBeNull();
+        expect(result.first_below_threshold).toBeNull();
+    });
+});
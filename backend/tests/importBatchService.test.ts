@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { ImportBatchService } from "../src/services/importBatchService";
+import { ImportService } from "../src/services/importService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+describe("ImportBatchService.rollbackBatch", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("deletes the batch's transactions for the user and marks it rolled back", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("transactions WHERE import_batch_id")) return [{ id: "t1" }, { id: "t2" }];
+        });
+
+        expect(await new ImportBatchService().rollbackBatch("u1", "b1")).toBe(2);
+        expect(queriesMatching(queries, "DELETE FROM transactions")[0].params).toEqual(["b1", "u1"]);
+        expect(queriesMatching(queries, "UPDATE import_batches SET rolled_back_at = NOW()")[0].params).toEqual(["b1", "u1"]);
+    });
+});
+
+describe("ImportService batches", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("records the import as a batch with what happened to its rows", async () => {
+        const queries = fakeDb((sql, params) => {
+            if (sql.includes("FROM accounts WHERE id = $1 AND user_id = $2")) return [{ id: "a1" }];
+            if (sql.includes("INSERT INTO import_batches")) return [{ id: "b1" }];
+            // The second row is already there
+            if (sql.includes("INSERT INTO transactions")) return params[3] === "Rent" ? [] : [{ id: `t-${params[3]}` }];
+        });
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        const result = await new ImportService().importCsv(
+            "Date,Description,Amount\n01/02/2026,Coffee,-4.50\n02/02/2026,Rent,-1500.00\nsoon,Lunch,-12.00",
+            "u1",
+            {
+                delimiter: ",", date_column: 0, description_column: 1, amount_column: 2, date_format: "DD/MM/YYYY",
+                invert_sign: false, skip_header_rows: 1, skip_footer_rows: 0,
+            },
+            "a1",
+            { fileName: "february.csv" },
+        ) as any;
+
+        expect(queriesMatching(queries, "INSERT INTO import_batches")[0].params.slice(0, 5)).toEqual(["u1", "upload", "csv", "february.csv", "a1"]);
+        expect(queriesMatching(queries, "INSERT INTO transactions").every(q => q.params[6] === "b1")).toBe(true);
+        expect(queriesMatching(queries, "UPDATE import_batches")[0].params).toEqual(["b1", 1, 1, 1, null]);
+        expect(result).toMatchObject({ batchId: "b1", accounts: [{ accountId: "a1", inserted: 1, skipped: 1, invalid: 1 }] });
+    });
+});
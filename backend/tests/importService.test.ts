@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { ImportPreview, ImportService } from "../src/services/importService";
+import type { CsvMapping } from "../src/services/importProfileService";
+import { RuleService } from "../src/services/ruleService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const mapping = (overrides: Partial<CsvMapping> = {}): CsvMapping => ({
+    delimiter: ",",
+    date_column: 0,
+    description_column: 1,
+    amount_column: 2,
+    debit_column: null,
+    credit_column: null,
+    reference_column: null,
+    date_format: "DD/MM/YYYY",
+    invert_sign: false,
+    skip_header_rows: 1,
+    skip_footer_rows: 0,
+    ...overrides,
+});
+
+const parse = (csv: string, overrides: Partial<CsvMapping> = {}) =>
+    new ImportService()["parseCsvTransactions"](csv, mapping(overrides), "a1");
+
+describe("ImportService.parseCsv", () => {
+    const service = new ImportService();
+
+    it("splits rows and cells, trimming each cell", () => {
+        expect(service.parseCsv("Date,Amount\r\n01/02/2026 , 12.50 \n")).toEqual([["Date", "Amount"], ["01/02/2026", "12.50"]]);
+    });
+
+    it("keeps delimiters, escaped quotes and newlines inside quoted cells", () => {
+        expect(service.parseCsv('"SMITH, J","Say ""hi""","two\nlines"')).toEqual([["SMITH, J", 'Say "hi"', "two\nlines"]]);
+    });
+
+    it("drops a byte order mark and blank lines", () => {
+        expect(service.parseCsv("\uFEFFa;b\n\n;\nc;d", ";")).toEqual([["a", "b"], ["c", "d"]]);
+    });
+});
+
+describe("ImportService CSV transactions", () => {
+    it("reads dates in the mapping's format and amounts with currency symbols and separators", () => {
+        const [row] = parse("Date,Description,Amount\n3/02/2026,Rent,\"$1,500.00\"");
+
+        expect(row).toMatchObject({ date: "2026-02-03", description: "Rent", amount: 1500 });
+        expect(row.error).toBeUndefined();
+    });
+
+    it.each([
+        ["12.50-", -12.5],
+        ["12.50 DR", -12.5],
+        ["12.50dr", -12.5],
+        ["12.50 CR", 12.5],
+        ["(12.50)", -12.5],
+        ["-12.50", -12.5],
+    ])("reads %s as %d", (cell, amount) => {
+        expect(parse(`Date,Description,Amount\n01/02/2026,Coffee,${cell}`)[0].amount).toBe(amount);
+    });
+
+    it("rejects a row with a blank amount", () => {
+        const [row] = parse("Date,Description,Amount\n01/02/2026,Coffee,");
+
+        expect(row.error).toBe("Missing or invalid amount");
+    });
+
+    describe("with debit and credit columns", () => {
+        const columns = { amount_column: null, debit_column: 2, credit_column: 3 };
+
+        it("reads whichever side has the amount, as money out or in", () => {
+            const rows = parse("Date,Description,Debit,Credit\n01/02/2026,Coffee,4.50,\n02/02/2026,Salary,,2400.00", columns);
+
+            expect(rows.map(r => [r.amount, r.error])).toEqual([[-4.5, undefined], [2400, undefined]]);
+        });
+
+        it("rejects a row with both sides blank instead of importing 0.00", () => {
+            const [row] = parse("Date,Description,Debit,Credit\n01/02/2026,Balance brought forward,,", columns);
+
+            expect(row.error).toBe("Missing or invalid amount");
+        });
+
+        it("reads suffixed and bracketed amounts on either side", () => {
+            const rows = parse("Date,Description,Debit,Credit\n01/02/2026,Fee,(2.00),\n02/02/2026,Refund,,5.00 CR", columns);
+
+            expect(rows.map(r => r.amount)).toEqual([-2, 5]);
+        });
+    });
+
+    it("flips signs for banks that export spending as positive", () => {
+        expect(parse("Date,Description,Amount\n01/02/2026,Coffee,4.50", { invert_sign: true })[0].amount).toBe(-4.5);
+    });
+
+    it("skips header and footer rows", () => {
+        const rows = parse("Account 1234\nDate,Description,Amount\n01/02/2026,Coffee,-4.50\nClosing balance,,100.00", {
+            skip_header_rows: 2, skip_footer_rows: 1,
+        });
+
+        expect(rows.map(r => r.description)).toEqual(["Coffee"]);
+    });
+
+    it("rejects a row whose date can't be read", () => {
+        expect(parse("Date,Description,Amount\nyesterday,Coffee,-4.50")[0].error).toBe('Unrecognised date "yesterday"');
+    });
+
+    it("tells identical rows apart without a bank reference, and uses the reference when there is one", () => {
+        const rows = parse("Date,Description,Amount\n01/02/2026,Coffee,-4.50\n01/02/2026,Coffee,-4.50");
+        const referenced = parse("Date,Description,Amount,Ref\n01/02/2026,Coffee,-4.50,R1", { reference_column: 3 });
+
+        expect(rows[0].fitId).not.toBe(rows[1].fitId);
+        expect(referenced[0].fitId).toBe("csv-a1-R1");
+    });
+});
+
+describe("ImportService preview", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(RuleService.prototype, "getRules").mockResolvedValue([]);
+    });
+
+    const csv = "Date,Description,Amount\n01/02/2026,Coffee,-4.50\n02/02/2026,Rent,-1500.00\nsoon,Lunch,-12.00\n03/02/2026,Salary,2400.00";
+
+    const preview = async () => {
+        const queries = fakeDb((sql, params) => {
+            if (sql.includes("FROM accounts WHERE id = $1 AND user_id = $2")) return [{ id: "a1" }];
+            if (sql.includes("SELECT name FROM accounts")) return [{ name: "Everyday" }];
+            // Coffee was imported from this file before; Rent came in from the bank's API
+            if (sql.includes("provider_transaction_id = ANY($1)")) {
+                return [{ id: "t-coffee", provider_transaction_id: params[0][0], date: "2026-02-01", description: "Coffee", amount: "-4.50", user_id: "u1" }];
+            }
+            if (sql.includes("date BETWEEN $2 AND $3")) {
+                return [{ id: "t-rent", date: "2026-02-02", description: "RENT", amount: "-1500.00" }];
+            }
+        });
+        const result = await new ImportService().importCsv(csv, "u1", mapping(), "a1", { preview: true }) as ImportPreview;
+        return { result, queries };
+    };
+
+    it("marks each row new, duplicate or invalid without inserting anything", async () => {
+        const { result, queries } = await preview();
+
+        expect(result.accounts).toHaveLength(1);
+        expect(result.accounts[0]).toMatchObject({ accountId: "a1", accountName: "Everyday", isNewAccount: false });
+        expect(result.accounts[0].rows.map(r => [r.key, r.description, r.status, r.error])).toEqual([
+            ["0:0", "Coffee", "duplicate", null],
+            ["0:1", "Rent", "duplicate", null],
+            ["0:2", "Lunch", "invalid", 'Unrecognised date "soon"'],
+            ["0:3", "Salary", "new", null],
+        ]);
+        expect(result.accounts[0].rows[1].duplicate_of).toEqual({ id: "t-rent", date: "2026-02-02", description: "RENT", amount: -1500 });
+        expect(queriesMatching(queries, "INSERT")).toHaveLength(0);
+    });
+
+    it("inserts only the rows accepted from the preview", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("FROM accounts WHERE id = $1 AND user_id = $2")) return [{ id: "a1" }];
+            if (sql.includes("INSERT INTO import_batches")) return [{ id: "b1" }];
+            if (sql.includes("INSERT INTO transactions")) return [{ id: "t-new" }];
+        });
+
+        await new ImportService().importCsv(csv, "u1", mapping(), "a1", { acceptedRows: ["0:1", "0:3"] });
+
+        expect(queriesMatching(queries, "INSERT INTO transactions").map(q => q.params[3])).toEqual(["Rent", "Salary"]);
+    });
+});
+
+const stageQif = async (qif: string) => {
+    const queries = fakeDb((sql) => {
+        if (sql.includes("FROM accounts WHERE id = $1 AND user_id = $2")) return [{ id: "a1" }];
+        if (sql.includes("FROM categories")) return [{ id: "c-groceries", name: "Groceries" }, { id: "c-household", name: "Household " }];
+    });
+    const [statement] = await new ImportService()["stageQif"](qif, "u1", "a1", "DD/MM/YYYY", false);
+    return { rows: statement.transactions, queries };
+};
+
+describe("ImportService QIF transactions", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("reads the date, amount, payee and memo of each record", async () => {
+        const { rows } = await stageQif("!Type:Bank\r\nD03/02/2026\r\nT-1,234.50\r\nPRENT\r\nMFebruary\r\n^\r\nD04/02/2026\r\nT20\r\n^\r\n");
+
+        expect(rows.map(r => [r.date, r.amount, r.description, r.error])).toEqual([
+            ["2026-02-03", -1234.5, "RENT - February", undefined],
+            ["2026-02-04", 20, "Unknown Transaction", undefined],
+        ]);
+    });
+
+    it("tells identical records apart and keeps the check number in the ID", async () => {
+        const { rows } = await stageQif("D01/02/2026\nT-4.50\nPCOFFEE\n^\nD01/02/2026\nT-4.50\nPCOFFEE\nN104\n^\n");
+
+        expect(rows.map(r => r.fitId)).toEqual([
+            "qif-a1-2026-02-01--4.5-COFFEE-1",
+            "qif-a1-2026-02-01--4.5-COFFEE-2-104",
+        ]);
+    });
+
+    it("rejects a record whose date can't be read", async () => {
+        const { rows } = await stageQif("Dyesterday\nT-4.50\nPCOFFEE\n^\n");
+
+        expect(rows[0].error).toBe('Unrecognised date "yesterday"');
+    });
+});
+
+describe("ImportService QIF splits", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("imports split lines, matching categories by name or by the last part of a path", async () => {
+        const { rows } = await stageQif([
+            "D01/02/2026", "T-100.00", "PWOOLWORTHS",
+            "SFood:Groceries", "$-60.00",
+            "SHOUSEHOLD/Home", "ECleaning", "$-30.00",
+            "S[Savings]", "$-10.00",
+            "^",
+        ].join("\n"));
+
+        expect(rows[0].splits).toEqual([
+            { category_id: "c-groceries", amount: -60, memo: null },
+            { category_id: "c-household", amount: -30, memo: "Cleaning" },
+            // Transfers and unknown categories keep their name so nothing is lost
+            { category_id: null, amount: -10, memo: "[Savings]" },
+        ]);
+    });
+
+    it("reads split lines with any of their fields missing", async () => {
+        const { rows } = await stageQif("D01/02/2026\nT-50\nPSHOP\n$-20\nSGroceries\nEMilk\n$-30\n^\n");
+
+        expect(rows[0].splits).toEqual([
+            { category_id: null, amount: -20, memo: null },
+            { category_id: "c-groceries", amount: -30, memo: "Milk" },
+        ]);
+    });
+
+    it.each([
+        ["lines that don't add up to the amount", "SGroceries\n$-60\nSHousehold\n$-30\n"],
+        ["a line without an amount", "SGroceries\n$-100\nSHousehold\n"],
+        ["a single non-zero line", "SGroceries\n$-100\nSHousehold\n$0\n"],
+    ])("imports the transaction unsplit with %s", async (_case, splits) => {
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        const { rows } = await stageQif(`D01/02/2026\nT-100.00\nPWOOLWORTHS\n${splits}^\n`);
+
+        expect(rows[0].splits).toBeUndefined();
+        expect(rows[0].error).toBeUndefined();
+    });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import axios from "axios";
+import { fakeDb, queriesMatching } from "./db";
+import { LlmPrivacyService, LlmPrivacySettings, LlmRedactor } from "../src/services/llmPrivacy";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+vi.mock("axios", () => ({ default: { post: vi.fn() } }));
+
+const redactor = (overrides: Partial<LlmPrivacySettings> = {}) =>
+    new LlmRedactor({ redactNumbers: true, redactNames: true, redactTerms: [], amountMode: "exact", ...overrides });
+
+describe("LlmRedactor.description", () => {
+    it.each([
+        ["CARD XXXX-XXXX-XXXX-1234 WOOLWORTHS", "CARD [CARD] WOOLWORTHS"],
+        ["VISA ****1234 NETFLIX.COM", "VISA [CARD] NETFLIX.COM"],
+        ["4111 1111 1111 1111 PAYMENT", "[CARD] PAYMENT"],
+        ["BPAY 062-000 12345678 ELECTRICITY", "BPAY [ACCOUNT] ELECTRICITY"],
+        ["GB82WEST12345698765432 SEPA", "[ACCOUNT] SEPA"],
+        ["RECEIPT 123456 COLES", "RECEIPT [REF] COLES"],
+        ["AMZN MKTP AU*2K4TR93Q1", "AMZN MKTP AU*[REF]"],
+        ["DIRECT DEBIT 1234567890", "DIRECT DEBIT [NUMBER]"],
+        ["WOOLWORTHS 1234 BONDI", "WOOLWORTHS 1234 BONDI"],
+    ])("masks numbers in %j", (description, redacted) => {
+        expect(redactor({ redactNames: false }).description(description)).toBe(redacted);
+    });
+
+    it.each([
+        ["OSKO PAYMENT TO JANE CITIZEN REF 84A920", "OSKO PAYMENT TO [NAME] REF [REF]"],
+        ["TRANSFER FROM John Smith for rent", "TRANSFER FROM [NAME] for rent"],
+        ["MR J. CITIZEN PAYROLL", "[NAME] PAYROLL"],
+    ])("masks people's names in %j", (description, redacted) => {
+        expect(redactor().description(description)).toBe(redacted);
+    });
+
+    it("masks the user's own terms as whole words", () => {
+        const terms = redactor({ redactTerms: ["Acme Pty", " ", "jane"] });
+
+        expect(terms.description("Salary from acme pty")).toBe("Salary from [NAME]");
+        expect(terms.description("JANES CAFE")).toBe("JANES CAFE");
+    });
+
+    it("still masks a whole transfer name when the user listed part of it", () => {
+        expect(redactor({ redactTerms: ["jane"] }).description("OSKO PAYMENT TO JANE CITIZEN")).toBe("OSKO PAYMENT TO [NAME]");
+    });
+
+    it("leaves descriptions alone when redaction is off", () => {
+        const off = redactor({ redactNumbers: false, redactNames: false, redactTerms: ["jane"] });
+
+        expect(off.description("OSKO PAYMENT TO JANE CITIZEN  REF 84A920")).toBe("OSKO PAYMENT TO JANE CITIZEN REF 84A920");
+    });
+
+    it("knows a redacted description can't be matched against real ones", () => {
+        expect(LlmRedactor.isRedacted("RECEIPT [REF] COLES")).toBe(true);
+        expect(LlmRedactor.isRedacted("COLES [EXPRESS]")).toBe(false);
+    });
+});
+
+describe("LlmRedactor amounts and aliases", () => {
+    it.each([
+        ["exact", "-47.3", "-47.30"],
+        ["rounded", "-47.30", "~-50"],
+        ["rounded", 1520, "~2000"],
+        ["rounded", -4.5, "~-5"],
+        ["omit", "-47.30", null],
+    ] as const)("shows %s amounts: %j as %j", (amountMode, amount, shown) => {
+        expect(redactor({ amountMode }).amount(amount)).toBe(shown);
+    });
+
+    it("gives each ID a stable short alias and maps the model's answers back", () => {
+        const aliases = redactor();
+
+        expect(aliases.alias("9b2f-transaction", "T")).toBe("T1");
+        expect(aliases.alias("41ac-category", "C")).toBe("C1");
+        expect(aliases.alias("77de-transaction", "T")).toBe("T2");
+        expect(aliases.alias("9b2f-transaction", "T")).toBe("T1");
+
+        expect(aliases.resolve(" t2 ")).toBe("77de-transaction");
+        expect(aliases.resolve("C9")).toBeUndefined();
+        expect(aliases.resolve(null)).toBeUndefined();
+    });
+});
+
+describe("LlmPrivacyService", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    const llm = { provider: "openai", apiKey: "sk-test", baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini" };
+    const request = { system: "Classify.", prompt: "T1: COFFEE -4.50" };
+
+    it("redacts by default until the user chooses otherwise", async () => {
+        fakeDb(() => [{ llm_redact_numbers: null, llm_redact_names: false, llm_redact_terms: null, llm_amount_mode: "fuzzy" }]);
+
+        expect(await new LlmPrivacyService().getSettings("u1")).toEqual({
+            redactNumbers: true, redactNames: false, redactTerms: [], amountMode: "exact",
+        });
+    });
+
+    it("records each prompt and reply in the audit log", async () => {
+        const queries = fakeDb();
+        vi.mocked(axios.post).mockResolvedValue({ data: { choices: [{ message: { content: '{"T1":"C1"}' } }] } } as any);
+
+        const response = await new LlmPrivacyService().complete("u1", "classification", llm, request);
+
+        expect(response.content).toBe('{"T1":"C1"}');
+        const [entry] = queriesMatching(queries, "INSERT INTO llm_audit_log");
+        expect(entry.params.slice(0, 8)).toEqual(["u1", "classification", "openai", "gpt-4o-mini", "Classify.", "T1: COFFEE -4.50", '{"T1":"C1"}', null]);
+        expect(queriesMatching(queries, "DELETE FROM llm_audit_log")[0].params).toEqual(["u1", 90]);
+    });
+
+    it("records failed requests too", async () => {
+        const queries = fakeDb();
+        vi.mocked(axios.post).mockRejectedValue(Object.assign(new Error("Request failed with status code 401"), { response: { status: 401 } }));
+
+        await expect(new LlmPrivacyService().complete("u1", "connection_test", llm, request)).rejects.toThrow("status code 401");
+
+        expect(queriesMatching(queries, "INSERT INTO llm_audit_log")[0].params.slice(6, 8)).toEqual([null, "Request failed with status code 401"]);
+    });
+});
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import axios from "axios";
+import { getLlmProvider, parseJsonResponse, postWithRetry } from "../src/services/llmProviders";
+
+vi.mock("axios", () => ({ default: { post: vi.fn() } }));
+
+const request = { system: "Classify.", prompt: "Coffee 4.50", json: true, maxTokens: 100000 };
+
+const reply = (data: any) => vi.mocked(axios.post).mockResolvedValue({ data } as any);
+
+describe("LLM providers", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("sends OpenAI-compatible servers a chat completion at their base URL, with JSON mode where supported", async () => {
+        reply({ choices: [{ message: { content: '{"ok":true}' } }], usage: { prompt_tokens: 12, completion_tokens: 3 } });
+
+        const response = await getLlmProvider("ollama")!.complete(
+            { provider: "ollama", apiKey: "", baseUrl: "http://gpu-box:11434/v1/", model: "llama3.1" }, request
+        );
+
+        const [url, payload, config] = vi.mocked(axios.post).mock.calls[0] as any[];
+        expect(url).toBe("http://gpu-box:11434/v1/chat/completions");
+        expect(payload).toMatchObject({ model: "llama3.1", response_format: { type: "json_object" }, max_tokens: 4096 });
+        expect(config.headers.Authorization).toBeUndefined();
+        expect(response).toEqual({ content: '{"ok":true}', usage: { inputTokens: 12, outputTokens: 3 } });
+    });
+
+    it("leaves JSON to the prompt on servers without JSON mode", async () => {
+        reply({ choices: [{ message: { content: "{}" } }] });
+
+        const response = await getLlmProvider("lmstudio")!.complete(
+            { provider: "lmstudio", apiKey: "", baseUrl: "", model: "local-model" }, request
+        );
+
+        const [url, payload] = vi.mocked(axios.post).mock.calls[0] as any[];
+        expect(url).toBe("http://localhost:1234/v1/chat/completions");
+        expect(payload.response_format).toBeUndefined();
+        expect(response.usage).toBeNull();
+    });
+
+    it("prefills Anthropic's reply with the opening brace and puts it back", async () => {
+        reply({ content: [{ type: "text", text: '"ok": true}' }], usage: { input_tokens: 20, output_tokens: 5 } });
+
+        const response = await getLlmProvider("anthropic")!.complete(
+            { provider: "anthropic", apiKey: "sk-test", baseUrl: "", model: "claude-3-5-haiku-latest" }, request
+        );
+
+        const [url, payload, config] = vi.mocked(axios.post).mock.calls[0] as any[];
+        expect(url).toBe("https://api.anthropic.com/v1/messages");
+        expect(payload.messages[1]).toEqual({ role: "assistant", content: "{" });
+        expect(config.headers["x-api-key"]).toBe("sk-test");
+        expect(response).toEqual({ content: '{"ok": true}', usage: { inputTokens: 20, outputTokens: 5 } });
+    });
+
+    it("knows which providers run on the user's own hardware", () => {
+        expect(getLlmProvider("openai")).toMatchObject({ requiresApiKey: true, selfHosted: false });
+        expect(getLlmProvider("llamacpp")).toMatchObject({ requiresApiKey: false, selfHosted: true });
+        expect(getLlmProvider("nope")).toBeNull();
+    });
+});
+
+describe("postWithRetry", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    it("waits as long as a rate limit asks before trying again", async () => {
+        vi.useFakeTimers();
+        vi.mocked(axios.post)
+            .mockRejectedValueOnce({ response: { status: 429, headers: { "retry-after": "2" } } })
+            .mockResolvedValueOnce({ data: "ok" } as any);
+
+        const result = postWithRetry("http://llm", {}, {});
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(axios.post).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+
+        expect(await result).toEqual({ data: "ok" });
+        vi.useRealTimers();
+    });
+
+    it("doesn't retry a request the server rejected", async () => {
+        vi.mocked(axios.post).mockRejectedValueOnce({ response: { status: 401 } });
+
+        await expect(postWithRetry("http://llm", {}, {})).rejects.toEqual({ response: { status: 401 } });
+        expect(axios.post).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("parseJsonResponse", () => {
+    it.each([
+        ['{"category": "Groceries"}', { category: "Groceries" }],
+        ['Sure! ```json\n{"category": "Groceries"}\n```', { category: "Groceries" }],
+    ])("reads %j", (content, parsed) => {
+        expect(parseJsonResponse(content)).toEqual(parsed);
+    });
+
+    it("fails on a reply without JSON", () => {
+        expect(() => parseJsonResponse("I can't help with that")).toThrow("Failed to parse JSON from LLM response");
+    });
+});
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { LlmUsageService } from "../src/services/llmUsage";
+import { LlmPrivacyService } from "../src/services/llmPrivacy";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const llm = (provider: string, model: string) => ({ provider, model, apiKey: "", baseUrl: "" });
+
+describe("LlmUsageService", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("prices dated model versions by the longest matching prefix", async () => {
+        fakeDb();
+        const service = new LlmUsageService();
+
+        expect(await service.getPrice("u1", "openai", "gpt-4o-mini-2024-07-18")).toMatchObject({ model: "gpt-4o-mini", input_per_million: 0.15 });
+        expect(await service.getPrice("u1", "openai", "gpt-4o-2024-08-06")).toMatchObject({ model: "gpt-4o", input_per_million: 2.5 });
+        expect(await service.getPrice("u1", "openai", "o3")).toBeNull();
+    });
+
+    it("prefers the user's own price and treats self-hosted models as free", async () => {
+        fakeDb((sql) => sql.includes("FROM llm_prices")
+            ? [{ provider: "openai", model: "gpt-4o", input_per_million: 2, output_per_million: 8 }] : []);
+        const service = new LlmUsageService();
+
+        expect(await service.getPrice("u1", "openai", "gpt-4o")).toMatchObject({ input_per_million: 2, custom: true });
+        expect(await service.getPrice("u1", "ollama", "llama3.1")).toMatchObject({ input_per_million: 0, output_per_million: 0 });
+    });
+
+    it("records each request's tokens and what they cost", async () => {
+        const queries = fakeDb();
+        const service = new LlmUsageService();
+
+        await service.record("u1", "classification", llm("openai", "gpt-4o-mini"), { inputTokens: 1_000_000, outputTokens: 500_000 });
+        await service.record("u1", "classification", llm("openai", "o3"), { inputTokens: 100, outputTokens: 10 });
+        await service.record("u1", "classification", llm("lmstudio", "local-model"), null);
+
+        expect(queriesMatching(queries, "INSERT INTO llm_usage").map(q => q.params.slice(4))).toEqual([
+            [1_000_000, 500_000, 0.45],
+            // Unknown prices and missing token counts are left out of the cost, not guessed
+            [100, 10, null],
+            [null, null, null],
+        ]);
+    });
+
+    it.each([
+        [null, 120, false],
+        ["5.00", 4.99, false],
+        ["5.00", 5, true],
+    ])("with a cap of %s and %d spent this month, the cap reached is %s", async (cap, spent, reached) => {
+        fakeDb((sql) => sql.includes("llm_monthly_cap") ? [{ llm_monthly_cap: cap }] : [{ cost: spent }]);
+
+        expect(await new LlmUsageService().isCapReached("u1")).toBe(reached);
+    });
+});
+
+describe("LlmPrivacyService spending cap", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("refuses requests once the monthly cap is reached", async () => {
+        vi.spyOn(LlmUsageService.prototype, "isCapReached").mockResolvedValue(true);
+        const queries = fakeDb();
+        const service = new LlmPrivacyService();
+
+        await expect(service.complete("u1", "classification", llm("openai", "gpt-4o"), { system: "", prompt: "" }))
+            .rejects.toThrow("Monthly AI spending cap reached");
+        expect(queriesMatching(queries, "INSERT INTO llm_audit_log")).toHaveLength(0);
+    });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { ClassifierExample, LocalClassifierService, NaiveBayesClassifier } from "../src/services/localClassifier";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const examples = (description: string, category_id: string, count: number, amount = -20): ClassifierExample[] =>
+    Array.from({ length: count }, (_, i) => ({ description: `${description} ${1000 + i}`, amount: amount - i, account_id: "a1", category_id }));
+
+const history = [
+    ...examples("WOOLWORTHS METRO", "groceries", 10, -45),
+    ...examples("COLES SUPERMARKET", "groceries", 5, -60),
+    ...examples("SHELL COLES EXPRESS", "fuel", 6, -70),
+    ...examples("UBER TRIP", "transport", 4, -18),
+    { description: "ONE OFF GIFT SHOP", amount: -30, account_id: "a1", category_id: "gifts" },
+];
+
+describe("NaiveBayesClassifier", () => {
+    const model = new NaiveBayesClassifier();
+    model.train(history);
+
+    it("predicts the category whose past transactions share the description's words", () => {
+        expect(model.predict({ description: "WOOLWORTHS METRO 2001", amount: -52, account_id: "a1" }))
+            .toMatchObject({ category_id: "groceries", confidence: expect.any(Number) });
+        expect(model.predict({ description: "UBER *TRIP HELP.UBER.COM", amount: -15, account_id: "a1" })?.category_id).toBe("transport");
+    });
+
+    it("is less confident when the words are shared between categories", () => {
+        const clear = model.predict({ description: "WOOLWORTHS METRO", amount: -45, account_id: "a1" })!;
+        const shared = model.predict({ description: "COLES", amount: -65, account_id: "a1" })!;
+
+        expect(clear.confidence).toBeGreaterThan(0.9);
+        expect(shared.confidence).toBeLessThan(clear.confidence);
+    });
+
+    it("doesn't guess from the amount and account alone", () => {
+        expect(model.predict({ description: "NEW MERCHANT", amount: -45, account_id: "a1" })).toBeNull();
+    });
+
+    it("never predicts a category with a single example", () => {
+        expect(model.predict({ description: "ONE OFF GIFT SHOP", amount: -30, account_id: "a1" })?.category_id).not.toBe("gifts");
+    });
+
+    it("doesn't predict anything until it has enough history", () => {
+        const small = new NaiveBayesClassifier();
+        small.train(examples("WOOLWORTHS", "groceries", 19));
+
+        expect(small.predict({ description: "WOOLWORTHS", amount: -20, account_id: "a1" })).toBeNull();
+    });
+});
+
+describe("LocalClassifierService.predict", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("trains on the user's categorised non-transfers and keeps only confident predictions", async () => {
+        const queries = fakeDb(() => history);
+
+        const predictions = await new LocalClassifierService().predict("u-predict", [
+            { id: "t1", description: "Woolies", original_description: "WOOLWORTHS METRO 2001", amount: -50, account_id: "a1" },
+            { id: "t2", description: "COLES", amount: -65, account_id: "a1" },
+            { id: "t3", description: "NEW MERCHANT", amount: -45, account_id: "a1" },
+        ], 0.9);
+
+        expect([...predictions.keys()]).toEqual(["t1"]);
+        const [training] = queriesMatching(queries, "FROM transactions");
+        expect(training.sql).toContain("category_id IS NOT NULL AND is_transfer = false");
+        expect(training.params[0]).toBe("u-predict");
+    });
+
+    it("reuses a user's model instead of retraining for every insert", async () => {
+        const queries = fakeDb(() => history);
+        const service = new LocalClassifierService();
+
+        await service.predict("u-cached", [{ id: "t1", description: "UBER TRIP", amount: -18, account_id: "a1" }], 0.5);
+        await service.predict("u-cached", [{ id: "t2", description: "UBER TRIP", amount: -18, account_id: "a1" }], 0.5);
+
+        expect(queries).toHaveLength(1);
+    });
+});
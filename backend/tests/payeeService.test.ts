@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { PayeeService, normalizePayee } from "../src/services/payeeService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+describe("normalizePayee", () => {
+    it.each([
+        ["VISA PURCHASE WOOLWORTHS 1234    SYDNEY NSW", "woolworths"],
+        ["EFTPOS WOOLWORTHS 0412 BONDI", "woolworths"],
+        ["SQ *BLUE BOTTLE COFFEE", "blue bottle coffee"],
+        ["PAYPAL *SPOTIFY - STOCKHOLM SE", "spotify"],
+        ["NETFLIX.COM XX1234 12/03", "netflix com"],
+        ["7-ELEVEN 2041", "7 eleven"],
+        // Nothing to name a payee after
+        ["1234567", ""],
+    ])("reduces %j to %j", (description, key) => {
+        expect(normalizePayee(description)).toBe(key);
+    });
+});
+
+// Answers the linking queries from in-memory payees, aliases and transactions
+const storage = (data: { payees?: any[]; aliases?: any[]; transactions?: any[] }) => {
+    let created = 0;
+    return fakeDb((sql) => {
+        if (sql.includes("FROM payee_aliases WHERE user_id")) return data.aliases || [];
+        if (sql.includes("SELECT id, name FROM payees")) return data.payees || [];
+        if (sql.includes("AS description, payee_id FROM transactions")) return data.transactions || [];
+        if (sql.includes("INSERT INTO payees (user_id, name) VALUES")) return [{ id: `p-new${++created}` }];
+        if (sql.includes("INSERT INTO payee_aliases") && sql.includes("SELECT id, user_id")) return [{ id: "alias" }];
+        if (sql.includes("DELETE FROM payee_aliases")) return [{ id: "alias" }];
+    });
+};
+
+const links = (queries: any[]) =>
+    queriesMatching(queries, "UPDATE transactions SET payee_id").map(q => [q.params[0], q.params[1]]);
+
+describe("PayeeService.link", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("links by the bank's description, trying the user's patterns before names and exact aliases", async () => {
+        const queries = storage({
+            payees: [{ id: "p-woolworths", name: "Woolworths" }, { id: "p-metro", name: "Woolies Metro" }],
+            aliases: [
+                { payee_id: "p-metro", match_type: "contains", pattern: "WOOLWORTHS METRO" },
+                { payee_id: "p-woolworths", match_type: "contains", pattern: "WOOLWORTHS" },
+                { payee_id: "p-woolworths", match_type: "exact", pattern: "woolies" },
+            ],
+            transactions: [
+                { id: "t1", description: "WOOLWORTHS METRO 3021 SURRY HILLS", payee_id: null },
+                { id: "t2", description: "EFTPOS WOOLWORTHS 0412", payee_id: null },
+                { id: "t3", description: "WOOLIES 1234", payee_id: null },
+                { id: "t4", description: "VISA PURCHASE WOOLWORTHS 99", payee_id: "p-woolworths" },
+            ],
+        });
+
+        expect(await new PayeeService().link("u1", ["t1", "t2", "t3", "t4"])).toBe(3);
+        expect(links(queries)).toEqual([["p-metro", ["t1"]], ["p-woolworths", ["t2", "t3"]]]);
+        expect(queriesMatching(queries, "FROM transactions")[0].sql).toContain("COALESCE(original_description, description)");
+    });
+
+    it("creates a payee, with an exact alias, for a merchant it hasn't seen", async () => {
+        const queries = storage({
+            transactions: [
+                { id: "t1", description: "EFTPOS BLUE BOTTLE 0412", payee_id: null },
+                { id: "t2", description: "BLUE BOTTLE 2210 SYDNEY", payee_id: null },
+            ],
+        });
+
+        await new PayeeService().link("u1", ["t1", "t2"]);
+
+        expect(queriesMatching(queries, "INSERT INTO payees")).toHaveLength(1);
+        expect(queriesMatching(queries, "INSERT INTO payees")[0].params).toEqual(["u1", "Blue Bottle"]);
+        expect(queriesMatching(queries, "INSERT INTO payee_aliases")[0].params).toEqual(["p-new1", "u1", "blue bottle"]);
+        expect(links(queries)).toEqual([["p-new1", ["t1", "t2"]]]);
+    });
+
+    it("never fails the insert that triggered it", async () => {
+        fakeDb(() => { throw new Error("connection lost"); });
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await expect(new PayeeService().linkNewTransactions("u1", ["t1"])).resolves.toBeUndefined();
+        expect(error).toHaveBeenCalledWith("Payee linking failed:", expect.any(Error));
+    });
+});
+
+describe("PayeeService aliases", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("only moves the transactions a new alias now matches", async () => {
+        const queries = storage({
+            payees: [{ id: "p-amazon", name: "Amazon" }, { id: "p-other", name: "Amzn Mktp" }],
+            aliases: [{ payee_id: "p-amazon", match_type: "regex", pattern: "^AMZN" }],
+            transactions: [
+                { id: "t1", description: "AMZN MKTP AU", payee_id: "p-other" },
+                { id: "t2", description: "AMAZON AU", payee_id: "p-amazon" },
+                { id: "t3", description: "COLES 0412", payee_id: "p-coles" },
+            ],
+        });
+
+        await new PayeeService().addAlias("u1", "p-amazon", { match_type: "regex", pattern: "^AMZN" });
+
+        expect(links(queries)).toEqual([["p-amazon", ["t1"]]]);
+    });
+
+    it("relinks what a removed alias was holding to whatever else matches it", async () => {
+        const queries = storage({
+            payees: [{ id: "p-amazon", name: "Amazon" }, { id: "p-mktp", name: "Amzn Mktp" }],
+            transactions: [{ id: "t1", description: "AMZN MKTP AU", payee_id: "p-amazon" }],
+        });
+
+        expect(await new PayeeService().deleteAlias("u1", "p-amazon", "alias")).toBe(true);
+        expect(links(queries)).toEqual([["p-mktp", ["t1"]]]);
+    });
+
+    it.each([
+        [{ match_type: "fuzzy", pattern: "x" }, "Unknown alias type 'fuzzy'"],
+        [{ pattern: " " }, "An alias needs a pattern"],
+        [{ match_type: "regex", pattern: "([" }, "Invalid regular expression '(['"],
+        [{ match_type: "exact", pattern: "EFTPOS" }, "'EFTPOS' has nothing left to match once normalised"],
+    ])("rejects %j", (alias, message) => {
+        expect(new PayeeService().validateAlias(alias)).toBe(message);
+    });
+});
+
+describe("PayeeService.merge", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("moves the other payees' aliases, names and transactions over in one transaction", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("FOR UPDATE")) return [{ id: "p-target" }];
+            if (sql.includes("SELECT name FROM payees")) return [{ name: "Woolies" }];
+            if (sql.includes("DELETE FROM payees")) return [{}];
+        });
+
+        expect(await new PayeeService().merge("u1", "p-target", ["p-target", "p-woolies"])).toBe(1);
+
+        expect(queries[0].sql).toBe("BEGIN");
+        expect(queries[queries.length - 1].sql).toBe("COMMIT");
+        expect(queriesMatching(queries, "INSERT INTO payee_aliases")[0].params).toEqual(["p-target", "u1", ["woolies"]]);
+        expect(queriesMatching(queries, "UPDATE transactions SET payee_id")[0].params).toEqual(["p-target", ["p-woolies"], "u1"]);
+    });
+
+    it("does nothing if the payee to keep isn't the user's", async () => {
+        const queries = fakeDb();
+
+        expect(await new PayeeService().merge("u1", "p-other", ["p-woolies"])).toBeNull();
+        expect(queries.map(q => q.sql)).toEqual(["BEGIN", expect.stringContaining("FOR UPDATE"), "ROLLBACK"]);
+    });
+});
+
+describe("PayeeService.applyDefaultCategories", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("only fills in uncategorised, unsplit, non-transfer rows, as the payee's doing", async () => {
+        const queries = fakeDb();
+
+        await new PayeeService().applyDefaultCategories("u1", ["t1"]);
+
+        expect(queries[0].sql).toContain("category_source = 'payee'");
+        expect(queries[0].sql).toContain("t.category_id IS NULL AND t.is_transfer = false AND t.is_split = false");
+        expect(queries[0].params).toEqual([["t1"], "u1"]);
+    });
+});
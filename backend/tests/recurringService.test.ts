@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { RecurringService, nextOccurrence } from "../src/services/recurringService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const transaction = (id: string, date: string, amount: number, payeeId = "netflix", categoryId: string | null = "subscriptions") => ({
+    id, date, amount: amount.toFixed(2), account_id: "a1", category_id: categoryId, payee_id: payeeId, default_category_id: null,
+});
+
+// Detects series in the given history and returns the ones it saved, by INSERT parameters
+const detect = async (history: ReturnType<typeof transaction>[]) => {
+    const queries = fakeDb((sql) => {
+        if (sql.includes("FROM transactions t")) return history;
+        if (sql.includes("INSERT INTO recurring_series")) return [{ id: "s1" }];
+    });
+    const found = await new RecurringService().detect("u1");
+    const saved = queriesMatching(queries, "INSERT INTO recurring_series").map(({ params }) => ({
+        payee_id: params[1],
+        category_id: params[3],
+        first_transaction_id: params[4],
+        cadence: params[5],
+        expected_amount: params[6],
+        previous_amount: params[7],
+        price_increased: params[8],
+        occurrences: params[9],
+        next_expected_date: params[12],
+    }));
+    return { found, saved };
+};
+
+describe("RecurringService.detect", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("finds a monthly subscription and when it's next due", async () => {
+        const { found, saved } = await detect([
+            transaction("t1", "2026-06-15", -15.99),
+            transaction("t2", "2026-07-15", -15.99),
+            transaction("t3", "2026-08-14", -15.99),
+            transaction("t4", "2026-09-15", -15.99),
+        ]);
+
+        expect(found).toBe(1);
+        expect(saved).toEqual([expect.objectContaining({
+            payee_id: "netflix",
+            category_id: "subscriptions",
+            first_transaction_id: "t1",
+            cadence: "monthly",
+            expected_amount: -15.99,
+            price_increased: false,
+            occurrences: 4,
+            next_expected_date: "2026-10-15",
+        })]);
+    });
+
+    it("flags a price rise after steady payments", async () => {
+        const { saved } = await detect([
+            transaction("t1", "2026-06-01", -15.99),
+            transaction("t2", "2026-07-01", -15.99),
+            transaction("t3", "2026-08-01", -15.99),
+            transaction("t4", "2026-09-01", -17.99),
+        ]);
+
+        expect(saved[0]).toMatchObject({ cadence: "monthly", expected_amount: -17.99, previous_amount: -15.99, price_increased: true });
+    });
+
+    it("finds fortnightly income apart from spending with the same payee", async () => {
+        const { saved } = await detect([
+            transaction("t1", "2026-08-06", 2400, "employer", null),
+            transaction("t2", "2026-08-20", 2400, "employer", null),
+            transaction("t3", "2026-09-03", 2400, "employer", null),
+            transaction("t4", "2026-09-17", 2400, "employer", null),
+            transaction("t5", "2026-09-10", -30, "employer", null),
+        ]);
+
+        expect(saved).toHaveLength(1);
+        expect(saved[0]).toMatchObject({ payee_id: "employer", cadence: "fortnightly", expected_amount: 2400, next_expected_date: "2026-10-01" });
+    });
+
+    it("ignores irregular visits to the same shop", async () => {
+        const { found } = await detect([
+            transaction("t1", "2026-08-02", -40, "cafe"),
+            transaction("t2", "2026-08-05", -42, "cafe"),
+            transaction("t3", "2026-08-19", -38, "cafe"),
+            transaction("t4", "2026-09-21", -41, "cafe"),
+        ]);
+
+        expect(found).toBe(0);
+    });
+
+    it("starts a new series when a cancelled subscription is taken up again", async () => {
+        const { saved } = await detect([
+            transaction("t1", "2025-01-10", -9.99),
+            transaction("t2", "2025-02-10", -9.99),
+            transaction("t3", "2025-03-10", -9.99),
+            transaction("t4", "2026-07-10", -9.99),
+            transaction("t5", "2026-08-10", -9.99),
+            transaction("t6", "2026-09-10", -9.99),
+        ]);
+
+        expect(saved[0]).toMatchObject({ first_transaction_id: "t4", occurrences: 3 });
+    });
+});
+
+describe("RecurringService dismissals", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    // Keeps series and dismissals the way the tables would, keyed as the service keys them
+    const storage = (history: () => ReturnType<typeof transaction>[]) => {
+        const series = new Map<string, any>();
+        const dismissals: any[][] = [];
+        const direction = (row: any) => row.expected_amount < 0 ? "out" : "in";
+        const isDismissed = (row: any) => dismissals.some(([, payeeId, accountId, cadence, dir]) =>
+            payeeId === row.payee_id && accountId === row.account_id && cadence === row.cadence && dir === direction(row));
+        fakeDb((sql, params) => {
+            if (sql.includes("FROM transactions t")) return history();
+            if (sql.includes("INSERT INTO recurring_series")) {
+                const id = `s-${params[4]}`;
+                series.set(id, {
+                    id, payee_id: params[1], account_id: params[2], cadence: params[5], expected_amount: params[6],
+                    occurrences: params[9], next_expected_date: params[12],
+                });
+                return [{ id }];
+            }
+            if (sql.includes("DELETE FROM recurring_series")) {
+                for (const id of [...series.keys()]) if (!params[1].includes(id)) series.delete(id);
+            }
+            if (sql.includes("INSERT INTO recurring_dismissals")) dismissals.push(params);
+            if (sql.includes("FROM recurring_series s") && sql.includes("WHERE s.id = $1")) {
+                const row = series.get(params[0]);
+                return row ? [{ ...row, direction: direction(row) }] : [];
+            }
+            if (sql.includes("LEFT JOIN recurring_dismissals d")) {
+                return [...series.values()]
+                    .map(row => ({ ...row, dismissed: isDismissed(row) }))
+                    .filter(row => params[1] || !row.dismissed);
+            }
+        });
+    };
+
+    it("keeps a series dismissed after an earlier payment is imported", async () => {
+        const history = [
+            transaction("t2", "2026-07-15", -15.99),
+            transaction("t3", "2026-08-15", -15.99),
+            transaction("t4", "2026-09-15", -15.99),
+        ];
+        storage(() => history);
+        const service = new RecurringService();
+
+        await service.detect("u1");
+        expect(await service.setDismissed("u1", "s-t2", true)).toBe(true);
+
+        history.unshift(transaction("t1", "2026-06-15", -15.99));
+        await service.detect("u1");
+
+        expect(await service.getSeries("u1")).toEqual([]);
+        expect(await service.getSeries("u1", true)).toEqual([
+            expect.objectContaining({ id: "s-t1", payee_id: "netflix", occurrences: 4, dismissed: true }),
+        ]);
+    });
+
+    it("doesn't dismiss income from the same payee along with spending", async () => {
+        const history = [
+            transaction("t1", "2026-07-01", -50, "employer", null),
+            transaction("t2", "2026-08-01", -50, "employer", null),
+            transaction("t3", "2026-09-01", -50, "employer", null),
+            transaction("t4", "2026-07-02", 3000, "employer", null),
+            transaction("t5", "2026-08-02", 3000, "employer", null),
+            transaction("t6", "2026-09-02", 3000, "employer", null),
+        ];
+        storage(() => history);
+        const service = new RecurringService();
+
+        await service.detect("u1");
+        await service.setDismissed("u1", "s-t1", true);
+
+        expect((await service.getSeries("u1")).map(s => s.id)).toEqual(["s-t4"]);
+    });
+
+    it("reports a series it doesn't have", async () => {
+        storage(() => []);
+
+        expect(await new RecurringService().setDismissed("u1", "missing", true)).toBe(false);
+    });
+});
+
+describe("nextOccurrence", () => {
+    it("steps month-based cadences by calendar month", () => {
+        expect(nextOccurrence("2026-01-31", "monthly")).toBe("2026-02-28");
+        expect(nextOccurrence("2026-01-15", "quarterly")).toBe("2026-04-15");
+        expect(nextOccurrence("2026-01-15", "annual", 2)).toBe("2028-01-15");
+    });
+
+    it("steps weekly cadences by days", () => {
+        expect(nextOccurrence("2026-10-01", "fortnightly")).toBe("2026-10-15");
+        expect(nextOccurrence("2026-10-01", "weekly", 3)).toBe("2026-10-22");
+    });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { RuleLearningService } from "../src/services/ruleLearningService";
+import { RuleService } from "../src/services/ruleService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+// Keeps corrections the way category_corrections would, newest first, for the given learning settings
+const storage = (settings = { rule_learning_threshold: 3, rule_learning_auto_create: false }) => {
+    const corrections: { transaction_id: string; payee: string; category_id: string }[] = [];
+    const queries = fakeDb((sql, params) => {
+        if (sql.includes("INSERT INTO category_corrections")) {
+            corrections.unshift({ transaction_id: params[1], payee: params[3], category_id: params[5] });
+        }
+        if (sql.includes("FROM category_corrections")) return corrections.filter(c => c.payee === params[1]);
+        if (sql.includes("FROM users")) return [settings];
+    });
+    return { corrections, queries };
+};
+
+const correction = (transactionId: string, description: string, categoryId = "groceries", previousCategoryId: string | null = null) =>
+    ({ transactionId, description, categoryId, previousCategoryId });
+
+describe("RuleLearningService.recordCorrections", () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.spyOn(RuleService.prototype, "getRules").mockResolvedValue([]);
+        vi.spyOn(RuleService.prototype, "createRule").mockImplementation(async (_userId, data) => ({ id: "r1", ...data }) as any);
+    });
+
+    it("suggests a rule once the same payee has been corrected to the same category enough times", async () => {
+        const { queries } = storage();
+        const service = new RuleLearningService();
+
+        await service.recordCorrections("u1", [correction("t1", "NETFLIX.COM 1234567"), correction("t2", "NETFLIX.COM 7654321")]);
+        expect(queriesMatching(queries, "INSERT INTO rule_suggestions")).toHaveLength(0);
+
+        await service.recordCorrections("u1", [correction("t3", "NETFLIX.COM 1111111", "subscriptions")]);
+        await service.recordCorrections("u1", [correction("t4", "NETFLIX.COM 2222222", "subscriptions")]);
+        await service.recordCorrections("u1", [correction("t5", "NETFLIX.COM 3333333", "subscriptions")]);
+
+        // Only the latest run of corrections to one category counts
+        const [suggestion] = queriesMatching(queries, "INSERT INTO rule_suggestions");
+        expect(suggestion.params).toEqual(["u1", "netflix com", "subscriptions", 3, "pending", null]);
+        expect(RuleService.prototype.createRule).not.toHaveBeenCalled();
+    });
+
+    it("learns one rule for a merchant corrected at different branches", async () => {
+        const { queries } = storage({ rule_learning_threshold: 3, rule_learning_auto_create: true });
+
+        await new RuleLearningService().recordCorrections("u1", [
+            correction("t1", "EFTPOS WOOLWORTHS 0412 BONDI"),
+            correction("t2", "VISA PURCHASE WOOLWORTHS 1234    TOWN HALL NSW"),
+            correction("t3", "WOOLWORTHS METRO 3021 SURRY HILLS"),
+        ]);
+
+        expect(queriesMatching(queries, "INSERT INTO category_corrections").map(q => q.params[3]))
+            .toEqual(["woolworths", "woolworths", "woolworths metro"]);
+        expect(RuleService.prototype.createRule).not.toHaveBeenCalled();
+
+        await new RuleLearningService().recordCorrections("u1", [correction("t4", "WOOLWORTHS 0871 BONDI JUNCTION")]);
+
+        expect(RuleService.prototype.createRule).toHaveBeenCalledWith("u1", expect.objectContaining({
+            name: "Woolworths",
+            conditions: [{ field: "description", match_type: "contains", match_value: "woolworths" }],
+        }));
+    });
+
+    it("counts a transaction corrected twice once", async () => {
+        const { queries } = storage();
+        const service = new RuleLearningService();
+
+        for (const id of ["t1", "t1", "t2"]) await service.recordCorrections("u1", [correction(id, "NETFLIX.COM")]);
+
+        expect(queriesMatching(queries, "INSERT INTO rule_suggestions")).toHaveLength(0);
+    });
+
+    it("creates the rule straight away when the user opted in", async () => {
+        const { queries } = storage({ rule_learning_threshold: 2, rule_learning_auto_create: true });
+
+        await new RuleLearningService().recordCorrections("u1", [correction("t1", "NETFLIX.COM"), correction("t2", "NETFLIX.COM")]);
+
+        expect(RuleService.prototype.createRule).toHaveBeenCalledWith("u1", expect.objectContaining({
+            name: "Netflix Com",
+            conditions: [{ field: "description", match_type: "regex", match_value: "netflix.*com" }],
+            actions: [{ type: "set_category", value: "groceries" }],
+        }));
+        expect(queriesMatching(queries, "INSERT INTO rule_suggestions")[0].params.slice(4)).toEqual(["accepted", "r1"]);
+    });
+
+    it("doesn't suggest what an active rule already does", async () => {
+        vi.mocked(RuleService.prototype.getRules).mockResolvedValue([{
+            id: "r0", is_active: true, priority: 10, conditions: [{ match_type: "contains", match_value: "netflix" }],
+            actions: [{ type: "set_category", value: "groceries" }],
+        } as any]);
+        const { queries } = storage({ rule_learning_threshold: 1, rule_learning_auto_create: false });
+
+        await new RuleLearningService().recordCorrections("u1", [correction("t1", "NETFLIX.COM")]);
+
+        expect(queriesMatching(queries, "INSERT INTO rule_suggestions")).toHaveLength(0);
+    });
+
+    it("ignores changes that don't set a new category", async () => {
+        const { corrections } = storage();
+
+        await new RuleLearningService().recordCorrections("u1", [
+            correction("t1", "NETFLIX.COM", "groceries", "groceries"),
+            { ...correction("t2", "NETFLIX.COM"), categoryId: null },
+        ]);
+
+        expect(corrections).toHaveLength(0);
+    });
+});
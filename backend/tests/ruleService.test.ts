@@ -0,0 +1,384 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { RuleService } from "../src/services/ruleService";
+import { ClassificationService } from "../src/services/classificationService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const rule = (id: string, overrides: Record<string, any> = {}) => ({
+    id, name: id, priority: 0, is_active: true, created_at: "2026-01-01T00:00:00Z",
+    conditions: [{ match_type: "contains", match_value: id }],
+    actions: [{ type: "set_category", value: `c-${id}` }],
+    category_id: `c-${id}`,
+    ...overrides,
+} as any);
+
+const tx = (id: string, description: string, overrides: Record<string, any> = {}) => ({
+    id, description, amount: "-12.00", date: "2026-10-01", account_id: "a1", ...overrides,
+});
+
+describe("RuleService.applyRules", () => {
+    beforeEach(() => vi.restoreAllMocks());
+
+    const apply = async (rules: any[], transactions: any[]) => {
+        vi.spyOn(RuleService.prototype, "getRules").mockResolvedValue(rules);
+        const queries = fakeDb((sql, params) => {
+            if (sql.includes("SELECT id, description")) return transactions;
+            if (sql.includes("UPDATE transactions")) return [{ id: params.find(p => transactions.some(t => t.id === p)) }];
+        });
+        const updates = await new RuleService().applyRules("u1", transactions.map(t => t.id));
+        return { updates, queries };
+    };
+
+    it("categorises new transactions with the first active rule that matches", async () => {
+        const { updates, queries } = await apply(
+            [rule("netflix", { is_active: false }), rule("woolworths"), rule("wool")],
+            [tx("t1", "WOOLWORTHS 1234"), tx("t2", "NETFLIX.COM")]
+        );
+
+        expect(updates.map(u => u.id)).toEqual(["t1"]);
+        const [update] = queriesMatching(queries, "UPDATE transactions");
+        expect(update.params).toContain("c-woolworths");
+        expect(update.params).not.toContain("c-wool");
+    });
+
+    it("only looks at the given rows that are still uncategorised and not transfers", async () => {
+        const { queries } = await apply([rule("coffee")], [tx("t1", "COFFEE")]);
+
+        const [select] = queriesMatching(queries, "FROM transactions");
+        expect(select.sql).toContain("category_id IS NULL AND is_transfer = false");
+        expect(select.params).toEqual([["t1"], "u1"]);
+    });
+
+    it("doesn't query anything without active rules", async () => {
+        const { updates, queries } = await apply([rule("coffee", { is_active: false })], [tx("t1", "COFFEE")]);
+
+        expect(updates).toEqual([]);
+        expect(queries).toHaveLength(0);
+    });
+});
+
+describe("ClassificationService.classifyNewTransactions", () => {
+    beforeEach(() => vi.restoreAllMocks());
+
+    it("checks whether to queue an LLM pass only when rules leave something uncategorised", async () => {
+        const queries = fakeDb((sql) => sql.includes("auto_classify_llm") ? [{ auto_classify_llm: false }] : []);
+        const applyRules = vi.spyOn(RuleService.prototype, "applyRules")
+            .mockResolvedValueOnce([{ id: "t1", category_id: "c1" }] as any)
+            .mockResolvedValueOnce([{ id: "t1", category_id: "c1" }] as any);
+        const service = new ClassificationService();
+
+        await service.classifyNewTransactions("u1", ["t1"]);
+        expect(queriesMatching(queries, "auto_classify_llm")).toHaveLength(0);
+
+        await service.classifyNewTransactions("u1", ["t1", "t2"]);
+        expect(applyRules).toHaveBeenCalledWith("u1", ["t1", "t2"]);
+        expect(queriesMatching(queries, "auto_classify_llm")).toHaveLength(1);
+    });
+
+    it("never fails the insert that triggered it", async () => {
+        fakeDb();
+        vi.spyOn(RuleService.prototype, "applyRules").mockRejectedValue(new Error("connection lost"));
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        expect(await new ClassificationService().classifyNewTransactions("u1", ["t1"])).toEqual([]);
+        expect(error).toHaveBeenCalledWith("Automatic classification failed:", expect.any(Error));
+    });
+});
+
+describe("RuleService conditions", () => {
+    const service = new RuleService();
+    // 2026-10-02 is a Friday
+    const coffee = tx("t1", "EFTPOS BLUE BOTTLE COFFEE", { amount: "-4.50", date: "2026-10-02" });
+
+    it.each([
+        [{ match_type: "contains", match_value: "bottle" }, true],
+        [{ match_type: "exact", match_value: "eftpos blue bottle coffee" }, true],
+        [{ match_type: "starts_with", match_value: "blue" }, false],
+        [{ match_type: "regex", match_value: "^eftpos .* coffee$" }, true],
+        [{ match_type: "regex", match_value: "(" }, false],
+        [{ field: "amount", match_type: "equals", match_value: "-4.5" }, true],
+        [{ field: "amount", match_type: "between", match_value: "-5", match_value_to: "-4" }, true],
+        [{ field: "amount", match_type: "between", match_value: "-4", match_value_to: "-5" }, true],
+        [{ field: "amount", match_type: "greater_than", match_value: "0" }, false],
+        [{ field: "amount", match_type: "less_than", match_value: "0" }, true],
+        [{ field: "direction", match_type: "is", match_value: "debit" }, true],
+        [{ field: "direction", match_type: "is", match_value: "credit" }, false],
+        [{ field: "account", match_type: "is", match_value: "a1" }, true],
+        [{ field: "account", match_type: "is", match_value: "a2" }, false],
+        [{ field: "day_of_month", match_type: "between", match_value: "1", match_value_to: "7" }, true],
+        [{ field: "day_of_month", match_type: "equals", match_value: "15" }, false],
+        [{ field: "weekday", match_type: "is", match_value: "5" }, true],
+    ])("matches %j: %s", (condition, matches) => {
+        expect(service.matchCondition(coffee, condition)).toBe(matches);
+    });
+
+    it("reads the day and weekday of dates pg returns as local midnight", () => {
+        const condition = { field: "weekday", match_type: "is", match_value: "5" };
+        expect(service.matchCondition({ ...coffee, date: new Date(2026, 9, 2) }, condition)).toBe(true);
+    });
+
+    it("doesn't match account conditions on rows without an account yet", () => {
+        expect(service.matchCondition({ ...coffee, account_id: null }, { field: "account", match_type: "is", match_value: "a1" })).toBe(false);
+    });
+
+    it("matches any top-level condition, and groups by their operator", () => {
+        const smallDebit = { operator: "and", conditions: [
+            { field: "direction", match_type: "is", match_value: "debit" },
+            { field: "amount", match_type: "greater_than", match_value: "-10" },
+        ] };
+        const either = { operator: "or", conditions: [
+            { match_type: "contains", match_value: "tea" },
+            { operator: "and", conditions: [smallDebit, { match_type: "contains", match_value: "coffee" }] },
+        ] };
+
+        expect(service.matchNode(coffee, smallDebit)).toBe(true);
+        expect(service.matchNode({ ...coffee, amount: "-40.00" }, smallDebit)).toBe(false);
+        expect(service.matchNode(coffee, either)).toBe(true);
+        expect(service.matchNode(coffee, { operator: "or", conditions: [] })).toBe(false);
+        expect(service.matchRule(coffee, { conditions: [{ match_type: "contains", match_value: "tea" }, smallDebit] })).toBe(true);
+    });
+
+    it("still matches rules saved with a single legacy condition", () => {
+        expect(service.matchRule(coffee, { conditions: [], match_type: "starts_with", match_value: "EFTPOS" })).toBe(true);
+    });
+
+    it.each([
+        [[], "At least one condition is required"],
+        [[{ field: "merchant", match_type: "is", match_value: "x" }], "Unknown condition field 'merchant'"],
+        [[{ field: "amount", match_type: "contains", match_value: "4" }], "'contains' can't be used with amount"],
+        [[{ field: "day_of_month", match_type: "equals", match_value: " " }], "A day of month condition is missing its value"],
+        [[{ match_type: "regex", match_value: "(" }], "Invalid regular expression '('"],
+        [[{ field: "amount", match_type: "between", match_value: "1" }], "A amount condition needs a number"],
+        [[{ field: "direction", match_type: "is", match_value: "out" }], "Direction must be 'debit' or 'credit'"],
+        [[{ field: "weekday", match_type: "is", match_value: "7" }], "Weekday must be 0 (Sunday) to 6 (Saturday)"],
+        [[{ operator: "xor", conditions: [{ match_type: "contains", match_value: "a" }] }], "Condition groups must use 'and' or 'or'"],
+        [[{ operator: "and", conditions: [] }], "At least one condition is required"],
+    ])("rejects %j", (conditions, message) => {
+        expect(service.validateConditions(conditions)).toBe(message);
+    });
+
+    it("limits how deep groups nest", () => {
+        let node: any = { match_type: "contains", match_value: "coffee" };
+        for (let depth = 0; depth < 5; depth++) node = { operator: "and", conditions: [node] };
+
+        expect(service.validateConditions([node])).toBe("Condition groups can be nested at most 4 deep");
+        expect(service.validateConditions(node.conditions)).toBeNull();
+    });
+});
+
+describe("RuleService actions", () => {
+    beforeEach(() => vi.restoreAllMocks());
+
+    const service = new RuleService();
+    const rename = (id: string, description: string, extra: any[] = []) =>
+        rule(id, { actions: [{ type: "set_description", value: description }, ...extra] });
+
+    it("stops at the first matching rule unless it continues", () => {
+        const rules = [rule("coffee"), rule("eftpos")];
+
+        const { changes, matched } = service.evaluateRules(tx("t1", "EFTPOS COFFEE"), rules);
+
+        expect(matched.map(r => r.id)).toEqual(["coffee"]);
+        expect(changes).toMatchObject({ category_id: "c-coffee", tags: [], notes: [] });
+    });
+
+    it("lets later rules see the description an earlier one rewrote", () => {
+        const rules = [
+            rename("sq *", "Blue Bottle", [{ type: "add_tags", tags: ["cafe", " "] }, { type: "continue" }]),
+            rule("blue bottle", { actions: [
+                { type: "set_category", value: "c-cafes" },
+                { type: "add_tags", tags: ["cafe", "work"] },
+                { type: "add_note", value: "Team coffee" },
+                { type: "set_status", value: "cleared" },
+            ] }),
+        ];
+
+        const { changes, matched } = service.evaluateRules(tx("t1", "SQ *BLUE BOTTLE"), rules);
+
+        expect(matched).toHaveLength(2);
+        expect(changes).toMatchObject({
+            description: "Blue Bottle", category_id: "c-cafes", status: "cleared", tags: ["cafe", "work"], notes: ["Team coffee"],
+        });
+    });
+
+    it("saves a rewritten description and keeps the bank's original", async () => {
+        const queries = fakeDb((sql) => sql.includes("UPDATE transactions") ? [{ id: "t1" }] : []);
+
+        await service.applyChanges("u1", tx("t1", "SQ *BLUE BOTTLE"), { description: "Blue Bottle", tags: ["cafe"], notes: [] });
+
+        const [update] = queriesMatching(queries, "UPDATE transactions");
+        expect(update.sql).toContain("original_description = COALESCE(original_description, description)");
+        expect(update.params).toEqual(["t1", "u1", "Blue Bottle", ["cafe"]]);
+    });
+
+    it("links a transfer to the opposite transaction in the other account", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("SELECT id FROM transactions")) return [{ id: "t-savings" }];
+            if (sql.includes("UPDATE transactions")) return [{ id: "t1" }];
+        });
+
+        await service.applyChanges("u1", tx("t1", "TRANSFER TO SAVINGS", { amount: "-200.00" }), {
+            is_transfer: true, transfer_account_id: "a-savings", tags: [], notes: [],
+        });
+
+        expect(queriesMatching(queries, "SELECT id FROM transactions")[0].params.slice(0, 4)).toEqual(["u1", "a-savings", "t1", "-200.00"]);
+        const [counterpart, own] = queriesMatching(queries, "UPDATE transactions");
+        expect(counterpart.params.slice(1)).toEqual(["t-savings", "u1"]);
+        expect(own.params).toContain(counterpart.params[0]);
+    });
+
+    it("saves nothing when there's nothing to change", async () => {
+        const queries = fakeDb();
+
+        expect(await service.applyChanges("u1", tx("t1", "COFFEE"), { tags: [], notes: [] })).toBeNull();
+        expect(queries).toHaveLength(0);
+    });
+
+    it("keeps a rule's other actions when an update only sends a category", async () => {
+        vi.spyOn(RuleService.prototype, "getRules").mockResolvedValue([
+            rename("coffee", "Coffee", [{ type: "set_category", value: "c-old" }, { type: "continue" }]),
+        ]);
+        const queries = fakeDb();
+
+        await service.updateRule("u1", "coffee", { category_id: "c-new" });
+
+        const [update] = queriesMatching(queries, "UPDATE transaction_rules");
+        expect(JSON.parse(update.params[5])).toEqual([
+            { type: "set_description", value: "Coffee" }, { type: "set_category", value: "c-new" }, { type: "continue" },
+        ]);
+        expect(update.params[6]).toBe("c-new");
+    });
+
+    it.each([
+        [{}, "Actions must be a list"],
+        [[{ type: "stop" }], "At least one action is required"],
+        [[{ type: "set_category", value: "c1" }, { type: "stop" }, { type: "continue" }], "A rule can't both stop and continue"],
+        [[{ type: "set_category", value: "" }], "Choose a category to set"],
+        [[{ type: "set_description", value: " " }], "Enter the description to rewrite to"],
+        [[{ type: "add_note" }], "Enter the note to add"],
+        [[{ type: "set_status", value: "lost" }], "Status must be one of pending, cleared, failed"],
+        [[{ type: "add_tags", tags: [" "] }], "Enter at least one tag to add"],
+        [[{ type: "delete" }], "Unknown action 'delete'"],
+    ])("rejects %j", (actions, message) => {
+        expect(service.validateActions(actions)).toBe(message);
+    });
+
+    it("accepts a transfer with or without a counterpart account", () => {
+        expect(service.validateActions([{ type: "mark_transfer" }, { type: "stop" }])).toBeNull();
+        expect(service.validateActions([{ type: "mark_transfer", account_id: "a2" }])).toBeNull();
+    });
+});
+
+describe("RuleService dry run and apply to history", () => {
+    beforeEach(() => vi.restoreAllMocks());
+
+    const history = [
+        tx("t1", "NETFLIX.COM", { category_id: null, account: "Everyday", category: null }),
+        tx("t2", "NETFLIX.COM", { category_id: "c-entertainment", account: "Everyday", category: "Entertainment" }),
+        tx("t3", "NETFLIX.COM GIFT CARD", { category_id: null, account: "Everyday", category: null }),
+        tx("t4", "SPOTIFY", { category_id: null, account: "Everyday", category: null }),
+    ];
+
+    const withHistory = (rules: any[]) => {
+        vi.spyOn(RuleService.prototype, "getRules").mockResolvedValue(rules);
+        return fakeDb((sql) => {
+            if (sql.includes("JOIN accounts a")) return history;
+            if (sql.includes("UPDATE transactions")) return [{ id: "updated" }];
+        });
+    };
+
+    const draft = { name: "Netflix", priority: 5, conditions: [{ match_type: "contains", match_value: "netflix" }] as any, category_id: "c-subscriptions" };
+
+    it("reports what a draft rule would match without changing anything", async () => {
+        const queries = withHistory([rule("gift card", { priority: 1 })]);
+
+        const result = await new RuleService().dryRun("u1", draft);
+
+        expect(result).toMatchObject({
+            total_matches: 3, different_category: 1, shadowed: 1,
+            shadowing_rules: [{ id: "gift card", name: "gift card", count: 1 }],
+        });
+        expect(result.rows.map(r => [r.id, r.category_differs, r.shadowed_by?.id ?? null])).toEqual([
+            ["t1", false, null], ["t2", true, null], ["t3", false, "gift card"],
+        ]);
+        expect(queriesMatching(queries, "UPDATE")).toHaveLength(0);
+    });
+
+    it("doesn't count a higher rule that continues as shadowing", async () => {
+        withHistory([rule("gift card", { priority: 1, actions: [{ type: "add_tags", tags: ["gift"] }, { type: "continue" }] })]);
+
+        expect((await new RuleService().dryRun("u1", draft)).shadowed).toBe(0);
+    });
+
+    it("matches against the description higher rules rewrote", async () => {
+        withHistory([rule("spotify", { priority: 1, actions: [{ type: "set_description", value: "Netflix (family)" }, { type: "continue" }] })]);
+
+        expect((await new RuleService().dryRun("u1", draft)).total_matches).toBe(4);
+    });
+
+    it("treats a newer rule at the same priority as running first", async () => {
+        const saved = rule("netflix", { ...draft, id: "netflix", created_at: "2026-03-01T00:00:00Z" });
+        withHistory([
+            rule("gift card", { priority: 5, created_at: "2026-04-01T00:00:00Z" }),
+            saved,
+            rule("netflix.com", { priority: 5, created_at: "2026-02-01T00:00:00Z" }),
+        ]);
+
+        const result = await new RuleService().dryRun("u1", saved);
+
+        expect(result.shadowing_rules.map(r => r.id)).toEqual(["gift card"]);
+    });
+
+    it("applies a saved rule to past transactions, keeping existing categories unless asked to overwrite", async () => {
+        const saved = rule("netflix", { ...draft, id: "netflix", actions: [{ type: "set_category", value: "c-subscriptions" }] });
+        const service = new RuleService();
+
+        let queries = withHistory([rule("gift card", { priority: 1 }), saved]);
+        expect(await service.applyToHistory("u1", saved, false)).toBe(1);
+        expect(queriesMatching(queries, "UPDATE transactions").map(q => q.params[0])).toEqual(["t1"]);
+
+        vi.restoreAllMocks();
+        queries = withHistory([rule("gift card", { priority: 1 }), saved]);
+        expect(await service.applyToHistory("u1", saved, true)).toBe(2);
+        expect(queriesMatching(queries, "UPDATE transactions").map(q => q.params[0])).toEqual(["t1", "t2"]);
+    });
+});
+
+describe("RuleService hit statistics", () => {
+    beforeEach(() => vi.restoreAllMocks());
+
+    it("records one hit per rule that changed a transaction", async () => {
+        const queries = fakeDb((sql) => sql.includes("UPDATE transactions") ? [{ id: "t1" }] : []);
+
+        await new RuleService().applyChanges("u1", tx("t1", "COFFEE"), { category_id: "c1", tags: [], notes: [] }, [rule("coffee"), rule("cafe")]);
+
+        const [hits] = queriesMatching(queries, "INSERT INTO rule_matches");
+        expect(hits.params).toEqual([["coffee", "cafe"], "t1"]);
+        expect(hits.sql).toContain("NOT EXISTS");
+    });
+
+    it("flags rules that never match and rules a higher one always claims first", async () => {
+        vi.spyOn(RuleService.prototype, "getRules").mockResolvedValue([
+            rule("netflix", { total_matches: 0 }),
+            rule("netflix.com", { total_matches: 0 }),
+            rule("sq *", { actions: [{ type: "set_description", value: "Blue Bottle" }, { type: "continue" }], total_matches: 2 }),
+            rule("blue bottle", { total_matches: 2 }),
+            rule("gym", { total_matches: 0 }),
+            rule("old", { total_matches: 4 }),
+        ]);
+        fakeDb((sql) => sql.includes("FROM transactions") ? [tx("t1", "NETFLIX.COM"), tx("t2", "SQ *BLUE BOTTLE")] : []);
+
+        const coverage = await new RuleService().getCoverage("u1");
+
+        expect(coverage.map(c => [c.rule_id, c.history_matches, c.reached_matches, c.never_matched, c.fully_shadowed, c.shadowed_by?.id ?? null])).toEqual([
+            ["netflix", 1, 1, false, false, null],
+            ["netflix.com", 1, 0, false, true, "netflix"],
+            ["sq *", 1, 1, false, false, null],
+            ["blue bottle", 1, 1, false, false, null],
+            ["gym", 0, 0, true, false, null],
+            // Matched before, so it isn't reported as never matching
+            ["old", 0, 0, false, false, null],
+        ]);
+    });
+});
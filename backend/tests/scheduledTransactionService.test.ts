@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { ScheduledTransactionService, occurrenceAfter } from "../src/services/scheduledTransactionService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const schedule = (overrides: Record<string, any> = {}) => ({
+    id: "rent", account_id: "a1", category_id: "housing", payee_id: null, description: "Rent", amount: "-1500.00",
+    frequency: "monthly", interval_count: 1, start_date: "2026-01-01", end_date: null, next_due_date: "2026-11-01",
+    auto_post: false, is_active: true, ...overrides,
+});
+
+const imported = {
+    id: "t-imported", account_id: "a1", date: "2026-10-02", amount: "-1500.00", payee_id: null, category_id: null, is_split: false,
+};
+
+const placeholder = {
+    id: "t-posted", scheduled_transaction_id: "rent", account_id: "a1", date: "2026-10-01", amount: "-1500.00",
+    payee_id: null, category_id: "housing", category_source: "manual", category_reviewed: true, notes: "October",
+    tags: ["tax"], is_split: false,
+};
+
+const reconcile = async (schedules: any[], placeholders: any[], importedRow: any = imported) => {
+    const queries = fakeDb((sql) => {
+        if (sql.includes("scheduled_transaction_id IS NULL AND is_transfer = false")) return [importedRow];
+        if (sql.includes("FROM scheduled_transactions s")) return schedules;
+        if (sql.includes("scheduled_transaction_id IS NOT NULL")) return placeholders;
+    });
+    const matched = await new ScheduledTransactionService().reconcile("u1", [imported.id]);
+    return { matched, queries };
+};
+
+describe("ScheduledTransactionService.reconcile", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("replaces the pending transaction a schedule posted with the imported one", async () => {
+        const { matched, queries } = await reconcile([schedule()], [placeholder]);
+
+        expect(matched).toBe(1);
+        expect(queriesMatching(queries, "DELETE FROM transactions")[0].params).toEqual(["t-posted", "u1"]);
+        const [link] = queriesMatching(queries, "UPDATE transactions SET", "scheduled_transaction_id = $2");
+        expect(link.params).toEqual(["t-imported", "rent", "housing", "manual", true, "October", false, ["tax"]]);
+        // It was already posted, so the schedule has moved on
+        expect(queriesMatching(queries, "UPDATE scheduled_transactions")).toHaveLength(0);
+    });
+
+    it("moves the pending transaction's attachments to the imported one in the same transaction", async () => {
+        const { queries } = await reconcile([schedule()], [placeholder]);
+
+        const sql = queries.map(q => q.sql);
+        const moved = sql.findIndex(q => q.includes("UPDATE transaction_attachments"));
+        expect(queries[moved].params).toEqual(["t-imported", "t-posted", "u1"]);
+        expect(sql.indexOf("BEGIN")).toBeLessThan(moved);
+        expect(moved).toBeLessThan(sql.findIndex(q => q.includes("DELETE FROM transactions")));
+        expect(sql.findIndex(q => q.includes("DELETE FROM transactions"))).toBeLessThan(sql.indexOf("COMMIT"));
+    });
+
+    it("moves a split pending transaction's lines to an import of the same amount", async () => {
+        const { matched, queries } = await reconcile([schedule()], [{ ...placeholder, is_split: true }]);
+
+        expect(matched).toBe(1);
+        expect(queriesMatching(queries, "UPDATE transaction_splits")[0].params).toEqual(["t-imported", "t-posted", "u1"]);
+        expect(queriesMatching(queries, "UPDATE transactions SET", "is_split = is_split OR $7")[0].params[6]).toBe(true);
+    });
+
+    it("doesn't replace a split pending transaction with an import of a different amount", async () => {
+        const { matched, queries } = await reconcile(
+            [schedule({ next_due_date: null })], [{ ...placeholder, is_split: true }], { ...imported, amount: "-1520.00" }
+        );
+
+        expect(matched).toBe(0);
+        expect(queriesMatching(queries, "DELETE FROM transactions")).toHaveLength(0);
+    });
+
+    it("replaces what a schedule posted before it was paused", async () => {
+        const { matched, queries } = await reconcile([schedule({ is_active: false })], [placeholder]);
+
+        expect(matched).toBe(1);
+        expect(queriesMatching(queries, "DELETE FROM transactions")[0].params).toEqual(["t-posted", "u1"]);
+        expect(queriesMatching(queries, "FROM scheduled_transactions s")[0].sql).not.toContain("s.is_active = true");
+    });
+
+    it("moves a schedule on when the import is an occurrence that was never posted", async () => {
+        const { matched, queries } = await reconcile([schedule({ next_due_date: "2026-10-01" })], []);
+
+        expect(matched).toBe(1);
+        expect(queriesMatching(queries, "UPDATE transactions SET scheduled_transaction_id")[0].params).toEqual(["t-imported", "rent"]);
+        expect(queriesMatching(queries, "UPDATE scheduled_transactions")[0].params).toEqual(["rent", "2026-11-01"]);
+    });
+
+    it("doesn't match a paused schedule's next occurrence", async () => {
+        const { matched, queries } = await reconcile([schedule({ next_due_date: "2026-10-01", is_active: false })], []);
+
+        expect(matched).toBe(0);
+        expect(queriesMatching(queries, "UPDATE")).toHaveLength(0);
+    });
+
+    it("ignores an amount too far from the schedule's", async () => {
+        const { matched } = await reconcile([schedule({ next_due_date: "2026-10-01", amount: "-900.00" })], []);
+
+        expect(matched).toBe(0);
+    });
+});
+
+describe("ScheduledTransactionService schedule edits", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    const input = {
+        account_id: "a1", category_id: "c-other", description: "Rent", amount: -1500,
+        frequency: "monthly" as const, start_date: "2026-01-01",
+    };
+
+    it("doesn't create a schedule with another user's category", async () => {
+        const queries = fakeDb((sql) => sql.includes("FROM categories") ? [] : [{ id: "s1" }]);
+
+        expect(await new ScheduledTransactionService().createSchedule("u1", input)).toBeNull();
+        expect(queriesMatching(queries, "FROM categories")[0].params).toEqual(["c-other", "u1"]);
+        expect(queriesMatching(queries, "INSERT INTO scheduled_transactions")).toHaveLength(0);
+    });
+
+    it("doesn't point a schedule at another user's payee", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("FROM scheduled_transactions s")) return [schedule()];
+            if (sql.includes("FROM payees")) return [];
+        });
+
+        expect(await new ScheduledTransactionService().updateSchedule("u1", "rent", { payee_id: "p-other" })).toBeNull();
+        expect(queriesMatching(queries, "UPDATE scheduled_transactions")).toHaveLength(0);
+    });
+
+    it("checks a new end date against the schedule's start date", () => {
+        const service = new ScheduledTransactionService();
+        const current = schedule({ start_date: "2026-06-01" }) as any;
+
+        expect(service.validateSchedule({ end_date: "2026-05-01" }, true, current)).toBe("End date must be after the start date");
+        expect(service.validateSchedule({ start_date: "2026-09-01" }, true, { ...current, end_date: "2026-08-01" }))
+            .toBe("End date must be after the start date");
+        expect(service.validateSchedule({ end_date: "2026-07-01" }, true, current)).toBeNull();
+    });
+});
+
+describe("ScheduledTransactionService.postDue", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(new Date("2026-10-19T12:00:00"));
+    });
+    afterEach(() => vi.useRealTimers());
+
+    it("keeps posting other schedules when one fails", async () => {
+        const due = [
+            { ...schedule({ id: "broken", next_due_date: "2026-10-01", auto_post: true }), user_id: "u1" },
+            { ...schedule({ id: "gym", start_date: "2026-10-05", next_due_date: "2026-10-05", frequency: "weekly", amount: "-20.00", auto_post: true }), user_id: "u2" },
+        ];
+        const queries = fakeDb((sql, params) => {
+            if (sql.includes("FROM scheduled_transactions s")) return due;
+            if (sql.includes("INSERT INTO transactions")) {
+                if (params[9] === "broken") throw new Error("account deleted");
+                return [{ id: `t-${params[3]}`, payee_id: "p1", category_id: "c1" }];
+            }
+        });
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        const posted = await new ScheduledTransactionService().postDue();
+
+        // The weekly schedule catches up on 5, 12 and 19 October
+        expect(posted).toBe(3);
+        expect(queriesMatching(queries, "INSERT INTO transactions").map(q => q.params[3]))
+            .toEqual(["2026-10-01", "2026-10-05", "2026-10-12", "2026-10-19"]);
+        expect(error).toHaveBeenCalledWith("Failed to post scheduled transaction broken:", expect.any(Error));
+    });
+});
+
+describe("occurrenceAfter", () => {
+    it("keeps a month-end schedule on the last day of short months", () => {
+        const monthEnd = { frequency: "monthly" as const, interval_count: 1, start_date: "2026-01-31", end_date: null };
+        expect(occurrenceAfter(monthEnd, "2026-01-31")).toBe("2026-02-28");
+        expect(occurrenceAfter(monthEnd, "2026-02-28")).toBe("2026-03-31");
+    });
+
+    it("steps by the interval and stops at the end date", () => {
+        const quarterly = { frequency: "monthly" as const, interval_count: 3, start_date: "2026-01-15", end_date: "2026-07-15" };
+        expect(occurrenceAfter(quarterly, "2026-01-15")).toBe("2026-04-15");
+        expect(occurrenceAfter(quarterly, "2026-04-15", true)).toBe("2026-04-15");
+        expect(occurrenceAfter(quarterly, "2026-07-15")).toBeNull();
+    });
+
+    it("has nothing after a one-off", () => {
+        expect(occurrenceAfter({ frequency: "once", interval_count: 1, start_date: "2026-10-01", end_date: null }, "2026-10-01")).toBeNull();
+    });
+});
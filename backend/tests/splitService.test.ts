@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { SplitService } from "../src/services/splitService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+const lines = [
+    { category_id: "groceries", amount: -60 },
+    { category_id: "household", amount: -40, memo: "Bin bags" },
+];
+
+// A -100.00 transaction t1 and the two categories its lines use
+const respond = (sql: string) => {
+    if (sql.includes("SELECT id, amount FROM transactions")) return [{ id: "t1", amount: "-100.00" }];
+    if (sql.includes("SELECT id FROM categories")) return [{ id: "groceries" }, { id: "household" }];
+};
+
+describe("SplitService.setSplits", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("counts a user's split as their edit and review", async () => {
+        const queries = fakeDb(respond);
+
+        await new SplitService().setSplits("u1", "t1", lines);
+
+        const [update] = queriesMatching(queries, "UPDATE transactions");
+        expect(update.sql).toContain("category_source = 'manual'");
+        expect(update.sql).toContain("category_reviewed = true");
+        expect(update.sql).toContain("edited_at = NOW()");
+        expect(update.params).toEqual(["t1", "groceries"]);
+    });
+
+    it("stores lines from an import file without marking the transaction edited or reviewed", async () => {
+        const queries = fakeDb(respond);
+
+        await new SplitService().setSplits("u1", "t1", lines, { imported: true });
+
+        expect(queriesMatching(queries, "INSERT INTO transaction_splits")).toHaveLength(2);
+        const [update] = queriesMatching(queries, "UPDATE transactions");
+        expect(update.sql).toContain("is_split = true");
+        expect(update.sql).not.toContain("edited_at");
+        expect(update.sql).not.toContain("category_source");
+        expect(update.sql).not.toContain("category_reviewed");
+        expect(update.params).toEqual(["t1", "groceries"]);
+    });
+
+    it("rejects lines that don't add up to the transaction", async () => {
+        fakeDb(respond);
+
+        await expect(new SplitService().setSplits("u1", "t1", [lines[0], { category_id: null, amount: -10 }]))
+            .rejects.toThrow("Split lines add up to -70.00 but the transaction is -100.00");
+    });
+});
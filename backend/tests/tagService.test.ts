@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./db";
+import { TagService } from "../src/services/tagService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+describe("TagService.normalize", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("trims, collapses spaces and drops blank tags", async () => {
+        fakeDb();
+
+        expect(await new TagService().normalize("u1", ["  Japan   trip 2026 ", "", "   ", 2026])).toEqual(["Japan trip 2026", "2026"]);
+    });
+
+    it("reuses the spelling of a tag the user already has", async () => {
+        const queries = fakeDb(() => [{ tag: "Kids", count: 12 }, { tag: "reimbursable", count: 3 }]);
+
+        expect(await new TagService().normalize("u1", ["kids", "Reimbursable", "work"])).toEqual(["Kids", "reimbursable", "work"]);
+        expect(queries[0].params).toEqual(["u1"]);
+    });
+
+    it("keeps one of tags that differ only in case", async () => {
+        fakeDb();
+
+        expect(await new TagService().normalize("u1", ["Travel", "travel", "TRAVEL "])).toEqual(["Travel"]);
+    });
+
+    it("ignores anything that isn't a list", async () => {
+        const queries = fakeDb();
+
+        expect(await new TagService().normalize("u1", "travel")).toEqual([]);
+        expect(queries).toHaveLength(0);
+    });
+});
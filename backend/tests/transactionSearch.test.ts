@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildSearchClauses, parseSearchQuery, quoteSearchValue } from "../src/services/transactionSearch";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+// The clauses and parameters a query compiles to, after the user's id in $1
+const compile = (input: string) => {
+    const params: any[] = ["u1"];
+    const clauses = buildSearchClauses(parseSearchQuery(input), params);
+    return { clauses, params: params.slice(1) };
+};
+
+describe("parseSearchQuery", () => {
+    it.each([
+        ["coffee", [{ field: null, value: "coffee", negated: false }]],
+        ["desc:woolworths", [{ field: "desc", value: "woolworths", negated: false }]],
+        ['account:"Amex Platinum"', [{ field: "account", value: "Amex Platinum", negated: false }]],
+        ['desc:"say \\"hi\\""', [{ field: "desc", value: 'say "hi"', negated: false }]],
+        ['payee:"Half typed', [{ field: "payee", value: "Half typed", negated: false }]],
+        ["-tag:reimbursable", [{ field: "tag", value: "reimbursable", negated: true }]],
+        ["-rent", [{ field: null, value: "rent", negated: true }]],
+        ["CAT:Groceries amt:>10", [
+            { field: "category", value: "Groceries", negated: false },
+            { field: "amount", value: ">10", negated: false },
+        ]],
+        ["re:invoice", [{ field: null, value: "re:invoice", negated: false }]],
+        ['desc:""', []],
+        ["", []],
+    ])("parses %j", (input, terms) => {
+        expect(parseSearchQuery(input)).toEqual(terms);
+    });
+});
+
+describe("quoteSearchValue", () => {
+    it.each([
+        ["Groceries", "Groceries"],
+        ["Amex Platinum", '"Amex Platinum"'],
+        ['Say "hi"', '"Say \\"hi\\""'],
+    ])("quotes %j as %s", (value, quoted) => {
+        expect(quoteSearchValue(value)).toBe(quoted);
+        expect(parseSearchQuery(`tag:${quoted}`)[0].value).toBe(value);
+    });
+});
+
+describe("buildSearchClauses", () => {
+    it.each([
+        ["coffee", ["t.description ILIKE $2"], ["%coffee%"]],
+        ["desc:100%_off", ["t.description ILIKE $2"], ["%100\\%\\_off%"]],
+        ["notes:receipt", ["COALESCE(t.notes, '') ILIKE $2"], ["%receipt%"]],
+        ["amount:-12.50", ["t.amount = $2"], [-12.5]],
+        ["amount:<-50", ["t.amount < $2"], [-50]],
+        ["amount:>=1,000", ["t.amount >= $2"], [1000]],
+        ["amount:10..20", ["t.amount BETWEEN $2 AND $3"], [10, 20]],
+        ["amount:-20..-10", ["t.amount BETWEEN $2 AND $3"], [-20, -10]],
+        ["after:2026-01", ["t.date >= $2::date"], ["2026-01-01"]],
+        ["before:2026-02", ["t.date <= $2::date"], ["2026-02-28"]],
+        ["on:2026-03-15", ["t.date BETWEEN $2::date AND $3::date"], ["2026-03-15", "2026-03-15"]],
+        ["on:2024-02", ["t.date BETWEEN $2::date AND $3::date"], ["2024-02-01", "2024-02-29"]],
+        ["is:uncategorised", ["t.category_id IS NULL"], []],
+        ["is:Split", ["t.is_split = true"], []],
+        ["has:attachments", ["EXISTS (SELECT 1 FROM transaction_attachments ta WHERE ta.transaction_id = t.id)"], []],
+    ])("compiles %j", (input, clauses, params) => {
+        expect(compile(input)).toEqual({ clauses, params });
+    });
+
+    it("numbers parameters across terms", () => {
+        expect(compile("coffee amount:1..5 tag:work")).toEqual({
+            clauses: ["t.description ILIKE $2", "t.amount BETWEEN $3 AND $4", expect.stringContaining("lower(tag) = lower($5)")],
+            params: ["%coffee%", 1, 5, "work"],
+        });
+    });
+
+    it("scopes names to the user", () => {
+        expect(compile("payee:woolworths").clauses[0])
+            .toBe("t.payee_id IN (SELECT id FROM payees WHERE user_id = $1 AND name ILIKE $2)");
+        expect(compile("category:Food").clauses[0]).toContain("FROM categories WHERE user_id = $1 AND lower(name) = lower($2)");
+    });
+
+    it.each([
+        ["-payee:woolworths", "(t.payee_id IN (SELECT id FROM payees WHERE user_id = $1 AND name ILIKE $2)) IS NOT TRUE"],
+        ["-tag:reimbursable", "(EXISTS (SELECT 1 FROM unnest(t.tags) AS tag WHERE lower(tag) = lower($2))) IS NOT TRUE"],
+        ["-is:transfer", "(t.is_transfer = true) IS NOT TRUE"],
+    ])("keeps rows without a value when excluding with %j", (input, clause) => {
+        expect(compile(input).clauses).toEqual([clause]);
+    });
+
+    it.each([
+        ["amount:abc", 'amount: expects a number, not "abc"'],
+        ["amount:<", 'amount: expects a number, not "<"'],
+        ["amount:10..x", 'amount: expects a number, not "x"'],
+        ["after:yesterday", 'after: expects a date like 2026-01-31 or a month like 2026-01, not "yesterday"'],
+        ["on:2026-13", 'on: expects a date like 2026-01-31 or a month like 2026-01, not "2026-13"'],
+        ["before:2026-02-30", 'before: expects a date like 2026-01-31 or a month like 2026-01, not "2026-02-30"'],
+        ["is:starred", 'is: doesn\'t know "starred"'],
+        ["has:receipt", 'has: doesn\'t know "receipt"'],
+    ])("rejects %j", (input, message) => {
+        expect(() => compile(input)).toThrow(message);
+    });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb, queriesMatching } from "./db";
+import { TransferMatchService } from "../src/services/transferMatchService";
+
+vi.mock("../src/db", () => ({ query: vi.fn(), pool: { connect: vi.fn() } }));
+
+// Possible pairs as the matching query returns them, and the candidates already awaiting review
+const respondWith = (pairs: any[], pending: any[] = []) => (sql: string) => {
+    if (sql.includes("AS outflow_id")) return pairs;
+    if (sql.includes("FROM transfer_candidates WHERE user_id = $1 AND status = 'pending'")) return pending;
+};
+
+const linkUpdates = (queries: { sql: string; params: any[] }[]) =>
+    queriesMatching(queries, "UPDATE transactions SET is_transfer = true");
+
+describe("TransferMatchService.match", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("links a pair with only one possible partner on each side", async () => {
+        const queries = fakeDb(respondWith([{ outflow_id: "out", inflow_id: "in", day_gap: 1 }]));
+
+        const result = await new TransferMatchService().match("u1");
+
+        expect(result).toEqual({ linked: 1, flagged: 0 });
+        const [link] = linkUpdates(queries);
+        expect(link.params.slice(0, 2)).toEqual([["out", "in"], "u1"]);
+        const [candidate] = queriesMatching(queries, "INSERT INTO transfer_candidates");
+        expect(candidate.params[4]).toBe("linked");
+    });
+
+    it("doesn't count an automatic link as the user's edit", async () => {
+        const queries = fakeDb(respondWith([{ outflow_id: "out", inflow_id: "in", day_gap: 0 }]));
+
+        await new TransferMatchService().match("u1");
+
+        const [link] = linkUpdates(queries);
+        expect(link.params[3]).toBe(false);
+    });
+
+    it("leaves a transaction with two possible partners for review", async () => {
+        const queries = fakeDb(respondWith([
+            { outflow_id: "out", inflow_id: "in-1", day_gap: 0 },
+            { outflow_id: "out", inflow_id: "in-2", day_gap: 2 },
+        ]));
+
+        const result = await new TransferMatchService().match("u1");
+
+        expect(result).toEqual({ linked: 0, flagged: 2 });
+        expect(linkUpdates(queries)).toHaveLength(0);
+        expect(queriesMatching(queries, "INSERT INTO transfer_candidates").map(q => q.params[4]))
+            .toEqual(["pending", "pending"]);
+    });
+
+    it("doesn't link a transaction already waiting for review", async () => {
+        const queries = fakeDb(respondWith(
+            [{ outflow_id: "out", inflow_id: "in", day_gap: 0 }],
+            [{ outflow_id: "out", inflow_id: "other" }],
+        ));
+
+        const result = await new TransferMatchService().match("u1");
+
+        expect(result).toEqual({ linked: 0, flagged: 1 });
+        expect(linkUpdates(queries)).toHaveLength(0);
+    });
+});
+
+describe("TransferMatchService.linkCandidate", () => {
+    beforeEach(() => vi.clearAllMocks());
+
+    it("marks both sides edited when the user links them", async () => {
+        const queries = fakeDb((sql) => {
+            if (sql.includes("SELECT c.outflow_id, c.inflow_id")) return [{ outflow_id: "out", inflow_id: "in" }];
+        });
+
+        expect(await new TransferMatchService().linkCandidate("u1", "c1")).toBe(true);
+
+        const [link] = linkUpdates(queries);
+        expect(link.params[3]).toBe(true);
+    });
+
+    it("returns false for a candidate that's no longer pending", async () => {
+        const queries = fakeDb();
+
+        expect(await new TransferMatchService().linkCandidate("u1", "c1")).toBe(false);
+        expect(linkUpdates(queries)).toHaveLength(0);
+    });
+});
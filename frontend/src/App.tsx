@@ -10,6 +10,11 @@ import ConnectionsPage from "@/pages/Connections";
 import ReportsPage from "@/pages/Reports";
 import SettingsPage from "@/pages/Settings";
 import RulesPage from "@/pages/Rules";
+import ImportBatchesPage from "@/pages/ImportBatches";
+import DuplicatesPage from "@/pages/Duplicates";
+import PayeesPage from "@/pages/Payees";
+import RecurringPage from "@/pages/Recurring";
+import ScheduledPage from "@/pages/Scheduled";
 
 // A simple placeholder for other pages
 const GenericPage = ({ title }: { title: string }) => (
@@ -64,6 +69,11 @@ function App() {
                             />
                             <Route path="connections" element={<ConnectionsPage />} />
                             <Route path="rules" element={<RulesPage />} />
+                            <Route path="imports" element={<ImportBatchesPage />} />
+                            <Route path="duplicates" element={<DuplicatesPage />} />
+                            <Route path="payees" element={<PayeesPage />} />
+                            <Route path="recurring" element={<RecurringPage />} />
+                            <Route path="scheduled" element={<ScheduledPage />} />
                             <Route
                                 path="*"
                                 element={<GenericPage title="404 - Not Found" />}
@@ -12,6 +12,8 @@ import {
 } from "@/components/ui/dialog";
 import { Loader2 } from "lucide-react";
 import { CategorySelector } from "@/components/category-selector";
+import { SplitDraft, SplitEditor, fromSplitDrafts, splitRemainder, toSplitDrafts } from "@/components/split-editor";
+import { TransactionAttachments, uploadAttachment } from "@/components/transaction-attachments";
 import { Account } from "@/pages/Accounts";
 import { Category } from "@/pages/Categories";
 import { Transaction } from "@/data/transactions";
@@ -43,12 +45,17 @@ export const TransactionFormDialog: React.FC<TransactionFormDialogProps> = ({
     const [amount, setAmount] = useState("");
     const [categoryId, setCategoryId] = useState<string>("uncategorized");
     const [status, setStatus] = useState("pending");
+    const [isSplit, setIsSplit] = useState(false);
+    const [splitLines, setSplitLines] = useState<SplitDraft[]>([]);
+    const [notes, setNotes] = useState("");
+    const [pendingFiles, setPendingFiles] = useState<File[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
         if (open) {
             setError(null);
+            setPendingFiles([]);
             if (transaction) {
                 setAccountId(transaction.account_id || "");
                 const d = new Date(transaction.date);
@@ -62,6 +69,9 @@ export const TransactionFormDialog: React.FC<TransactionFormDialogProps> = ({
                 setAmount(String(transaction.amount));
                 setCategoryId(transaction.category_id || "uncategorized");
                 setStatus(transaction.status);
+                setIsSplit(!!transaction.is_split);
+                setSplitLines(transaction.is_split && transaction.splits ? toSplitDrafts(transaction.splits) : []);
+                setNotes(transaction.notes || "");
             } else {
                 setAccountId(initialAccountId !== "all" ? initialAccountId || "" : "");
                 setDate(new Date().toISOString().split("T")[0]);
@@ -69,29 +79,69 @@ export const TransactionFormDialog: React.FC<TransactionFormDialogProps> = ({
                 setAmount("");
                 setCategoryId("uncategorized");
                 setStatus("pending");
+                setIsSplit(false);
+                setSplitLines([]);
+                setNotes("");
             }
         }
     }, [open, transaction, initialAccountId]);
 
+    const toggleSplit = () => {
+        if (!isSplit && splitLines.length === 0) {
+            // Start with the whole amount in the current category and an empty second line
+            setSplitLines([
+                { category_id: categoryId, amount, memo: "" },
+                { category_id: "uncategorized", amount: "", memo: "" },
+            ]);
+        }
+        setIsSplit(!isSplit);
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
+
+        if (isSplit && splitRemainder(amount, splitLines) !== 0) {
+            setError("Split lines must add up to the transaction amount");
+            return;
+        }
         setLoading(true);
 
         try {
-            const payload = {
+            const payload: Record<string, unknown> = {
                 account_id: accountId,
                 date,
                 description,
                 amount: parseFloat(amount),
-                category_id: categoryId === "uncategorized" ? null : categoryId,
                 status,
+                notes,
             };
+            // Setting a category on a split transaction un-splits it, so only send one when not splitting
+            if (!isSplit) {
+                payload.category_id = categoryId === "uncategorized" ? null : categoryId;
+            }
 
+            let transactionId = transaction?.id;
             if (isEdit) {
+                const amountChanged = parseFloat(amount) !== parseFloat(String(transaction.amount));
+                if (transaction.is_split && isSplit && amountChanged) {
+                    // The amount of a split transaction is locked; re-split it after the change
+                    await apiClient.delete(`/transactions/${transaction.id}/splits`);
+                }
                 await apiClient.patch(`/transactions/${transaction.id}`, payload);
             } else {
-                await apiClient.post("/transactions", payload);
+                const response = await apiClient.post("/transactions", payload);
+                transactionId = response.data.id;
+            }
+            if (isSplit && transactionId) {
+                await apiClient.put(`/transactions/${transactionId}/splits`, {
+                    splits: fromSplitDrafts(splitLines),
+                });
+            }
+            if (transactionId) {
+                for (const file of pendingFiles) {
+                    await uploadAttachment(transactionId, file);
+                }
             }
             onSuccess();
             onClose();
@@ -105,7 +155,7 @@ export const TransactionFormDialog: React.FC<TransactionFormDialogProps> = ({
 
     return (
         <Dialog open={open} onOpenChange={(val) => !val && onClose()}>
-            <DialogContent className="sm:max-w-[425px]">
+            <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle>{isEdit ? "Edit Transaction" : "Add New Transaction"}</DialogTitle>
                 </DialogHeader>
@@ -166,12 +216,26 @@ export const TransactionFormDialog: React.FC<TransactionFormDialogProps> = ({
                         <p className="text-xs text-muted-foreground">Negative for expense, positive for income.</p>
                     </div>
                     <div className="space-y-2">
-                        <Label>Category</Label>
-                        <CategorySelector
-                            categories={categories}
-                            value={categoryId}
-                            onChange={setCategoryId}
-                        />
+                        <div className="flex items-center justify-between">
+                            <Label>Category</Label>
+                            <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={toggleSplit}>
+                                {isSplit ? "Use a single category" : "Split across categories"}
+                            </Button>
+                        </div>
+                        {isSplit ? (
+                            <SplitEditor
+                                categories={categories}
+                                total={amount}
+                                lines={splitLines}
+                                onChange={setSplitLines}
+                            />
+                        ) : (
+                            <CategorySelector
+                                categories={categories}
+                                value={categoryId}
+                                onChange={setCategoryId}
+                            />
+                        )}
                     </div>
                     <div className="space-y-2">
                         <Label htmlFor="status">Status</Label>
@@ -187,6 +251,24 @@ export const TransactionFormDialog: React.FC<TransactionFormDialogProps> = ({
                             <option value="failed">Failed</option>
                         </select>
                     </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="notes">Notes</Label>
+                        <textarea
+                            id="notes"
+                            className="flex min-h-[72px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            placeholder="Why it happened, warranty details, who to claim it from..."
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Attachments</Label>
+                        <TransactionAttachments
+                            transactionId={transaction?.id}
+                            pending={pendingFiles}
+                            onPendingChange={setPendingFiles}
+                        />
+                    </div>
                     <DialogFooter>
                         <Button type="button" variant="outline" onClick={onClose}>
                             Cancel
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import apiClient from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, X } from "lucide-react";
+
+// Mirrors ClassificationJob in backend/src/services/classificationJobService.ts
+export interface ClassificationJob {
+    id: string;
+    status: "queued" | "running" | "completed" | "failed" | "cancelled";
+    trigger: "manual" | "auto";
+    only_rules: boolean;
+    total: number;
+    processed: number;
+    classified_rules: number;
+    classified_local: number;
+    classified_ai: number;
+    needs_review: number;
+    last_error: string | null;
+    cancel_requested: boolean;
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export const isJobActive = (job: ClassificationJob) => job.status === "queued" || job.status === "running";
+
+export const describeJob = (job: ClassificationJob) => {
+    const parts = [`${job.classified_rules} by rules`];
+    if (!job.only_rules) {
+        parts.push(`${job.classified_local} by your history`, `${job.classified_ai} by AI`);
+        if (job.needs_review > 0) parts.push(`${job.needs_review} need review`);
+    }
+    return parts.join(", ");
+};
+
+interface ClassificationJobProgressProps {
+    jobId: string;
+    onFinished: (job: ClassificationJob) => void;
+}
+
+/**
+ * Polls a background classification job, showing its progress until it finishes.
+ */
+export function ClassificationJobProgress({ jobId, onFinished }: ClassificationJobProgressProps) {
+    const [job, setJob] = useState<ClassificationJob | null>(null);
+    const [cancelling, setCancelling] = useState(false);
+    const onFinishedRef = useRef(onFinished);
+    onFinishedRef.current = onFinished;
+
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout>;
+        let stopped = false;
+
+        const poll = async () => {
+            try {
+                const res = await apiClient.get<ClassificationJob>(`/classification/jobs/${jobId}`);
+                if (stopped) return;
+                setJob(res.data);
+                if (!isJobActive(res.data)) {
+                    onFinishedRef.current(res.data);
+                    return;
+                }
+            } catch (err) {
+                console.error("Failed to fetch classification job:", err);
+            }
+            if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS);
+        };
+        poll();
+
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    }, [jobId]);
+
+    const handleCancel = async () => {
+        setCancelling(true);
+        try {
+            await apiClient.post(`/classification/jobs/${jobId}/cancel`);
+        } catch (err) {
+            console.error("Failed to cancel classification job:", err);
+            setCancelling(false);
+        }
+    };
+
+    const percent = job && job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 0;
+
+    return (
+        <div className="flex items-center gap-3 rounded-md border border-indigo-200 bg-indigo-50 dark:bg-indigo-950/30 p-3 text-sm">
+            <Loader2 className="h-4 w-4 animate-spin text-indigo-600 shrink-0" />
+            <div className="flex-1 space-y-1.5">
+                <div className="flex justify-between text-xs">
+                    <span className="font-medium">
+                        {job?.only_rules ? "Running rules" : "Classifying"} {job ? `${job.processed} of ${job.total}` : ""}
+                    </span>
+                    {job && <span className="text-muted-foreground">{describeJob(job)}</span>}
+                </div>
+                <Progress value={percent} className="h-2" />
+                {job?.last_error && (
+                    <p className="text-xs text-amber-700">{job.last_error}</p>
+                )}
+            </div>
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleCancel}
+                disabled={cancelling || job?.cancel_requested}
+                className="text-muted-foreground hover:text-red-600"
+            >
+                <X className="h-4 w-4 mr-1" />
+                {cancelling || job?.cancel_requested ? "Cancelling..." : "Cancel"}
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,247 @@
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+
+// Mirrors CsvMapping in backend/src/services/importProfileService.ts
+export interface CsvMapping {
+    delimiter: string;
+    date_column: number | null;
+    description_column: number | null;
+    amount_column: number | null;
+    debit_column: number | null;
+    credit_column: number | null;
+    reference_column: number | null;
+    date_format: string;
+    invert_sign: boolean;
+    skip_header_rows: number;
+    skip_footer_rows: number;
+}
+
+export interface ImportProfile extends CsvMapping {
+    id: string;
+    name: string;
+    account_id: string | null;
+}
+
+export const defaultCsvMapping: CsvMapping = {
+    delimiter: ",",
+    date_column: null,
+    description_column: null,
+    amount_column: null,
+    debit_column: null,
+    credit_column: null,
+    reference_column: null,
+    date_format: "DD/MM/YYYY",
+    invert_sign: false,
+    skip_header_rows: 1,
+    skip_footer_rows: 0,
+};
+
+export const isMappingComplete = (mapping: CsvMapping) =>
+    mapping.date_column !== null &&
+    mapping.description_column !== null &&
+    (mapping.amount_column !== null ||
+        (mapping.debit_column !== null && mapping.credit_column !== null));
+
+interface CsvMappingEditorProps {
+    mapping: CsvMapping;
+    onChange: (mapping: CsvMapping) => void;
+    sampleRows: string[][];
+}
+
+type ColumnField =
+    | "date_column"
+    | "description_column"
+    | "amount_column"
+    | "debit_column"
+    | "credit_column"
+    | "reference_column";
+
+export function CsvMappingEditor({
+    mapping,
+    onChange,
+    sampleRows,
+}: CsvMappingEditorProps) {
+    const columnCount = sampleRows.reduce(
+        (max, row) => Math.max(max, row.length),
+        0,
+    );
+    const headerRow =
+        mapping.skip_header_rows > 0 ? sampleRows[mapping.skip_header_rows - 1] : undefined;
+    const columnLabel = (index: number) =>
+        headerRow?.[index]
+            ? `${index + 1}: ${headerRow[index]}`
+            : `Column ${index + 1}`;
+
+    const amountMode = mapping.amount_column !== null || (mapping.debit_column === null && mapping.credit_column === null)
+        ? "single"
+        : "split";
+
+    const update = (changes: Partial<CsvMapping>) =>
+        onChange({ ...mapping, ...changes });
+
+    const renderColumnSelect = (field: ColumnField, label: string, optional = false) => (
+        <div className="space-y-1">
+            <Label className="text-xs">{label}</Label>
+            <Select
+                value={mapping[field] === null ? "none" : String(mapping[field])}
+                onValueChange={(v) =>
+                    update({ [field]: v === "none" ? null : parseInt(v) } as Partial<CsvMapping>)
+                }
+            >
+                <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                    {optional && <SelectItem value="none">None</SelectItem>}
+                    {Array.from({ length: columnCount }).map((_, i) => (
+                        <SelectItem key={i} value={String(i)}>
+                            {columnLabel(i)}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
+    const firstDataRow = mapping.skip_header_rows;
+
+    return (
+        <div className="space-y-4">
+            {/* Sample of the file so columns can be identified */}
+            <div className="max-h-[180px] overflow-auto rounded-md border text-xs">
+                <table className="w-full">
+                    <thead className="bg-muted/50 sticky top-0">
+                        <tr>
+                            {Array.from({ length: columnCount }).map((_, i) => (
+                                <th key={i} className="px-2 py-1 text-left font-medium text-muted-foreground">
+                                    {i + 1}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                        {sampleRows.map((row, rowIndex) => (
+                            <tr
+                                key={rowIndex}
+                                className={cn(rowIndex < firstDataRow && "opacity-40 line-through")}
+                            >
+                                {Array.from({ length: columnCount }).map((_, i) => (
+                                    <td key={i} className="px-2 py-1 whitespace-nowrap">
+                                        {row[i]}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                {renderColumnSelect("date_column", "Date")}
+                {renderColumnSelect("description_column", "Description")}
+                <div className="space-y-1">
+                    <Label className="text-xs">Amount Layout</Label>
+                    <Select
+                        value={amountMode}
+                        onValueChange={(v) =>
+                            v === "single"
+                                ? update({ debit_column: null, credit_column: null, amount_column: mapping.amount_column ?? 0 })
+                                : update({ amount_column: null, debit_column: 0, credit_column: 0 })
+                        }
+                    >
+                        <SelectTrigger className="h-9">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="single">Single signed amount</SelectItem>
+                            <SelectItem value="split">Separate debit / credit</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                {amountMode === "single" ? (
+                    renderColumnSelect("amount_column", "Amount")
+                ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                        {renderColumnSelect("debit_column", "Debit")}
+                        {renderColumnSelect("credit_column", "Credit")}
+                    </div>
+                )}
+                {renderColumnSelect("reference_column", "Reference (optional)", true)}
+                <div className="space-y-1">
+                    <Label className="text-xs">Date Format</Label>
+                    <Select
+                        value={mapping.date_format}
+                        onValueChange={(v) => update({ date_format: v })}
+                    >
+                        <SelectTrigger className="h-9">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="DD/MM/YYYY">DD/MM/YYYY (UK/AU)</SelectItem>
+                            <SelectItem value="MM/DD/YYYY">MM/DD/YYYY (US)</SelectItem>
+                            <SelectItem value="YYYY-MM-DD">YYYY-MM-DD (ISO)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                        <Label className="text-xs">Delimiter</Label>
+                        <Select
+                            value={mapping.delimiter}
+                            onValueChange={(v) => update({ delimiter: v })}
+                        >
+                            <SelectTrigger className="h-9">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value=",">Comma</SelectItem>
+                                <SelectItem value=";">Semicolon</SelectItem>
+                                <SelectItem value={"\t"}>Tab</SelectItem>
+                                <SelectItem value="|">Pipe</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">Skip Header</Label>
+                        <Input
+                            className="h-9"
+                            type="number"
+                            min={0}
+                            value={mapping.skip_header_rows}
+                            onChange={(e) => update({ skip_header_rows: Math.max(0, parseInt(e.target.value) || 0) })}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">Skip Footer</Label>
+                        <Input
+                            className="h-9"
+                            type="number"
+                            min={0}
+                            value={mapping.skip_footer_rows}
+                            onChange={(e) => update({ skip_footer_rows: Math.max(0, parseInt(e.target.value) || 0) })}
+                        />
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 pt-5">
+                    <Checkbox
+                        id="invert_sign"
+                        checked={mapping.invert_sign}
+                        onCheckedChange={(v) => update({ invert_sign: !!v })}
+                    />
+                    <Label htmlFor="invert_sign" className="text-xs font-normal">
+                        Invert sign (bank lists spending as positive)
+                    </Label>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,226 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// Mirrors ImportPreview in backend/src/services/importService.ts
+export interface ImportPreviewRow {
+    key: string;
+    date: string;
+    description: string;
+    amount: number;
+    status: "new" | "duplicate" | "invalid";
+    error: string | null;
+    duplicate_of: {
+        id: string;
+        date: string;
+        description: string;
+        amount: number;
+    } | null;
+    category_id: string | null;
+    category_name: string | null;
+    rule_name: string | null;
+}
+
+export interface ImportPreview {
+    accounts: {
+        accountId: string | null;
+        accountName: string;
+        isNewAccount: boolean;
+        rows: ImportPreviewRow[];
+    }[];
+}
+
+/**
+ * New rows start selected; duplicates and invalid rows start deselected.
+ */
+export const defaultSelection = (preview: ImportPreview) =>
+    new Set(
+        preview.accounts.flatMap((account) =>
+            account.rows.filter((r) => r.status === "new").map((r) => r.key),
+        ),
+    );
+
+const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+    }).format(amount);
+
+const statusStyles: Record<ImportPreviewRow["status"], string> = {
+    new: "bg-emerald-50 text-emerald-700 border-emerald-200",
+    duplicate: "bg-amber-50 text-amber-700 border-amber-200",
+    invalid: "bg-red-50 text-red-700 border-red-200",
+};
+
+interface ImportPreviewTableProps {
+    preview: ImportPreview;
+    selected: Set<string>;
+    onSelectedChange: (selected: Set<string>) => void;
+}
+
+export function ImportPreviewTable({
+    preview,
+    selected,
+    onSelectedChange,
+}: ImportPreviewTableProps) {
+    const toggle = (key: string, checked: boolean) => {
+        const next = new Set(selected);
+        if (checked) next.add(key);
+        else next.delete(key);
+        onSelectedChange(next);
+    };
+
+    const toggleAll = (rows: ImportPreviewRow[], checked: boolean) => {
+        const next = new Set(selected);
+        rows.filter((r) => r.status !== "invalid").forEach((r) =>
+            checked ? next.add(r.key) : next.delete(r.key),
+        );
+        onSelectedChange(next);
+    };
+
+    return (
+        <div className="space-y-4">
+            {preview.accounts.map((account, index) => {
+                const selectable = account.rows.filter(
+                    (r) => r.status !== "invalid",
+                );
+                const counts = {
+                    new: account.rows.filter((r) => r.status === "new").length,
+                    duplicate: account.rows.filter(
+                        (r) => r.status === "duplicate",
+                    ).length,
+                    invalid: account.rows.filter((r) => r.status === "invalid")
+                        .length,
+                };
+
+                return (
+                    <div key={account.accountId || index} className="space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                            <div className="font-medium">
+                                {account.accountName}
+                                {account.isNewAccount && (
+                                    <span className="ml-2 text-xs text-muted-foreground">
+                                        (will be created)
+                                    </span>
+                                )}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                                {counts.new} new · {counts.duplicate} duplicate
+                                · {counts.invalid} invalid
+                            </div>
+                        </div>
+                        <div className="max-h-[320px] overflow-auto rounded-md border text-xs">
+                            <table className="w-full">
+                                <thead className="bg-muted/50 sticky top-0">
+                                    <tr>
+                                        <th className="px-2 py-1 w-8">
+                                            <Checkbox
+                                                checked={
+                                                    selectable.length > 0 &&
+                                                    selectable.every((r) =>
+                                                        selected.has(r.key),
+                                                    )
+                                                }
+                                                onCheckedChange={(v) =>
+                                                    toggleAll(account.rows, !!v)
+                                                }
+                                            />
+                                        </th>
+                                        <th className="px-2 py-1 text-left font-medium text-muted-foreground">
+                                            Date
+                                        </th>
+                                        <th className="px-2 py-1 text-left font-medium text-muted-foreground">
+                                            Description
+                                        </th>
+                                        <th className="px-2 py-1 text-right font-medium text-muted-foreground">
+                                            Amount
+                                        </th>
+                                        <th className="px-2 py-1 text-left font-medium text-muted-foreground">
+                                            Category
+                                        </th>
+                                        <th className="px-2 py-1 text-left font-medium text-muted-foreground">
+                                            Status
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-border">
+                                    {account.rows.map((row) => (
+                                        <tr
+                                            key={row.key}
+                                            className={cn(
+                                                !selected.has(row.key) &&
+                                                "text-muted-foreground",
+                                            )}
+                                        >
+                                            <td className="px-2 py-1">
+                                                <Checkbox
+                                                    checked={selected.has(row.key)}
+                                                    disabled={row.status === "invalid"}
+                                                    onCheckedChange={(v) =>
+                                                        toggle(row.key, !!v)
+                                                    }
+                                                />
+                                            </td>
+                                            <td className="px-2 py-1 whitespace-nowrap">
+                                                {row.date}
+                                            </td>
+                                            <td className="px-2 py-1">
+                                                <div>{row.description}</div>
+                                                {row.duplicate_of && (
+                                                    <div className="text-[10px] text-amber-700">
+                                                        Matches {row.duplicate_of.date} ·{" "}
+                                                        {row.duplicate_of.description} ·{" "}
+                                                        {formatCurrency(row.duplicate_of.amount)}
+                                                    </div>
+                                                )}
+                                                {row.error && (
+                                                    <div className="text-[10px] text-red-600">
+                                                        {row.error}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td
+                                                className={cn(
+                                                    "px-2 py-1 text-right whitespace-nowrap font-medium",
+                                                    row.amount >= 0
+                                                        ? "text-green-600"
+                                                        : "text-red-600",
+                                                )}
+                                            >
+                                                {Number.isFinite(row.amount)
+                                                    ? formatCurrency(row.amount)
+                                                    : "—"}
+                                            </td>
+                                            <td className="px-2 py-1">
+                                                {row.category_name ? (
+                                                    <span title={`Rule: ${row.rule_name}`}>
+                                                        {row.category_name}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-muted-foreground">
+                                                        —
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-2 py-1">
+                                                <Badge
+                                                    variant="outline"
+                                                    className={cn(
+                                                        "capitalize",
+                                                        statusStyles[row.status],
+                                                    )}
+                                                >
+                                                    {row.status}
+                                                </Badge>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -21,6 +21,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, Loader2 } from "lucide-react";
 import apiClient from "@/lib/api";
+import {
+    CsvMappingEditor,
+    CsvMapping,
+    ImportProfile,
+    defaultCsvMapping,
+    isMappingComplete,
+} from "@/components/csv-mapping-editor";
+import {
+    ImportPreview,
+    ImportPreviewTable,
+    defaultSelection,
+} from "@/components/import-preview-table";
 
 interface ImportTransactionsDialogProps {
     onUploadSuccess?: () => void;
@@ -52,12 +64,24 @@ export function ImportTransactionsDialog({
     const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
+    // CSV: either a saved profile or a new mapping built against a sample of the file
+    const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+    const [profileId, setProfileId] = useState<string>("new");
+    const [mapping, setMapping] = useState<CsvMapping>(defaultCsvMapping);
+    const [sampleRows, setSampleRows] = useState<string[][]>([]);
+    const [profileName, setProfileName] = useState("");
+
+    // Rows parsed by a preview request; only the selected ones get imported
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+
     useEffect(() => {
         if (open) {
             setFile(null);
             setError(null);
             setSuccessMessage(null);
             setUploading(false);
+            setPreview(null);
             if (initialAccountId) setSelectedAccountId(initialAccountId);
 
             const fetchAccounts = async () => {
@@ -70,18 +94,82 @@ export function ImportTransactionsDialog({
                 }
             };
             fetchAccounts();
+
+            const fetchProfiles = async () => {
+                try {
+                    const response =
+                        await apiClient.get<ImportProfile[]>("/imports/profiles");
+                    setProfiles(response.data);
+                } catch (err) {
+                    console.error("Failed to fetch import profiles:", err);
+                }
+            };
+            fetchProfiles();
         }
     }, [open, initialAccountId]);
 
+    // Read a sample of the chosen CSV so its columns can be mapped
+    useEffect(() => {
+        if (format !== "csv" || profileId !== "new" || !file) {
+            setSampleRows([]);
+            return;
+        }
+
+        const inspect = async () => {
+            const formData = new FormData();
+            formData.append("file", file);
+            formData.append("delimiter", mapping.delimiter);
+            try {
+                const response = await apiClient.post<{ rows: string[][] }>(
+                    "/imports/csv/inspect",
+                    formData,
+                    { headers: { "Content-Type": "multipart/form-data" } },
+                );
+                setSampleRows(response.data.rows);
+            } catch (err) {
+                console.error("Failed to read CSV file:", err);
+                setError("Could not read the CSV file.");
+            }
+        };
+        inspect();
+    }, [format, profileId, file, mapping.delimiter]);
+
+    const handleProfileChange = (value: string) => {
+        setProfileId(value);
+        const profile = profiles.find((p) => p.id === value);
+        if (profile?.account_id && !initialAccountId) {
+            setSelectedAccountId(profile.account_id);
+        }
+    };
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             setFile(e.target.files[0]);
             setError(null);
             setSuccessMessage(null);
+            setPreview(null);
         }
     };
 
-    const handleUpload = async () => {
+    const buildFormData = (csvProfileId: string | null) => {
+        const formData = new FormData();
+        formData.append("file", file as File);
+        formData.append("format", format);
+        formData.append("dateFormat", dateFormat);
+        if (selectedAccountId && selectedAccountId !== "auto") {
+            formData.append("accountId", selectedAccountId);
+        }
+        if (format === "csv") {
+            if (csvProfileId) {
+                formData.append("profileId", csvProfileId);
+            } else {
+                formData.append("mapping", JSON.stringify(mapping));
+            }
+        }
+        return formData;
+    };
+
+    const handlePreview = async () => {
         if (!file) {
             setError("Please select a file to upload.");
             return;
@@ -91,15 +179,69 @@ export function ImportTransactionsDialog({
         setError(null);
         setSuccessMessage(null);
 
-        const formData = new FormData();
-        formData.append("file", file);
-        formData.append("format", format);
-        formData.append("dateFormat", dateFormat);
-        if (selectedAccountId && selectedAccountId !== "auto") {
-            formData.append("accountId", selectedAccountId);
+        const formData = buildFormData(profileId !== "new" ? profileId : null);
+        formData.append("preview", "true");
+
+        try {
+            const response = await apiClient.post("/imports", formData, {
+                headers: {
+                    "Content-Type": "multipart/form-data",
+                },
+            });
+            const result: ImportPreview = response.data.data;
+            setPreview(result);
+            setSelectedRows(defaultSelection(result));
+        } catch (err: any) {
+            console.error("Preview failed", err);
+            setError(
+                err.response?.data?.error ||
+                    "Failed to read file. Please try again.",
+            );
+        } finally {
+            setUploading(false);
         }
+    };
+
+    const handleUpload = async () => {
+        if (!file) {
+            setError("Please select a file to upload.");
+            return;
+        }
+
+        setUploading(true);
+        setError(null);
+        setSuccessMessage(null);
 
         try {
+            let csvProfileId = profileId !== "new" ? profileId : null;
+            if (format === "csv") {
+                if (!csvProfileId && profileName.trim()) {
+                    const response = await apiClient.post<ImportProfile>(
+                        "/imports/profiles",
+                        {
+                            ...mapping,
+                            name: profileName.trim(),
+                            account_id:
+                                selectedAccountId !== "auto"
+                                    ? selectedAccountId
+                                    : null,
+                        },
+                    );
+                    csvProfileId = response.data.id;
+                    setProfiles((prev) => [...prev, response.data]);
+                    setProfileId(response.data.id);
+                    setProfileName("");
+                }
+            }
+
+            const formData = buildFormData(csvProfileId);
+            if (preview) {
+                formData.append(
+                    "acceptedRows",
+                    JSON.stringify(Array.from(selectedRows)),
+                );
+            }
+
             const response = await apiClient.post("/imports", formData, {
                 headers: {
                     "Content-Type": "multipart/form-data",
@@ -117,21 +259,42 @@ export function ImportTransactionsDialog({
             );
 
             setSuccessMessage(
-                `Successfully processed! Inserted: ${totalInserted}, Skipped (duplicates): ${totalSkipped}`,
+                `Successfully processed! Inserted: ${totalInserted}, Skipped (duplicates): ${totalSkipped}` +
+                    (result.possibleDuplicates > 0
+                        ? `. ${result.possibleDuplicates} possible duplicates flagged for review.`
+                        : "") +
+                    (result.transfersLinked > 0
+                        ? ` ${result.transfersLinked} transfers between accounts linked.`
+                        : "") +
+                    (result.possibleTransfers > 0
+                        ? ` ${result.possibleTransfers} possible transfers need review.`
+                        : "") +
+                    (result.scheduledMatched > 0
+                        ? ` ${result.scheduledMatched} matched scheduled transactions.`
+                        : ""),
             );
             setFile(null);
+            setPreview(null);
 
             if (onUploadSuccess) {
                 onUploadSuccess();
             }
-        } catch (err) {
+        } catch (err: any) {
             console.error("Upload failed", err);
-            setError("Failed to upload file. Please try again.");
+            setError(
+                err.response?.data?.error ||
+                    "Failed to upload file. Please try again.",
+            );
         } finally {
             setUploading(false);
         }
     };
 
+    const canSubmit =
+        !!file &&
+        !uploading &&
+        !(format === "csv" && profileId === "new" && !isMappingComplete(mapping));
+
     return (
         <Dialog open={open} onOpenChange={setOpen}>
             {!isControlled && (
@@ -142,123 +305,216 @@ export function ImportTransactionsDialog({
                     </Button>
                 </DialogTrigger>
             )}
-            <DialogContent className="sm:max-w-[425px]">
+            <DialogContent
+                className={
+                    preview
+                        ? "sm:max-w-[860px]"
+                        : format === "csv"
+                            ? "sm:max-w-[720px]"
+                            : "sm:max-w-[425px]"
+                }
+            >
                 <DialogHeader>
                     <DialogTitle>Import Transactions</DialogTitle>
                     <DialogDescription>
                         Upload a transaction file from your bank.
                     </DialogDescription>
                 </DialogHeader>
-                <div className="grid gap-4 py-4">
-                    <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="account" className="text-right">
-                            Account
-                        </Label>
-                        <Select
-                            value={selectedAccountId}
-                            onValueChange={setSelectedAccountId}
-                        >
-                            <SelectTrigger className="col-span-3">
-                                <SelectValue placeholder="Select account" />
-                            </SelectTrigger>
-                            <SelectContent>
-                                <SelectItem value="auto">
-                                    Auto-detect from file
-                                </SelectItem>
-                                {accounts.map((account) => (
-                                    <SelectItem
-                                        key={account.id}
-                                        value={account.id}
-                                    >
-                                        {account.name}
-                                    </SelectItem>
-                                ))}
-                            </SelectContent>
-                        </Select>
-                    </div>
-                    <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="format" className="text-right">
-                            Format
-                        </Label>
-                        <Select value={format} onValueChange={setFormat}>
-                            <SelectTrigger className="col-span-3">
-                                <SelectValue placeholder="Select format" />
-                            </SelectTrigger>
-                            <SelectContent>
-                                <SelectItem value="ofx">OFX / QFX</SelectItem>
-                                <SelectItem value="qif">QIF</SelectItem>
-                                <SelectItem value="csv" disabled>
-                                    CSV (Coming Soon)
-                                </SelectItem>
-                            </SelectContent>
-                        </Select>
+                {preview ? (
+                    <div className="py-4">
+                        <ImportPreviewTable
+                            preview={preview}
+                            selected={selectedRows}
+                            onSelectedChange={setSelectedRows}
+                        />
                     </div>
-                    {format === "qif" && (
+                ) : (
+                    <div className="grid gap-4 py-4">
                         <div className="grid grid-cols-4 items-center gap-4">
-                            <Label htmlFor="dateFormat" className="text-right">
-                                Date Format
+                            <Label htmlFor="account" className="text-right">
+                                Account
                             </Label>
                             <Select
-                                value={dateFormat}
-                                onValueChange={setDateFormat}
+                                value={selectedAccountId}
+                                onValueChange={setSelectedAccountId}
                             >
                                 <SelectTrigger className="col-span-3">
-                                    <SelectValue placeholder="Select date format" />
+                                    <SelectValue placeholder="Select account" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="MM/DD/YYYY">
-                                        MM/DD/YYYY (US)
-                                    </SelectItem>
-                                    <SelectItem value="DD/MM/YYYY">
-                                        DD/MM/YYYY (UK/AU)
-                                    </SelectItem>
-                                    <SelectItem value="YYYY-MM-DD">
-                                        YYYY-MM-DD (ISO)
+                                    <SelectItem value="auto">
+                                        Auto-detect from file
                                     </SelectItem>
+                                    {accounts.map((account) => (
+                                        <SelectItem
+                                            key={account.id}
+                                            value={account.id}
+                                        >
+                                            {account.name}
+                                        </SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                         </div>
-                    )}
-                    <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="file" className="text-right">
-                            File
-                        </Label>
-                        <Input
-                            id="file"
-                            type="file"
-                            accept={
-                                format === "ofx"
-                                    ? ".ofx,.qfx"
-                                    : format === "qif"
-                                        ? ".qif"
-                                        : "*"
-                            }
-                            className="col-span-3"
-                            onChange={handleFileChange}
-                        />
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="format" className="text-right">
+                                Format
+                            </Label>
+                            <Select value={format} onValueChange={setFormat}>
+                                <SelectTrigger className="col-span-3">
+                                    <SelectValue placeholder="Select format" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="ofx">OFX / QFX</SelectItem>
+                                    <SelectItem value="qif">QIF</SelectItem>
+                                    <SelectItem value="csv">CSV</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {format === "qif" && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="dateFormat" className="text-right">
+                                    Date Format
+                                </Label>
+                                <Select
+                                    value={dateFormat}
+                                    onValueChange={setDateFormat}
+                                >
+                                    <SelectTrigger className="col-span-3">
+                                        <SelectValue placeholder="Select date format" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="MM/DD/YYYY">
+                                            MM/DD/YYYY (US)
+                                        </SelectItem>
+                                        <SelectItem value="DD/MM/YYYY">
+                                            DD/MM/YYYY (UK/AU)
+                                        </SelectItem>
+                                        <SelectItem value="YYYY-MM-DD">
+                                            YYYY-MM-DD (ISO)
+                                        </SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="file" className="text-right">
+                                File
+                            </Label>
+                            <Input
+                                id="file"
+                                type="file"
+                                accept={
+                                    format === "ofx"
+                                        ? ".ofx,.qfx"
+                                        : format === "qif"
+                                            ? ".qif"
+                                            : ".csv"
+                                }
+                                className="col-span-3"
+                                onChange={handleFileChange}
+                            />
+                        </div>
+                        {format === "csv" && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="profile" className="text-right">
+                                    Profile
+                                </Label>
+                                <Select
+                                    value={profileId}
+                                    onValueChange={handleProfileChange}
+                                >
+                                    <SelectTrigger className="col-span-3">
+                                        <SelectValue placeholder="Select profile" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="new">
+                                            New column mapping
+                                        </SelectItem>
+                                        {profiles.map((profile) => (
+                                            <SelectItem
+                                                key={profile.id}
+                                                value={profile.id}
+                                            >
+                                                {profile.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        {format === "csv" &&
+                            profileId === "new" &&
+                            sampleRows.length > 0 && (
+                                <>
+                                    <CsvMappingEditor
+                                        mapping={mapping}
+                                        onChange={setMapping}
+                                        sampleRows={sampleRows}
+                                    />
+                                    <div className="grid grid-cols-4 items-center gap-4">
+                                        <Label
+                                            htmlFor="profileName"
+                                            className="text-right"
+                                        >
+                                            Save As
+                                        </Label>
+                                        <Input
+                                            id="profileName"
+                                            placeholder="Profile name (optional)"
+                                            className="col-span-3"
+                                            value={profileName}
+                                            onChange={(e) =>
+                                                setProfileName(e.target.value)
+                                            }
+                                        />
+                                    </div>
+                                </>
+                            )}
                     </div>
-                    {error && (
-                        <p className="text-sm text-red-500 text-center">
-                            {error}
-                        </p>
-                    )}
-                    {successMessage && (
-                        <p className="text-sm text-green-600 text-center">
-                            {successMessage}
-                        </p>
-                    )}
-                </div>
+                )}
+                {error && (
+                    <p className="text-sm text-red-500 text-center">
+                        {error}
+                    </p>
+                )}
+                {successMessage && (
+                    <p className="text-sm text-green-600 text-center">
+                        {successMessage}
+                    </p>
+                )}
                 <DialogFooter>
+                    {preview ? (
+                        <Button
+                            variant="outline"
+                            onClick={() => setPreview(null)}
+                            disabled={uploading}
+                        >
+                            Back
+                        </Button>
+                    ) : (
+                        <Button
+                            variant="outline"
+                            onClick={handlePreview}
+                            disabled={!canSubmit}
+                        >
+                            Preview
+                        </Button>
+                    )}
                     <Button
                         type="submit"
                         onClick={handleUpload}
-                        disabled={!file || uploading}
+                        disabled={
+                            !canSubmit || (!!preview && selectedRows.size === 0)
+                        }
                     >
                         {uploading ? (
                             <>
                                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                                 Importing...
                             </>
+                        ) : preview ? (
+                            `Import ${selectedRows.size} Selected`
                         ) : (
                             "Import"
                         )}
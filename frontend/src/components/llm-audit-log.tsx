@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import apiClient from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, RefreshCw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+// Mirrors LlmAuditEntry in backend/src/services/llmPrivacy.ts
+export interface LlmAuditEntry {
+    id: string;
+    purpose: "classification" | "rule_suggestions" | "connection_test";
+    provider: string;
+    model: string | null;
+    system_prompt: string;
+    prompt: string;
+    response: string | null;
+    error: string | null;
+    duration_ms: number | null;
+    created_at: string;
+}
+
+const PAGE_SIZE = 20;
+
+const purposeLabels: Record<LlmAuditEntry["purpose"], string> = {
+    classification: "Classification",
+    rule_suggestions: "Rule suggestions",
+    connection_test: "Connection test",
+};
+
+/**
+ * Every prompt sent to an AI provider and what came back, newest first.
+ */
+export function LlmAuditLog() {
+    const [entries, setEntries] = useState<LlmAuditEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const fetchEntries = async (offset: number = 0) => {
+        setLoading(true);
+        try {
+            const res = await apiClient.get<{ entries: LlmAuditEntry[]; total: number }>("/integrations/llm/audit", {
+                params: { limit: PAGE_SIZE, offset },
+            });
+            setEntries((prev) => (offset === 0 ? res.data.entries : [...prev, ...res.data.entries]));
+            setTotal(res.data.total);
+        } catch (err) {
+            console.error("Failed to fetch LLM audit log:", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchEntries();
+    }, []);
+
+    const handleClear = async () => {
+        if (!confirm("Clear the AI audit log? This can't be undone.")) return;
+        try {
+            await apiClient.delete("/integrations/llm/audit");
+            setEntries([]);
+            setTotal(0);
+        } catch (err) {
+            console.error("Failed to clear LLM audit log:", err);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-medium">Audit log</h3>
+                    <p className="text-xs text-muted-foreground">
+                        Exactly what was sent to AI providers and what they replied. Kept for 90 days.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => fetchEntries()} disabled={loading}>
+                        <RefreshCw className="h-4 w-4 mr-1" /> Refresh
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleClear}
+                        disabled={entries.length === 0}
+                        className="hover:text-red-600"
+                    >
+                        <Trash2 className="h-4 w-4 mr-1" /> Clear
+                    </Button>
+                </div>
+            </div>
+
+            <div className="rounded-lg border border-border divide-y divide-border text-sm">
+                {entries.length === 0 ? (
+                    <p className="py-8 text-center text-muted-foreground italic">Nothing has been sent to an AI provider.</p>
+                ) : (
+                    entries.map((entry) => {
+                        const expanded = expandedId === entry.id;
+                        return (
+                            <div key={entry.id}>
+                                <button
+                                    type="button"
+                                    className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-muted/50"
+                                    onClick={() => setExpandedId(expanded ? null : entry.id)}
+                                >
+                                    {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                                    <span className="w-36 shrink-0 text-muted-foreground">
+                                        {format(new Date(entry.created_at), "dd MMM yyyy HH:mm")}
+                                    </span>
+                                    <span className="flex-1 font-medium">{purposeLabels[entry.purpose] || entry.purpose}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                        {entry.provider}{entry.model ? ` / ${entry.model}` : ""}
+                                    </span>
+                                    {entry.error ? (
+                                        <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded-full text-xs font-medium">Failed</span>
+                                    ) : (
+                                        <span className="text-xs text-muted-foreground w-16 text-right">
+                                            {entry.duration_ms !== null ? `${entry.duration_ms} ms` : ""}
+                                        </span>
+                                    )}
+                                </button>
+                                {expanded && (
+                                    <div className="space-y-3 px-4 pb-4">
+                                        <AuditText label="System prompt" text={entry.system_prompt} />
+                                        <AuditText label="Prompt" text={entry.prompt} />
+                                        {entry.error
+                                            ? <AuditText label="Error" text={entry.error} />
+                                            : <AuditText label="Response" text={entry.response || ""} />}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            {entries.length < total && (
+                <div className="flex justify-center">
+                    <Button variant="ghost" size="sm" onClick={() => fetchEntries(entries.length)} disabled={loading}>
+                        Show more ({total - entries.length} older)
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function AuditText({ label, text }: { label: string; text: string }) {
+    return (
+        <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{label}</p>
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md bg-muted p-3 text-xs">{text}</pre>
+        </div>
+    );
+}
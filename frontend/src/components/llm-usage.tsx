@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import apiClient from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Plus, RotateCcw } from "lucide-react";
+import { format, parse } from "date-fns";
+
+// Mirrors LlmUsageSummary, LlmUsageReport and LlmPrice in backend/src/services/llmUsage.ts
+interface LlmUsageSummary {
+    requests: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost: number;
+    unpriced_requests: number;
+}
+
+interface LlmUsageReport {
+    cap: number | null;
+    cap_reached: boolean;
+    month: LlmUsageSummary;
+    by_model: (LlmUsageSummary & { provider: string; model: string })[];
+    history: (LlmUsageSummary & { month: string })[];
+}
+
+interface LlmPrice {
+    provider: string;
+    model: string;
+    input_per_million: number;
+    output_per_million: number;
+    custom: boolean;
+}
+
+interface LlmUsageProps {
+    providers: { id: string; label: string; self_hosted: boolean }[];
+}
+
+const formatCost = (cost: number) => `$${cost < 1 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+/**
+ * This month's AI usage against the spending cap, recent months, and the prices used to estimate cost.
+ */
+export function LlmUsage({ providers }: LlmUsageProps) {
+    const [report, setReport] = useState<LlmUsageReport | null>(null);
+    const [prices, setPrices] = useState<LlmPrice[]>([]);
+    const [capInput, setCapInput] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [newPrice, setNewPrice] = useState({ provider: "openai", model: "", input: "", output: "" });
+
+    const fetchUsage = async () => {
+        try {
+            const [usageRes, pricesRes] = await Promise.all([
+                apiClient.get<LlmUsageReport>("/integrations/llm/usage"),
+                apiClient.get<LlmPrice[]>("/integrations/llm/prices"),
+            ]);
+            setReport(usageRes.data);
+            setCapInput(usageRes.data.cap !== null ? String(usageRes.data.cap) : "");
+            setPrices(pricesRes.data);
+        } catch (err) {
+            console.error("Failed to fetch LLM usage:", err);
+        }
+    };
+
+    useEffect(() => {
+        fetchUsage();
+    }, []);
+
+    const saveCap = async () => {
+        const cap = capInput.trim() === "" ? null : parseFloat(capInput);
+        if (cap !== null && (isNaN(cap) || cap < 0)) return;
+        setSaving(true);
+        try {
+            await apiClient.post("/settings/llm-spending-cap", { cap });
+            await fetchUsage();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to update spending cap");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const savePrice = async (provider: string, model: string, input: number, output: number) => {
+        try {
+            const res = await apiClient.post<LlmPrice[]>("/integrations/llm/prices", {
+                provider,
+                model,
+                inputPerMillion: input,
+                outputPerMillion: output,
+            });
+            setPrices(res.data);
+        } catch (err: any) {
+            console.error(err);
+            alert(err.response?.data?.error || "Failed to save price");
+        }
+    };
+
+    const addPrice = async () => {
+        const input = parseFloat(newPrice.input);
+        const output = parseFloat(newPrice.output);
+        if (!newPrice.model.trim() || isNaN(input) || isNaN(output)) return;
+        await savePrice(newPrice.provider, newPrice.model.trim(), input, output);
+        setNewPrice({ ...newPrice, model: "", input: "", output: "" });
+    };
+
+    const resetPrice = async (price: LlmPrice) => {
+        try {
+            await apiClient.delete(`/integrations/llm/prices/${encodeURIComponent(price.provider)}/${encodeURIComponent(price.model)}`);
+            const res = await apiClient.get<LlmPrice[]>("/integrations/llm/prices");
+            setPrices(res.data);
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const providerLabel = (id: string) => providers.find((p) => p.id === id)?.label || id;
+    const paidProviders = providers.filter((p) => !p.self_hosted);
+    const month = report?.month;
+    const capPercent = report?.cap ? Math.min(100, Math.round(((month?.cost || 0) / report.cap) * 100)) : 0;
+
+    return (
+        <div className="space-y-6">
+            {/* This month */}
+            <div className="space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="rounded-lg border border-border p-3">
+                        <p className="text-xs text-muted-foreground">Estimated cost this month</p>
+                        <p className="text-xl font-semibold">{formatCost(month?.cost || 0)}</p>
+                    </div>
+                    <div className="rounded-lg border border-border p-3">
+                        <p className="text-xs text-muted-foreground">Requests</p>
+                        <p className="text-xl font-semibold">{month?.requests || 0}</p>
+                    </div>
+                    <div className="rounded-lg border border-border p-3">
+                        <p className="text-xs text-muted-foreground">Prompt tokens</p>
+                        <p className="text-xl font-semibold">{formatTokens(month?.input_tokens || 0)}</p>
+                    </div>
+                    <div className="rounded-lg border border-border p-3">
+                        <p className="text-xs text-muted-foreground">Completion tokens</p>
+                        <p className="text-xl font-semibold">{formatTokens(month?.output_tokens || 0)}</p>
+                    </div>
+                </div>
+                {month && month.unpriced_requests > 0 && (
+                    <p className="text-xs text-amber-700">
+                        {month.unpriced_requests} request(s) had no token counts or no price for the model, so aren't included in the cost.
+                    </p>
+                )}
+            </div>
+
+            {/* Spending cap */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+                <div className="flex items-end gap-3 max-w-sm">
+                    <div className="flex-1 space-y-1">
+                        <Label htmlFor="llm_monthly_cap">Monthly spending cap (USD)</Label>
+                        <Input
+                            id="llm_monthly_cap"
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder="No cap"
+                            value={capInput}
+                            onChange={(e) => setCapInput(e.target.value)}
+                        />
+                    </div>
+                    <Button variant="outline" onClick={saveCap} disabled={saving}>
+                        Update
+                    </Button>
+                </div>
+                {report?.cap !== null && report?.cap !== undefined && (
+                    <div className="space-y-1">
+                        <Progress value={capPercent} className="h-2" />
+                        <p className={`text-xs ${report.cap_reached ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                            {report.cap_reached
+                                ? "Cap reached: AI classification and rule suggestions are paused until next month."
+                                : `${formatCost(month?.cost || 0)} of ${formatCost(report.cap)} used (${capPercent}%)`}
+                        </p>
+                    </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                    Once this month's estimated cost reaches the cap, transactions are only classified by rules and your history.
+                </p>
+            </div>
+
+            {/* By model, and recent months */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="rounded-lg border border-border overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted border-b border-border text-muted-foreground">
+                            <tr>
+                                <th className="text-left py-2 px-3 font-semibold">This month by model</th>
+                                <th className="text-right py-2 px-3 font-semibold">Tokens</th>
+                                <th className="text-right py-2 px-3 font-semibold">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {!report || report.by_model.length === 0 ? (
+                                <tr>
+                                    <td colSpan={3} className="py-6 text-center text-muted-foreground italic">No AI requests this month.</td>
+                                </tr>
+                            ) : (
+                                report.by_model.map((row) => (
+                                    <tr key={`${row.provider}/${row.model}`}>
+                                        <td className="py-2 px-3">
+                                            {row.model}
+                                            <span className="block text-xs text-muted-foreground">{providerLabel(row.provider)}</span>
+                                        </td>
+                                        <td className="py-2 px-3 text-right">{formatTokens(row.input_tokens + row.output_tokens)}</td>
+                                        <td className="py-2 px-3 text-right">{row.unpriced_requests === row.requests ? "—" : formatCost(row.cost)}</td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="rounded-lg border border-border overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted border-b border-border text-muted-foreground">
+                            <tr>
+                                <th className="text-left py-2 px-3 font-semibold">Month</th>
+                                <th className="text-right py-2 px-3 font-semibold">Requests</th>
+                                <th className="text-right py-2 px-3 font-semibold">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {!report || report.history.length === 0 ? (
+                                <tr>
+                                    <td colSpan={3} className="py-6 text-center text-muted-foreground italic">No usage yet.</td>
+                                </tr>
+                            ) : (
+                                report.history.map((row) => (
+                                    <tr key={row.month}>
+                                        <td className="py-2 px-3">{format(parse(row.month, "yyyy-MM", new Date()), "MMMM yyyy")}</td>
+                                        <td className="py-2 px-3 text-right">{row.requests}</td>
+                                        <td className="py-2 px-3 text-right">{formatCost(row.cost)}</td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Price table */}
+            <div className="space-y-3">
+                <div>
+                    <h3 className="text-sm font-medium">Prices (USD per million tokens)</h3>
+                    <p className="text-xs text-muted-foreground">
+                        Used to estimate cost. Models match by prefix, so "gpt-4o" also covers dated versions. Self-hosted models are free.
+                    </p>
+                </div>
+                <div className="rounded-lg border border-border overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted border-b border-border text-muted-foreground">
+                            <tr>
+                                <th className="text-left py-2 px-3 font-semibold">Model</th>
+                                <th className="text-right py-2 px-3 font-semibold">Prompt</th>
+                                <th className="text-right py-2 px-3 font-semibold">Completion</th>
+                                <th className="py-2 px-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {prices.map((price) => (
+                                <PriceRow
+                                    key={`${price.provider}/${price.model}/${price.custom}`}
+                                    price={price}
+                                    providerLabel={providerLabel(price.provider)}
+                                    onSave={(input, output) => savePrice(price.provider, price.model, input, output)}
+                                    onReset={() => resetPrice(price)}
+                                />
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1">
+                        <Label htmlFor="price_provider" className="text-xs">Provider</Label>
+                        <select
+                            id="price_provider"
+                            className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                            value={newPrice.provider}
+                            onChange={(e) => setNewPrice({ ...newPrice, provider: e.target.value })}
+                        >
+                            {paidProviders.map((p) => (
+                                <option key={p.id} value={p.id}>{p.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex-1 min-w-[10rem] space-y-1">
+                        <Label htmlFor="price_model" className="text-xs">Model</Label>
+                        <Input
+                            id="price_model"
+                            placeholder="e.g. gpt-4o-mini"
+                            value={newPrice.model}
+                            onChange={(e) => setNewPrice({ ...newPrice, model: e.target.value })}
+                        />
+                    </div>
+                    <div className="w-28 space-y-1">
+                        <Label htmlFor="price_input" className="text-xs">Prompt</Label>
+                        <Input
+                            id="price_input"
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={newPrice.input}
+                            onChange={(e) => setNewPrice({ ...newPrice, input: e.target.value })}
+                        />
+                    </div>
+                    <div className="w-28 space-y-1">
+                        <Label htmlFor="price_output" className="text-xs">Completion</Label>
+                        <Input
+                            id="price_output"
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={newPrice.output}
+                            onChange={(e) => setNewPrice({ ...newPrice, output: e.target.value })}
+                        />
+                    </div>
+                    <Button variant="outline" onClick={addPrice} disabled={!newPrice.model.trim() || !newPrice.input || !newPrice.output}>
+                        <Plus className="h-4 w-4 mr-1" /> Add
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+interface PriceRowProps {
+    price: LlmPrice;
+    providerLabel: string;
+    onSave: (input: number, output: number) => void;
+    onReset: () => void;
+}
+
+function PriceRow({ price, providerLabel, onSave, onReset }: PriceRowProps) {
+    const [input, setInput] = useState(String(price.input_per_million));
+    const [output, setOutput] = useState(String(price.output_per_million));
+    const changed = parseFloat(input) !== price.input_per_million || parseFloat(output) !== price.output_per_million;
+    const valid = !isNaN(parseFloat(input)) && !isNaN(parseFloat(output));
+
+    return (
+        <tr>
+            <td className="py-2 px-3">
+                {price.model}
+                <span className="block text-xs text-muted-foreground">
+                    {providerLabel}{price.custom ? " · your price" : ""}
+                </span>
+            </td>
+            <td className="py-2 px-3">
+                <Input type="number" min={0} step="0.01" value={input} onChange={(e) => setInput(e.target.value)} className="h-8 w-24 ml-auto text-right" />
+            </td>
+            <td className="py-2 px-3">
+                <Input type="number" min={0} step="0.01" value={output} onChange={(e) => setOutput(e.target.value)} className="h-8 w-24 ml-auto text-right" />
+            </td>
+            <td className="py-2 px-3 text-right whitespace-nowrap">
+                {changed && (
+                    <Button variant="ghost" size="sm" onClick={() => onSave(parseFloat(input), parseFloat(output))} disabled={!valid}>
+                        Save
+                    </Button>
+                )}
+                {price.custom && !changed && (
+                    <Button variant="ghost" size="icon" title="Use the built-in price" onClick={onReset}>
+                        <RotateCcw className="h-4 w-4" />
+                    </Button>
+                )}
+            </td>
+        </tr>
+    );
+}
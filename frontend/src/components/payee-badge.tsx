@@ -0,0 +1,32 @@
+import { Link } from "react-router-dom";
+import { cn } from "@/lib/utils";
+
+interface PayeeBadgeProps {
+    id: string;
+    name: string;
+    color?: string | null;
+    logoUrl?: string | null;
+    className?: string;
+}
+
+/**
+ * A payee's logo (or colour) and name, linking to its transactions.
+ */
+export function PayeeBadge({ id, name, color, logoUrl, className }: PayeeBadgeProps) {
+    return (
+        <Link
+            to={`/transactions?payeeId=${id}`}
+            className={cn("inline-flex items-center gap-1.5 hover:underline", className)}
+        >
+            {logoUrl ? (
+                <img src={logoUrl} alt="" className="h-4 w-4 shrink-0 rounded-sm object-contain" />
+            ) : (
+                <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full bg-slate-300"
+                    style={color ? { backgroundColor: color } : undefined}
+                />
+            )}
+            <span className="truncate">{name}</span>
+        </Link>
+    );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import apiClient from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { CategorySelector } from "@/components/category-selector";
+import { Category } from "@/pages/Categories";
+import { Plus, Trash2 } from "lucide-react";
+
+// Mirrors PayeeAlias in backend/src/services/payeeService.ts
+export interface PayeeAlias {
+    id: string;
+    payee_id: string;
+    match_type: "exact" | "contains" | "regex";
+    pattern: string;
+    created_at: string;
+}
+
+// Mirrors PayeeSummary in backend/src/services/payeeService.ts
+export interface Payee {
+    id: string;
+    name: string;
+    default_category_id: string | null;
+    default_category: string | null;
+    logo_url: string | null;
+    color: string | null;
+    transaction_count: number;
+    total_spent: string;
+    total_received: string;
+    first_seen: string | null;
+    last_seen: string | null;
+    avg_days_between: string | null;
+    aliases: PayeeAlias[];
+}
+
+const matchTypeLabels: Record<PayeeAlias["match_type"], string> = {
+    exact: "Same merchant as",
+    contains: "Contains",
+    regex: "Matches regex",
+};
+
+interface PayeeDialogProps {
+    open: boolean;
+    onClose: () => void;
+    // Omitted to create a new payee
+    payee?: Payee | null;
+    categories: Category[];
+    onSaved: () => void;
+}
+
+/**
+ * Creates or edits a payee: its name, default category, logo or colour, and the aliases that link
+ * transactions to it.
+ */
+export function PayeeDialog({ open, onClose, payee, categories, onSaved }: PayeeDialogProps) {
+    const [name, setName] = useState("");
+    const [categoryId, setCategoryId] = useState("uncategorized");
+    const [color, setColor] = useState("");
+    const [logoUrl, setLogoUrl] = useState("");
+    const [aliases, setAliases] = useState<PayeeAlias[]>([]);
+    const [aliasType, setAliasType] = useState<PayeeAlias["match_type"]>("contains");
+    const [aliasPattern, setAliasPattern] = useState("");
+    const [saving, setSaving] = useState(false);
+
+    // Reset only when a different payee is opened, so alias changes don't discard unsaved edits
+    useEffect(() => {
+        if (!open) return;
+        setName(payee?.name || "");
+        setCategoryId(payee?.default_category_id || "uncategorized");
+        setColor(payee?.color || "");
+        setLogoUrl(payee?.logo_url || "");
+        setAliases(payee?.aliases || []);
+        setAliasPattern("");
+    }, [open, payee?.id]);
+
+    const handleSave = async () => {
+        const body = {
+            name,
+            default_category_id: categoryId === "uncategorized" ? null : categoryId,
+            color: color || null,
+            logo_url: logoUrl.trim() || null,
+        };
+        setSaving(true);
+        try {
+            if (payee) {
+                await apiClient.patch(`/payees/${payee.id}`, body);
+            } else {
+                await apiClient.post("/payees", body);
+            }
+            onSaved();
+            onClose();
+        } catch (err: any) {
+            console.error("Failed to save payee:", err);
+            alert(err.response?.data?.error || "Failed to save payee.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAddAlias = async () => {
+        if (!payee || !aliasPattern.trim()) return;
+        try {
+            const res = await apiClient.post<PayeeAlias>(`/payees/${payee.id}/aliases`, {
+                match_type: aliasType,
+                pattern: aliasPattern,
+            });
+            setAliases((prev) => [...prev, res.data]);
+            setAliasPattern("");
+            onSaved();
+        } catch (err: any) {
+            console.error("Failed to add alias:", err);
+            alert(err.response?.data?.error || "Failed to add alias.");
+        }
+    };
+
+    const handleDeleteAlias = async (alias: PayeeAlias) => {
+        if (!payee) return;
+        try {
+            await apiClient.delete(`/payees/${payee.id}/aliases/${alias.id}`);
+            setAliases((prev) => prev.filter((a) => a.id !== alias.id));
+            onSaved();
+        } catch (err) {
+            console.error("Failed to remove alias:", err);
+            alert("Failed to remove alias.");
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>{payee ? "Edit Payee" : "New Payee"}</DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-2">
+                    <div className="grid gap-2">
+                        <Label htmlFor="payee-name">Name</Label>
+                        <Input id="payee-name" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label>Default category</Label>
+                        <CategorySelector categories={categories} value={categoryId} onChange={setCategoryId} />
+                        <p className="text-xs text-muted-foreground">
+                            Given to new transactions from this payee that no rule categorises.
+                        </p>
+                    </div>
+                    <div className="grid grid-cols-[auto_1fr] gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="payee-color">Colour</Label>
+                            <div className="flex items-center gap-1">
+                                <Input
+                                    id="payee-color"
+                                    type="color"
+                                    value={color || "#94a3b8"}
+                                    onChange={(e) => setColor(e.target.value)}
+                                    className="h-9 w-14 p-1"
+                                />
+                                {color && (
+                                    <Button type="button" variant="ghost" size="sm" onClick={() => setColor("")}>
+                                        Clear
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="payee-logo">Logo URL</Label>
+                            <Input
+                                id="payee-logo"
+                                value={logoUrl}
+                                placeholder="https://..."
+                                onChange={(e) => setLogoUrl(e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    {payee && (
+                        <div className="grid gap-2">
+                            <Label>Aliases</Label>
+                            <p className="text-xs text-muted-foreground">
+                                Bank descriptions that belong to this payee. Adding or removing one relinks existing transactions.
+                            </p>
+                            {aliases.map((alias) => (
+                                <div key={alias.id} className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-sm">
+                                    <Badge variant="secondary" className="font-normal text-xs">
+                                        {matchTypeLabels[alias.match_type]}
+                                    </Badge>
+                                    <span className="flex-1 truncate font-mono text-xs" title={alias.pattern}>{alias.pattern}</span>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7 hover:text-red-600"
+                                        title="Remove"
+                                        onClick={() => handleDeleteAlias(alias)}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <div className="flex gap-2">
+                                <Select value={aliasType} onValueChange={(value) => setAliasType(value as PayeeAlias["match_type"])}>
+                                    <SelectTrigger className="w-[170px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(matchTypeLabels).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Input
+                                    value={aliasPattern}
+                                    onChange={(e) => setAliasPattern(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") {
+                                            e.preventDefault();
+                                            handleAddAlias();
+                                        }
+                                    }}
+                                    placeholder={aliasType === "exact" ? "A bank description" : "Text or pattern"}
+                                />
+                                <Button type="button" variant="outline" onClick={handleAddAlias} disabled={!aliasPattern.trim()}>
+                                    <Plus className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={saving || !name.trim()}>
+                        {saving ? "Saving..." : "Save"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,231 @@
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { CategorySelector } from "@/components/category-selector";
+import { Category } from "@/pages/Categories";
+import { Plus, X } from "lucide-react";
+
+// Mirrors RuleAction in backend/src/services/ruleService.ts
+export type RuleActionType =
+    | "set_category"
+    | "set_description"
+    | "mark_transfer"
+    | "set_status"
+    | "add_tags"
+    | "add_note"
+    | "stop"
+    | "continue";
+
+export interface RuleAction {
+    type: RuleActionType;
+    value?: string;
+    account_id?: string;
+    tags?: string[];
+}
+
+interface AccountOption {
+    id: string;
+    name: string;
+}
+
+const actionLabels: Record<string, string> = {
+    set_category: "Set category",
+    set_description: "Rewrite description",
+    mark_transfer: "Mark as transfer",
+    set_status: "Set status",
+    add_tags: "Add tags",
+    add_note: "Add note",
+};
+
+const NO_ACCOUNT = "none";
+
+const isFlowAction = (action: RuleAction) => action.type === "stop" || action.type === "continue";
+
+export const hasEffect = (actions: RuleAction[]) => actions.some((a) => !isFlowAction(a));
+
+export const findCategoryName = (categories: Category[], id?: string | null): string | null => {
+    for (const category of categories) {
+        if (category.id === id) return category.name;
+        const child = findCategoryName(category.children || [], id);
+        if (child) return child;
+    }
+    return null;
+};
+
+export const describeAction = (action: RuleAction, categories: Category[], accounts: AccountOption[]): string => {
+    switch (action.type) {
+        case "set_category":
+            return findCategoryName(categories, action.value) || "Unknown category";
+        case "set_description":
+            return `rename to "${action.value}"`;
+        case "mark_transfer": {
+            const account = accounts.find((a) => a.id === action.account_id);
+            return account ? `transfer with ${account.name}` : "transfer";
+        }
+        case "set_status":
+            return `status: ${action.value}`;
+        case "add_tags":
+            return (action.tags || []).map((t) => `#${t.trim()}`).join(" ");
+        case "add_note":
+            return "add note";
+        case "continue":
+            return "then continue";
+        default:
+            return action.type;
+    }
+};
+
+const emptyAction = (type: RuleActionType): RuleAction => {
+    switch (type) {
+        case "set_status":
+            return { type, value: "cleared" };
+        case "add_tags":
+            return { type, tags: [] };
+        case "mark_transfer":
+            return { type };
+        default:
+            return { type, value: "" };
+    }
+};
+
+interface RuleActionEditorProps {
+    actions: RuleAction[];
+    categories: Category[];
+    accounts: AccountOption[];
+    onChange: (actions: RuleAction[]) => void;
+}
+
+/**
+ * Edits what a rule does when it matches, plus whether later rules are still evaluated.
+ */
+export function RuleActionEditor({ actions, categories, accounts, onChange }: RuleActionEditorProps) {
+    const effects = actions.filter((a) => !isFlowAction(a));
+    const flow = actions.some((a) => a.type === "continue") ? "continue" : "stop";
+
+    const update = (nextEffects: RuleAction[], nextFlow: string = flow) =>
+        onChange(nextFlow === "continue" ? [...nextEffects, { type: "continue" }] : nextEffects);
+
+    const updateEffect = (index: number, action: RuleAction) => {
+        const next = [...effects];
+        next[index] = action;
+        update(next);
+    };
+
+    const renderValue = (action: RuleAction, index: number) => {
+        const set = (changes: Partial<RuleAction>) => updateEffect(index, { ...action, ...changes });
+
+        switch (action.type) {
+            case "set_category":
+                return (
+                    <div className="flex-1">
+                        <CategorySelector
+                            categories={categories}
+                            value={action.value}
+                            onChange={(value) => set({ value })}
+                        />
+                    </div>
+                );
+            case "mark_transfer":
+                return (
+                    <Select
+                        value={action.account_id || NO_ACCOUNT}
+                        onValueChange={(v) => set({ account_id: v === NO_ACCOUNT ? undefined : v })}
+                    >
+                        <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NO_ACCOUNT}>Don't link a counterpart</SelectItem>
+                            {accounts.map((account) => (
+                                <SelectItem key={account.id} value={account.id}>Link with {account.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                );
+            case "set_status":
+                return (
+                    <Select value={action.value} onValueChange={(value) => set({ value })}>
+                        <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="cleared">Cleared</SelectItem>
+                            <SelectItem value="failed">Failed</SelectItem>
+                        </SelectContent>
+                    </Select>
+                );
+            case "add_tags":
+                return (
+                    <Input
+                        value={(action.tags || []).join(",")}
+                        onChange={(e) => set({ tags: e.target.value ? e.target.value.split(",") : [] })}
+                        placeholder="Comma separated, e.g. holiday, work"
+                        className="flex-1"
+                    />
+                );
+            default:
+                return (
+                    <Input
+                        value={action.value || ""}
+                        onChange={(e) => set({ value: e.target.value })}
+                        placeholder={action.type === "set_description" ? "e.g. Woolworths" : "Note text..."}
+                        className="flex-1"
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {effects.map((action, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                    <Select
+                        value={action.type}
+                        onValueChange={(v) => updateEffect(index, emptyAction(v as RuleActionType))}
+                    >
+                        <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(actionLabels).map(([type, label]) => (
+                                <SelectItem key={type} value={type}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {renderValue(action, index)}
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => update(effects.filter((_, i) => i !== index))}
+                        className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                    >
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+
+            <div className="flex items-center justify-between pt-1">
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => update([...effects, emptyAction("set_category")])}
+                    className="h-6 text-xs"
+                >
+                    <Plus className="h-3 w-3 mr-1" /> Add Action
+                </Button>
+                <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground">Then</Label>
+                    <Select value={flow} onValueChange={(v) => update(effects, v)}>
+                        <SelectTrigger className="w-[210px] h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="stop">Stop evaluating rules</SelectItem>
+                            <SelectItem value="continue">Continue to later rules</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,331 @@
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Plus, X, ListTree } from "lucide-react";
+
+// Mirrors RuleCondition / RuleConditionGroup in backend/src/services/ruleService.ts
+export type ConditionField = "description" | "amount" | "direction" | "account" | "day_of_month" | "weekday";
+
+export interface RuleCondition {
+    field?: ConditionField; // Missing on older rules; means description
+    match_type: string;
+    match_value: string;
+    match_value_to?: string;
+}
+
+export interface RuleConditionGroup {
+    operator: "and" | "or";
+    conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+interface AccountOption {
+    id: string;
+    name: string;
+}
+
+const MAX_DEPTH = 3;
+
+const fieldLabels: Record<ConditionField, string> = {
+    description: "Description",
+    amount: "Amount",
+    direction: "Direction",
+    account: "Account",
+    day_of_month: "Day of month",
+    weekday: "Weekday",
+};
+
+// Match types each field accepts, first is the default. Same as conditionMatchTypes on the server.
+const matchTypes: Record<ConditionField, { value: string; label: string }[]> = {
+    description: [
+        { value: "contains", label: "Contains" },
+        { value: "exact", label: "Exact" },
+        { value: "starts_with", label: "Starts With" },
+        { value: "regex", label: "Regex" },
+    ],
+    amount: [
+        { value: "equals", label: "Equals" },
+        { value: "between", label: "Between" },
+        { value: "greater_than", label: "Greater than" },
+        { value: "less_than", label: "Less than" },
+    ],
+    direction: [{ value: "is", label: "Is" }],
+    account: [{ value: "is", label: "Is" }],
+    day_of_month: [
+        { value: "equals", label: "Equals" },
+        { value: "between", label: "Between" },
+    ],
+    weekday: [{ value: "is", label: "Is" }],
+};
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const isConditionGroup = (node: RuleConditionNode): node is RuleConditionGroup =>
+    Array.isArray((node as RuleConditionGroup).conditions);
+
+export const emptyCondition = (field: ConditionField = "description"): RuleCondition => ({
+    field,
+    match_type: matchTypes[field][0].value,
+    match_value: field === "direction" ? "debit" : field === "weekday" ? "1" : "",
+});
+
+/**
+ * Rules store a list where any entry may match. The editor always works on a single
+ * root group, so a rule that is one 'and' group is edited as that group.
+ */
+export const toRootGroup = (conditions: RuleConditionNode[]): RuleConditionGroup => {
+    if (conditions.length === 1 && isConditionGroup(conditions[0])) return conditions[0];
+    return { operator: "or", conditions: conditions.length > 0 ? conditions : [emptyCondition()] };
+};
+
+export const fromRootGroup = (group: RuleConditionGroup): RuleConditionNode[] =>
+    group.operator === "or" ? group.conditions : [group];
+
+/**
+ * Drops conditions with no value and any groups left empty as a result.
+ */
+export const cleanGroup = (group: RuleConditionGroup): RuleConditionGroup => ({
+    ...group,
+    conditions: group.conditions
+        .map((node) => (isConditionGroup(node) ? cleanGroup(node) : node))
+        .filter((node) =>
+            isConditionGroup(node) ? node.conditions.length > 0 : node.match_value.trim() !== ""
+        ),
+});
+
+export const describeCondition = (node: RuleConditionNode, accounts: AccountOption[] = []): string => {
+    if (isConditionGroup(node)) {
+        const joiner = node.operator === "and" ? " AND " : " OR ";
+        return `(${node.conditions.map((c) => describeCondition(c, accounts)).join(joiner)})`;
+    }
+
+    const value = node.match_value;
+    const range = `${value} to ${node.match_value_to ?? ""}`;
+    switch (node.field || "description") {
+        case "amount":
+            if (node.match_type === "between") return `amount ${range}`;
+            if (node.match_type === "greater_than") return `amount > ${value}`;
+            if (node.match_type === "less_than") return `amount < ${value}`;
+            return `amount = ${value}`;
+        case "direction":
+            return value === "credit" ? "money in" : "money out";
+        case "account":
+            return `account: ${accounts.find((a) => a.id === value)?.name || "Unknown"}`;
+        case "day_of_month":
+            return node.match_type === "between" ? `days ${range}` : `day ${value}`;
+        case "weekday":
+            return `${weekdays[parseInt(value)] || value}s`;
+        default:
+            if (node.match_type === "exact") return `= ${value}`;
+            if (node.match_type === "starts_with") return `${value}…`;
+            if (node.match_type === "regex") return `/${value}/`;
+            return `~ ${value}`;
+    }
+};
+
+interface ConditionRowProps {
+    condition: RuleCondition;
+    accounts: AccountOption[];
+    onChange: (condition: RuleCondition) => void;
+    onRemove: () => void;
+}
+
+const ConditionRow = ({ condition, accounts, onChange, onRemove }: ConditionRowProps) => {
+    const field = condition.field || "description";
+    const isRange = condition.match_type === "between";
+    const update = (changes: Partial<RuleCondition>) => onChange({ ...condition, ...changes });
+
+    const renderValue = () => {
+        switch (field) {
+            case "direction":
+                return (
+                    <Select value={condition.match_value} onValueChange={(v) => update({ match_value: v })}>
+                        <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="debit">Money out (debit)</SelectItem>
+                            <SelectItem value="credit">Money in (credit)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                );
+            case "account":
+                return (
+                    <Select value={condition.match_value} onValueChange={(v) => update({ match_value: v })}>
+                        <SelectTrigger className="flex-1"><SelectValue placeholder="Select account" /></SelectTrigger>
+                        <SelectContent>
+                            {accounts.map((account) => (
+                                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                );
+            case "weekday":
+                return (
+                    <Select value={condition.match_value} onValueChange={(v) => update({ match_value: v })}>
+                        <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {weekdays.map((day, i) => (
+                                <SelectItem key={day} value={String(i)}>{day}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                );
+            case "amount":
+            case "day_of_month": {
+                const placeholder = field === "amount" ? "e.g. -1500" : "1-31";
+                return (
+                    <div className="flex flex-1 items-center gap-2">
+                        <Input
+                            type="number"
+                            value={condition.match_value}
+                            onChange={(e) => update({ match_value: e.target.value })}
+                            placeholder={placeholder}
+                        />
+                        {isRange && (
+                            <>
+                                <span className="text-xs text-muted-foreground">and</span>
+                                <Input
+                                    type="number"
+                                    value={condition.match_value_to ?? ""}
+                                    onChange={(e) => update({ match_value_to: e.target.value })}
+                                    placeholder={placeholder}
+                                />
+                            </>
+                        )}
+                    </div>
+                );
+            }
+            default:
+                return (
+                    <Input
+                        value={condition.match_value}
+                        onChange={(e) => update({ match_value: e.target.value })}
+                        placeholder="Match text..."
+                        className="flex-1"
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="flex gap-2 items-center">
+            <Select
+                value={field}
+                onValueChange={(v) => onChange(emptyCondition(v as ConditionField))}
+            >
+                <SelectTrigger className="w-[130px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                    {(Object.keys(fieldLabels) as ConditionField[]).map((f) => (
+                        <SelectItem key={f} value={f}>{fieldLabels[f]}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {matchTypes[field].length > 1 && (
+                <Select value={condition.match_type} onValueChange={(v) => update({ match_type: v })}>
+                    <SelectTrigger className="w-[130px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        {matchTypes[field].map((t) => (
+                            <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+            {renderValue()}
+            <Button variant="ghost" size="sm" onClick={onRemove} className="h-8 w-8 p-0 text-red-500 hover:text-red-700">
+                <X className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+};
+
+interface RuleConditionBuilderProps {
+    group: RuleConditionGroup;
+    accounts: AccountOption[];
+    onChange: (group: RuleConditionGroup) => void;
+    onRemove?: () => void;
+    depth?: number;
+}
+
+/**
+ * Edits a group of conditions joined by AND / OR. Groups can contain further groups.
+ */
+export function RuleConditionBuilder({ group, accounts, onChange, onRemove, depth = 0 }: RuleConditionBuilderProps) {
+    const updateChild = (index: number, node: RuleConditionNode) => {
+        const conditions = [...group.conditions];
+        conditions[index] = node;
+        onChange({ ...group, conditions });
+    };
+
+    const removeChild = (index: number) =>
+        onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+    const addChild = (node: RuleConditionNode) =>
+        onChange({ ...group, conditions: [...group.conditions, node] });
+
+    return (
+        <div className={depth > 0 ? "space-y-2 border-l-2 border-indigo-200 pl-3 py-1" : "space-y-2"}>
+            <div className="flex items-center gap-2">
+                <Select
+                    value={group.operator}
+                    onValueChange={(v) => onChange({ ...group, operator: v as "and" | "or" })}
+                >
+                    <SelectTrigger className="w-[150px] h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="and">Match all of</SelectItem>
+                        <SelectItem value="or">Match any of</SelectItem>
+                    </SelectContent>
+                </Select>
+                <div className="flex-1" />
+                <Button size="sm" variant="ghost" onClick={() => addChild(emptyCondition())} className="h-6 text-xs">
+                    <Plus className="h-3 w-3 mr-1" /> Condition
+                </Button>
+                {depth < MAX_DEPTH && (
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => addChild({ operator: "and", conditions: [emptyCondition()] })}
+                        className="h-6 text-xs"
+                    >
+                        <ListTree className="h-3 w-3 mr-1" /> Group
+                    </Button>
+                )}
+                {onRemove && (
+                    <Button variant="ghost" size="sm" onClick={onRemove} className="h-6 w-6 p-0 text-red-500 hover:text-red-700">
+                        <X className="h-3 w-3" />
+                    </Button>
+                )}
+            </div>
+
+            {group.conditions.map((node, index) =>
+                isConditionGroup(node) ? (
+                    <RuleConditionBuilder
+                        key={index}
+                        group={node}
+                        accounts={accounts}
+                        onChange={(g) => updateChild(index, g)}
+                        onRemove={() => removeChild(index)}
+                        depth={depth + 1}
+                    />
+                ) : (
+                    <ConditionRow
+                        key={index}
+                        condition={node}
+                        accounts={accounts}
+                        onChange={(c) => updateChild(index, c)}
+                        onRemove={() => removeChild(index)}
+                    />
+                )
+            )}
+
+            {group.conditions.length === 0 && (
+                <p className="text-xs text-muted-foreground italic">No conditions in this group.</p>
+            )}
+        </div>
+    );
+}
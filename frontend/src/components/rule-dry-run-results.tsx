@@ -0,0 +1,120 @@
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { format } from "date-fns";
+
+// Mirrors DryRunResult in backend/src/services/ruleService.ts
+export interface DryRunRow {
+    id: string;
+    date: string;
+    description: string;
+    amount: string;
+    account: string;
+    category: string | null;
+    category_id: string | null;
+    category_differs: boolean;
+    shadowed_by: { id: string; name: string } | null;
+}
+
+export interface DryRunResult {
+    total_matches: number;
+    different_category: number;
+    shadowed: number;
+    shadowing_rules: { id: string; name: string; count: number }[];
+    rows: DryRunRow[];
+}
+
+interface RuleDryRunResultsProps {
+    result: DryRunResult;
+    overwrite: boolean;
+    onOverwriteChange: (overwrite: boolean) => void;
+}
+
+const formatCurrency = (amount: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount));
+
+/**
+ * What a draft rule would match in the user's existing transactions.
+ */
+export function RuleDryRunResults({ result, overwrite, onOverwriteChange }: RuleDryRunResultsProps) {
+    return (
+        <div className="space-y-3 rounded-md border p-3 text-sm">
+            <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary" className="font-normal">
+                    {result.total_matches} matching transactions
+                </Badge>
+                {result.different_category > 0 && (
+                    <Badge variant="outline" className="font-normal text-amber-700 border-amber-200 bg-amber-50">
+                        {result.different_category} currently in a different category
+                    </Badge>
+                )}
+                {result.shadowed > 0 && (
+                    <Badge variant="outline" className="font-normal text-red-700 border-red-200 bg-red-50">
+                        {result.shadowed} claimed by higher-priority rules
+                    </Badge>
+                )}
+            </div>
+
+            {result.shadowing_rules.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                    Would win instead:{" "}
+                    {result.shadowing_rules.map((r) => `${r.name} (${r.count})`).join(", ")}
+                </p>
+            )}
+
+            {result.rows.length > 0 && (
+                <div className="max-h-[220px] overflow-auto border rounded">
+                    <table className="w-full text-left text-xs">
+                        <thead className="bg-muted/50 sticky top-0 text-muted-foreground border-b">
+                            <tr>
+                                <th className="p-2">Date</th>
+                                <th className="p-2">Description</th>
+                                <th className="p-2">Account</th>
+                                <th className="p-2">Category</th>
+                                <th className="p-2 text-right">Amount</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {result.rows.map((row) => (
+                                <tr key={row.id} className={row.shadowed_by ? "text-muted-foreground" : ""}>
+                                    <td className="p-2 whitespace-nowrap">{format(new Date(row.date), "dd MMM yyyy")}</td>
+                                    <td className="p-2">
+                                        {row.description}
+                                        {row.shadowed_by && (
+                                            <span className="block text-[10px] text-red-600">
+                                                Handled by {row.shadowed_by.name}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="p-2">{row.account}</td>
+                                    <td className={`p-2 ${row.category_differs ? "text-amber-700 font-medium" : ""}`}>
+                                        {row.category || "Uncategorized"}
+                                    </td>
+                                    <td className="p-2 text-right font-mono">{formatCurrency(row.amount)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {result.total_matches > result.rows.length && (
+                <p className="text-xs text-muted-foreground">
+                    Showing the {result.rows.length} most recent of {result.total_matches}.
+                </p>
+            )}
+
+            {result.total_matches > 0 && (
+                <div className="flex items-center gap-2">
+                    <Checkbox
+                        id="overwrite_history"
+                        checked={overwrite}
+                        onCheckedChange={(v) => onOverwriteChange(!!v)}
+                    />
+                    <Label htmlFor="overwrite_history" className="text-xs font-normal">
+                        When applying to history, overwrite categories already set
+                    </Label>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useState } from "react";
+import apiClient from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { CategorySelector } from "@/components/category-selector";
+import { Payee } from "@/components/payee-dialog";
+import { Account } from "@/pages/Accounts";
+import { Category } from "@/pages/Categories";
+
+// Mirrors ScheduledTransactionSummary in backend/src/services/scheduledTransactionService.ts
+export interface ScheduledTransaction {
+    id: string;
+    account_id: string;
+    account: string;
+    category_id: string | null;
+    category: string | null;
+    payee_id: string | null;
+    payee: string | null;
+    description: string;
+    amount: string;
+    frequency: "once" | "weekly" | "fortnightly" | "monthly" | "quarterly" | "annual";
+    interval_count: number;
+    start_date: string;
+    end_date: string | null;
+    next_due_date: string | null;
+    auto_post: boolean;
+    is_active: boolean;
+}
+
+export const frequencyLabels: Record<ScheduledTransaction["frequency"], string> = {
+    once: "Once",
+    weekly: "Weekly",
+    fortnightly: "Fortnightly",
+    monthly: "Monthly",
+    quarterly: "Quarterly",
+    annual: "Yearly",
+};
+
+const frequencyUnits: Record<ScheduledTransaction["frequency"], string> = {
+    once: "",
+    weekly: "weeks",
+    fortnightly: "fortnights",
+    monthly: "months",
+    quarterly: "quarters",
+    annual: "years",
+};
+
+/**
+ * How often a schedule repeats, e.g. "Monthly" or "Every 2 months".
+ */
+export const describeFrequency = (schedule: Pick<ScheduledTransaction, "frequency" | "interval_count">) =>
+    schedule.interval_count > 1 && schedule.frequency !== "once"
+        ? `Every ${schedule.interval_count} ${frequencyUnits[schedule.frequency]}`
+        : frequencyLabels[schedule.frequency];
+
+const selectClassName =
+    "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+interface ScheduledTransactionDialogProps {
+    open: boolean;
+    onClose: () => void;
+    // Omitted to create a new schedule
+    schedule?: ScheduledTransaction | null;
+    accounts: Account[];
+    categories: Category[];
+    payees: Payee[];
+    onSaved: () => void;
+}
+
+/**
+ * Creates or edits a scheduled transaction: what it is, which account it hits, and how often.
+ */
+export function ScheduledTransactionDialog({
+    open,
+    onClose,
+    schedule,
+    accounts,
+    categories,
+    payees,
+    onSaved,
+}: ScheduledTransactionDialogProps) {
+    const [accountId, setAccountId] = useState("");
+    const [description, setDescription] = useState("");
+    const [amount, setAmount] = useState("");
+    const [frequency, setFrequency] = useState<ScheduledTransaction["frequency"]>("monthly");
+    const [intervalCount, setIntervalCount] = useState("1");
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+    const [categoryId, setCategoryId] = useState("uncategorized");
+    const [payeeId, setPayeeId] = useState("");
+    const [autoPost, setAutoPost] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!open) return;
+        setAccountId(schedule?.account_id || "");
+        setDescription(schedule?.description || "");
+        setAmount(schedule?.amount || "");
+        setFrequency(schedule?.frequency || "monthly");
+        setIntervalCount(String(schedule?.interval_count || 1));
+        setStartDate(schedule?.start_date || new Date().toISOString().split("T")[0]);
+        setEndDate(schedule?.end_date || "");
+        setCategoryId(schedule?.category_id || "uncategorized");
+        setPayeeId(schedule?.payee_id || "");
+        setAutoPost(schedule?.auto_post || false);
+    }, [open, schedule?.id]);
+
+    const handleSave = async () => {
+        const body = {
+            account_id: accountId,
+            description,
+            amount: parseFloat(amount),
+            frequency,
+            interval_count: parseInt(intervalCount) || 1,
+            start_date: startDate,
+            end_date: frequency === "once" ? null : endDate || null,
+            category_id: categoryId === "uncategorized" ? null : categoryId,
+            payee_id: payeeId || null,
+            auto_post: autoPost,
+        };
+        setSaving(true);
+        try {
+            if (schedule) {
+                await apiClient.patch(`/scheduled/${schedule.id}`, body);
+            } else {
+                await apiClient.post("/scheduled", body);
+            }
+            onSaved();
+            onClose();
+        } catch (err: any) {
+            console.error("Failed to save scheduled transaction:", err);
+            alert(err.response?.data?.error || "Failed to save scheduled transaction.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>{schedule ? "Edit Scheduled Transaction" : "New Scheduled Transaction"}</DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-2">
+                    <div className="grid gap-2">
+                        <Label htmlFor="schedule-description">Description</Label>
+                        <Input
+                            id="schedule-description"
+                            value={description}
+                            placeholder="e.g. Rent"
+                            onChange={(e) => setDescription(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="schedule-account">Account</Label>
+                            <select
+                                id="schedule-account"
+                                className={selectClassName}
+                                value={accountId}
+                                onChange={(e) => setAccountId(e.target.value)}
+                            >
+                                <option value="" disabled>Select an account</option>
+                                {accounts.map((account) => (
+                                    <option key={account.id} value={account.id}>{account.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="schedule-amount">Amount</Label>
+                            <Input
+                                id="schedule-amount"
+                                type="number"
+                                step="0.01"
+                                value={amount}
+                                placeholder="-1500.00"
+                                onChange={(e) => setAmount(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <p className="-mt-2 text-xs text-muted-foreground">Negative for money going out, positive for income.</p>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label>Repeats</Label>
+                            <Select value={frequency} onValueChange={(value) => setFrequency(value as ScheduledTransaction["frequency"])}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {Object.entries(frequencyLabels).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {frequency !== "once" && (
+                            <div className="grid gap-2">
+                                <Label htmlFor="schedule-interval">Every</Label>
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        id="schedule-interval"
+                                        type="number"
+                                        min={1}
+                                        step={1}
+                                        value={intervalCount}
+                                        onChange={(e) => setIntervalCount(e.target.value)}
+                                        className="w-20"
+                                    />
+                                    <span className="text-sm text-muted-foreground">{frequencyUnits[frequency]}</span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="schedule-start">{frequency === "once" ? "Date" : "Starts"}</Label>
+                            <Input id="schedule-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                        </div>
+                        {frequency !== "once" && (
+                            <div className="grid gap-2">
+                                <Label htmlFor="schedule-end">Ends (optional)</Label>
+                                <Input id="schedule-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                            </div>
+                        )}
+                    </div>
+                    <div className="grid gap-2">
+                        <Label>Category</Label>
+                        <CategorySelector categories={categories} value={categoryId} onChange={setCategoryId} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="schedule-payee">Payee</Label>
+                        <select
+                            id="schedule-payee"
+                            className={selectClassName}
+                            value={payeeId}
+                            onChange={(e) => setPayeeId(e.target.value)}
+                        >
+                            <option value="">Any payee</option>
+                            {payees.map((payee) => (
+                                <option key={payee.id} value={payee.id}>{payee.name}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            Imported transactions from another payee won't be matched to this schedule.
+                        </p>
+                    </div>
+                    <div className="flex items-start gap-2">
+                        <Checkbox id="schedule-auto-post" checked={autoPost} onCheckedChange={(value) => setAutoPost(!!value)} />
+                        <div className="grid gap-1">
+                            <Label htmlFor="schedule-auto-post" className="font-normal">Post automatically</Label>
+                            <p className="text-xs text-muted-foreground">
+                                Adds a pending transaction on each due date. The imported transaction replaces it when it arrives.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>Cancel</Button>
+                    <Button
+                        onClick={handleSave}
+                        disabled={saving || !description.trim() || !accountId || !amount || !startDate}
+                    >
+                        {saving ? "Saving..." : "Save"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+// Mirrors SearchSuggestion in backend/src/services/transactionSearch.ts
+export interface SearchSuggestion {
+    value: string;
+    description?: string;
+}
+
+// Same shape as the backend's TOKEN: optional "-", optional "field:", then a quoted or unquoted value
+const TOKEN = /(-)?(?:([a-zA-Z]+):)?("(?:[^"\\]|\\.)*"?|\S+)/g;
+
+// The start of the term the caret is in, or the caret itself if it's between terms
+const termStart = (text: string, caret: number) => {
+    const before = text.slice(0, caret);
+    let start = caret;
+    for (const match of before.matchAll(TOKEN)) {
+        if (match.index! + match[0].length === caret) start = match.index!;
+    }
+    return start;
+};
+
+interface SearchQueryInputProps {
+    placeholder?: string;
+    className?: string;
+    onSearch: (value: string) => void;
+    fetchSuggestions: (term: string) => Promise<SearchSuggestion[]>;
+}
+
+/**
+ * A search box for the field:value query language, suggesting field names and values for the term being typed.
+ */
+export function SearchQueryInput({ placeholder, className, onSearch, fetchSuggestions }: SearchQueryInputProps) {
+    const [value, setValue] = useState("");
+    const [caret, setCaret] = useState(0);
+    const [focused, setFocused] = useState(false);
+    const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+    const [highlighted, setHighlighted] = useState(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const start = termStart(value, caret);
+    const term = value.slice(start, caret);
+
+    useEffect(() => {
+        if (!focused) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            fetchSuggestions(term)
+                .then((results) => {
+                    if (cancelled) return;
+                    // Nothing to suggest once the term is already complete
+                    setSuggestions(results.filter((s) => s.value !== term));
+                    setHighlighted(0);
+                })
+                .catch((err) => console.error("Failed to fetch search suggestions:", err));
+        }, 150);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [term, focused]);
+
+    const update = (next: string, nextCaret: number) => {
+        setValue(next);
+        setCaret(nextCaret);
+        onSearch(next);
+    };
+
+    const accept = (suggestion: SearchSuggestion) => {
+        // A field name stays open for its value; a complete term gets a space so the next one can start
+        const insert = suggestion.value.endsWith(":") ? suggestion.value : `${suggestion.value} `;
+        const rest = value.slice(caret).replace(/^\S*/, "").replace(/^\s+/, "");
+        const next = value.slice(0, start) + insert + rest;
+        const nextCaret = start + insert.length;
+        update(next, nextCaret);
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+    };
+
+    const open = focused && suggestions.length > 0;
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!open) return;
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setHighlighted((highlighted + 1) % suggestions.length);
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+        } else if ((e.key === "Enter" || e.key === "Tab") && term) {
+            e.preventDefault();
+            accept(suggestions[highlighted]);
+        } else if (e.key === "Escape") {
+            setSuggestions([]);
+        }
+    };
+
+    return (
+        <div className={cn("relative w-full", className)}>
+            <Input
+                ref={inputRef}
+                value={value}
+                placeholder={placeholder}
+                onChange={(e) => update(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+                onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? value.length)}
+                onKeyDown={handleKeyDown}
+                onFocus={() => setFocused(true)}
+                onBlur={() => setFocused(false)}
+                spellCheck={false}
+                autoComplete="off"
+            />
+            {open && (
+                <ul className="absolute z-50 mt-1 max-h-72 w-full overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md">
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion.value}
+                            className={cn(
+                                "flex cursor-pointer items-baseline justify-between gap-4 rounded-sm px-2 py-1.5",
+                                index === highlighted && "bg-accent text-accent-foreground",
+                            )}
+                            // Before the input's blur, so the click isn't lost
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                accept(suggestion);
+                            }}
+                            onMouseEnter={() => setHighlighted(index)}
+                        >
+                            <span className="font-mono">{suggestion.value}</span>
+                            {suggestion.description && (
+                                <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
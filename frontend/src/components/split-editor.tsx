@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CategorySelector } from "@/components/category-selector";
+import { Category } from "@/pages/Categories";
+import { TransactionSplit } from "@/data/transactions";
+import { cn } from "@/lib/utils";
+import { Plus, Trash2 } from "lucide-react";
+
+// One line as it's being edited; category_id is "uncategorized" for none, as CategorySelector expects
+export interface SplitDraft {
+    category_id: string;
+    amount: string;
+    memo: string;
+}
+
+const toCents = (value: string | number) => Math.round((parseFloat(String(value)) || 0) * 100);
+
+export const splitRemainder = (total: string | number, lines: SplitDraft[]) =>
+    (toCents(total) - lines.reduce((sum, line) => sum + toCents(line.amount), 0)) / 100;
+
+export const toSplitDrafts = (splits: TransactionSplit[]): SplitDraft[] =>
+    splits.map((split) => ({
+        category_id: split.category_id || "uncategorized",
+        amount: String(split.amount),
+        memo: split.memo || "",
+    }));
+
+// Mirrors SplitLine in backend/src/services/splitService.ts
+export const fromSplitDrafts = (lines: SplitDraft[]) =>
+    lines.map((line) => ({
+        category_id: line.category_id === "uncategorized" ? null : line.category_id,
+        amount: parseFloat(line.amount),
+        memo: line.memo.trim() || null,
+    }));
+
+interface SplitEditorProps {
+    categories: Category[];
+    total: string;
+    lines: SplitDraft[];
+    onChange: (lines: SplitDraft[]) => void;
+}
+
+/**
+ * Edits the category lines of a split transaction, showing how much of the total is left to allocate.
+ */
+export function SplitEditor({ categories, total, lines, onChange }: SplitEditorProps) {
+    const remainder = splitRemainder(total, lines);
+
+    const updateLine = (index: number, changes: Partial<SplitDraft>) => {
+        onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    };
+
+    const addLine = () => {
+        // Start the new line with whatever is left, so the last line usually needs no typing
+        onChange([...lines, { category_id: "uncategorized", amount: remainder !== 0 ? remainder.toFixed(2) : "", memo: "" }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            {lines.map((line, index) => (
+                <div key={index} className="space-y-1 rounded-md border border-border p-2">
+                    <div className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                            <CategorySelector
+                                categories={categories}
+                                value={line.category_id}
+                                onChange={(value) => updateLine(index, { category_id: value })}
+                            />
+                        </div>
+                        <Input
+                            type="number"
+                            step="0.01"
+                            className="w-28"
+                            value={line.amount}
+                            onChange={(e) => updateLine(index, { amount: e.target.value })}
+                            placeholder="0.00"
+                            aria-label={`Line ${index + 1} amount`}
+                        />
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="shrink-0 text-muted-foreground hover:text-red-600"
+                            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                            disabled={lines.length <= 2}
+                            title="Remove line"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <Input
+                        value={line.memo}
+                        onChange={(e) => updateLine(index, { memo: e.target.value })}
+                        placeholder="Memo (optional)"
+                        className="h-8 text-xs"
+                    />
+                </div>
+            ))}
+            <div className="flex items-center justify-between">
+                <Button type="button" variant="outline" size="sm" onClick={addLine}>
+                    <Plus className="h-4 w-4 mr-1" /> Add line
+                </Button>
+                <span className={cn("text-xs", remainder === 0 ? "text-emerald-600" : "text-red-600")}>
+                    {remainder === 0 ? "Fully allocated" : `${remainder.toFixed(2)} left to allocate`}
+                </span>
+            </div>
+        </div>
+    );
+}
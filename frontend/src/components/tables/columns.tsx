@@ -2,11 +2,13 @@
 
 import * as React from "react";
 import { ColumnDef, Row, Table, Column } from "@tanstack/react-table";
-import { ArrowUpDown, ArrowUp, ArrowDown, MoreHorizontal, ArrowLeftRight } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, MoreHorizontal, ArrowLeftRight, Check, Sparkles, Split, Paperclip, StickyNote } from "lucide-react";
+import { Link } from "react-router-dom";
 import apiClient from "@/lib/api";
 import type { Transaction } from "@/data/transactions";
 
 import { CategorySelector } from "@/components/category-selector";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -26,6 +28,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import { TransactionFormDialog } from "@/components/TransactionFormDialog";
+import { PayeeBadge } from "@/components/payee-badge";
 
 // A new, self-contained component to handle the logic for the actions dropdown.
 // It fetches its own category data and calls an update function passed via table meta.
@@ -60,6 +63,19 @@ const TransactionActions: React.FC<{
         }
     };
 
+    const handleUnlinkTransfer = async () => {
+        if (!confirm("Unlink this transfer? Both sides will become ordinary transactions again.")) return;
+        try {
+            await apiClient.post("/transfers/unlink", { transactionId: transaction.id });
+            if (refreshData) {
+                refreshData();
+            }
+        } catch (error) {
+            console.error("Failed to unlink transfer:", error);
+            alert("Failed to unlink transfer.");
+        }
+    };
+
     return (
         <>
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -81,6 +97,11 @@ const TransactionActions: React.FC<{
                                 Change Category
                             </DropdownMenuItem>
                         </DialogTrigger>
+                        {transaction.transfer_id && (
+                            <DropdownMenuItem onClick={handleUnlinkTransfer}>
+                                Unlink Transfer
+                            </DropdownMenuItem>
+                        )}
                     </DropdownMenuContent>
                 </DropdownMenu>
                 <DialogContent className="sm:max-w-[400px]">
@@ -112,6 +133,104 @@ const TransactionActions: React.FC<{
     );
 };
 
+const sourceLabels: Record<string, string> = {
+    rule: "a rule",
+    payee: "the payee's default category",
+    local: "your history",
+    llm: "AI",
+};
+
+// Shows where an automatic category came from, and lets the user accept it or a pending suggestion
+const CategoryCell: React.FC<{
+    row: Row<Transaction>;
+    table: Table<Transaction>;
+}> = ({ row, table }) => {
+    const transaction = row.original;
+    const refreshData = (table.options.meta as any)?.refreshData;
+    const confidence = transaction.category_confidence != null
+        ? Math.round(Number(transaction.category_confidence) * 100)
+        : null;
+    const source = transaction.category_source === "llm" && transaction.category_model
+        ? transaction.category_model
+        : sourceLabels[transaction.category_source || ""];
+
+    const handleAccept = async () => {
+        try {
+            await apiClient.post("/classification/review/accept", {
+                transactionIds: [transaction.id],
+            });
+            if (refreshData) refreshData();
+        } catch (error) {
+            console.error("Failed to accept category:", error);
+            alert("Failed to accept category.");
+        }
+    };
+
+    const acceptButton = (
+        <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-emerald-600 hover:text-emerald-700"
+            title="Accept"
+            onClick={handleAccept}
+        >
+            <Check className="h-3.5 w-3.5" />
+        </Button>
+    );
+
+    if (transaction.is_split && transaction.splits?.length) {
+        const formatter = new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: "USD",
+        });
+        return (
+            <div className="flex flex-col">
+                <span className="flex items-center gap-1 font-medium">
+                    <Split className="h-3 w-3 text-indigo-500" />
+                    Split
+                </span>
+                <span className="text-xs text-muted-foreground">
+                    {transaction.splits
+                        .map((split) => `${split.category || "Uncategorized"} ${formatter.format(Number(split.amount))}`)
+                        .join(" · ")}
+                </span>
+            </div>
+        );
+    }
+
+    if (transaction.suggested_category_id) {
+        return (
+            <div className="flex items-center gap-1">
+                <span
+                    className="text-amber-700 dark:text-amber-400"
+                    title={`Suggested by ${source}${confidence !== null ? ` (${confidence}% confident)` : ""}`}
+                >
+                    {transaction.suggested_category}?
+                    {confidence !== null && <span className="ml-1 text-xs">{confidence}%</span>}
+                </span>
+                {acceptButton}
+            </div>
+        );
+    }
+
+    const unreviewed = !!source && !!transaction.category_id && !transaction.category_reviewed;
+    return (
+        <div className="flex items-center gap-1">
+            <span>{row.getValue("category") || "Uncategorized"}</span>
+            {unreviewed && (
+                <>
+                    <span
+                        title={`Auto-categorised by ${source}${confidence !== null ? ` (${confidence}% confident)` : ""}, not yet reviewed`}
+                    >
+                        <Sparkles className="h-3 w-3 text-indigo-500" />
+                    </span>
+                    {acceptButton}
+                </>
+            )}
+        </div>
+    );
+};
+
 const cycleSort = (column: Column<Transaction, unknown>) => {
     const isSorted = column.getIsSorted();
     if (isSorted === "asc") {
@@ -228,8 +347,29 @@ export const columns: ColumnDef<Transaction>[] = [
             </Button>
         ),
         cell: ({ row }) => (
-            <div style={{ paddingLeft: `${row.depth * 1.5}rem` }}>
-                {row.getValue("description")}
+            <div className="flex flex-col" style={{ paddingLeft: `${row.depth * 1.5}rem` }}>
+                <div className="flex items-center gap-1">
+                    <span>{row.getValue("description")}</span>
+                    {row.original.notes && (
+                        <span title={row.original.notes}>
+                            <StickyNote className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        </span>
+                    )}
+                    {!!row.original.attachment_count && (
+                        <span title={`${row.original.attachment_count} attachment${row.original.attachment_count === 1 ? "" : "s"}`}>
+                            <Paperclip className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        </span>
+                    )}
+                </div>
+                {row.original.payee_id && row.original.payee && (
+                    <PayeeBadge
+                        id={row.original.payee_id}
+                        name={row.original.payee}
+                        color={row.original.payee_color}
+                        logoUrl={row.original.payee_logo_url}
+                        className="text-xs text-muted-foreground"
+                    />
+                )}
             </div>
         ),
     },
@@ -431,8 +571,32 @@ export const columns: ColumnDef<Transaction>[] = [
                 )}
             </Button>
         ),
+        cell: ({ row, table }) => <CategoryCell row={row} table={table} />,
+    },
+    {
+        accessorKey: "tags",
+        size: 150,
+        header: "Tags",
+        enableSorting: false,
         cell: ({ row }) => {
-            return <div>{row.getValue("category") || "Uncategorized"}</div>;
+            const tags = row.original.tags || [];
+            if (row.getCanExpand() || tags.length === 0) return null;
+            return (
+                <div className="flex flex-wrap gap-1">
+                    {tags.map((tag) => (
+                        <Link
+                            key={tag}
+                            to={`/transactions?tags=${encodeURIComponent(tag)}`}
+                            onClick={(e) => e.stopPropagation()}
+                            title={`Show transactions tagged "${tag}"`}
+                        >
+                            <Badge variant="secondary" className="font-normal">
+                                #{tag}
+                            </Badge>
+                        </Link>
+                    ))}
+                </div>
+            );
         },
     },
     {
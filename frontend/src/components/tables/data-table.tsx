@@ -42,6 +42,7 @@ import {
 } from "@/components/ui/context-menu";
 import { ChevronDown, Loader2 } from "lucide-react";
 import apiClient from "@/lib/api";
+import { SearchQueryInput, SearchSuggestion } from "@/components/search-query-input";
 
 interface DataTableProps<TData, TValue> {
     columns: ColumnDef<TData, TValue>[];
@@ -53,6 +54,8 @@ interface DataTableProps<TData, TValue> {
     rowSelection?: RowSelectionState;
     onRowSelectionChange?: OnChangeFn<RowSelectionState>;
     onSearch?: (value: string) => void;
+    // Enables the query language autocomplete in the search box
+    fetchSearchSuggestions?: (term: string) => Promise<SearchSuggestion[]>;
     onLoadMore?: () => void;
     hasMore?: boolean;
     isLoading?: boolean;
@@ -71,6 +74,7 @@ export function DataTable<TData, TValue>({
     rowSelection = {},
     onRowSelectionChange,
     onSearch,
+    fetchSearchSuggestions,
     onLoadMore,
     hasMore,
     isLoading,
@@ -338,7 +342,14 @@ export function DataTable<TData, TValue>({
     return (
         <div className="w-full space-y-4">
             <div className="flex items-center gap-4">
-                {filterColumnId && (
+                {filterColumnId && onSearch && fetchSearchSuggestions ? (
+                    <SearchQueryInput
+                        placeholder='Search, e.g. desc:coffee amount:<-20 tag:trip is:uncategorized'
+                        onSearch={onSearch}
+                        fetchSuggestions={fetchSearchSuggestions}
+                        className="max-w-xl"
+                    />
+                ) : filterColumnId && (
                     <Input
                         placeholder={`Filter by ${filterColumnId}...`}
                         onChange={(event) => onSearch?.(event.target.value)}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react";
+import apiClient from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Image, Loader2, Paperclip, Trash2 } from "lucide-react";
+
+// Mirrors TransactionAttachment in backend/src/services/attachmentService.ts
+export interface TransactionAttachment {
+    id: string;
+    transaction_id: string;
+    filename: string;
+    content_type: string;
+    size_bytes: number;
+    created_at: string;
+}
+
+export const ATTACHMENT_ACCEPT = "image/*,application/pdf";
+
+export const uploadAttachment = (transactionId: string, file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    return apiClient.post<TransactionAttachment>(`/transactions/${transactionId}/attachments`, formData, {
+        headers: { "Content-Type": "multipart/form-data" },
+    });
+};
+
+const formatSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+interface TransactionAttachmentsProps {
+    // Omitted while creating a transaction: files are queued in `pending` and uploaded once it exists
+    transactionId?: string;
+    pending: File[];
+    onPendingChange: (files: File[]) => void;
+}
+
+/**
+ * Receipts and other files on a transaction: lists, downloads, uploads and deletes them.
+ */
+export function TransactionAttachments({ transactionId, pending, onPendingChange }: TransactionAttachmentsProps) {
+    const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
+    const [uploading, setUploading] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!transactionId) {
+            setAttachments([]);
+            return;
+        }
+        apiClient
+            .get<TransactionAttachment[]>(`/transactions/${transactionId}/attachments`)
+            .then((res) => setAttachments(res.data))
+            .catch((err) => console.error("Failed to fetch attachments:", err));
+    }, [transactionId]);
+
+    const handleFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        if (!transactionId) {
+            onPendingChange([...pending, ...files]);
+            return;
+        }
+
+        setUploading(true);
+        try {
+            for (const file of files) {
+                const res = await uploadAttachment(transactionId, file);
+                setAttachments((prev) => [...prev, res.data]);
+            }
+        } catch (err: any) {
+            console.error("Failed to upload attachment:", err);
+            alert(err.response?.data?.error || "Failed to upload attachment.");
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleDownload = async (attachment: TransactionAttachment) => {
+        try {
+            const res = await apiClient.get(
+                `/transactions/${attachment.transaction_id}/attachments/${attachment.id}`,
+                { responseType: "blob" },
+            );
+            const url = URL.createObjectURL(res.data);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = attachment.filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error("Failed to download attachment:", err);
+            alert("Failed to download attachment.");
+        }
+    };
+
+    const handleDelete = async (attachment: TransactionAttachment) => {
+        if (!confirm(`Delete ${attachment.filename}?`)) return;
+        try {
+            await apiClient.delete(`/transactions/${attachment.transaction_id}/attachments/${attachment.id}`);
+            setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+        } catch (err) {
+            console.error("Failed to delete attachment:", err);
+            alert("Failed to delete attachment.");
+        }
+    };
+
+    const iconFor = (contentType: string) =>
+        contentType.startsWith("image/")
+            ? <Image className="h-4 w-4 shrink-0 text-muted-foreground" />
+            : <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />;
+
+    return (
+        <div className="space-y-2">
+            {attachments.map((attachment) => (
+                <div key={attachment.id} className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-sm">
+                    {iconFor(attachment.content_type)}
+                    <span className="flex-1 truncate" title={attachment.filename}>{attachment.filename}</span>
+                    <span className="text-xs text-muted-foreground">{formatSize(attachment.size_bytes)}</span>
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Download" onClick={() => handleDownload(attachment)}>
+                        <Download className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7 hover:text-red-600" title="Delete" onClick={() => handleDelete(attachment)}>
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+            {pending.map((file, index) => (
+                <div key={`pending-${index}`} className="flex items-center gap-2 rounded-md border border-dashed border-border px-2 py-1 text-sm">
+                    {iconFor(file.type)}
+                    <span className="flex-1 truncate" title={file.name}>{file.name}</span>
+                    <span className="text-xs text-muted-foreground">{formatSize(file.size)}</span>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 hover:text-red-600"
+                        title="Remove"
+                        onClick={() => onPendingChange(pending.filter((_, i) => i !== index))}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                    handleFiles(Array.from(e.target.files || []));
+                    e.target.value = "";
+                }}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                {uploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Paperclip className="h-4 w-4 mr-1" />}
+                Attach receipt or PDF
+            </Button>
+        </div>
+    );
+}
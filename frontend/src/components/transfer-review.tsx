@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import apiClient from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Link2, X } from "lucide-react";
+import { format } from "date-fns";
+
+// Mirrors the rows of TransferMatchService.getPending in backend/src/services/transferMatchService.ts
+interface TransferSide {
+    id: string;
+    date: string;
+    description: string;
+    amount: string;
+    account_id: string;
+    account: string;
+}
+
+interface TransferCandidate {
+    id: string;
+    day_gap: number;
+    created_at: string;
+    outflow: TransferSide;
+    inflow: TransferSide;
+}
+
+const formatCurrency = (amount: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount));
+
+interface TransferReviewProps {
+    onLinked: () => void;
+}
+
+/**
+ * Possible transfers the matcher couldn't decide on, because a transaction had more than one
+ * possible partner. Renders nothing when there are none.
+ */
+export function TransferReview({ onLinked }: TransferReviewProps) {
+    const [candidates, setCandidates] = useState<TransferCandidate[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const loadCandidates = async () => {
+        try {
+            const res = await apiClient.get<TransferCandidate[]>("/transfers/candidates");
+            setCandidates(res.data);
+        } catch (err) {
+            console.error("Failed to load transfer candidates", err);
+        }
+    };
+
+    useEffect(() => {
+        loadCandidates();
+    }, []);
+
+    const handleAction = async (candidate: TransferCandidate, action: "link" | "dismiss") => {
+        setBusyId(candidate.id);
+        try {
+            await apiClient.post(`/transfers/candidates/${candidate.id}/${action}`, {});
+            if (action === "link") {
+                // Linking dismisses the other pairs these transactions were in
+                await loadCandidates();
+                onLinked();
+            } else {
+                setCandidates((prev) => prev.filter((c) => c.id !== candidate.id));
+            }
+        } catch (err: any) {
+            console.error(err);
+            alert(err.response?.data?.error || "Failed to update transfer.");
+            loadCandidates();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const renderSide = (side: TransferSide) => (
+        <div className="flex-1 rounded-md border p-3 space-y-1">
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">{format(new Date(side.date), "dd MMM yyyy")}</span>
+                <span className={`font-medium ${parseFloat(side.amount) >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    {formatCurrency(side.amount)}
+                </span>
+            </div>
+            <div className="font-medium">{side.description}</div>
+            <div className="text-xs text-muted-foreground">{side.account}</div>
+        </div>
+    );
+
+    if (candidates.length === 0) return null;
+
+    return (
+        <div className="space-y-3 mb-6">
+            <div>
+                <h2 className="text-lg font-semibold">Possible Transfers</h2>
+                <p className="text-sm text-muted-foreground">
+                    These could be either side of more than one transfer. Link the right pairs.
+                </p>
+            </div>
+            {candidates.map((candidate) => (
+                <Card key={candidate.id} className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm flex items-center justify-between">
+                            <span>{candidate.outflow.account} to {candidate.inflow.account}</span>
+                            <Badge variant="secondary" className="font-normal text-xs">
+                                {candidate.day_gap === 0 ? "Same day" : `${candidate.day_gap} days apart`}
+                            </Badge>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-3">
+                        <div className="flex flex-col md:flex-row md:items-center gap-3">
+                            {renderSide(candidate.outflow)}
+                            <ArrowRight className="h-4 w-4 shrink-0 self-center text-muted-foreground" />
+                            {renderSide(candidate.inflow)}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busyId === candidate.id}
+                                onClick={() => handleAction(candidate, "link")}
+                            >
+                                <Link2 className="mr-1 h-4 w-4" /> Link as Transfer
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busyId === candidate.id}
+                                onClick={() => handleAction(candidate, "dismiss")}
+                            >
+                                <X className="mr-1 h-4 w-4" /> Not a Transfer
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
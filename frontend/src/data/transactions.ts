@@ -11,7 +11,35 @@ export type Transaction = {
     category_id: string | null;
     is_transfer: boolean;
     transfer_id?: string | null;
+    category_source?: "rule" | "payee" | "local" | "llm" | "manual" | null;
+    category_model?: string | null;
+    category_confidence?: number | string | null;
+    category_reviewed?: boolean;
+    suggested_category_id?: string | null;
+    suggested_category?: string | null;
+    is_split?: boolean;
+    splits?: TransactionSplit[] | null;
+    tags?: string[];
+    notes?: string | null;
+    attachment_count?: number;
+    payee_id?: string | null;
+    payee?: string | null;
+    payee_color?: string | null;
+    payee_logo_url?: string | null;
+    scheduled_transaction_id?: string | null;
+    // Upcoming occurrences of a schedule shown in account registers; not stored transactions
+    projected?: boolean;
+    overdue?: boolean;
     subRows?: Transaction[];
 };
 
+// Mirrors the transaction_splits rows returned by backend/src/routes/transactions.ts
+export type TransactionSplit = {
+    id?: string;
+    category_id: string | null;
+    category?: string | null;
+    amount: number | string;
+    memo: string | null;
+};
+
 export const transactions: Transaction[] = [];
@@ -10,6 +10,7 @@ import {
     TrendingUp,
     ChevronUp,
     ChevronDown,
+    CalendarClock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -128,7 +129,7 @@ const AccountDetailPage: React.FC = () => {
             ] = await Promise.all([
                 apiClient.get<Account>(`/accounts/${id}`),
                 apiClient.get<Transaction[]>(
-                    `/accounts/${id}/transactions?limit=5`,
+                    `/accounts/${id}/transactions?limit=5&projectedDays=30`,
                 ),
                 apiClient.get<any[]>(`/accounts/${id}/category-summary`),
                 apiClient.get<any[]>(`/accounts/${id}/history`),
@@ -436,7 +437,8 @@ const AccountDetailPage: React.FC = () => {
                 <CardHeader>
                     <CardTitle>Recent Transactions</CardTitle>
                     <CardDescription>
-                        The last 5 transactions for this account.
+                        Scheduled transactions due in the next 30 days, then
+                        the last 5 transactions for this account.
                     </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -450,21 +452,37 @@ const AccountDetailPage: React.FC = () => {
                                 return (
                                     <div
                                         key={tx.id}
-                                        className="flex items-center justify-between border-b pb-4 last:border-b-0 last:pb-0"
+                                        className={cn(
+                                            "flex items-center justify-between border-b pb-4 last:border-b-0 last:pb-0",
+                                            tx.projected && "opacity-60",
+                                        )}
                                     >
                                         <div>
-                                            <p className="font-medium">
+                                            <p className="font-medium flex items-center gap-1.5">
+                                                {tx.projected && (
+                                                    <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                                                )}
                                                 {tx.description}
                                             </p>
-                                            <p className="text-sm text-muted-foreground">
-                                                {new Date(
+                                            <p
+                                                className={cn(
+                                                    "text-sm text-muted-foreground",
+                                                    tx.overdue && "text-red-600",
+                                                )}
+                                            >
+                                                {parseISO(
                                                     tx.date,
                                                 ).toLocaleDateString()}
+                                                {tx.projected &&
+                                                    (tx.overdue
+                                                        ? " · Scheduled, overdue"
+                                                        : " · Scheduled")}
                                             </p>
                                         </div>
                                         <div
                                             className={cn(
                                                 "font-semibold",
+                                                tx.projected && "italic",
                                                 amount >= 0
                                                     ? "text-green-600"
                                                     : "text-red-600",
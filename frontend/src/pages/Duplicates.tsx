@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import apiClient from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CopyCheck, ScanSearch, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface DuplicateTransaction {
+    id: string;
+    date: string;
+    description: string;
+    amount: string;
+    category: string | null;
+    provider_transaction_id: string | null;
+    created_at: string;
+}
+
+interface DuplicateCandidate {
+    id: string;
+    similarity: string;
+    account_name: string;
+    transaction_a: DuplicateTransaction;
+    transaction_b: DuplicateTransaction;
+}
+
+const formatCurrency = (amount: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount));
+
+const DuplicatesPage = () => {
+    const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [scanning, setScanning] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadCandidates();
+    }, []);
+
+    const loadCandidates = async () => {
+        setLoading(true);
+        try {
+            const res = await apiClient.get('/duplicates');
+            setCandidates(res.data);
+        } catch (err) {
+            console.error("Failed to load duplicates", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleScan = async () => {
+        setScanning(true);
+        try {
+            const res = await apiClient.post('/duplicates/scan', {});
+            alert(res.data.message);
+            loadCandidates();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to scan for duplicates.");
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const handleAction = async (candidate: DuplicateCandidate, action: 'merge' | 'keep' | 'dismiss', keepId?: string) => {
+        setBusyId(candidate.id);
+        try {
+            await apiClient.post(`/duplicates/${candidate.id}/${action}`, keepId ? { keep_id: keepId } : {});
+            setCandidates(prev => prev.filter(c => c.id !== candidate.id));
+        } catch (err) {
+            console.error(err);
+            alert("Failed to update duplicate.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const renderTransaction = (candidate: DuplicateCandidate, txn: DuplicateTransaction) => (
+        <div className="flex-1 rounded-md border p-3 space-y-1">
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">{format(new Date(txn.date), 'dd MMM yyyy')}</span>
+                <span className={`font-medium ${parseFloat(txn.amount) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(txn.amount)}
+                </span>
+            </div>
+            <div className="font-medium">{txn.description}</div>
+            <div className="text-xs text-muted-foreground">
+                {txn.category || 'Uncategorized'} · imported {format(new Date(txn.created_at), 'dd MMM yyyy')}
+            </div>
+            <Button
+                variant="outline"
+                size="sm"
+                className="mt-2 w-full"
+                disabled={busyId === candidate.id}
+                onClick={() => handleAction(candidate, 'merge', txn.id)}
+            >
+                <Check className="mr-1 h-3.5 w-3.5" /> Keep this one
+            </Button>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Possible Duplicates</h1>
+                    <p className="text-muted-foreground">Same amount, close dates and a similar description in the same account.</p>
+                </div>
+                <Button onClick={handleScan} variant="secondary" disabled={scanning}>
+                    <ScanSearch className="mr-2 h-4 w-4" />
+                    {scanning ? 'Scanning...' : 'Scan Now'}
+                </Button>
+            </div>
+
+            {candidates.map(candidate => (
+                <Card key={candidate.id} className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm flex items-center justify-between">
+                            <span>{candidate.account_name}</span>
+                            <Badge variant="secondary" className="font-normal text-xs">
+                                {Math.round(parseFloat(candidate.similarity) * 100)}% similar
+                            </Badge>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-3">
+                        <div className="flex flex-col md:flex-row gap-3">
+                            {renderTransaction(candidate, candidate.transaction_a)}
+                            {renderTransaction(candidate, candidate.transaction_b)}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busyId === candidate.id}
+                                onClick={() => handleAction(candidate, 'keep')}
+                            >
+                                <CopyCheck className="mr-1 h-4 w-4" /> Keep Both
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busyId === candidate.id}
+                                onClick={() => handleAction(candidate, 'dismiss')}
+                            >
+                                <X className="mr-1 h-4 w-4" /> Dismiss
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            ))}
+
+            {candidates.length === 0 && !loading && (
+                <Card className="shadow-sm border-slate-200">
+                    <CardContent className="p-12 text-center text-muted-foreground">
+                        <div className="flex flex-col items-center gap-2">
+                            <CopyCheck className="h-8 w-8 text-slate-300" />
+                            <p>No possible duplicates to review.</p>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+export default DuplicatesPage;
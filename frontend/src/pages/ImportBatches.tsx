@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import apiClient from '@/lib/api';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, Undo2, Upload, Bot, Globe } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ImportBatch {
+    id: string;
+    source: 'upload' | 'scraper' | 'api';
+    format: string | null;
+    file_name: string | null;
+    account_name: string | null;
+    account_names: string[];
+    connection_name: string | null;
+    inserted_count: number;
+    skipped_count: number;
+    invalid_count: number;
+    remaining_count: number;
+    rolled_back_at: string | null;
+    created_at: string;
+}
+
+const sourceLabels = {
+    upload: { label: 'File Upload', icon: Upload },
+    scraper: { label: 'Bank Scraper', icon: Bot },
+    api: { label: 'External API', icon: Globe },
+};
+
+const ImportBatchesPage = () => {
+    const [batches, setBatches] = useState<ImportBatch[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadBatches();
+    }, []);
+
+    const loadBatches = async () => {
+        setLoading(true);
+        try {
+            const res = await apiClient.get('/imports/batches');
+            setBatches(res.data);
+        } catch (err) {
+            console.error("Failed to load import batches", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRollback = async (batch: ImportBatch) => {
+        if (!confirm(`Delete the ${batch.remaining_count} transactions imported in this batch?`)) return;
+
+        setRollingBack(batch.id);
+        try {
+            let res;
+            try {
+                res = await apiClient.delete(`/imports/batches/${batch.id}`);
+            } catch (err: any) {
+                if (err.response?.status !== 409) throw err;
+
+                // Some rows have been touched since the import; make the user confirm again
+                const { edited, reconciled } = err.response.data;
+                const details = [
+                    edited > 0 ? `${edited} edited` : null,
+                    reconciled > 0 ? `${reconciled} matched as transfers` : null,
+                ].filter(Boolean).join(' and ');
+                if (!confirm(`This batch has ${details} since import. Those changes will be lost. Delete anyway?`)) return;
+
+                res = await apiClient.delete(`/imports/batches/${batch.id}`, { params: { force: true } });
+            }
+            alert(res.data.message);
+            loadBatches();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to roll back import.");
+        } finally {
+            setRollingBack(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Import History</h1>
+                    <p className="text-muted-foreground">Every file upload, scraper run and API upload, with the option to undo it.</p>
+                </div>
+            </div>
+
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="p-0 text-sm">
+                    <div className="overflow-auto">
+                        <table className="w-full text-left">
+                            <thead className="bg-muted/50 text-muted-foreground font-medium border-b">
+                                <tr>
+                                    <th className="p-4">Imported</th>
+                                    <th className="p-4">Source</th>
+                                    <th className="p-4">File</th>
+                                    <th className="p-4">Account</th>
+                                    <th className="p-4 text-right">Inserted</th>
+                                    <th className="p-4 text-right">Skipped</th>
+                                    <th className="p-4 text-right">Invalid</th>
+                                    <th className="p-4 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {batches.map(batch => {
+                                    const source = sourceLabels[batch.source];
+                                    const SourceIcon = source.icon;
+                                    const accounts = batch.account_names.length > 0
+                                        ? batch.account_names.join(', ')
+                                        : batch.account_name;
+
+                                    return (
+                                        <tr key={batch.id} className="hover:bg-muted/30 transition-colors">
+                                            <td className="p-4 whitespace-nowrap">
+                                                {format(new Date(batch.created_at), 'dd MMM yyyy, HH:mm')}
+                                            </td>
+                                            <td className="p-4">
+                                                <span className="flex items-center gap-1.5 text-xs font-medium">
+                                                    <SourceIcon className="h-3.5 w-3.5 text-indigo-500" />
+                                                    {source.label}
+                                                </span>
+                                                {batch.connection_name && (
+                                                    <span className="text-xs text-muted-foreground">{batch.connection_name}</span>
+                                                )}
+                                            </td>
+                                            <td className="p-4">
+                                                <div className="font-medium">{batch.file_name || '—'}</div>
+                                                {batch.format && (
+                                                    <span className="text-xs uppercase text-muted-foreground">{batch.format}</span>
+                                                )}
+                                            </td>
+                                            <td className="p-4">{accounts || <span className="text-muted-foreground">—</span>}</td>
+                                            <td className="p-4 text-right font-mono">{batch.inserted_count}</td>
+                                            <td className="p-4 text-right font-mono text-muted-foreground">{batch.skipped_count}</td>
+                                            <td className="p-4 text-right font-mono text-muted-foreground">{batch.invalid_count}</td>
+                                            <td className="p-4 text-right">
+                                                {batch.rolled_back_at ? (
+                                                    <Badge variant="secondary" className="font-normal text-xs">
+                                                        Rolled back {format(new Date(batch.rolled_back_at), 'dd MMM yyyy')}
+                                                    </Badge>
+                                                ) : (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => handleRollback(batch)}
+                                                        disabled={batch.remaining_count === 0 || rollingBack === batch.id}
+                                                        className="hover:text-red-600"
+                                                    >
+                                                        <Undo2 className="mr-1 h-4 w-4" />
+                                                        {rollingBack === batch.id ? 'Rolling back...' : 'Roll back'}
+                                                    </Button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {batches.length === 0 && !loading && (
+                                    <tr>
+                                        <td colSpan={8} className="p-12 text-center text-muted-foreground">
+                                            <div className="flex flex-col items-center gap-2">
+                                                <History className="h-8 w-8 text-slate-300" />
+                                                <p>No imports yet. Imported files and synced transactions will appear here.</p>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default ImportBatchesPage;
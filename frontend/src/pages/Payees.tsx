@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import apiClient from '@/lib/api';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Combine, Pencil, Plus, RefreshCw, Store, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { PayeeBadge } from '@/components/payee-badge';
+import { Payee, PayeeDialog } from '@/components/payee-dialog';
+import { Category } from '@/pages/Categories';
+
+const formatCurrency = (amount: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount));
+
+const formatFrequency = (avgDaysBetween: string | null) => {
+    if (avgDaysBetween === null) return '—';
+    const days = parseFloat(avgDaysBetween);
+    if (days < 1) return 'Several a day';
+    if (days < 14) return `Every ${Math.round(days)} days`;
+    if (days < 60) return `Every ${Math.round(days / 7)} weeks`;
+    return `Every ${Math.round(days / 30)} months`;
+};
+
+const PayeesPage = () => {
+    const [payees, setPayees] = useState<Payee[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [filter, setFilter] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [editing, setEditing] = useState<Payee | null>(null);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [relinking, setRelinking] = useState(false);
+
+    useEffect(() => {
+        loadPayees();
+        apiClient.get<Category[]>('/categories')
+            .then(res => setCategories(Array.isArray(res.data) ? res.data : []))
+            .catch(err => console.error("Failed to load categories", err));
+    }, []);
+
+    const loadPayees = async () => {
+        setLoading(true);
+        try {
+            const res = await apiClient.get<Payee[]>('/payees');
+            setPayees(res.data);
+        } catch (err) {
+            console.error("Failed to load payees", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRelink = async () => {
+        setRelinking(true);
+        try {
+            const res = await apiClient.post('/payees/relink', {});
+            alert(res.data.message);
+            loadPayees();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to link transactions to payees.");
+        } finally {
+            setRelinking(false);
+        }
+    };
+
+    const handleDelete = async (payee: Payee) => {
+        if (!confirm(`Delete ${payee.name}? Its ${payee.transaction_count} transactions will be kept without a payee.`)) return;
+        try {
+            await apiClient.delete(`/payees/${payee.id}`);
+            setPayees(prev => prev.filter(p => p.id !== payee.id));
+        } catch (err) {
+            console.error(err);
+            alert("Failed to delete payee.");
+        }
+    };
+
+    const handleMerge = async () => {
+        const selected = payees.filter(p => selectedIds.has(p.id));
+        if (selected.length < 2) return;
+        // Keep the payee with the most history
+        const [target, ...sources] = [...selected].sort((a, b) => b.transaction_count - a.transaction_count);
+        if (!confirm(`Merge ${sources.map(p => p.name).join(', ')} into ${target.name}?`)) return;
+
+        try {
+            await apiClient.post(`/payees/${target.id}/merge`, { payeeIds: sources.map(p => p.id) });
+            setSelectedIds(new Set());
+            loadPayees();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to merge payees.");
+        }
+    };
+
+    const toggleSelected = (id: string, checked: boolean) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (checked) next.add(id);
+            else next.delete(id);
+            return next;
+        });
+    };
+
+    const openDialog = (payee: Payee | null) => {
+        setEditing(payee);
+        setDialogOpen(true);
+    };
+
+    const visiblePayees = payees.filter(p => p.name.toLowerCase().includes(filter.trim().toLowerCase()));
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Payees</h1>
+                    <p className="text-muted-foreground">The merchants behind your bank descriptions, with what you spend at each.</p>
+                </div>
+                <div className="flex gap-2">
+                    <Button onClick={handleRelink} variant="secondary" disabled={relinking}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {relinking ? 'Linking...' : 'Link Transactions'}
+                    </Button>
+                    <Button onClick={() => openDialog(null)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        New Payee
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+                <Input
+                    value={filter}
+                    onChange={e => setFilter(e.target.value)}
+                    placeholder="Filter payees..."
+                    className="max-w-sm"
+                />
+                {selectedIds.size > 1 && (
+                    <Button variant="outline" onClick={handleMerge}>
+                        <Combine className="mr-2 h-4 w-4" />
+                        Merge {selectedIds.size} Payees
+                    </Button>
+                )}
+            </div>
+
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="p-0 text-sm">
+                    <div className="overflow-auto">
+                        <table className="w-full text-left">
+                            <thead className="bg-muted/50 text-muted-foreground font-medium border-b">
+                                <tr>
+                                    <th className="p-4 w-10"></th>
+                                    <th className="p-4">Payee</th>
+                                    <th className="p-4">Default Category</th>
+                                    <th className="p-4 text-right">Transactions</th>
+                                    <th className="p-4 text-right">Spent</th>
+                                    <th className="p-4">Frequency</th>
+                                    <th className="p-4">First Seen</th>
+                                    <th className="p-4">Last Seen</th>
+                                    <th className="p-4 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {visiblePayees.map(payee => (
+                                    <tr key={payee.id} className="hover:bg-muted/30 transition-colors">
+                                        <td className="p-4">
+                                            <Checkbox
+                                                checked={selectedIds.has(payee.id)}
+                                                onCheckedChange={value => toggleSelected(payee.id, !!value)}
+                                                aria-label={`Select ${payee.name}`}
+                                            />
+                                        </td>
+                                        <td className="p-4">
+                                            <PayeeBadge
+                                                id={payee.id}
+                                                name={payee.name}
+                                                color={payee.color}
+                                                logoUrl={payee.logo_url}
+                                                className="font-medium"
+                                            />
+                                            <div className="text-xs text-muted-foreground">
+                                                {payee.aliases.length} alias{payee.aliases.length === 1 ? '' : 'es'}
+                                            </div>
+                                        </td>
+                                        <td className="p-4">{payee.default_category || <span className="text-muted-foreground">—</span>}</td>
+                                        <td className="p-4 text-right font-mono">{payee.transaction_count}</td>
+                                        <td className="p-4 text-right font-mono">{formatCurrency(payee.total_spent)}</td>
+                                        <td className="p-4 text-muted-foreground">{formatFrequency(payee.avg_days_between)}</td>
+                                        <td className="p-4 whitespace-nowrap">
+                                            {payee.first_seen ? format(new Date(payee.first_seen), 'dd MMM yyyy') : '—'}
+                                        </td>
+                                        <td className="p-4 whitespace-nowrap">
+                                            {payee.last_seen ? format(new Date(payee.last_seen), 'dd MMM yyyy') : '—'}
+                                        </td>
+                                        <td className="p-4 text-right whitespace-nowrap">
+                                            <Button variant="ghost" size="sm" onClick={() => openDialog(payee)}>
+                                                <Pencil className="mr-1 h-4 w-4" /> Edit
+                                            </Button>
+                                            <Button variant="ghost" size="sm" className="hover:text-red-600" onClick={() => handleDelete(payee)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {visiblePayees.length === 0 && !loading && (
+                                    <tr>
+                                        <td colSpan={9} className="p-12 text-center text-muted-foreground">
+                                            <div className="flex flex-col items-center gap-2">
+                                                <Store className="h-8 w-8 text-slate-300" />
+                                                <p>
+                                                    {payees.length === 0
+                                                        ? 'No payees yet. They are created as transactions are imported, or use Link Transactions for your history.'
+                                                        : 'No payees match the filter.'}
+                                                </p>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <PayeeDialog
+                open={dialogOpen}
+                onClose={() => setDialogOpen(false)}
+                payee={editing}
+                categories={categories}
+                onSaved={loadPayees}
+            />
+        </div>
+    );
+};
+
+export default PayeesPage;
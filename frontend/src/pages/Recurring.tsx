@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import apiClient from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { EyeOff, RefreshCw, Repeat, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { PayeeBadge } from '@/components/payee-badge';
+
+// Mirrors RecurringSeries in backend/src/services/recurringService.ts
+interface RecurringSeries {
+    id: string;
+    payee_id: string;
+    payee: string;
+    payee_color: string | null;
+    payee_logo_url: string | null;
+    account_id: string | null;
+    account: string | null;
+    category_id: string | null;
+    category: string | null;
+    cadence: 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'annual';
+    expected_amount: string;
+    previous_amount: string | null;
+    price_increased: boolean;
+    occurrences: number;
+    first_date: string;
+    last_date: string;
+    next_expected_date: string;
+    dismissed: boolean;
+    status: 'active' | 'missed' | 'ended';
+    is_new: boolean;
+    annual_amount: string;
+}
+
+// Mirrors RecurringCategoryCost in backend/src/services/recurringService.ts
+interface RecurringCategoryCost {
+    category_id: string | null;
+    category: string | null;
+    series_count: number;
+    annual_cost: string;
+}
+
+const cadenceLabels: Record<RecurringSeries['cadence'], string> = {
+    weekly: 'Weekly',
+    fortnightly: 'Fortnightly',
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+    annual: 'Yearly',
+};
+
+const formatCurrency = (amount: string | number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(Math.abs(Number(amount)));
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+
+const RecurringPage = () => {
+    const [series, setSeries] = useState<RecurringSeries[]>([]);
+    const [costs, setCosts] = useState<RecurringCategoryCost[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [scanning, setScanning] = useState(false);
+    const [showDismissed, setShowDismissed] = useState(false);
+
+    useEffect(() => {
+        loadSeries();
+    }, [showDismissed]);
+
+    const loadSeries = async () => {
+        setLoading(true);
+        try {
+            const [seriesRes, costsRes] = await Promise.all([
+                apiClient.get<RecurringSeries[]>('/recurring', { params: { includeDismissed: showDismissed } }),
+                apiClient.get<RecurringCategoryCost[]>('/recurring/annual-cost'),
+            ]);
+            setSeries(seriesRes.data);
+            setCosts(costsRes.data);
+        } catch (err) {
+            console.error("Failed to load recurring transactions", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleScan = async () => {
+        setScanning(true);
+        try {
+            const res = await apiClient.post('/recurring/scan', {});
+            alert(res.data.message);
+            loadSeries();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to detect recurring transactions.");
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const handleDismiss = async (item: RecurringSeries, dismissed: boolean) => {
+        try {
+            await apiClient.post(`/recurring/${item.id}/${dismissed ? 'dismiss' : 'restore'}`, {});
+            loadSeries();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to update recurring series.");
+        }
+    };
+
+    const ongoing = series.filter(s => s.status !== 'ended');
+    const bills = ongoing.filter(s => Number(s.expected_amount) < 0);
+    const income = ongoing.filter(s => Number(s.expected_amount) > 0);
+    const ended = series.filter(s => s.status === 'ended');
+    const needsAttention = ongoing.filter(s => !s.dismissed && (s.status === 'missed' || s.price_increased || s.is_new));
+    const annualTotal = costs.reduce((sum, c) => sum + Number(c.annual_cost), 0);
+
+    const renderTable = (rows: RecurringSeries[], emptyMessage: string) => (
+        <div className="overflow-auto">
+            <table className="w-full text-left">
+                <thead className="bg-muted/50 text-muted-foreground font-medium border-b">
+                    <tr>
+                        <th className="p-4">Payee</th>
+                        <th className="p-4">Cadence</th>
+                        <th className="p-4 text-right">Amount</th>
+                        <th className="p-4 text-right">Per Year</th>
+                        <th className="p-4">Category</th>
+                        <th className="p-4">Last Paid</th>
+                        <th className="p-4">Next Expected</th>
+                        <th className="p-4 text-right">Actions</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                    {rows.map(item => (
+                        <tr key={item.id} className={`hover:bg-muted/30 transition-colors ${item.dismissed ? 'opacity-50' : ''}`}>
+                            <td className="p-4">
+                                <PayeeBadge
+                                    id={item.payee_id}
+                                    name={item.payee}
+                                    color={item.payee_color}
+                                    logoUrl={item.payee_logo_url}
+                                    className="font-medium"
+                                />
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                    {item.status === 'missed' && (
+                                        <Badge variant="destructive" className="font-normal text-xs">Missed payment</Badge>
+                                    )}
+                                    {item.price_increased && (
+                                        <Badge variant="outline" className="font-normal text-xs text-amber-600 border-amber-300">Price increase</Badge>
+                                    )}
+                                    {item.is_new && (
+                                        <Badge variant="secondary" className="font-normal text-xs">New</Badge>
+                                    )}
+                                    {item.dismissed && (
+                                        <Badge variant="outline" className="font-normal text-xs">Dismissed</Badge>
+                                    )}
+                                </div>
+                            </td>
+                            <td className="p-4">
+                                {cadenceLabels[item.cadence]}
+                                <div className="text-xs text-muted-foreground">{item.occurrences} payments</div>
+                            </td>
+                            <td className="p-4 text-right font-mono whitespace-nowrap">
+                                {formatCurrency(item.expected_amount)}
+                                {item.previous_amount && (
+                                    <div className="text-xs text-muted-foreground line-through">{formatCurrency(item.previous_amount)}</div>
+                                )}
+                            </td>
+                            <td className="p-4 text-right font-mono">{formatCurrency(item.annual_amount)}</td>
+                            <td className="p-4">{item.category || <span className="text-muted-foreground">—</span>}</td>
+                            <td className="p-4 whitespace-nowrap">{formatDate(item.last_date)}</td>
+                            <td className={`p-4 whitespace-nowrap ${item.status === 'missed' ? 'text-red-600' : ''}`}>
+                                {formatDate(item.next_expected_date)}
+                            </td>
+                            <td className="p-4 text-right whitespace-nowrap">
+                                {item.dismissed ? (
+                                    <Button variant="ghost" size="sm" onClick={() => handleDismiss(item, false)}>
+                                        <RotateCcw className="mr-1 h-4 w-4" /> Restore
+                                    </Button>
+                                ) : (
+                                    <Button variant="ghost" size="sm" title="Not recurring" onClick={() => handleDismiss(item, true)}>
+                                        <EyeOff className="mr-1 h-4 w-4" /> Dismiss
+                                    </Button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                    {rows.length === 0 && !loading && (
+                        <tr>
+                            <td colSpan={8} className="p-12 text-center text-muted-foreground">
+                                <div className="flex flex-col items-center gap-2">
+                                    <Repeat className="h-8 w-8 text-slate-300" />
+                                    <p>{emptyMessage}</p>
+                                </div>
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Recurring</h1>
+                    <p className="text-muted-foreground">Subscriptions, bills and income that come around on a regular schedule.</p>
+                </div>
+                <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="show-dismissed"
+                            checked={showDismissed}
+                            onCheckedChange={value => setShowDismissed(!!value)}
+                        />
+                        <Label htmlFor="show-dismissed" className="text-sm font-normal">Show dismissed</Label>
+                    </div>
+                    <Button onClick={handleScan} variant="secondary" disabled={scanning}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        {scanning ? 'Scanning...' : 'Scan Transactions'}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">Recurring Costs per Year</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">{formatCurrency(annualTotal)}</div>
+                        <p className="text-xs text-muted-foreground">{formatCurrency(annualTotal / 12)} a month</p>
+                    </CardContent>
+                </Card>
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">Active Subscriptions & Bills</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">{bills.filter(s => !s.dismissed).length}</div>
+                        <p className="text-xs text-muted-foreground">{income.filter(s => !s.dismissed).length} recurring income</p>
+                    </CardContent>
+                </Card>
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">Needs Attention</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">{needsAttention.length}</div>
+                        <p className="text-xs text-muted-foreground">Missed payments, price increases and new subscriptions</p>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {needsAttention.length > 0 && (
+                <Card className="shadow-sm border-amber-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm">Needs Attention</CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0 text-sm">
+                        {renderTable(needsAttention, '')}
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card className="shadow-sm border-slate-200">
+                <CardHeader className="pb-3">
+                    <CardTitle className="text-sm">Annual Cost by Category</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0 text-sm">
+                    <table className="w-full text-left">
+                        <thead className="bg-muted/50 text-muted-foreground font-medium border-b">
+                            <tr>
+                                <th className="p-4">Category</th>
+                                <th className="p-4 text-right">Recurring Payments</th>
+                                <th className="p-4 text-right">Per Year</th>
+                                <th className="p-4 text-right">Per Month</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {costs.map(cost => (
+                                <tr key={cost.category_id || 'uncategorized'} className="hover:bg-muted/30 transition-colors">
+                                    <td className="p-4">{cost.category || <span className="text-muted-foreground">Uncategorized</span>}</td>
+                                    <td className="p-4 text-right font-mono">{cost.series_count}</td>
+                                    <td className="p-4 text-right font-mono">{formatCurrency(cost.annual_cost)}</td>
+                                    <td className="p-4 text-right font-mono">{formatCurrency(Number(cost.annual_cost) / 12)}</td>
+                                </tr>
+                            ))}
+                            {costs.length === 0 && !loading && (
+                                <tr>
+                                    <td colSpan={4} className="p-8 text-center text-muted-foreground">No recurring costs yet.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </CardContent>
+            </Card>
+
+            <Card className="shadow-sm border-slate-200">
+                <CardHeader className="pb-3">
+                    <CardTitle className="text-sm">Subscriptions & Bills</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0 text-sm">
+                    {renderTable(bills, 'No recurring payments found yet. They are detected as transactions are imported, or use Scan Transactions.')}
+                </CardContent>
+            </Card>
+
+            {income.length > 0 && (
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm">Income</CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0 text-sm">
+                        {renderTable(income, '')}
+                    </CardContent>
+                </Card>
+            )}
+
+            {ended.length > 0 && (
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm">Ended</CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0 text-sm">
+                        {renderTable(ended, '')}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+export default RecurringPage;
@@ -19,8 +19,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { ArrowUp, ArrowDown, RefreshCcw } from "lucide-react";
+import { ArrowUp, ArrowDown, RefreshCcw, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PayeeBadge } from "@/components/payee-badge";
 
 interface BudgetVarianceItem {
     id: string;
@@ -30,11 +31,73 @@ interface BudgetVarianceItem {
     variance?: number; // Calculated on frontend
 }
 
+interface TagSpendingItem {
+    tag: string;
+    count: number;
+    spent: number;
+    received: number;
+    net: number;
+}
+
+// Mirrors the rows of GET /api/reports/spending-by-payee in backend/src/routes/reports.ts
+interface PayeeSpendingItem {
+    id: string;
+    name: string;
+    color: string | null;
+    logo_url: string | null;
+    transaction_count: number;
+    total_spent: string;
+    avg_days_between: string | null;
+    first_seen: string;
+    last_seen: string;
+}
+
 interface WealthItem {
     date: string;
     balance: number;
 }
 
+// Mirrors Forecast in backend/src/services/forecastService.ts, without the events
+interface ForecastLowBalance {
+    account_id: string;
+    account: string;
+    date: string;
+    balance: number;
+}
+
+interface AccountForecast {
+    account_id: string;
+    name: string;
+    type: string;
+    is_active: boolean;
+    opening_balance: number;
+    closing_balance: number;
+    lowest_balance: number;
+    lowest_date: string;
+    below_zero_date: string | null;
+    below_threshold_date: string | null;
+    budgeted_spend: number;
+}
+
+interface Forecast {
+    start_date: string;
+    end_date: string;
+    threshold: number | null;
+    total: WealthItem[];
+    accounts: AccountForecast[];
+    first_below_zero: ForecastLowBalance | null;
+    first_below_threshold: ForecastLowBalance | null;
+}
+
+// History has `balance`, the forecast has `forecast`; today has both so the lines meet
+interface WealthChartItem {
+    date: string;
+    balance?: number;
+    forecast?: number;
+}
+
+const FORECAST_MONTH_OPTIONS = [1, 3, 6, 12];
+
 const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
         style: "currency",
@@ -50,6 +113,10 @@ const ReportsPage: React.FC = () => {
 
     const [varianceData, setVarianceData] = useState<BudgetVarianceItem[]>([]);
     const [wealthData, setWealthData] = useState<WealthItem[]>([]);
+    const [tagData, setTagData] = useState<TagSpendingItem[]>([]);
+    const [payeeData, setPayeeData] = useState<PayeeSpendingItem[]>([]);
+    const [forecastMonths, setForecastMonths] = useState(3);
+    const [forecast, setForecast] = useState<Forecast | null>(null);
     const [loading, setLoading] = useState(false);
 
     const fetchReports = async () => {
@@ -58,13 +125,19 @@ const ReportsPage: React.FC = () => {
             const startStr = format(startDate, "yyyy-MM-dd");
             const endStr = format(endDate, "yyyy-MM-dd");
 
-            const [varianceRes, wealthRes] = await Promise.all([
+            const [varianceRes, wealthRes, tagRes, payeeRes] = await Promise.all([
                 apiClient.get<BudgetVarianceItem[]>(
                     `/reports/budget-variance?startDate=${startStr}&endDate=${endStr}`,
                 ),
                 apiClient.get<WealthItem[]>(
                     `/reports/wealth?startDate=${startStr}&endDate=${endStr}`,
                 ),
+                apiClient.get<TagSpendingItem[]>(
+                    `/reports/spending-by-tag?startDate=${startStr}&endDate=${endStr}`,
+                ),
+                apiClient.get<PayeeSpendingItem[]>(
+                    `/reports/spending-by-payee?startDate=${startStr}&endDate=${endStr}&limit=10`,
+                ),
             ]);
 
             // Process variance data to add a 'variance' field for the chart
@@ -78,6 +151,16 @@ const ReportsPage: React.FC = () => {
 
             setVarianceData(processedVariance);
             setWealthData(wealthRes.data);
+            // Numeric columns arrive as strings
+            setTagData(
+                tagRes.data.map((item) => ({
+                    ...item,
+                    spent: Number(item.spent),
+                    received: Number(item.received),
+                    net: Number(item.net),
+                })),
+            );
+            setPayeeData(payeeRes.data);
         } catch (error) {
             console.error("Failed to fetch reports:", error);
         } finally {
@@ -85,12 +168,26 @@ const ReportsPage: React.FC = () => {
         }
     };
 
+    const fetchForecast = async (months: number) => {
+        try {
+            const res = await apiClient.get<Forecast>(`/reports/forecast?months=${months}`);
+            setForecast(res.data);
+        } catch (error) {
+            console.error("Failed to fetch forecast:", error);
+        }
+    };
+
     useEffect(() => {
         fetchReports();
     }, []);
 
+    useEffect(() => {
+        fetchForecast(forecastMonths);
+    }, [forecastMonths]);
+
     const handleUpdate = () => {
         fetchReports();
+        fetchForecast(forecastMonths);
     };
 
     // Summary Calculations
@@ -104,6 +201,33 @@ const ReportsPage: React.FC = () => {
     );
     const netVariance = totalBudget + totalActual;
 
+    // History stops at today, where the forecast picks up
+    const wealthChartData: WealthChartItem[] = forecast
+        ? [
+              ...wealthData.filter((item) => item.date < forecast.start_date),
+              ...forecast.total.map((point) => ({
+                  date: point.date,
+                  balance:
+                      point.date === forecast.start_date
+                          ? wealthData.find((item) => item.date === point.date)?.balance
+                          : undefined,
+                  forecast: point.balance,
+              })),
+          ]
+        : wealthData;
+    const forecastAccounts = forecast?.accounts.filter((account) => account.is_active) ?? [];
+    const lowBalanceWarnings = [
+        forecast?.first_below_zero && {
+            ...forecast.first_below_zero,
+            message: "drops below zero",
+        },
+        forecast?.first_below_threshold &&
+            forecast.first_below_threshold.date !== forecast.first_below_zero?.date && {
+                ...forecast.first_below_threshold,
+                message: `drops below ${formatCurrency(forecast.threshold ?? 0)}`,
+            },
+    ].filter((warning): warning is ForecastLowBalance & { message: string } => !!warning);
+
     return (
         <div className="space-y-8">
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
@@ -279,13 +403,40 @@ const ReportsPage: React.FC = () => {
                 {/* Wealth Chart */}
                 <Card className="col-span-3">
                     <CardHeader>
-                        <CardTitle>Total Wealth Growth</CardTitle>
+                        <div className="flex items-center justify-between gap-2">
+                            <CardTitle>Total Wealth Growth</CardTitle>
+                            <select
+                                aria-label="Forecast length"
+                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                                value={forecastMonths}
+                                onChange={(e) => setForecastMonths(Number(e.target.value))}
+                            >
+                                {FORECAST_MONTH_OPTIONS.map((months) => (
+                                    <option key={months} value={months}>
+                                        {months === 1 ? "1 month" : `${months} months`} ahead
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
                     </CardHeader>
                     <CardContent>
+                        {lowBalanceWarnings.map((warning) => (
+                            <div
+                                key={warning.message}
+                                className="mb-3 flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700"
+                            >
+                                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                                <span>
+                                    {warning.account} {warning.message} on{" "}
+                                    {format(new Date(`${warning.date}T00:00:00`), "dd MMM yyyy")} (
+                                    {formatCurrency(warning.balance)}).
+                                </span>
+                            </div>
+                        ))}
                         <div className="h-[500px] w-full">
                             <ResponsiveContainer width="100%" height="100%">
                                 <AreaChart
-                                    data={wealthData}
+                                    data={wealthChartData}
                                     margin={{
                                         top: 10,
                                         right: 10,
@@ -316,7 +467,7 @@ const ReportsPage: React.FC = () => {
                                     <XAxis
                                         dataKey="date"
                                         tickFormatter={(str) => {
-                                            const date = new Date(str);
+                                            const date = new Date(`${str}T00:00:00`);
                                             return format(date, "MMM d");
                                         }}
                                         minTickGap={30}
@@ -330,11 +481,12 @@ const ReportsPage: React.FC = () => {
                                         }
                                     />
                                     <Tooltip
-                                        formatter={(value: any) =>
-                                            formatCurrency(value)
-                                        }
+                                        formatter={(value: any, name: any) => [
+                                            formatCurrency(value),
+                                            name === "forecast" ? "Forecast" : "Balance",
+                                        ]}
                                         labelFormatter={(label) =>
-                                            format(new Date(label), "PPP")
+                                            format(new Date(`${label}T00:00:00`), "PPP")
                                         }
                                     />
                                     <CartesianGrid
@@ -348,12 +500,207 @@ const ReportsPage: React.FC = () => {
                                         fillOpacity={1}
                                         fill="url(#colorBalance)"
                                     />
+                                    <Area
+                                        type="monotone"
+                                        dataKey="forecast"
+                                        stroke="#3b82f6"
+                                        strokeDasharray="5 5"
+                                        fill="transparent"
+                                    />
+                                    {forecast && (
+                                        <ReferenceLine
+                                            x={forecast.start_date}
+                                            stroke="#94a3b8"
+                                            label={{ value: "Today", position: "insideTopLeft", fontSize: 12 }}
+                                        />
+                                    )}
                                 </AreaChart>
                             </ResponsiveContainer>
                         </div>
                     </CardContent>
                 </Card>
             </div>
+
+            {/* Account Forecast */}
+            {forecastAccounts.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Forecast by Account</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-muted-foreground border-b">
+                                <tr>
+                                    <th className="py-2 font-medium">Account</th>
+                                    <th className="py-2 font-medium text-right">Today</th>
+                                    <th className="py-2 font-medium text-right">Budgeted Spend</th>
+                                    <th className="py-2 font-medium text-right">Lowest</th>
+                                    <th className="py-2 font-medium text-right">
+                                        {format(new Date(`${forecast!.end_date}T00:00:00`), "dd MMM yyyy")}
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {forecastAccounts.map((account) => (
+                                    <tr key={account.account_id}>
+                                        <td className="py-2">{account.name}</td>
+                                        <td className="py-2 text-right font-mono">
+                                            {formatCurrency(account.opening_balance)}
+                                        </td>
+                                        <td className="py-2 text-right font-mono text-muted-foreground">
+                                            {account.budgeted_spend ? formatCurrency(-account.budgeted_spend) : "—"}
+                                        </td>
+                                        <td
+                                            className={cn(
+                                                "py-2 text-right font-mono",
+                                                (account.below_zero_date || account.below_threshold_date) &&
+                                                    "text-red-600",
+                                            )}
+                                        >
+                                            {formatCurrency(account.lowest_balance)}
+                                            <span className="ml-2 font-sans text-xs text-muted-foreground">
+                                                {format(new Date(`${account.lowest_date}T00:00:00`), "dd MMM")}
+                                            </span>
+                                        </td>
+                                        <td className="py-2 text-right font-mono">
+                                            {formatCurrency(account.closing_balance)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-muted-foreground pt-2">
+                            Projected from scheduled and recurring transactions, the rest of each month's budgets and
+                            loan interest. Set a low-balance warning in Settings.
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Tag Spending */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Spending by Tag</CardTitle>
+                </CardHeader>
+                <CardContent className="pl-2">
+                    {tagData.length === 0 ? (
+                        <p className="text-sm text-muted-foreground px-4 py-8 text-center">
+                            No tagged transactions in this period.
+                        </p>
+                    ) : (
+                        <div
+                            className="w-full"
+                            style={{ height: Math.max(200, tagData.length * 40) }}
+                        >
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart
+                                    layout="vertical"
+                                    data={tagData}
+                                    margin={{
+                                        top: 5,
+                                        right: 30,
+                                        left: 40,
+                                        bottom: 5,
+                                    }}
+                                >
+                                    <CartesianGrid
+                                        strokeDasharray="3 3"
+                                        horizontal={false}
+                                    />
+                                    <XAxis
+                                        type="number"
+                                        tickFormatter={(value) => `$${value}`}
+                                    />
+                                    <YAxis
+                                        type="category"
+                                        dataKey="tag"
+                                        width={140}
+                                        tick={{ fontSize: 12 }}
+                                        tickFormatter={(tag) => `#${tag}`}
+                                    />
+                                    <Tooltip
+                                        formatter={(value: any) =>
+                                            formatCurrency(value)
+                                        }
+                                        labelFormatter={(tag) => `#${tag}`}
+                                        cursor={{ fill: "transparent" }}
+                                    />
+                                    <Legend />
+                                    <Bar
+                                        dataKey="spent"
+                                        name="Spent"
+                                        fill="#ef4444"
+                                        radius={[0, 4, 4, 0]}
+                                    />
+                                    <Bar
+                                        dataKey="received"
+                                        name="Received"
+                                        fill="#22c55e"
+                                        radius={[0, 4, 4, 0]}
+                                    />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+                    <p className="text-xs text-muted-foreground px-4 pt-2">
+                        Transfers are excluded. A transaction with several tags counts towards each of them.
+                    </p>
+                </CardContent>
+            </Card>
+
+            {/* Payee Spending */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Top Payees</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {payeeData.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-8 text-center">
+                            No payees with transactions in this period.
+                        </p>
+                    ) : (
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-muted-foreground border-b">
+                                <tr>
+                                    <th className="py-2 font-medium">Payee</th>
+                                    <th className="py-2 font-medium text-right">Transactions</th>
+                                    <th className="py-2 font-medium text-right">Spent</th>
+                                    <th className="py-2 font-medium text-right">Avg. Days Apart</th>
+                                    <th className="py-2 font-medium text-right">First Seen</th>
+                                    <th className="py-2 font-medium text-right">Last Seen</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {payeeData.map((payee) => (
+                                    <tr key={payee.id}>
+                                        <td className="py-2">
+                                            <PayeeBadge
+                                                id={payee.id}
+                                                name={payee.name}
+                                                color={payee.color}
+                                                logoUrl={payee.logo_url}
+                                            />
+                                        </td>
+                                        <td className="py-2 text-right font-mono">{payee.transaction_count}</td>
+                                        <td className="py-2 text-right font-mono">
+                                            {formatCurrency(Number(payee.total_spent))}
+                                        </td>
+                                        <td className="py-2 text-right text-muted-foreground">
+                                            {payee.avg_days_between ?? "—"}
+                                        </td>
+                                        <td className="py-2 text-right text-muted-foreground">
+                                            {format(new Date(payee.first_seen), "dd MMM yyyy")}
+                                        </td>
+                                        <td className="py-2 text-right text-muted-foreground">
+                                            {format(new Date(payee.last_seen), "dd MMM yyyy")}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </CardContent>
+            </Card>
         </div>
     );
 };
@@ -1,39 +1,87 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import apiClient from '@/lib/api';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CategorySelector } from '@/components/category-selector';
-import { PlusCircle, Trash2, Edit2, CheckCircle2, XCircle, Zap, Play, X, Plus } from 'lucide-react';
+import {
+    RuleConditionBuilder,
+    RuleConditionGroup,
+    RuleConditionNode,
+    cleanGroup,
+    describeCondition,
+    emptyCondition,
+    fromRootGroup,
+    toRootGroup,
+} from '@/components/rule-condition-builder';
+import { RuleAction, RuleActionEditor, describeAction, hasEffect } from '@/components/rule-action-editor';
+import { DryRunResult, RuleDryRunResults } from '@/components/rule-dry-run-results';
+import { ClassificationJob, ClassificationJobProgress, describeJob } from '@/components/classification-job-progress';
+import { PlusCircle, Trash2, Edit2, CheckCircle2, XCircle, Zap, Play, X, Eye, ArrowUpDown, GraduationCap, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
 import { Category } from '@/pages/Categories';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 
 
-interface RuleCondition {
-    match_type: string;
-    match_value: string;
-}
-
 interface Rule {
     id: string;
     name: string;
     priority: number;
-    conditions: RuleCondition[];
-    category_id: string;
+    conditions: RuleConditionNode[];
+    actions: RuleAction[];
+    category_id: string | null;
     is_active: boolean;
-    category_name?: string;
+    last_matched_at: string | null;
+    total_matches: number;
+    matches_90d: number;
+}
+
+// Mirrors RuleCoverage in backend/src/services/ruleService.ts
+interface RuleCoverage {
+    rule_id: string;
+    history_matches: number;
+    reached_matches: number;
+    never_matched: boolean;
+    fully_shadowed: boolean;
+    shadowed_by: { id: string; name: string } | null;
+}
+
+// Mirrors RuleSuggestion / OverriddenRule in backend/src/services/ruleLearningService.ts
+interface LearnedSuggestion {
+    id: string;
+    payee: string;
+    category_name: string;
+    correction_count: number;
+    example_description: string | null;
+}
+
+interface OverriddenRule {
+    id: string;
+    name: string;
+    override_count: number;
 }
 
+type SortKey = 'priority' | 'name' | 'last_matched_at' | 'total_matches' | 'matches_90d';
+
 const RulesPage = () => {
     const [rules, setRules] = useState<Rule[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
+    const [accounts, setAccounts] = useState<{ id: string; name: string }[]>([]);
     const [loading, setLoading] = useState(true);
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingRule, setEditingRule] = useState<Rule | null>(null);
-    const [runningRules, setRunningRules] = useState(false);
+    const [rulesJobId, setRulesJobId] = useState<string | null>(null);
+    const [coverage, setCoverage] = useState<Record<string, RuleCoverage>>({});
+    const [learned, setLearned] = useState<LearnedSuggestion[]>([]);
+    const [overrides, setOverrides] = useState<OverriddenRule[]>([]);
+    const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'priority', desc: false });
+
+    // Dry-run State
+    const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+    const [dryRunning, setDryRunning] = useState(false);
+    const [overwriteHistory, setOverwriteHistory] = useState(false);
 
     // AI Suggestion State
     const [suggestDialogOpen, setSuggestDialogOpen] = useState(false);
@@ -45,14 +93,14 @@ const RulesPage = () => {
     const [formData, setFormData] = useState<{
         name: string;
         priority: number;
-        conditions: RuleCondition[];
-        category_id: string;
+        conditions: RuleConditionGroup;
+        actions: RuleAction[];
         is_active: boolean;
     }>({
         name: '',
         priority: 0,
-        conditions: [{ match_type: 'contains', match_value: '' }],
-        category_id: '',
+        conditions: { operator: 'or', conditions: [emptyCondition()] },
+        actions: [{ type: 'set_category', value: '' }],
         is_active: true
     });
 
@@ -63,21 +111,25 @@ const RulesPage = () => {
     const loadData = async () => {
         setLoading(true);
         try {
-            const [rulesRes, catsRes] = await Promise.all([
+            const [rulesRes, catsRes, accountsRes] = await Promise.all([
                 apiClient.get('/rules'),
-                apiClient.get('/categories')
+                apiClient.get('/categories'),
+                apiClient.get('/accounts')
             ]);
 
             const cats = catsRes.data;
             setCategories(cats);
+            setAccounts(accountsRes.data);
 
             const mappedRules = rulesRes.data.map((r: any) => ({
                 ...r,
-                category_name: cats.find((c: any) => c.id === r.category_id)?.name || 'Unknown',
+                actions: r.actions?.length ? r.actions : (r.category_id ? [{ type: 'set_category', value: r.category_id }] : []),
                 conditions: r.conditions || (r.match_value ? [{ match_type: r.match_type, match_value: r.match_value }] : [])
             }));
 
             setRules(mappedRules);
+            loadCoverage();
+            loadLearning();
         } catch (err) {
             console.error(err);
         } finally {
@@ -85,30 +137,121 @@ const RulesPage = () => {
         }
     };
 
-    const handleSave = async () => {
+    // Replays every rule over the full history, so it loads after the table
+    const loadCoverage = async () => {
         try {
-            // Filter empty conditions
-            const cleanData = {
-                ...formData,
-                conditions: formData.conditions.filter(c => c.match_value.trim() !== '')
-            };
-
-            if (cleanData.conditions.length === 0) {
-                alert("At least one condition is required.");
-                return;
-            }
+            const res = await apiClient.get('/rules/coverage');
+            const byRule: Record<string, RuleCoverage> = {};
+            res.data.forEach((c: RuleCoverage) => { byRule[c.rule_id] = c; });
+            setCoverage(byRule);
+        } catch (err) {
+            console.error("Failed to load rule coverage", err);
+        }
+    };
+
+    const loadLearning = async () => {
+        try {
+            const [suggestionsRes, overridesRes] = await Promise.all([
+                apiClient.get('/rules/suggestions'),
+                apiClient.get('/rules/overrides')
+            ]);
+            setLearned(suggestionsRes.data);
+            setOverrides(overridesRes.data);
+        } catch (err) {
+            console.error("Failed to load learned rules", err);
+        }
+    };
+
+    const handleLearnedSuggestion = async (suggestion: LearnedSuggestion, action: 'accept' | 'dismiss') => {
+        try {
+            await apiClient.post(`/rules/suggestions/${suggestion.id}/${action}`, {});
+            if (action === 'accept') loadData();
+            else setLearned(prev => prev.filter(s => s.id !== suggestion.id));
+        } catch (err) {
+            console.error(err);
+            alert("Failed to update suggestion.");
+        }
+    };
+
+    const sortedRules = useMemo(() => {
+        const value = (rule: Rule) => {
+            if (sort.key === 'last_matched_at') return rule.last_matched_at ? new Date(rule.last_matched_at).getTime() : 0;
+            if (sort.key === 'name') return rule.name.toLowerCase();
+            return rule[sort.key];
+        };
+        return [...rules].sort((a, b) => {
+            const [x, y] = [value(a), value(b)];
+            const order = x < y ? -1 : x > y ? 1 : 0;
+            return sort.desc ? -order : order;
+        });
+    }, [rules, sort]);
+
+    // Numbers sort busiest first on the first click
+    const toggleSort = (key: SortKey) => {
+        setSort(prev => prev.key === key
+            ? { key, desc: !prev.desc }
+            : { key, desc: key !== 'priority' && key !== 'name' });
+    };
+
+    const sortHeader = (key: SortKey, label: string, className: string = '') => (
+        <th className={`p-4 ${className}`}>
+            <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-foreground">
+                {label}
+                <ArrowUpDown className={`h-3 w-3 ${sort.key === key ? 'text-indigo-600' : 'opacity-40'}`} />
+            </button>
+        </th>
+    );
+
+    // The form as the API expects it, or null if there are no conditions
+    const buildRuleData = () => {
+        // Filter empty conditions
+        const root = cleanGroup(formData.conditions);
+        if (root.conditions.length === 0) {
+            alert("At least one condition is required.");
+            return null;
+        }
+        const actions = formData.actions.map(a =>
+            a.type === 'add_tags' ? { ...a, tags: (a.tags || []).map(t => t.trim()).filter(Boolean) } : a
+        );
+        return { ...formData, conditions: fromRootGroup(root), actions };
+    };
+
+    const handlePreview = async () => {
+        const cleanData = buildRuleData();
+        if (!cleanData) return;
+
+        setDryRunning(true);
+        try {
+            const res = await apiClient.post('/rules/dry-run', { ...cleanData, id: editingRule?.id });
+            setDryRun(res.data);
+        } catch (err: any) {
+            console.error("Failed to preview", err);
+            alert(err.response?.data?.error || "Failed to preview rule.");
+        } finally {
+            setDryRunning(false);
+        }
+    };
 
-            if (editingRule) {
-                await apiClient.put(`/rules/${editingRule.id}`, cleanData);
-            } else {
-                await apiClient.post('/rules', cleanData);
+    const handleSave = async (applyToHistory: boolean = false) => {
+        try {
+            const cleanData = buildRuleData();
+            if (!cleanData) return;
+
+            const res = editingRule
+                ? await apiClient.put(`/rules/${editingRule.id}`, cleanData)
+                : await apiClient.post('/rules', cleanData);
+
+            if (applyToHistory) {
+                const applyRes = await apiClient.post(`/rules/${res.data.id}/apply`, { overwrite: overwriteHistory });
+                alert(applyRes.data.message);
             }
             loadData();
             setIsDialogOpen(false);
             setEditingRule(null);
             resetForm();
-        } catch (err) {
+        } catch (err: any) {
             console.error("Failed to save", err);
+            if (err.response?.status === 400) alert(err.response.data.error);
         }
     };
 
@@ -121,19 +264,21 @@ const RulesPage = () => {
     };
 
     const handleRunRules = async () => {
-        setRunningRules(true);
         try {
-            const res = await apiClient.post('/classification/auto-classify', { onlyRules: true });
-            const stats = res.data;
-            alert(`${stats.message}\nRules Matches: ${stats.classified_rules}\nAI Matches: ${stats.classified_ai || 0}`);
+            const res = await apiClient.post<ClassificationJob>('/classification/auto-classify', { onlyRules: true });
+            setRulesJobId(res.data.id);
         } catch (err) {
             console.error(err);
             alert("Failed to run rules. See console.");
-        } finally {
-            setRunningRules(false);
         }
     };
 
+    const handleRulesJobFinished = (job: ClassificationJob) => {
+        setRulesJobId(null);
+        loadData();
+        alert(`Rules ${job.status}: ${describeJob(job)} out of ${job.processed} uncategorised transactions.`);
+    };
+
     const handleSuggestRules = async () => {
         setSuggestDialogOpen(true);
         setSuggestLoading(true);
@@ -187,8 +332,8 @@ const RulesPage = () => {
         setFormData({
             name: '',
             priority: 0,
-            conditions: [{ match_type: 'contains', match_value: '' }],
-            category_id: '',
+            conditions: { operator: 'or', conditions: [emptyCondition()] },
+            actions: [{ type: 'set_category', value: '' }],
             is_active: true
         });
     };
@@ -196,6 +341,7 @@ const RulesPage = () => {
     const openNewRule = () => {
         setEditingRule(null);
         resetForm();
+        setDryRun(null);
         setIsDialogOpen(true);
     };
 
@@ -204,31 +350,14 @@ const RulesPage = () => {
         setFormData({
             name: rule.name,
             priority: rule.priority,
-            conditions: rule.conditions.length > 0 ? rule.conditions : [{ match_type: 'contains', match_value: '' }],
-            category_id: rule.category_id,
+            conditions: toRootGroup(rule.conditions),
+            actions: rule.actions.length > 0 ? rule.actions : [{ type: 'set_category', value: '' }],
             is_active: rule.is_active
         });
+        setDryRun(null);
         setIsDialogOpen(true);
     };
 
-    const updateCondition = (index: number, field: keyof RuleCondition, value: string) => {
-        const newConditions = [...formData.conditions];
-        newConditions[index] = { ...newConditions[index], [field]: value };
-        setFormData({ ...formData, conditions: newConditions });
-    };
-
-    const addCondition = () => {
-        setFormData({
-            ...formData,
-            conditions: [...formData.conditions, { match_type: 'contains', match_value: '' }]
-        });
-    };
-
-    const removeCondition = (index: number) => {
-        const newConditions = formData.conditions.filter((_, i) => i !== index);
-        setFormData({ ...formData, conditions: newConditions });
-    };
-
     const removeSuggestionCondition = (ruleIndex: number, conditionIndex: number) => {
         const newRules = [...suggestedRules];
         const rule = { ...newRules[ruleIndex] };
@@ -264,9 +393,9 @@ const RulesPage = () => {
                     <Button onClick={handleSuggestRules} variant="outline" className="text-indigo-600 border-indigo-200 hover:bg-indigo-50">
                         <Zap className="mr-2 h-4 w-4" /> Suggest with AI
                     </Button>
-                    <Button onClick={handleRunRules} variant="secondary" disabled={runningRules}>
+                    <Button onClick={handleRunRules} variant="secondary" disabled={!!rulesJobId}>
                         <Play className="mr-2 h-4 w-4" />
-                        {runningRules ? 'Running...' : 'Run Rules Now'}
+                        {rulesJobId ? 'Running...' : 'Run Rules Now'}
                     </Button>
                     <Button onClick={openNewRule} className="bg-indigo-600 hover:bg-indigo-700">
                         <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
@@ -274,40 +403,125 @@ const RulesPage = () => {
                 </div>
             </div>
 
+            {rulesJobId && (
+                <ClassificationJobProgress jobId={rulesJobId} onFinished={handleRulesJobFinished} />
+            )}
+
+            {overrides.map(override => {
+                const rule = rules.find(r => r.id === override.id);
+                return (
+                    <Alert key={override.id} className="bg-amber-50 border-amber-200 text-amber-800">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription className="flex items-center justify-between gap-4">
+                            <span>
+                                You overrode <strong>{override.name}</strong> {override.override_count} times since it was last edited.
+                            </span>
+                            {rule && (
+                                <span className="flex gap-1 shrink-0">
+                                    <Button variant="ghost" size="sm" onClick={() => openEditRule(rule)}>
+                                        <Edit2 className="mr-1 h-4 w-4" /> Fix Rule
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)} className="hover:text-red-600">
+                                        <Trash2 className="mr-1 h-4 w-4" /> Delete
+                                    </Button>
+                                </span>
+                            )}
+                        </AlertDescription>
+                    </Alert>
+                );
+            })}
+
+            {learned.length > 0 && (
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm flex items-center gap-2">
+                            <GraduationCap className="h-4 w-4 text-indigo-600" />
+                            Learned from your corrections
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm divide-y divide-border">
+                        {learned.map(suggestion => (
+                            <div key={suggestion.id} className="flex items-center justify-between gap-4 py-2">
+                                <div>
+                                    <span className="font-medium">{suggestion.example_description || suggestion.payee}</span>
+                                    {' → '}
+                                    <Badge variant="secondary" className="font-normal text-xs">{suggestion.category_name}</Badge>
+                                    <span className="text-xs text-muted-foreground ml-2">
+                                        corrected {suggestion.correction_count} times
+                                    </span>
+                                </div>
+                                <div className="flex gap-1 shrink-0">
+                                    <Button variant="ghost" size="sm" onClick={() => handleLearnedSuggestion(suggestion, 'dismiss')}>
+                                        <X className="mr-1 h-4 w-4" /> Dismiss
+                                    </Button>
+                                    <Button size="sm" onClick={() => handleLearnedSuggestion(suggestion, 'accept')} className="bg-indigo-600 hover:bg-indigo-700">
+                                        <PlusCircle className="mr-1 h-4 w-4" /> Create Rule
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             <Card className="shadow-sm border-slate-200">
                 <CardContent className="p-0 text-sm">
                     <div className="overflow-auto">
                         <table className="w-full text-left">
                             <thead className="bg-muted/50 text-muted-foreground font-medium border-b">
                                 <tr>
-                                    <th className="p-4 w-20">Priority</th>
-                                    <th className="p-4">Rule Name</th>
+                                    {sortHeader('priority', 'Priority', 'w-20')}
+                                    {sortHeader('name', 'Rule Name')}
                                     <th className="p-4">Match Conditions</th>
-                                    <th className="p-4">Assigns Category</th>
+                                    <th className="p-4">Applies</th>
+                                    {sortHeader('last_matched_at', 'Last Match')}
+                                    {sortHeader('total_matches', 'Matches')}
+                                    {sortHeader('matches_90d', '90 Days')}
                                     <th className="p-4 w-24">Status</th>
                                     <th className="p-4 text-right">Actions</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-border">
-                                {rules.map(rule => (
+                                {sortedRules.map(rule => (
                                     <tr key={rule.id} className="hover:bg-muted/30 transition-colors">
                                         <td className="p-4 font-mono text-muted-foreground">{rule.priority}</td>
-                                        <td className="p-4 font-medium">{rule.name}</td>
+                                        <td className="p-4 font-medium">
+                                            {rule.name}
+                                            {coverage[rule.id]?.never_matched && (
+                                                <Badge variant="outline" className="ml-2 font-normal text-xs text-amber-700 border-amber-200 bg-amber-50">
+                                                    Never matched
+                                                </Badge>
+                                            )}
+                                            {coverage[rule.id]?.fully_shadowed && (
+                                                <Badge variant="outline" className="ml-2 font-normal text-xs text-red-700 border-red-200 bg-red-50">
+                                                    Shadowed by {coverage[rule.id].shadowed_by?.name}
+                                                </Badge>
+                                            )}
+                                        </td>
                                         <td className="p-4">
                                             <div className="flex flex-wrap gap-1">
                                                 {rule.conditions.map((c, i) => (
                                                     <Badge key={i} variant="secondary" className="font-normal text-xs">
-                                                        {c.match_type === 'exact' ? '=' : '~'} {c.match_value}
+                                                        {describeCondition(c, accounts)}
                                                     </Badge>
                                                 ))}
                                                 {rule.conditions.length === 0 && <span className="text-muted-foreground italic">No conditions</span>}
                                             </div>
                                         </td>
                                         <td className="p-4">
-                                            <span className="bg-slate-100 px-2 py-1 rounded-full text-xs font-medium border border-slate-200 shadow-sm">
-                                                {rule.category_name || rule.category_id}
-                                            </span>
+                                            <div className="flex flex-wrap gap-1">
+                                                {rule.actions.map((a, i) => (
+                                                    <span key={i} className="bg-slate-100 px-2 py-1 rounded-full text-xs font-medium border border-slate-200 shadow-sm">
+                                                        {describeAction(a, categories, accounts)}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </td>
+                                        <td className="p-4 whitespace-nowrap text-muted-foreground">
+                                            {rule.last_matched_at ? format(new Date(rule.last_matched_at), 'dd MMM yyyy') : 'Never'}
                                         </td>
+                                        <td className="p-4 font-mono">{rule.total_matches}</td>
+                                        <td className="p-4 font-mono text-muted-foreground">{rule.matches_90d}</td>
                                         <td className="p-4">
                                             {rule.is_active ?
                                                 <span className="text-emerald-600 flex items-center gap-1 text-xs font-medium"><CheckCircle2 className="h-3 w-3" /> Active</span> :
@@ -322,7 +536,7 @@ const RulesPage = () => {
                                 ))}
                                 {rules.length === 0 && !loading && (
                                     <tr>
-                                        <td colSpan={6} className="p-12 text-center text-muted-foreground">
+                                        <td colSpan={9} className="p-12 text-center text-muted-foreground">
                                             <div className="flex flex-col items-center gap-2">
                                                 <Zap className="h-8 w-8 text-slate-300" />
                                                 <p>No rules found. Create a rule to automate your categorization.</p>
@@ -338,10 +552,10 @@ const RulesPage = () => {
 
             {/* Rule Editor Dialog */}
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-3xl">
                     <DialogHeader>
                         <DialogTitle>{editingRule ? 'Edit Rule' : 'New Rule'}</DialogTitle>
-                        <DialogDescription>Define a group of conditions that map to a category.</DialogDescription>
+                        <DialogDescription>Define the conditions a transaction must meet and what to do with it.</DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 py-4">
                         <div className="grid grid-cols-2 gap-4">
@@ -354,62 +568,58 @@ const RulesPage = () => {
                                 />
                             </div>
                             <div className="space-y-2">
-                                <Label>Assign Category</Label>
-                                <CategorySelector
-                                    categories={categories}
-                                    value={formData.category_id}
-                                    onChange={(val) => setFormData({ ...formData, category_id: val })}
-                                    className="w-full"
-                                />
+                                <Label>Priority (Lower runs first)</Label>
+                                <Input type="number" value={formData.priority} onChange={e => setFormData({ ...formData, priority: parseInt(e.target.value) })} />
                             </div>
                         </div>
 
                         <div className="space-y-2">
-                            <div className="flex justify-between items-center">
-                                <Label>Match Conditions (Any)</Label>
-                                <Button size="sm" variant="ghost" onClick={addCondition} className="h-6 text-xs">
-                                    <Plus className="h-3 w-3 mr-1" /> Add Condition
-                                </Button>
-                            </div>
-                            <div className="space-y-2 max-h-[300px] overflow-y-auto border rounded-md p-2 bg-slate-50">
-                                {formData.conditions.map((condition, index) => (
-                                    <div key={index} className="flex gap-2 items-center">
-                                        <Select
-                                            value={condition.match_type}
-                                            onValueChange={v => updateCondition(index, 'match_type', v)}
-                                        >
-                                            <SelectTrigger className="w-[130px]"><SelectValue /></SelectTrigger>
-                                            <SelectContent>
-                                                <SelectItem value="contains">Contains</SelectItem>
-                                                <SelectItem value="exact">Exact</SelectItem>
-                                                <SelectItem value="starts_with">Starts With</SelectItem>
-                                                <SelectItem value="regex">Regex</SelectItem>
-                                            </SelectContent>
-                                        </Select>
-                                        <Input
-                                            value={condition.match_value}
-                                            onChange={e => updateCondition(index, 'match_value', e.target.value)}
-                                            placeholder="Match text..."
-                                            className="flex-1"
-                                        />
-                                        <Button variant="ghost" size="sm" onClick={() => removeCondition(index)} className="h-8 w-8 p-0 text-red-500 hover:text-red-700">
-                                            <X className="h-4 w-4" />
-                                        </Button>
-                                    </div>
-                                ))}
+                            <Label>Match Conditions</Label>
+                            <div className="max-h-[360px] overflow-y-auto border rounded-md p-2 bg-slate-50">
+                                <RuleConditionBuilder
+                                    group={formData.conditions}
+                                    accounts={accounts}
+                                    onChange={(conditions) => setFormData({ ...formData, conditions })}
+                                />
                             </div>
                         </div>
 
-                        <div className="grid grid-cols-2 gap-4">
-                            <div className="space-y-2">
-                                <Label>Priority (Lower runs first)</Label>
-                                <Input type="number" value={formData.priority} onChange={e => setFormData({ ...formData, priority: parseInt(e.target.value) })} />
+                        <div className="space-y-2">
+                            <Label>Actions</Label>
+                            <div className="border rounded-md p-2 bg-slate-50">
+                                <RuleActionEditor
+                                    actions={formData.actions}
+                                    categories={categories}
+                                    accounts={accounts}
+                                    onChange={(actions) => setFormData({ ...formData, actions })}
+                                />
                             </div>
                         </div>
+
+                        {dryRun && (
+                            <RuleDryRunResults
+                                result={dryRun}
+                                overwrite={overwriteHistory}
+                                onOverwriteChange={setOverwriteHistory}
+                            />
+                        )}
                     </div>
                     <DialogFooter>
+                        <Button variant="ghost" onClick={handlePreview} disabled={dryRunning} className="mr-auto">
+                            <Eye className="mr-2 h-4 w-4" />
+                            {dryRunning ? 'Checking...' : 'Preview Matches'}
+                        </Button>
                         <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
-                        <Button onClick={handleSave} disabled={!formData.name || !formData.category_id} className="bg-indigo-600 hover:bg-indigo-700">Save Rule</Button>
+                        {dryRun && dryRun.total_matches > 0 && (
+                            <Button
+                                variant="secondary"
+                                onClick={() => handleSave(true)}
+                                disabled={!formData.name || !hasEffect(formData.actions)}
+                            >
+                                Save &amp; Apply to History
+                            </Button>
+                        )}
+                        <Button onClick={() => handleSave()} disabled={!formData.name || !hasEffect(formData.actions)} className="bg-indigo-600 hover:bg-indigo-700">Save Rule</Button>
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
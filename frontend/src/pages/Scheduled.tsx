@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import apiClient from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock, Pencil, Plus, Send, SkipForward, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Payee } from '@/components/payee-dialog';
+import {
+    ScheduledTransaction,
+    ScheduledTransactionDialog,
+    describeFrequency,
+} from '@/components/scheduled-transaction-dialog';
+import { Account } from '@/pages/Accounts';
+import { Category } from '@/pages/Categories';
+
+// Mirrors ProjectedTransaction in backend/src/services/scheduledTransactionService.ts
+interface ProjectedTransaction {
+    scheduled_transaction_id: string;
+    account_id: string;
+    category: string | null;
+    description: string;
+    amount: string;
+    date: string;
+    overdue: boolean;
+}
+
+const formatCurrency = (amount: string | number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(Number(amount));
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+
+const ScheduledPage = () => {
+    const [schedules, setSchedules] = useState<ScheduledTransaction[]>([]);
+    const [upcoming, setUpcoming] = useState<ProjectedTransaction[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [payees, setPayees] = useState<Payee[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState<ScheduledTransaction | null>(null);
+    const [dialogOpen, setDialogOpen] = useState(false);
+
+    useEffect(() => {
+        loadSchedules();
+        Promise.all([
+            apiClient.get<Account[]>('/accounts'),
+            apiClient.get<Category[]>('/categories'),
+            apiClient.get<Payee[]>('/payees'),
+        ])
+            .then(([accountsRes, categoriesRes, payeesRes]) => {
+                setAccounts(accountsRes.data);
+                setCategories(Array.isArray(categoriesRes.data) ? categoriesRes.data : []);
+                setPayees(payeesRes.data);
+            })
+            .catch(err => console.error("Failed to load accounts, categories and payees", err));
+    }, []);
+
+    const loadSchedules = async () => {
+        setLoading(true);
+        try {
+            const [schedulesRes, upcomingRes] = await Promise.all([
+                apiClient.get<ScheduledTransaction[]>('/scheduled'),
+                apiClient.get<ProjectedTransaction[]>('/scheduled/projected', { params: { days: 30 } }),
+            ]);
+            setSchedules(schedulesRes.data);
+            setUpcoming(upcomingRes.data);
+        } catch (err) {
+            console.error("Failed to load scheduled transactions", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handlePost = async (schedule: ScheduledTransaction) => {
+        if (!confirm(`Add a pending transaction for ${schedule.description} on ${formatDate(schedule.next_due_date!)}?`)) return;
+        try {
+            await apiClient.post(`/scheduled/${schedule.id}/post`, {});
+            loadSchedules();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to post scheduled transaction.");
+        }
+    };
+
+    const handleSkip = async (schedule: ScheduledTransaction) => {
+        if (!confirm(`Skip ${schedule.description} due ${formatDate(schedule.next_due_date!)}?`)) return;
+        try {
+            await apiClient.post(`/scheduled/${schedule.id}/skip`, {});
+            loadSchedules();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to skip scheduled transaction.");
+        }
+    };
+
+    const handleToggleActive = async (schedule: ScheduledTransaction) => {
+        try {
+            await apiClient.patch(`/scheduled/${schedule.id}`, { is_active: !schedule.is_active });
+            loadSchedules();
+        } catch (err) {
+            console.error(err);
+            alert("Failed to update scheduled transaction.");
+        }
+    };
+
+    const handleDelete = async (schedule: ScheduledTransaction) => {
+        if (!confirm(`Delete the schedule for ${schedule.description}? Transactions already posted from it are kept.`)) return;
+        try {
+            await apiClient.delete(`/scheduled/${schedule.id}`);
+            setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+            setUpcoming(prev => prev.filter(p => p.scheduled_transaction_id !== schedule.id));
+        } catch (err) {
+            console.error(err);
+            alert("Failed to delete scheduled transaction.");
+        }
+    };
+
+    const openDialog = (schedule: ScheduledTransaction | null) => {
+        setEditing(schedule);
+        setDialogOpen(true);
+    };
+
+    const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+    const upcomingIn = upcoming.filter(p => Number(p.amount) > 0).reduce((sum, p) => sum + Number(p.amount), 0);
+    const upcomingOut = upcoming.filter(p => Number(p.amount) < 0).reduce((sum, p) => sum + Number(p.amount), 0);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Scheduled</h1>
+                    <p className="text-muted-foreground">Rent, salary, premiums and repayments you know are coming.</p>
+                </div>
+                <Button onClick={() => openDialog(null)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Schedule
+                </Button>
+            </div>
+
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="p-0 text-sm">
+                    <div className="overflow-auto">
+                        <table className="w-full text-left">
+                            <thead className="bg-muted/50 text-muted-foreground font-medium border-b">
+                                <tr>
+                                    <th className="p-4">Description</th>
+                                    <th className="p-4">Account</th>
+                                    <th className="p-4 text-right">Amount</th>
+                                    <th className="p-4">Repeats</th>
+                                    <th className="p-4">Next Due</th>
+                                    <th className="p-4">Category</th>
+                                    <th className="p-4 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {schedules.map(schedule => (
+                                    <tr key={schedule.id} className={cn("hover:bg-muted/30 transition-colors", !schedule.is_active && "opacity-50")}>
+                                        <td className="p-4">
+                                            <div className="font-medium">{schedule.description}</div>
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                {schedule.payee && (
+                                                    <span className="text-xs text-muted-foreground">{schedule.payee}</span>
+                                                )}
+                                                {schedule.auto_post && (
+                                                    <Badge variant="secondary" className="font-normal text-xs">Auto-post</Badge>
+                                                )}
+                                                {!schedule.is_active && (
+                                                    <Badge variant="outline" className="font-normal text-xs">Paused</Badge>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="p-4">{schedule.account}</td>
+                                        <td className={cn("p-4 text-right font-mono", Number(schedule.amount) >= 0 ? "text-green-600" : "text-red-600")}>
+                                            {formatCurrency(schedule.amount)}
+                                        </td>
+                                        <td className="p-4">
+                                            {describeFrequency(schedule)}
+                                            {schedule.end_date && (
+                                                <div className="text-xs text-muted-foreground">until {formatDate(schedule.end_date)}</div>
+                                            )}
+                                        </td>
+                                        <td className="p-4 whitespace-nowrap">
+                                            {schedule.next_due_date ? formatDate(schedule.next_due_date) : <span className="text-muted-foreground">Finished</span>}
+                                        </td>
+                                        <td className="p-4">{schedule.category || <span className="text-muted-foreground">—</span>}</td>
+                                        <td className="p-4 text-right whitespace-nowrap">
+                                            {schedule.next_due_date && schedule.is_active && (
+                                                <>
+                                                    <Button variant="ghost" size="sm" title="Post the next occurrence now" onClick={() => handlePost(schedule)}>
+                                                        <Send className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button variant="ghost" size="sm" title="Skip the next occurrence" onClick={() => handleSkip(schedule)}>
+                                                        <SkipForward className="h-4 w-4" />
+                                                    </Button>
+                                                </>
+                                            )}
+                                            <Button variant="ghost" size="sm" onClick={() => handleToggleActive(schedule)}>
+                                                {schedule.is_active ? 'Pause' : 'Resume'}
+                                            </Button>
+                                            <Button variant="ghost" size="sm" onClick={() => openDialog(schedule)}>
+                                                <Pencil className="mr-1 h-4 w-4" /> Edit
+                                            </Button>
+                                            <Button variant="ghost" size="sm" className="hover:text-red-600" onClick={() => handleDelete(schedule)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {schedules.length === 0 && !loading && (
+                                    <tr>
+                                        <td colSpan={7} className="p-12 text-center text-muted-foreground">
+                                            <div className="flex flex-col items-center gap-2">
+                                                <CalendarClock className="h-8 w-8 text-slate-300" />
+                                                <p>No scheduled transactions yet. Add the bills and income you know are coming to see them in your registers and forecast.</p>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {upcoming.length > 0 && (
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm flex items-center justify-between">
+                            <span>Next 30 Days</span>
+                            <span className="font-normal text-muted-foreground">
+                                <span className="text-green-600">{formatCurrency(upcomingIn)}</span> in,{' '}
+                                <span className="text-red-600">{formatCurrency(Math.abs(upcomingOut))}</span> out
+                            </span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0 text-sm">
+                        <div className="divide-y divide-border">
+                            {upcoming.map(p => (
+                                <div key={`${p.scheduled_transaction_id}:${p.date}`} className="flex items-center justify-between px-4 py-3">
+                                    <div>
+                                        <div className="font-medium">{p.description}</div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {accountNames.get(p.account_id)}{p.category ? ` · ${p.category}` : ''}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-4">
+                                        <span className={cn("whitespace-nowrap", p.overdue && "text-red-600")}>
+                                            {formatDate(p.date)}{p.overdue ? ' (overdue)' : ''}
+                                        </span>
+                                        <span className={cn("w-28 text-right font-mono", Number(p.amount) >= 0 ? "text-green-600" : "text-red-600")}>
+                                            {formatCurrency(p.amount)}
+                                        </span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <ScheduledTransactionDialog
+                open={dialogOpen}
+                onClose={() => setDialogOpen(false)}
+                schedule={editing}
+                accounts={accounts}
+                categories={categories}
+                payees={payees}
+                onSaved={loadSchedules}
+            />
+        </div>
+    );
+};
+
+export default ScheduledPage;
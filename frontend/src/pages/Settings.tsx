@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Key,
     Clock,
@@ -22,10 +23,16 @@ import {
     Monitor,
     Brain,
     Sparkles,
+    GraduationCap,
+    EyeOff,
+    DollarSign,
+    TrendingUp,
 } from "lucide-react";
 import { format } from "date-fns";
 import { useTheme } from "../contexts/ThemeContext";
 import { cn } from "@/lib/utils";
+import { LlmAuditLog } from "@/components/llm-audit-log";
+import { LlmUsage } from "@/components/llm-usage";
 
 interface APIKey {
     id: string;
@@ -39,9 +46,29 @@ interface Integration {
     id: string;
     provider: string;
     model: string;
+    base_url: string | null;
     is_active: boolean;
 }
 
+// Mirrors GET /api/integrations/llm/providers
+interface LlmProviderInfo {
+    id: string;
+    label: string;
+    default_base_url: string;
+    default_model: string;
+    requires_api_key: boolean;
+    self_hosted: boolean;
+    capabilities: { jsonMode: boolean; maxOutputTokens: number };
+}
+
+interface LlmTestResult {
+    ok: boolean;
+    json?: boolean;
+    latency_ms: number;
+    reply?: string;
+    error?: string;
+}
+
 const SettingsPage: React.FC = () => {
     const { user, refreshUser } = useAuth();
     const { theme, setTheme } = useTheme();
@@ -56,13 +83,40 @@ const SettingsPage: React.FC = () => {
     const [integrations, setIntegrations] = useState<Integration[]>([]);
     const [llmProvider, setLlmProvider] = useState("openai");
     const [llmKey, setLlmKey] = useState("");
-    const [llmModel, setLlmModel] = useState("gpt-4o");
+    const [llmModel, setLlmModel] = useState("");
+    const [llmBaseUrl, setLlmBaseUrl] = useState("");
+    const [llmProviders, setLlmProviders] = useState<LlmProviderInfo[]>([]);
+    const [llmTestResult, setLlmTestResult] = useState<LlmTestResult | null>(null);
+    const [testingLlm, setTestingLlm] = useState(false);
+    const [autoClassifyLlm, setAutoClassifyLlm] = useState(false);
+    const [learningThreshold, setLearningThreshold] = useState<number>(3);
+    const [learningAutoCreate, setLearningAutoCreate] = useState(false);
+    const [localClassifierEnabled, setLocalClassifierEnabled] = useState(true);
+    const [localClassifierThreshold, setLocalClassifierThreshold] = useState<number>(80);
+    const [reviewThreshold, setReviewThreshold] = useState<number>(70);
+    const [redactNumbers, setRedactNumbers] = useState(true);
+    const [redactNames, setRedactNames] = useState(true);
+    const [redactTerms, setRedactTerms] = useState("");
+    const [amountMode, setAmountMode] = useState<"exact" | "rounded" | "omit">("exact");
+    // Empty means only warn when an account is forecast to go below zero
+    const [forecastThreshold, setForecastThreshold] = useState("");
 
     const fetchSettings = async () => {
         try {
             const res = await apiClient.get("/settings");
             setApiKeys(res.data.apiKeys);
             setTimeoutMinutes(res.data.user.session_timeout_minutes);
+            setAutoClassifyLlm(!!res.data.user.auto_classify_llm);
+            setLearningThreshold(res.data.user.rule_learning_threshold ?? 3);
+            setLearningAutoCreate(!!res.data.user.rule_learning_auto_create);
+            setLocalClassifierEnabled(res.data.user.local_classifier_enabled ?? true);
+            setLocalClassifierThreshold(Math.round(parseFloat(res.data.user.local_classifier_threshold ?? "0.8") * 100));
+            setReviewThreshold(Math.round(parseFloat(res.data.user.classification_review_threshold ?? "0.7") * 100));
+            setRedactNumbers(res.data.user.llm_redact_numbers ?? true);
+            setRedactNames(res.data.user.llm_redact_names ?? true);
+            setRedactTerms((res.data.user.llm_redact_terms || []).join(", "));
+            setAmountMode(res.data.user.llm_amount_mode || "exact");
+            setForecastThreshold(res.data.user.forecast_low_balance_threshold ?? "");
         } catch (err) {
             console.error("Failed to fetch settings", err);
         }
@@ -70,13 +124,50 @@ const SettingsPage: React.FC = () => {
 
     const fetchIntegrations = async () => {
         try {
-            const res = await apiClient.get("/integrations/llm");
+            const [res, providersRes] = await Promise.all([
+                apiClient.get("/integrations/llm"),
+                apiClient.get<LlmProviderInfo[]>("/integrations/llm/providers"),
+            ]);
             setIntegrations(res.data);
+            setLlmProviders(providersRes.data);
         } catch (err) {
             console.error("Failed to fetch integrations", err);
         }
     };
 
+    const selectedLlmProvider = llmProviders.find((p) => p.id === llmProvider);
+    const providerLabel = (id: string) => llmProviders.find((p) => p.id === id)?.label || id;
+
+    const changeLlmProvider = (id: string) => {
+        setLlmProvider(id);
+        setLlmTestResult(null);
+        // Prefill what's already saved for this provider
+        const existing = integrations.find((i) => i.provider === id);
+        setLlmModel(existing?.model || "");
+        setLlmBaseUrl(existing?.base_url || "");
+    };
+
+    const llmFormPayload = () => ({
+        provider: llmProvider,
+        apiKey: llmKey,
+        model: llmModel,
+        baseUrl: selectedLlmProvider?.self_hosted ? llmBaseUrl : "",
+    });
+
+    const testIntegration = async () => {
+        setTestingLlm(true);
+        setLlmTestResult(null);
+        try {
+            const res = await apiClient.post<LlmTestResult>("/integrations/llm/test", llmFormPayload());
+            setLlmTestResult(res.data);
+        } catch (err: any) {
+            console.error(err);
+            setLlmTestResult({ ok: false, latency_ms: 0, error: err.response?.data?.error || "Test failed" });
+        } finally {
+            setTestingLlm(false);
+        }
+    };
+
     useEffect(() => {
         fetchSettings();
         fetchIntegrations();
@@ -127,14 +218,9 @@ const SettingsPage: React.FC = () => {
     };
 
     const saveIntegration = async () => {
-        if (!llmKey && !llmModel) return;
         setLoading(true);
         try {
-            await apiClient.post("/integrations/llm", {
-                provider: llmProvider,
-                apiKey: llmKey,
-                model: llmModel
-            });
+            await apiClient.post("/integrations/llm", llmFormPayload());
             setSuccessMsg("Integration saved successfully");
             setLlmKey(""); // Clear key for security
             fetchIntegrations();
@@ -146,6 +232,99 @@ const SettingsPage: React.FC = () => {
         }
     };
 
+    const updateAutoClassify = async (enabled: boolean) => {
+        setAutoClassifyLlm(enabled);
+        try {
+            await apiClient.post("/settings/auto-classify", { enabled });
+            setSuccessMsg("Auto-classification preference updated");
+            setTimeout(() => setSuccessMsg(""), 3000);
+        } catch (err) {
+            console.error(err);
+            setAutoClassifyLlm(!enabled);
+        }
+    };
+
+    const updateRuleLearning = async () => {
+        setLoading(true);
+        try {
+            await apiClient.post("/settings/rule-learning", {
+                threshold: learningThreshold,
+                autoCreate: learningAutoCreate,
+            });
+            setSuccessMsg("Rule learning preferences updated");
+            setTimeout(() => setSuccessMsg(""), 3000);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const updateLocalClassifier = async (enabled: boolean = localClassifierEnabled) => {
+        setLocalClassifierEnabled(enabled);
+        setLoading(true);
+        try {
+            await apiClient.post("/settings/local-classifier", {
+                enabled,
+                threshold: localClassifierThreshold / 100,
+            });
+            setSuccessMsg("Local classifier preferences updated");
+            setTimeout(() => setSuccessMsg(""), 3000);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const updateReviewThreshold = async () => {
+        setLoading(true);
+        try {
+            await apiClient.post("/settings/classification-review", {
+                threshold: reviewThreshold / 100,
+            });
+            setSuccessMsg("Review threshold updated");
+            setTimeout(() => setSuccessMsg(""), 3000);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const updateForecastThreshold = async () => {
+        setLoading(true);
+        try {
+            await apiClient.post("/settings/forecast-threshold", {
+                threshold: forecastThreshold === "" ? null : parseFloat(forecastThreshold),
+            });
+            setSuccessMsg("Forecast threshold updated");
+            setTimeout(() => setSuccessMsg(""), 3000);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const updateLlmPrivacy = async () => {
+        setLoading(true);
+        try {
+            await apiClient.post("/settings/llm-privacy", {
+                redactNumbers,
+                redactNames,
+                redactTerms: redactTerms.split(",").map((t) => t.trim()).filter(Boolean),
+                amountMode,
+            });
+            setSuccessMsg("AI privacy preferences updated");
+            setTimeout(() => setSuccessMsg(""), 3000);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const deleteIntegration = async (provider: string) => {
         if (!confirm("Are you sure you want to remove this integration?")) return;
         try {
@@ -302,6 +481,91 @@ const SettingsPage: React.FC = () => {
                 </CardContent>
             </Card>
 
+            {/* Cash-flow Forecast */}
+            <Card className="shadow-md border-slate-200">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <TrendingUp className="h-5 w-5 text-indigo-600" />
+                        Cash-flow Forecast
+                    </CardTitle>
+                    <CardDescription>
+                        The forecast on the Reports page warns when an account is projected to drop below zero, or below this balance.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex flex-col md:flex-row md:items-end gap-4 max-w-md">
+                        <div className="flex-1 space-y-2">
+                            <Label htmlFor="forecast_threshold">Low balance warning</Label>
+                            <Input
+                                id="forecast_threshold"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                value={forecastThreshold}
+                                onChange={(e) => setForecastThreshold(e.target.value)}
+                                className="h-11"
+                            />
+                        </div>
+                        <Button
+                            onClick={updateForecastThreshold}
+                            className="h-11 bg-slate-900 hover:bg-slate-800 dark:bg-slate-100 dark:hover:bg-slate-200 dark:text-slate-900"
+                            disabled={loading || (forecastThreshold !== "" && isNaN(parseFloat(forecastThreshold)))}
+                        >
+                            Update
+                        </Button>
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-2">
+                        Leave empty to only warn below zero. Credit cards and loans are not checked.
+                    </p>
+                </CardContent>
+            </Card>
+
+            {/* Rule Learning */}
+            <Card className="shadow-md border-slate-200">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <GraduationCap className="h-5 w-5 text-indigo-600" />
+                        Rule Learning
+                    </CardTitle>
+                    <CardDescription>
+                        When you keep moving the same payee to the same category, a rule is proposed on the Rules page.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-col md:flex-row md:items-end gap-4 max-w-md">
+                        <div className="flex-1 space-y-2">
+                            <Label htmlFor="learning_threshold">Corrections before proposing a rule</Label>
+                            <Input
+                                id="learning_threshold"
+                                type="number"
+                                value={learningThreshold}
+                                onChange={(e) => setLearningThreshold(parseInt(e.target.value))}
+                                min={2}
+                                max={20}
+                                className="h-11"
+                            />
+                        </div>
+                        <Button
+                            onClick={updateRuleLearning}
+                            className="h-11 bg-slate-900 hover:bg-slate-800 dark:bg-slate-100 dark:hover:bg-slate-200 dark:text-slate-900"
+                            disabled={loading || !(learningThreshold >= 2)}
+                        >
+                            Update
+                        </Button>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <Checkbox
+                            id="learning_auto_create"
+                            checked={learningAutoCreate}
+                            onCheckedChange={(v) => setLearningAutoCreate(!!v)}
+                        />
+                        <Label htmlFor="learning_auto_create" className="font-normal">
+                            Create the rule automatically instead of asking
+                        </Label>
+                    </div>
+                </CardContent>
+            </Card>
+
             {/* AI Integrations */}
             <Card className="shadow-md border-slate-200">
                 <CardHeader>
@@ -322,18 +586,21 @@ const SettingsPage: React.FC = () => {
                                 id="provider"
                                 className="h-11 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                                 value={llmProvider}
-                                onChange={(e) => setLlmProvider(e.target.value)}
+                                onChange={(e) => changeLlmProvider(e.target.value)}
                             >
-                                <option value="openai">OpenAI (ChatGPT)</option>
-                                <option value="gemini">Google Gemini</option>
+                                {llmProviders.map((provider) => (
+                                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                ))}
                             </select>
                         </div>
                         <div className="space-y-2">
-                            <Label htmlFor="api_key">API Key</Label>
+                            <Label htmlFor="api_key">
+                                API Key{selectedLlmProvider && !selectedLlmProvider.requires_api_key ? " (Optional)" : ""}
+                            </Label>
                             <Input
                                 id="api_key"
                                 type="password"
-                                placeholder="sk-..."
+                                placeholder={selectedLlmProvider?.self_hosted ? "Only if your server needs one" : "sk-..."}
                                 value={llmKey}
                                 onChange={(e) => setLlmKey(e.target.value)}
                                 className="h-11"
@@ -343,24 +610,138 @@ const SettingsPage: React.FC = () => {
                             <Label htmlFor="model">Model ID (Optional)</Label>
                             <Input
                                 id="model"
-                                placeholder="gpt-4o"
+                                placeholder={selectedLlmProvider?.default_model || "gpt-4o"}
                                 value={llmModel}
                                 onChange={(e) => setLlmModel(e.target.value)}
                                 className="h-11"
                             />
                         </div>
+                        {selectedLlmProvider?.self_hosted && (
+                            <div className="space-y-2 md:col-span-3">
+                                <Label htmlFor="base_url">Server URL</Label>
+                                <Input
+                                    id="base_url"
+                                    placeholder={selectedLlmProvider.default_base_url}
+                                    value={llmBaseUrl}
+                                    onChange={(e) => setLlmBaseUrl(e.target.value)}
+                                    className="h-11"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    The OpenAI-compatible API root, as reachable from the VoseKnows backend
+                                    (e.g. http://host.docker.internal:11434/v1 when running in Docker).
+                                </p>
+                            </div>
+                        )}
                     </div>
-                    <div className="flex justify-end">
+                    {selectedLlmProvider && (
+                        <p className="text-xs text-muted-foreground">
+                            {selectedLlmProvider.capabilities.jsonMode ? "Native JSON mode" : "JSON requested via the prompt"}
+                            {" · "}up to {selectedLlmProvider.capabilities.maxOutputTokens.toLocaleString()} output tokens per request
+                        </p>
+                    )}
+                    {llmTestResult && (
+                        <div className={`rounded-md p-3 text-sm ${llmTestResult.ok ? "bg-emerald-50 text-emerald-800" : "bg-red-50 text-red-700"}`}>
+                            {llmTestResult.ok
+                                ? `Connected in ${llmTestResult.latency_ms} ms${llmTestResult.json ? "" : ", but the reply wasn't valid JSON"}.`
+                                : `Connection failed: ${llmTestResult.error}`}
+                        </div>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <Button
+                            variant="outline"
+                            onClick={testIntegration}
+                            disabled={testingLlm || (!!selectedLlmProvider?.requires_api_key && !llmKey && !integrations.some((i) => i.provider === llmProvider))}
+                        >
+                            {testingLlm ? "Testing..." : "Test Connection"}
+                        </Button>
                         <Button
                             onClick={saveIntegration}
                             className="bg-indigo-600 hover:bg-indigo-700"
-                            disabled={!llmKey || loading}
+                            disabled={(!!selectedLlmProvider?.requires_api_key && !llmKey) || loading}
                         >
                             <Sparkles className="mr-2 h-4 w-4" />
                             Save Integration
                         </Button>
                     </div>
 
+                    <div className="flex items-start gap-3 rounded-lg border border-border p-4">
+                        <Checkbox
+                            id="auto_classify_llm"
+                            checked={autoClassifyLlm}
+                            onCheckedChange={(v) => updateAutoClassify(!!v)}
+                            className="mt-0.5"
+                        />
+                        <div className="space-y-1">
+                            <Label htmlFor="auto_classify_llm">Classify new transactions with AI</Label>
+                            <p className="text-xs text-muted-foreground">
+                                Rules are applied to every new transaction automatically. When enabled, anything
+                                no rule matches is also sent to your active AI integration in the background.
+                            </p>
+                            <div className="flex items-end gap-3 max-w-xs pt-2">
+                                <div className="flex-1 space-y-1">
+                                    <Label htmlFor="review_threshold" className="text-xs">Review AI choices below (% confidence)</Label>
+                                    <Input
+                                        id="review_threshold"
+                                        type="number"
+                                        value={reviewThreshold}
+                                        onChange={(e) => setReviewThreshold(parseInt(e.target.value))}
+                                        min={0}
+                                        max={100}
+                                    />
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    onClick={updateReviewThreshold}
+                                    disabled={loading || !(reviewThreshold >= 0 && reviewThreshold <= 100)}
+                                >
+                                    Update
+                                </Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Less confident choices are held as suggestions. Filter Transactions by "Needs review" to accept or change them.
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="flex items-start gap-3 rounded-lg border border-border p-4">
+                        <Checkbox
+                            id="local_classifier_enabled"
+                            checked={localClassifierEnabled}
+                            onCheckedChange={(v) => updateLocalClassifier(!!v)}
+                            className="mt-0.5"
+                        />
+                        <div className="flex-1 space-y-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="local_classifier_enabled">Learn from my categorised transactions</Label>
+                                <p className="text-xs text-muted-foreground">
+                                    A model trained on your own history runs on this server after rules and before AI.
+                                    Nothing is sent anywhere. Transactions it is less sure about are left for AI.
+                                </p>
+                            </div>
+                            <div className="flex items-end gap-3 max-w-xs">
+                                <div className="flex-1 space-y-1">
+                                    <Label htmlFor="local_classifier_threshold" className="text-xs">Minimum confidence (%)</Label>
+                                    <Input
+                                        id="local_classifier_threshold"
+                                        type="number"
+                                        value={localClassifierThreshold}
+                                        onChange={(e) => setLocalClassifierThreshold(parseInt(e.target.value))}
+                                        min={50}
+                                        max={99}
+                                        disabled={!localClassifierEnabled}
+                                    />
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    onClick={() => updateLocalClassifier()}
+                                    disabled={loading || !localClassifierEnabled || !(localClassifierThreshold >= 50 && localClassifierThreshold <= 99)}
+                                >
+                                    Update
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+
                     {/* List Configured Integrations */}
                     <div className="rounded-lg border border-border overflow-hidden">
                         <table className="w-full text-sm">
@@ -382,7 +763,12 @@ const SettingsPage: React.FC = () => {
                                 ) : (
                                     integrations.map((integ) => (
                                         <tr key={integ.id} className="hover:bg-muted/50 transition-colors">
-                                            <td className="py-3 px-4 font-medium capitalize">{integ.provider}</td>
+                                            <td className="py-3 px-4 font-medium">
+                                                {providerLabel(integ.provider)}
+                                                {integ.base_url && (
+                                                    <span className="block text-xs font-normal text-muted-foreground">{integ.base_url}</span>
+                                                )}
+                                            </td>
                                             <td className="py-3 px-4 text-muted-foreground">{integ.model || 'Default'}</td>
                                             <td className="py-3 px-4">
                                                 <span className="bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full text-xs font-medium flex items-center w-fit gap-1">
@@ -408,6 +794,100 @@ const SettingsPage: React.FC = () => {
                 </CardContent>
             </Card>
 
+            {/* AI Privacy */}
+            <Card className="shadow-md border-slate-200">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <EyeOff className="h-5 w-5 text-indigo-600" />
+                        AI Privacy
+                    </CardTitle>
+                    <CardDescription>
+                        Control what leaves this server when transactions are sent to an AI provider.
+                        Internal IDs are always replaced with short aliases, and dates are never sent.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="space-y-4">
+                        <div className="flex items-start gap-3">
+                            <Checkbox
+                                id="redact_numbers"
+                                checked={redactNumbers}
+                                onCheckedChange={(v) => setRedactNumbers(!!v)}
+                                className="mt-0.5"
+                            />
+                            <div className="space-y-1">
+                                <Label htmlFor="redact_numbers">Mask card, account and reference numbers</Label>
+                                <p className="text-xs text-muted-foreground">
+                                    e.g. "CARD XXXX-1234 REF 84A920" is sent as "CARD [CARD] REF [REF]".
+                                </p>
+                            </div>
+                        </div>
+                        <div className="flex items-start gap-3">
+                            <Checkbox
+                                id="redact_names"
+                                checked={redactNames}
+                                onCheckedChange={(v) => setRedactNames(!!v)}
+                                className="mt-0.5"
+                            />
+                            <div className="flex-1 space-y-3">
+                                <div className="space-y-1">
+                                    <Label htmlFor="redact_names">Mask personal names</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        Who a transfer was to or from, titled names like "Mr Smith", and any names listed below.
+                                    </p>
+                                </div>
+                                <div className="space-y-1">
+                                    <Label htmlFor="redact_terms" className="text-xs">Other names to mask (comma separated)</Label>
+                                    <Input
+                                        id="redact_terms"
+                                        placeholder="e.g. your surname, family members"
+                                        value={redactTerms}
+                                        onChange={(e) => setRedactTerms(e.target.value)}
+                                        disabled={!redactNames}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                        <div className="space-y-2 max-w-xs">
+                            <Label htmlFor="amount_mode">Amounts</Label>
+                            <select
+                                id="amount_mode"
+                                className="h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                                value={amountMode}
+                                onChange={(e) => setAmountMode(e.target.value as "exact" | "rounded" | "omit")}
+                            >
+                                <option value="exact">Send exact amounts</option>
+                                <option value="rounded">Round amounts (-47.30 becomes ~-50)</option>
+                                <option value="omit">Don't send amounts (only debit or credit)</option>
+                            </select>
+                        </div>
+                        <div className="flex justify-end">
+                            <Button onClick={updateLlmPrivacy} disabled={loading}>
+                                Save Privacy Settings
+                            </Button>
+                        </div>
+                    </div>
+
+                    <LlmAuditLog />
+                </CardContent>
+            </Card>
+
+            {/* AI Usage */}
+            <Card className="shadow-md border-slate-200">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <DollarSign className="h-5 w-5 text-indigo-600" />
+                        AI Usage & Cost
+                    </CardTitle>
+                    <CardDescription>
+                        Tokens used with your own API keys, as reported by each provider, and what they are estimated to cost.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <LlmUsage providers={llmProviders} />
+                </CardContent>
+            </Card>
+
             {/* API Key Management */}
             <Card className="shadow-md border-slate-200">
                 <CardHeader>
@@ -8,6 +8,7 @@ import { Category } from "@/pages/Categories";
 import { CategorySelector } from "@/components/category-selector";
 import apiClient from "@/lib/api";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
     Select,
     SelectContent,
@@ -15,12 +16,26 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
-import { PlusCircle, Layers, Banknote, Brain } from "lucide-react";
+import { PlusCircle, Layers, Banknote, Brain, Check, Tag, X, ArrowLeftRight } from "lucide-react";
 import { BalanceAdjustmentDialog } from "@/components/BalanceAdjustmentDialog";
 import { TransactionFormDialog } from "@/components/TransactionFormDialog";
+import {
+    ClassificationJob,
+    ClassificationJobProgress,
+    describeJob,
+    isJobActive,
+} from "@/components/classification-job-progress";
+import { SearchSuggestion } from "@/components/search-query-input";
+import { TransferReview } from "@/components/transfer-review";
 import { SortingState } from "@tanstack/react-table";
 import { RowSelectionState } from "@tanstack/react-table";
 
+// Mirrors TagUsage in backend/src/services/tagService.ts
+interface TagUsage {
+    tag: string;
+    count: number;
+}
+
 interface TransactionResponse {
     data: Transaction[];
     pagination: {
@@ -38,10 +53,14 @@ const TransactionsPage: React.FC = () => {
     const initialMonth = searchParams.get("month") || "";
     const initialStartDate = searchParams.get("startDate") || "";
     const initialEndDate = searchParams.get("endDate") || "";
+    const initialReview = searchParams.get("review") || "all";
+    const initialTag = searchParams.get("tags") || "all";
+    const initialPayeeId = searchParams.get("payeeId") || "";
 
     const [data, setData] = useState<Transaction[]>([]);
     const [accounts, setAccounts] = useState<Account[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
+    const [tags, setTags] = useState<TagUsage[]>([]);
 
     // Filters and Search
     const [selectedAccountId, setSelectedAccountId] =
@@ -53,6 +72,10 @@ const TransactionsPage: React.FC = () => {
         useState<string>(initialStartDate);
     const [selectedEndDate, setSelectedEndDate] =
         useState<string>(initialEndDate);
+    const [selectedReview, setSelectedReview] =
+        useState<string>(initialReview);
+    const [selectedTag, setSelectedTag] = useState<string>(initialTag);
+    const [selectedPayeeId, setSelectedPayeeId] = useState<string>(initialPayeeId);
     const [searchQuery, setSearchQuery] = useState<string>("");
     const [sorting, setSorting] = useState<SortingState>([]);
 
@@ -61,6 +84,8 @@ const TransactionsPage: React.FC = () => {
     const [hasMore, setHasMore] = useState<boolean>(true);
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    // A search the backend couldn't understand; shown without replacing the table so it can be fixed
+    const [searchError, setSearchError] = useState<string | null>(null);
 
     // Bulk Actions
     const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
@@ -72,11 +97,17 @@ const TransactionsPage: React.FC = () => {
         const month = searchParams.get("month") || "";
         const startDate = searchParams.get("startDate") || "";
         const endDate = searchParams.get("endDate") || "";
+        const review = searchParams.get("review") || "all";
+        const tag = searchParams.get("tags") || "all";
+        const payeeId = searchParams.get("payeeId") || "";
         setSelectedAccountId(accountId);
         setSelectedCategoryId(categoryId);
         setSelectedMonth(month);
         setSelectedStartDate(startDate);
         setSelectedEndDate(endDate);
+        setSelectedReview(review);
+        setSelectedTag(tag);
+        setSelectedPayeeId(payeeId);
     }, [searchParams]);
 
     const handleAccountChange = (value: string) => {
@@ -98,9 +129,40 @@ const TransactionsPage: React.FC = () => {
         }
         setSearchParams(newParams);
     };
+
+    const handleReviewChange = (value: string) => {
+        const newParams = new URLSearchParams(searchParams);
+        if (value === "all") {
+            newParams.delete("review");
+        } else {
+            newParams.set("review", value);
+        }
+        setSearchParams(newParams);
+    };
+
+    const handleTagChange = (value: string) => {
+        const newParams = new URLSearchParams(searchParams);
+        if (value === "all") {
+            newParams.delete("tags");
+        } else {
+            newParams.set("tags", value);
+        }
+        setSearchParams(newParams);
+    };
+
+    const handleClearPayee = () => {
+        const newParams = new URLSearchParams(searchParams);
+        newParams.delete("payeeId");
+        setSearchParams(newParams);
+    };
     const [bulkCategoryId, setBulkCategoryId] = useState<string>("");
+    const [bulkTags, setBulkTags] = useState<string>("");
     const [showBalanceDialog, setShowBalanceDialog] = useState(false);
     const [showCreateDialog, setShowCreateDialog] = useState(false);
+    const [classificationJobId, setClassificationJobId] = useState<string | null>(null);
+    const [matchingTransfers, setMatchingTransfers] = useState(false);
+    // Bumped after a scan so the review list reloads
+    const [transferReviewKey, setTransferReviewKey] = useState(0);
     const abortControllerRef = useRef<AbortController | null>(null);
 
     const fetchTransactions = async (
@@ -113,6 +175,9 @@ const TransactionsPage: React.FC = () => {
             month: string;
             startDate: string;
             endDate: string;
+            review: string;
+            tag: string;
+            payeeId: string;
         },
     ) => {
         const currentAccountId = filters
@@ -124,6 +189,9 @@ const TransactionsPage: React.FC = () => {
         const currentMonth = filters ? filters.month : selectedMonth;
         const currentStartDate = filters ? filters.startDate : selectedStartDate;
         const currentEndDate = filters ? filters.endDate : selectedEndDate;
+        const currentReview = filters ? filters.review : selectedReview;
+        const currentTag = filters ? filters.tag : selectedTag;
+        const currentPayeeId = filters ? filters.payeeId : selectedPayeeId;
         const currentSearchQuery = filters ? filters.search : searchQuery;
 
         if (reset) {
@@ -178,6 +246,15 @@ const TransactionsPage: React.FC = () => {
             if (currentEndDate) {
                 params.endDate = currentEndDate;
             }
+            if (currentReview && currentReview !== "all") {
+                params.review = currentReview;
+            }
+            if (currentTag && currentTag !== "all") {
+                params.tags = currentTag;
+            }
+            if (currentPayeeId) {
+                params.payeeId = currentPayeeId;
+            }
 
             const response = await apiClient.get<TransactionResponse>(
                 "/transactions",
@@ -200,11 +277,18 @@ const TransactionsPage: React.FC = () => {
             );
             setPage(currentPage + 1);
             setError(null);
+            setSearchError(null);
         } catch (err: any) {
             if (err.name === "CanceledError" || err.code === "ERR_CANCELED") {
                 console.log("Request canceled");
                 return;
             }
+            if (err.response?.status === 400 && currentSearchQuery) {
+                setSearchError(err.response.data?.error || "Invalid search");
+                setData([]);
+                setHasMore(false);
+                return;
+            }
             console.error("Failed to fetch transactions:", err);
             setError(
                 "Failed to load transactions. Please check the backend connection.",
@@ -216,6 +300,15 @@ const TransactionsPage: React.FC = () => {
         }
     };
 
+    const fetchTags = async () => {
+        try {
+            const res = await apiClient.get<TagUsage[]>("/transactions/tags");
+            setTags(Array.isArray(res.data) ? res.data : []);
+        } catch (err) {
+            console.error("Failed to fetch tags:", err);
+        }
+    };
+
     // Initial Data Fetch
     useEffect(() => {
         const fetchMetadata = async () => {
@@ -229,11 +322,17 @@ const TransactionsPage: React.FC = () => {
 
                 setAccounts(Array.isArray(accRes.data) ? accRes.data : []);
                 setCategories(Array.isArray(catRes.data) ? catRes.data : []);
+
+                // Pick up a classification job that's still running, e.g. after a reload
+                const jobsRes = await apiClient.get<ClassificationJob[]>("/classification/jobs");
+                const activeJob = (jobsRes.data || []).find(isJobActive);
+                if (activeJob) setClassificationJobId(activeJob.id);
             } catch (err) {
                 console.error("Failed to fetch metadata:", err);
             }
         };
         fetchMetadata();
+        fetchTags();
     }, []);
 
     // Fetch on filter change
@@ -258,6 +357,9 @@ const TransactionsPage: React.FC = () => {
                 month: selectedMonth,
                 startDate: selectedStartDate,
                 endDate: selectedEndDate,
+                review: selectedReview,
+                tag: selectedTag,
+                payeeId: selectedPayeeId,
                 search: searchQuery,
             });
         }, 300);
@@ -268,7 +370,7 @@ const TransactionsPage: React.FC = () => {
                 abortControllerRef.current.abort();
             }
         };
-    }, [selectedAccountId, selectedCategoryId, selectedMonth, selectedStartDate, selectedEndDate, searchQuery, sorting]);
+    }, [selectedAccountId, selectedCategoryId, selectedMonth, selectedStartDate, selectedEndDate, selectedReview, selectedTag, selectedPayeeId, searchQuery, sorting]);
 
     const handleLoadMore = () => {
         if (!loading && hasMore) {
@@ -300,28 +402,76 @@ const TransactionsPage: React.FC = () => {
         }
     };
 
+    const handleBulkTags = async (action: "add" | "remove") => {
+        const selectedIds = Object.keys(rowSelection);
+        const tagList = bulkTags.split(",").map((tag) => tag.trim()).filter(Boolean);
+        if (selectedIds.length === 0 || tagList.length === 0) return;
+
+        try {
+            await apiClient.post("/transactions/bulk-update", {
+                transactionIds: selectedIds,
+                [action === "add" ? "addTags" : "removeTags"]: tagList,
+            });
+            setRowSelection({});
+            setBulkTags("");
+            fetchTransactions(true, 1);
+            fetchTags();
+        } catch (err) {
+            console.error("Failed to update tags:", err);
+            alert("Failed to update tags.");
+        }
+    };
+
+    const handleBulkAccept = async () => {
+        const selectedIds = Object.keys(rowSelection);
+        if (selectedIds.length === 0) return;
+
+        try {
+            await apiClient.post("/classification/review/accept", {
+                transactionIds: selectedIds,
+            });
+            setRowSelection({});
+            fetchTransactions(true, 1);
+        } catch (err) {
+            console.error("Failed to accept categories:", err);
+            alert("Failed to accept categories.");
+        }
+    };
+
     const handleAutoClassify = async () => {
-        const confirmMsg = "This will use your configured AI provider to classify uncategorized transactions. Continue?";
+        const confirmMsg = "This will run your rules and the model trained on your history, then use your configured AI provider for the rest. Continue?";
         if (!confirm(confirmMsg)) return;
 
-        setLoading(true);
         try {
-            const res = await apiClient.post("/classification/auto-classify", {});
-            const count = res.data.categorized_count || 0;
-            const details = res.data.results || [];
-
-            let msg = `Successfully categorized ${count} transactions.`;
-            if (count > 0) {
-                msg += `\n\nSample: ${details.slice(0, 3).map((d: any) => `${d.description} -> ${d.category}`).join("\n")}`;
-            }
-            alert(msg);
-            fetchTransactions(true);
+            const res = await apiClient.post<ClassificationJob>("/classification/auto-classify", {});
+            setClassificationJobId(res.data.id);
         } catch (err: any) {
             console.error("Auto-classify failed:", err);
             const errMsg = err.response?.data?.error || "Classification failed. Ensure you have an AI Integration set up in Settings.";
             alert(errMsg);
+        }
+    };
+
+    const handleMatchTransfers = async () => {
+        setMatchingTransfers(true);
+        try {
+            const res = await apiClient.post("/transfers/scan", {});
+            alert(res.data.message);
+            setTransferReviewKey((key) => key + 1);
+            if (res.data.linked > 0) fetchTransactions(true);
+        } catch (err) {
+            console.error("Transfer matching failed:", err);
+            alert("Failed to match transfers.");
         } finally {
-            setLoading(false);
+            setMatchingTransfers(false);
+        }
+    };
+
+    const handleClassificationFinished = (job: ClassificationJob) => {
+        setClassificationJobId(null);
+        fetchTransactions(true);
+        if (job.trigger === "manual") {
+            alert(`Classification ${job.status}: ${describeJob(job)}.${job.last_error ? `\n\n${job.last_error}` : ""}`);
         }
     };
 
@@ -346,6 +496,13 @@ const TransactionsPage: React.FC = () => {
         return flatten(categories);
     }, [categories]);
 
+    const fetchSearchSuggestions = async (term: string) => {
+        const res = await apiClient.get<SearchSuggestion[]>("/transactions/search/suggestions", {
+            params: { term },
+        });
+        return res.data;
+    };
+
     const handleTransactionsUpdated = (updated: Partial<Transaction>[]) => {
         setData((prevData) => {
             const updatedMap = new Map(updated.map((u) => [u.id, u]));
@@ -376,6 +533,7 @@ const TransactionsPage: React.FC = () => {
                 categories={categories}
                 accounts={accounts}
                 onSearch={setSearchQuery}
+                fetchSearchSuggestions={fetchSearchSuggestions}
                 onLoadMore={handleLoadMore}
                 hasMore={hasMore}
                 isLoading={loading}
@@ -402,10 +560,14 @@ const TransactionsPage: React.FC = () => {
                         </p>
                     </div>
                     <div className="flex gap-2">
-                        <Button variant="secondary" onClick={handleAutoClassify} className="gap-2 bg-indigo-100 text-indigo-700 hover:bg-indigo-200 border-indigo-200">
+                        <Button variant="secondary" onClick={handleAutoClassify} disabled={!!classificationJobId} className="gap-2 bg-indigo-100 text-indigo-700 hover:bg-indigo-200 border-indigo-200">
                             <Brain className="h-4 w-4" />
                             Auto Classify
                         </Button>
+                        <Button variant="outline" onClick={handleMatchTransfers} disabled={matchingTransfers}>
+                            <ArrowLeftRight className="mr-2 h-4 w-4" />
+                            {matchingTransfers ? "Matching..." : "Match Transfers"}
+                        </Button>
                         <Button variant="outline" onClick={() => setShowBalanceDialog(true)}>
                             <Banknote className="mr-2 h-4 w-4" />
                             Adjust Balance
@@ -466,6 +628,57 @@ const TransactionsPage: React.FC = () => {
                                 ))}
                             </SelectContent>
                         </Select>
+
+                        <Select
+                            value={selectedReview}
+                            onValueChange={handleReviewChange}
+                        >
+                            <SelectTrigger className="w-[240px]">
+                                <SelectValue placeholder="Filter by Review" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">
+                                    Any Review Status
+                                </SelectItem>
+                                <SelectItem value="unreviewed">
+                                    Auto-categorised, unreviewed
+                                </SelectItem>
+                                <SelectItem value="needs_review">
+                                    Needs review
+                                </SelectItem>
+                            </SelectContent>
+                        </Select>
+
+                        <Select
+                            value={selectedTag}
+                            onValueChange={handleTagChange}
+                        >
+                            <SelectTrigger className="w-[180px]">
+                                <SelectValue placeholder="Filter by Tag" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">
+                                    All Tags
+                                </SelectItem>
+                                {selectedTag !== "all" && !tags.some((t) => t.tag === selectedTag) && (
+                                    <SelectItem value={selectedTag}>
+                                        #{selectedTag}
+                                    </SelectItem>
+                                )}
+                                {tags.map((t) => (
+                                    <SelectItem key={t.tag} value={t.tag}>
+                                        #{t.tag} ({t.count})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        {selectedPayeeId && (
+                            <Button variant="secondary" onClick={handleClearPayee}>
+                                Payee: {data[0]?.payee || "selected"}
+                                <X className="ml-2 h-4 w-4" />
+                            </Button>
+                        )}
                     </div>
 
                     {Object.keys(rowSelection).length > 0 && (
@@ -488,10 +701,63 @@ const TransactionsPage: React.FC = () => {
                                 <Layers className="mr-2 h-4 w-4" />
                                 Apply
                             </Button>
+                            <Input
+                                value={bulkTags}
+                                onChange={(e) => setBulkTags(e.target.value)}
+                                placeholder="Tags, comma separated"
+                                className="h-9 w-[200px]"
+                                list="transaction-tags"
+                            />
+                            <datalist id="transaction-tags">
+                                {tags.map((t) => (
+                                    <option key={t.tag} value={t.tag} />
+                                ))}
+                            </datalist>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleBulkTags("add")}
+                                disabled={!bulkTags.trim()}
+                            >
+                                <Tag className="mr-2 h-4 w-4" />
+                                Add Tags
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleBulkTags("remove")}
+                                disabled={!bulkTags.trim()}
+                            >
+                                <X className="mr-2 h-4 w-4" />
+                                Remove Tags
+                            </Button>
+                            {selectedReview !== "all" && (
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={handleBulkAccept}
+                                >
+                                    <Check className="mr-2 h-4 w-4" />
+                                    Accept
+                                </Button>
+                            )}
                         </div>
                     )}
                 </div>
+                {classificationJobId && (
+                    <ClassificationJobProgress
+                        jobId={classificationJobId}
+                        onFinished={handleClassificationFinished}
+                    />
+                )}
             </div>
+            <TransferReview
+                key={transferReviewKey}
+                onLinked={() => fetchTransactions(true)}
+            />
+            {searchError && (
+                <p className="mb-2 text-sm text-red-500">{searchError}</p>
+            )}
             {renderContent()}
             <BalanceAdjustmentDialog
                 open={showBalanceDialog}